@@ -0,0 +1,96 @@
+import { AtfmRegulation, BriefingRole, FlightPlan } from '@/lib/homebriefing/types';
+import { isVfrAt } from '@/lib/homebriefing/briefing/met';
+
+// ATFM for the mock: Schiphol has arrival and departure regulations during the
+// day, so IFR flights from or to EHAM get a slot (CTOT) and a SAM message.
+
+interface MockRegulation {
+  location: string;
+  role: BriefingRole;     // Departures or arrivals
+  reason: string;
+  description: string;
+  delay: number;          // Minutes
+}
+
+const REGULATIONS: MockRegulation[] = [
+  { location: 'EHAM', role: 'destination', reason: 'G', description: 'RWY 18R/36L CLSD, REDUCED ARRIVAL CAPACITY', delay: 25 },
+  { location: 'EHAM', role: 'departure', reason: 'W', description: 'LOW VISIBILITY PROCEDURES EXPECTED', delay: 15 },
+];
+
+const ACTIVE_FROM = 6;    // UTC hours
+const ACTIVE_TO = 22;
+const TAXI_TIME = 10;     // Minutes between off-block and take-off
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
+
+function toIso(date: Date): string {
+  return date.toISOString().slice(0, 17) + '00Z';
+}
+
+// "0935"
+function toHhmm(iso: string): string {
+  return iso.slice(11, 13) + iso.slice(14, 16);
+}
+
+// Regulation as it's active on the day of `time`, EHAMA20A for the arrivals at EHAM on the 20th
+function toRegulation(regulation: MockRegulation, time: Date): AtfmRegulation {
+  const day = new Date(Date.UTC(time.getUTCFullYear(), time.getUTCMonth(), time.getUTCDate()));
+  return {
+    regId: `${regulation.location}${regulation.role === 'departure' ? 'D' : 'A'}${pad(day.getUTCDate())}A`,
+    location: regulation.location,
+    reason: regulation.reason,
+    validFrom: toIso(new Date(day.getTime() + ACTIVE_FROM * 60 * 60 * 1000)),
+    validTo: toIso(new Date(day.getTime() + ACTIVE_TO * 60 * 60 * 1000)),
+    description: regulation.description,
+  };
+}
+
+// Regulations the IFR part of a flight runs into, the worst delay first
+function findRegulations(fp: FlightPlan): { regulation: AtfmRegulation; delay: number }[] {
+  const offBlock = new Date(fp.eobdt);
+  const eta = new Date(offBlock.getTime() + (TAXI_TIME + fp.totalEet) * 60 * 1000);
+
+  return REGULATIONS
+    .filter((regulation) => {
+      const location = regulation.role === 'departure' ? fp.adep : fp.ades;
+      const hour = (regulation.role === 'departure' ? offBlock : eta).getUTCHours();
+      return location === regulation.location && !isVfrAt(fp.flRules, [regulation.role])
+        && hour >= ACTIVE_FROM && hour < ACTIVE_TO;
+    })
+    .sort((a, b) => b.delay - a.delay)
+    .map((regulation) => ({ regulation: toRegulation(regulation, offBlock), delay: regulation.delay }));
+}
+
+// GetERegulationByFlId: only flights that hold a slot are regulated
+export function getRegulations(fp: FlightPlan): AtfmRegulation[] {
+  return fp.ctot ? findRegulations(fp).map(({ regulation }) => regulation) : [];
+}
+
+// Slot for the current EOBT, undefined when the flight isn't regulated
+export function allocateSlot(fp: FlightPlan): { ctot: string; regId: string } | undefined {
+  const [worst] = findRegulations(fp);
+  if (!worst) return undefined;
+  const ctot = new Date(new Date(fp.eobdt).getTime() + (TAXI_TIME + worst.delay) * 60 * 1000);
+  return { ctot: toIso(ctot), regId: worst.regulation.regId };
+}
+
+// SAM (slot allocation), SRM (slot revision) or SLC (slot cancelled) in ADEXP
+export function renderSlotMessage(title: 'SAM' | 'SRM' | 'SLC', fp: FlightPlan, regId?: string): string {
+  const eobd = fp.eobdt.slice(2, 4) + fp.eobdt.slice(5, 7) + fp.eobdt.slice(8, 10);
+  const fields = [
+    `-TITLE ${title}`,
+    `-ARCID ${fp.arcid}`,
+    `-ADEP ${fp.adep}`,
+    `-ADES ${fp.ades}`,
+    `-EOBD ${eobd}`,
+    `-EOBT ${toHhmm(fp.eobdt)}`,
+  ];
+  if (title === 'SLC') {
+    fields.push('-REASON VOID');
+  } else if (fp.ctot) {
+    fields.push(`-CTOT ${toHhmm(fp.ctot)}`, `-REGUL ${regId}`, `-TAXITIME 00${pad(TAXI_TIME)}`);
+  }
+  return fields.join(' ');
+}
@@ -0,0 +1,80 @@
+import { deflateSync } from 'zlib';
+
+// Renders the captcha digits as a PNG, the login page shows it through /api/auth/captcha as image/png
+
+// 3x5 bitmap font, one string per row
+const DIGITS: Record<string, string[]> = {
+  '0': ['###', '#.#', '#.#', '#.#', '###'],
+  '1': ['.#.', '##.', '.#.', '.#.', '###'],
+  '2': ['###', '..#', '###', '#..', '###'],
+  '3': ['###', '..#', '.##', '..#', '###'],
+  '4': ['#.#', '#.#', '###', '..#', '..#'],
+  '5': ['###', '#..', '###', '..#', '###'],
+  '6': ['###', '#..', '###', '#.#', '###'],
+  '7': ['###', '..#', '.#.', '.#.', '.#.'],
+  '8': ['###', '#.#', '###', '#.#', '###'],
+  '9': ['###', '#.#', '###', '..#', '###'],
+};
+
+const SCALE = 6;
+const PADDING = 2;    // In font pixels
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function pngChunk(type: string, data: Buffer): Buffer {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const typeAndData = Buffer.concat([Buffer.from(type, 'ascii'), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(typeAndData));
+  return Buffer.concat([length, typeAndData, crc]);
+}
+
+export function renderCaptchaPng(text: string): Buffer {
+  const glyphs = text.split('').map((char) => DIGITS[char] || DIGITS['0']);
+  const width = (glyphs.length * 4 - 1 + PADDING * 2) * SCALE;
+  const height = (5 + PADDING * 2) * SCALE;
+
+  // 8-bit grayscale scanlines, each prefixed with filter type 0
+  const raw = Buffer.alloc((width + 1) * height, 0xff);
+  for (let y = 0; y < height; y++) {
+    raw[y * (width + 1)] = 0;
+    const row = Math.floor(y / SCALE) - PADDING;
+    if (row < 0 || row >= 5) continue;
+
+    for (let x = 0; x < width; x++) {
+      const col = Math.floor(x / SCALE) - PADDING;
+      const glyph = glyphs[Math.floor(col / 4)];
+      if (col >= 0 && col % 4 < 3 && glyph?.[row][col % 4] === '#') {
+        raw[y * (width + 1) + 1 + x] = 0x20;
+      }
+    }
+  }
+
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = 8;    // Bit depth
+  header[9] = 0;    // Grayscale
+
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk('IHDR', header),
+    pngChunk('IDAT', deflateSync(raw)),
+    pngChunk('IEND', Buffer.alloc(0)),
+  ]);
+}
@@ -0,0 +1,213 @@
+import { escapeXml } from '@/lib/homebriefing/soap';
+
+// Methods of dataHandler.php (getNotamsForArp, getNotamsFromRectangle,
+// getPointsForFpl, getAircraftList). Answers are XML documents with a
+// <${method}Result> root, NOTAM code and description are HTML snippets like
+// the real service sends.
+
+interface MockPoint {
+  lat: number;
+  lng: number;
+}
+
+// Aerodromes and navaids the mock can place on a route
+const AERODROMES: Record<string, MockPoint> = {
+  EHLE: { lat: 52.46, lng: 5.52 },
+  EHTE: { lat: 52.24, lng: 6.05 },
+  EHAM: { lat: 52.31, lng: 4.76 },
+  EHRD: { lat: 51.96, lng: 4.44 },
+  EHGG: { lat: 53.12, lng: 6.58 },
+  EHKD: { lat: 52.92, lng: 4.78 },
+  EHMZ: { lat: 51.51, lng: 3.73 },
+  EHSE: { lat: 51.55, lng: 4.55 },
+  EHBK: { lat: 50.91, lng: 5.77 },
+  EHEH: { lat: 51.45, lng: 5.37 },
+  LZIB: { lat: 48.17, lng: 17.21 },
+  LZPP: { lat: 48.63, lng: 17.83 },
+};
+
+const NAVAIDS: Record<string, MockPoint> = {
+  SPY: { lat: 52.54, lng: 4.85 },
+  PAM: { lat: 52.33, lng: 5.09 },
+  EEL: { lat: 53.16, lng: 6.67 },
+  WOODY: { lat: 52.42, lng: 5.29 },
+  NIT: { lat: 48.32, lng: 18.06 },
+};
+
+interface MockNotam {
+  id: string;
+  location: string;         // Item A)
+  position: MockPoint;      // Centre of the Q) line, for area queries
+  from: number;             // Hours after the mock started
+  to: number | 'PERM';
+  schedule?: string;
+  text: string;
+}
+
+// Validity is relative to the time the mock was started, so there is always
+// something in force, something permanent and something outside the flight
+const NOTAMS: MockNotam[] = [
+  { id: 'A0412/26', location: 'EHLE', position: AERODROMES.EHLE, from: -48, to: 'PERM', text: 'TWY C CLSD PERMANENTLY.' },
+  { id: 'A0419/26', location: 'EHLE', position: AERODROMES.EHLE, from: -2, to: 6, text: 'RWY 05/23 WIP ALONG NORTH EDGE. MEN AND EQPT.' },
+  { id: 'A0433/26', location: 'EHLE', position: AERODROMES.EHLE, from: 72, to: 96, text: 'AD CLSD DUE TO AIRSHOW.' },
+  { id: 'A0501/26', location: 'EHTE', position: AERODROMES.EHTE, from: -24, to: 24, schedule: 'DAILY 0700-1600', text: 'PARACHUTE JUMPING EXERCISES WI 2NM RADIUS OF AD.' },
+  { id: 'A0517/26', location: 'EHTE', position: AERODROMES.EHTE, from: -240, to: 'PERM', text: 'AVGAS NOT AVBL.' },
+  { id: 'A1203/26', location: 'EHAM', position: AERODROMES.EHAM, from: -12, to: 36, text: 'RWY 18R/36L CLSD.' },
+  { id: 'B0215/26', location: 'EHAA', position: NAVAIDS.PAM, from: -1, to: 8, text: 'UNAUTHORIZED DRONE FLIGHTS REPORTED IN VICINITY OF PAM VOR. PILOTS EXER CAUTION.' },
+  { id: 'B0231/26', location: 'EHAA', position: NAVAIDS.WOODY, from: -6, to: 30, text: 'TEMPO RESTRICTED AREA EHR99 ACT SFC-2500FT AMSL.' },
+  { id: 'B0240/26', location: 'EHAA', position: NAVAIDS.SPY, from: -480, to: 'PERM', text: 'SPY VOR/DME FREQ CHANGED TO 113.950 MHZ.' },
+  { id: 'A0871/26', location: 'LZIB', position: AERODROMES.LZIB, from: -5, to: 19, text: 'ILS RWY 22 U/S.' },
+  { id: 'A0902/26', location: 'LZPP', position: AERODROMES.LZPP, from: -72, to: 'PERM', text: 'PPR FOR VFR FLIGHTS, TEL +421 33 77 22 111.' },
+  { id: 'C0120/26', location: 'LZBB', position: NAVAIDS.NIT, from: -3, to: 5, text: 'GLIDER ACTIVITY WI 5NM RADIUS OF NIT.' },
+];
+
+const startedAt = Date.now();
+
+// Hours after the mock started -> NOTAM date/time group YYMMDDHHMM
+function notamDate(hoursFromStart: number): string {
+  const date = new Date(startedAt + hoursFromStart * 60 * 60 * 1000);
+  return date.toISOString().slice(2, 16).replace(/[-T:]/g, '');
+}
+
+// 52.46 -> "5228N", 5.52 -> "00531E"
+function qLinePosition(point: MockPoint): string {
+  const format = (value: number, width: number, positive: string, negative: string) => {
+    const minutes = Math.round(Math.abs(value) * 60);
+    const degrees = String(Math.floor(minutes / 60)).padStart(width, '0');
+    return `${degrees}${String(minutes % 60).padStart(2, '0')}${value < 0 ? negative : positive}`;
+  };
+  return format(point.lat, 2, 'N', 'S') + format(point.lng, 3, 'E', 'W');
+}
+
+function notamXml(notam: MockNotam): string {
+  const to = notam.to === 'PERM' ? 'PERM' : notamDate(notam.to);
+  const fir = notam.location.startsWith('LZ') ? 'LZBB' : 'EHAA';
+  const description = [
+    `Q) ${fir}/QXXXX/IV/NBO/AE/000/999/${qLinePosition(notam.position)}005`,
+    `A) ${notam.location} B) ${notamDate(notam.from)} C) ${to}`,
+    notam.schedule ? `D) ${notam.schedule}` : '',
+    `E) ${notam.text}`,
+  ].filter(Boolean).join('<br/>');
+
+  return '<AdNotam>' +
+    `<code>${escapeXml(`<b>${notam.id}</b>`)}</code>` +
+    '<status>NEW</status>' +
+    `<description>${escapeXml(description)}</description>` +
+    `<geometry>POINT(${notam.position.lng} ${notam.position.lat})</geometry>` +
+    '</AdNotam>';
+}
+
+// NOTAMs not yet expired at `date`
+function inForceFrom(date: Date): MockNotam[] {
+  const hours = (date.getTime() - startedAt) / (60 * 60 * 1000);
+  return NOTAMS.filter((notam) => notam.to === 'PERM' || notam.to >= hours);
+}
+
+function result(method: string, content: string, attributes = ''): string {
+  return `<?xml version="1.0" encoding="UTF-8"?><${method}Result${attributes}>${content}</${method}Result>`;
+}
+
+function handleNotamsForArp(params: URLSearchParams): string {
+  const code = (params.get('aArpCode') || '').toUpperCase();
+  const date = new Date(params.get('aDate') || Date.now());
+  const notams = inForceFrom(isNaN(date.getTime()) ? new Date() : date).filter((notam) => notam.location === code);
+  return result('getNotamsForArp', notams.map(notamXml).join(''));
+}
+
+// Corners are in arc seconds
+function handleNotamsFromRectangle(params: URLSearchParams): string {
+  const [lat1, lng1, lat2, lng2] = ['lat1', 'lng1', 'lat2', 'lng2'].map((name) => parseInt(params.get(name) || '') / 3600);
+  const date = new Date(params.get('aDateTime') || Date.now());
+  const notams = inForceFrom(isNaN(date.getTime()) ? new Date() : date).filter(({ position }) =>
+    position.lat >= Math.min(lat1, lat2) && position.lat <= Math.max(lat1, lat2) &&
+    position.lng >= Math.min(lng1, lng2) && position.lng <= Math.max(lng1, lng2)
+  );
+  return result('getNotamsFromRectangle', notams.map(notamXml).join(''));
+}
+
+// "5230N00430E" -> decimal degrees
+function parseCoordinates(token: string): MockPoint | undefined {
+  const match = token.match(/^(\d{2})(\d{2})?([NS])(\d{3})(\d{2})?([EW])$/);
+  if (!match) return undefined;
+  const lat = (parseInt(match[1]) + parseInt(match[2] || '0') / 60) * (match[3] === 'S' ? -1 : 1);
+  const lng = (parseInt(match[4]) + parseInt(match[5] || '0') / 60) * (match[6] === 'W' ? -1 : 1);
+  return { lat, lng };
+}
+
+// Bearing and distance from a navaid ("SPY090010"), flat-earth is close enough here
+function offsetPoint(navaid: MockPoint | undefined, bearing: number, distance: number): MockPoint | undefined {
+  if (!navaid) return undefined;
+  const course = (bearing * Math.PI) / 180;
+  return {
+    lat: navaid.lat + (distance / 60) * Math.cos(course),
+    lng: navaid.lng + (distance / 60) * Math.sin(course) / Math.cos((navaid.lat * Math.PI) / 180),
+  };
+}
+
+// ADEP, the route points the mock knows and ADES. Unknown points are listed
+// with type UNKNOWN and a message, like Homebriefing does.
+function handlePointsForFpl(params: URLSearchParams): string {
+  const adexp = params.get('Fpl') || '';
+  const getField = (name: string) => adexp.match(new RegExp(`-${name} ([^-]*)`))?.[1].trim() || '';
+
+  const points: string[] = [];
+  const messages: string[] = [];
+  const addPoint = (name: string, type: string, point?: MockPoint) => {
+    points.push(`<FplPoint><name>${escapeXml(name)}</name><type>${point ? type : 'UNKNOWN'}</type>` +
+      `<lat>${point ? point.lat.toFixed(6) : ''}</lat><lng>${point ? point.lng.toFixed(6) : ''}</lng></FplPoint>`);
+    if (!point) messages.push(`<Message>Unknown point ${escapeXml(name)}</Message>`);
+  };
+
+  const adep = getField('ADEP');
+  const ades = getField('ADES');
+  if (!adep || !ades) {
+    return result('getPointsForFpl', '', ' Error="Missing ADEP or ADES"');
+  }
+
+  addPoint(adep, 'AD', AERODROMES[adep]);
+  for (const token of getField('ROUTE').split(' ').slice(1)) {
+    const name = token.split('/')[0];
+    if (!name || name === 'DCT' || /^(VFR|IFR)$/.test(name) || /^[A-Z]{1,2}\d{1,3}[A-Z]?$/.test(name)) continue;
+    const coordinates = parseCoordinates(name);
+    const bearing = name.match(/^([A-Z]{2,3})(\d{3})(\d{3})$/);
+    if (coordinates) {
+      addPoint(name, 'COORD', coordinates);
+    } else if (bearing) {
+      addPoint(name, 'NAV', offsetPoint(NAVAIDS[bearing[1]], parseInt(bearing[2]), parseInt(bearing[3])));
+    } else {
+      addPoint(name, AERODROMES[name] ? 'AD' : 'NAV', AERODROMES[name] || NAVAIDS[name]);
+    }
+  }
+  addPoint(ades, 'AD', AERODROMES[ades]);
+
+  return result('getPointsForFpl', `${points.join('')}<Messages>${messages.join('')}</Messages>`);
+}
+
+// Aircraft saved in the Homebriefing account, the same for every mock user
+function handleAircraftList(): string {
+  return result('getAircraftList', [
+    '<Aircraft><id>101</id><registration>PHABC</registration><type>C172</type><colourMark>white blue</colourMark>' +
+      '<fuelTotal>200</fuelTotal><fuelTotalUnit>l</fuelTotalUnit><fuelBurn>32</fuelBurn><fuelBurnUnit>l/h</fuelBurnUnit>' +
+      '<turbulency>L</turbulency><ias>105</ias><iasUnit>kt</iasUnit><emergencyRadio>ve</emergencyRadio>' +
+      '<comNav>sdfgy</comNav><comNavEquipment>s</comNavEquipment></Aircraft>',
+    '<Aircraft><id>102</id><registration>PHXYZ</registration><type>PA28</type><colourMark>red white</colourMark>' +
+      '<turbulency>L</turbulency><ias>110</ias><iasUnit>kt</iasUnit><emergencyRadio>e</emergencyRadio>' +
+      '<comNav>sy</comNav><comNavEquipment>c</comNavEquipment></Aircraft>',
+  ].join(''));
+}
+
+const methods: Record<string, (params: URLSearchParams) => string> = {
+  getNotamsForArp: handleNotamsForArp,
+  getNotamsFromRectangle: handleNotamsFromRectangle,
+  getPointsForFpl: handlePointsForFpl,
+  getAircraftList: handleAircraftList,
+};
+
+export function isBriefingMethod(method: string): boolean {
+  return Object.hasOwn(methods, method);
+}
+
+// Handle a briefing method, the caller checks the login first
+export function handleBriefingMethod(method: string, params: URLSearchParams): string {
+  return methods[method](params);
+}
@@ -0,0 +1,446 @@
+import { FlightMessage, FlightPlan, FlightPlanChanges, FlightPlanFormData } from '@/lib/homebriefing/types';
+import { MOBILTECH_NS, SOAP_ENV_NS, SoapFields, SoapValue, XmlElement, escapeXml, findElement, parseXml } from '@/lib/homebriefing/soap';
+import { MockAccount, MockBrowserSession, MockHomebriefing, MockTemplateValues } from './state';
+import { getRegulations } from './atfm';
+import { SYNOP_STATIONS, getMetar, getSynop, getTaf } from './weather';
+
+// ibafProvider.php: dispatches `${operation}Request` envelopes to handlers that
+// read and update the MockHomebriefing state. Responses use the ns1 prefix like Homebriefing.
+
+type Handler = (state: MockHomebriefing, account: MockAccount, request: XmlElement) => SoapFields;
+
+function serializeValue(tag: string, value: SoapValue): string {
+  if (value === undefined) return '';
+  if (Array.isArray(value)) {
+    return value.map((item) => serializeValue(tag, item)).join('');
+  }
+  if (typeof value === 'object') {
+    return `<ns1:${tag}>${serializeFields(value)}</ns1:${tag}>`;
+  }
+  return `<ns1:${tag}>${escapeXml(String(value))}</ns1:${tag}>`;
+}
+
+function serializeFields(fields: SoapFields): string {
+  return Object.entries(fields)
+    .map(([tag, value]) => serializeValue(tag, value))
+    .join('');
+}
+
+function soapResponse(operation: string, fields: SoapFields): string {
+  return `<?xml version="1.0" encoding="UTF-8"?><SOAP-ENV:Envelope xmlns:SOAP-ENV="${SOAP_ENV_NS}" xmlns:ns1="${MOBILTECH_NS}"><SOAP-ENV:Body><ns1:${operation}Response>${serializeFields(fields)}</ns1:${operation}Response></SOAP-ENV:Body></SOAP-ENV:Envelope>`;
+}
+
+export function soapFault(faultCode: string, faultString: string): string {
+  return `<?xml version="1.0" encoding="UTF-8"?><SOAP-ENV:Envelope xmlns:SOAP-ENV="${SOAP_ENV_NS}"><SOAP-ENV:Body><SOAP-ENV:Fault><faultcode>SOAP-ENV:${faultCode}</faultcode><faultstring>${escapeXml(faultString)}</faultstring></SOAP-ENV:Fault></SOAP-ENV:Body></SOAP-ENV:Envelope>`;
+}
+
+// Request field text, '' when missing
+function field(el: XmlElement | undefined, tag: string): string {
+  return el ? findElement(el, tag)?.text.trim() ?? '' : '';
+}
+
+// Request field that is only present when sent (CHG FlAttributes)
+function optionalField(el: XmlElement | undefined, tag: string): string | undefined {
+  return el ? findElement(el, tag)?.text.trim() : undefined;
+}
+
+function flagValue(value: boolean): string {
+  return value ? '1' : '0';
+}
+
+function flightPlanFields(fp: FlightPlan): SoapFields {
+  return {
+    FlId: fp.flId,
+    ARCID: fp.arcid,
+    FlRules: fp.flRules,
+    FlType: fp.flType,
+    ArcNum: fp.arcNum,
+    ArcType: fp.arcType,
+    WakeTurbulenceCat: fp.wakeTurbulenceCat,
+    Equipment: fp.equipment,
+    ADEP: fp.adep,
+    ADES: fp.ades,
+    ADAltn1: fp.adAltn1,
+    ADAltn2: fp.adAltn2,
+    EOBDT: fp.eobdt,
+    FlSpeed: fp.flSpeed,
+    FlLevel: fp.flLevel,
+    FlRoute: fp.flRoute,
+    TotalEET: fp.totalEet,
+    FlOther: fp.flOther,
+    FlSuplementary: fp.flSuplementary,
+    FlStatusCode: fp.flStatusCode,
+    FlStatusStr: fp.flStatusStr,
+    FlCanDo: fp.flCanDo,
+    CTOT: fp.ctot,
+  };
+}
+
+function messageFields(msg: FlightMessage): SoapFields {
+  return {
+    FlMsgId: msg.flMsgId,
+    IsIncome: flagValue(msg.isIncome),
+    MsgTime: msg.msgTime,
+    MsgType: msg.msgType,
+    StatusCode: msg.statusCode,
+    StatusDesc: msg.statusDesc,
+    SenderId: msg.senderId,
+    SenderName: msg.senderName,
+    MsgTxt: msg.msgTxt,
+    toAFTNAddr: msg.toAftnAddr,
+    AftnSender: msg.aftnSender,
+    AftnSendTime: msg.aftnSendTime,
+  };
+}
+
+function readFormData(request: XmlElement): FlightPlanFormData {
+  const attributes = findElement(request, 'FlAttributes');
+  return {
+    arcid: field(attributes, 'ARCID'),
+    flRules: field(attributes, 'FlRules') as FlightPlanFormData['flRules'],
+    flType: field(attributes, 'FlType') as FlightPlanFormData['flType'],
+    arcNum: field(attributes, 'ArcNum'),
+    arcType: field(attributes, 'ArcType'),
+    wakeTurbulenceCat: field(attributes, 'WakeTurbulenceCat') as FlightPlanFormData['wakeTurbulenceCat'],
+    equipment: field(attributes, 'Equipment'),
+    adep: field(attributes, 'ADEP'),
+    eobdt: field(attributes, 'EOBDT'),
+    flSpeed: field(attributes, 'FlSpeed'),
+    flLevel: field(attributes, 'FlLevel'),
+    flRoute: field(attributes, 'FlRoute'),
+    ades: field(attributes, 'ADES'),
+    totalEet: parseInt(field(attributes, 'TotalEET')) || 0,
+    adAltn1: field(attributes, 'ADAltn1'),
+    adAltn2: field(attributes, 'ADAltn2'),
+    flOther: field(attributes, 'FlOther'),
+    flSuplementary: field(attributes, 'FlSuplementary'),
+    pilotTel: field(attributes, 'AddInfoPilottel'),
+  };
+}
+
+function readChanges(request: XmlElement): FlightPlanChanges {
+  const attributes = findElement(request, 'FlAttributes');
+  const totalEet = optionalField(attributes, 'TotalEET');
+  return {
+    flRules: optionalField(attributes, 'FlRules'),
+    flType: optionalField(attributes, 'FlType'),
+    arcNum: optionalField(attributes, 'ArcNum'),
+    arcType: optionalField(attributes, 'ArcType'),
+    wakeTurbulenceCat: optionalField(attributes, 'WakeTurbulenceCat'),
+    equipment: optionalField(attributes, 'Equipment'),
+    eobt: optionalField(attributes, 'EobtVal'),
+    flSpeed: optionalField(attributes, 'FlSpeed'),
+    flLevel: optionalField(attributes, 'FlLevel'),
+    flRoute: optionalField(attributes, 'FlRoute'),
+    adAltn1: optionalField(attributes, 'ADAltn1'),
+    adAltn2: optionalField(attributes, 'ADAltn2'),
+    totalEet: totalEet !== undefined ? parseInt(totalEet) || 0 : undefined,
+    flOther: optionalField(attributes, 'FlOther'),
+    flSuplementary: optionalField(attributes, 'FlSuplementary'),
+  };
+}
+
+const HHMM = /^([01]\d|2[0-3])[0-5]\d$/;
+
+// Field checks of CheckFplValidity, errors are prefixed with the field code like Homebriefing's FplErrors
+function validateFlightPlan(formData: FlightPlanFormData): string[] {
+  const errors: string[] = [];
+  const eobdt = new Date(`${formData.eobdt.replace(' ', 'T')}:00Z`).getTime();
+
+  if (!/^[A-Z0-9]{2,7}$/i.test(formData.arcid)) errors.push('F7 Invalid Aircraft Identification');
+  if (!['V', 'I', 'Y', 'Z'].includes(formData.flRules)) errors.push('F8a Invalid Flight Rules');
+  if (!['S', 'N', 'G', 'M', 'X'].includes(formData.flType)) errors.push('F8b Invalid Type of Flight');
+  if (!/^([A-Z][A-Z0-9]{1,3}|ZZZZ)$/i.test(formData.arcType)) errors.push('F9b Invalid Aircraft Type');
+  if (!['L', 'M', 'H', 'J'].includes(formData.wakeTurbulenceCat)) errors.push('F9c Invalid Wake Turbulence Category');
+  if (!/^[A-Z0-9]+\/[A-Z0-9]+$/i.test(formData.equipment)) errors.push('F10a Invalid Equipment');
+  if (!/^[A-Z]{4}$/i.test(formData.adep)) errors.push('F13a Invalid Departure Aerodrome');
+  if (isNaN(eobdt)) {
+    errors.push('F13b Invalid EOBT');
+  } else if (eobdt < Date.now() - 15 * 60 * 1000) {
+    errors.push('F13b EOBT is in the past');
+  } else if (eobdt > Date.now() + 120 * 60 * 60 * 1000) {
+    errors.push('F13b EOBT is more than 120 hours ahead');
+  }
+  if (!/^(N\d{4}|K\d{4}|M\d{3})$/i.test(formData.flSpeed)) errors.push('F15a Invalid Cruising Speed');
+  if (!/^(F\d{3}|A\d{3}|S\d{4}|M\d{4}|VFR)$/i.test(formData.flLevel)) errors.push('F15b Invalid Cruising Level');
+  if (!formData.flRoute.trim()) errors.push('F15c Route is missing');
+  if (!/^[A-Z]{4}$/i.test(formData.ades)) errors.push('F16a Invalid Destination Aerodrome');
+  if (!(formData.totalEet > 0)) errors.push('F16b Invalid Total EET');
+  if (formData.adAltn1 && !/^[A-Z]{4}$/i.test(formData.adAltn1)) errors.push('F16c Invalid Alternate Aerodrome');
+  if (formData.adAltn2 && !/^[A-Z]{4}$/i.test(formData.adAltn2)) errors.push('F16d Invalid 2nd Alternate Aerodrome');
+
+  return errors;
+}
+
+const ORDER_COLUMNS: Record<string, keyof FlightPlan> = {
+  COL_EOBDT: 'eobdt',
+  COL_ARCID: 'arcid',
+  COL_ADEP: 'adep',
+  COL_ADES: 'ades',
+  COL_ATYP: 'arcType',
+  COL_FR: 'flRules',
+};
+
+// Filters, order and paging shared by GetFPLList and GetFPLArchive
+function flightPlanPage(flightPlans: FlightPlan[], request: XmlElement): SoapFields {
+  const arcid = field(request, 'ARCID').toUpperCase();
+  const adep = field(request, 'ADEP').toUpperCase();
+  const ades = field(request, 'ADES').toUpperCase();
+  const flRules = field(request, 'FlRules') || 'X';
+  // "YYYY-MM-DD HH:mm", only GetFPLArchive sends these
+  const eobtFrom = field(request, 'EOBTFrom');
+  const eobtTill = field(request, 'EOBTTill');
+  const orderColumn = ORDER_COLUMNS[field(request, 'OrderColumn')] || 'eobdt';
+  const descending = field(request, 'OrderType') !== 'ASC';
+  const pageNumber = parseInt(field(request, 'PageNumber')) || 0;
+  const pageItems = parseInt(field(request, 'PageItems')) || 25;
+
+  const matching = flightPlans
+    .filter((fp) =>
+      fp.arcid.startsWith(arcid) &&
+      fp.adep.startsWith(adep) &&
+      fp.ades.startsWith(ades) &&
+      (flRules === 'X' || fp.flRules === flRules) &&
+      (!eobtFrom || fp.eobdt.slice(0, 16).replace('T', ' ') >= eobtFrom) &&
+      (!eobtTill || fp.eobdt.slice(0, 16).replace('T', ' ') <= eobtTill)
+    )
+    .sort((a, b) => {
+      const order = String(a[orderColumn]).localeCompare(String(b[orderColumn]));
+      return descending ? -order : order;
+    });
+
+  return {
+    IsError: '0',
+    FPLsCount: matching.length,
+    TotalPages: Math.ceil(matching.length / pageItems),
+    CurrentPage: pageNumber,
+    FPLsArray: matching.slice(pageNumber * pageItems, (pageNumber + 1) * pageItems).map(flightPlanFields),
+  };
+}
+
+// Flight plan actions share the lookup and the action response
+function flightPlanAction(
+  action: (state: MockHomebriefing, account: MockAccount, fp: FlightPlan, request: XmlElement) => string | undefined
+): Handler {
+  return (state, account, request) => {
+    const fp = state.findFlightPlan(account, parseInt(field(request, 'FlId')));
+    if (!fp) {
+      return { IsError: '1', MsgSent: '0', ErrMsg: 'Flight plan not found' };
+    }
+
+    const error = action(state, account, fp, request);
+    if (error) {
+      return { IsError: '1', MsgSent: '0', ErrMsg: error };
+    }
+    return { IsError: '0', MsgSent: '1' };
+  };
+}
+
+// Rejects actions the flCanDo bitmask doesn't allow
+function checkCanDo(fp: FlightPlan, arrival = false): string | undefined {
+  if (fp.flCanDo === 0) return 'Flight plan is closed';
+  if (fp.flCanDo === 16 && !arrival) return 'Flight is airborne, only ARR can be sent';
+  return undefined;
+}
+
+const handlers: Record<string, Handler> = {
+  GetFPLList: (state, account, request) => {
+    const numHoursAfterEta = parseInt(field(request, 'NumHoursAfterETA')) || 3;
+    return flightPlanPage(state.listCurrent(account, numHoursAfterEta), request);
+  },
+
+  GetFPLArchive: (state, account, request) => flightPlanPage(state.listArchive(account), request),
+
+  GetFlMsgList: (state, account, request) => {
+    const messages = state.getMessages(account, parseInt(field(request, 'FlId')));
+    return {
+      IsError: '0',
+      MsgCount: messages.length,
+      MsgArray: messages.map(messageFields),
+    };
+  },
+
+  GetERegulationByFlId: (state, account, request) => {
+    const fp = state.findFlightPlan(account, parseInt(field(request, 'FlId')));
+    if (!fp) return { IsError: '1', ErrMsg: 'Flight plan not found' };
+    return {
+      IsError: '0',
+      ERegulation: getRegulations(fp).map((regulation) => ({
+        RegId: regulation.regId,
+        Location: regulation.location,
+        Reason: regulation.reason,
+        ValidFrom: regulation.validFrom,
+        ValidTo: regulation.validTo,
+        Description: regulation.description,
+      })),
+    };
+  },
+
+  CheckFplValidity: (_state, _account, request) => {
+    const errors = validateFlightPlan(readFormData(request));
+    return {
+      IsError: '0',
+      FplIsOk: flagValue(errors.length === 0),
+      FplErrors: errors,
+    };
+  },
+
+  SendFplToCaro: (state, account, request) => {
+    const formData = readFormData(request);
+    const errors = validateFlightPlan(formData);
+    if (errors.length > 0) {
+      return { IsError: '1', FplIsSent: '0', ErrMsg: errors.join('; ') };
+    }
+
+    state.fileFlightPlan(account, formData);
+    return { IsError: '0', FplIsSent: '1' };
+  },
+
+  GetFlTplList: (_state, account) => ({
+    IsError: '0',
+    FlTplCount: account.templates.length,
+    FlTplArray: account.templates.map((tpl) => ({ TplId: tpl.tplId, TplName: tpl.tplName })),
+  }),
+
+  GetFlTpl: (state, account, request) => {
+    const template = state.findTemplate(account, parseInt(field(request, 'TplId')));
+    if (!template) {
+      return { IsError: '0', FlTplFound: '0' };
+    }
+
+    return {
+      IsError: '0',
+      FlTplFound: '1',
+      FlTplValues: {
+        FlTplId: { TplId: template.tplId, TplName: template.tplName },
+        ...template.values,
+        // SaveFlTpl takes Field 19 remarks as Remarks_N, GetFlTpl returns them as Remarks_J
+        Remarks_J: template.values.Remarks_N,
+      },
+    };
+  },
+
+  SaveFlTpl: (state, account, request) => {
+    const values = findElement(request, 'FlTplValues');
+    const tplName = field(values, 'TplName');
+    if (!values || !tplName) {
+      return { IsError: '1', ErrMsg: 'Template name is required' };
+    }
+
+    const templateValues: MockTemplateValues = {};
+    for (const child of values.children) {
+      if (child.name !== 'FlTplId') {
+        templateValues[child.name] = child.text.trim();
+      }
+    }
+
+    const tplId = parseInt(field(values, 'TplId')) || undefined;
+    return { IsError: '0', InsertedTplId: state.saveTemplate(account, tplName, tplId, templateValues) };
+  },
+
+  DeleteFlTpl: (state, account, request) => {
+    const tplId = parseInt(field(request, 'TplId'));
+    if (!state.deleteTemplate(account, tplId)) {
+      return { IsError: '1', ErrMsg: 'Template not found' };
+    }
+    return { IsError: '0', DeletedTplId: tplId };
+  },
+
+  GetMetMsg: (_state, _account, request) => {
+    const icaoCode = field(request, 'ICAOCode').toUpperCase();
+    const msgType = field(request, 'MsgType');
+    if (!/^[A-Z]{4}$/.test(icaoCode)) return { IsError: 1, ErrMsg: 'Invalid ICAO code' };
+    if (msgType !== 'METAR' && msgType !== 'TAF') return { IsError: 1, ErrMsg: `Unknown message type ${msgType}` };
+    return {
+      IsError: 0,
+      MetMsg: [{ MsgTxt: msgType === 'METAR' ? getMetar(icaoCode) : getTaf(icaoCode) }],
+    };
+  },
+
+  GetSynopStations: () => ({
+    IsError: 0,
+    SynopStation: SYNOP_STATIONS.map((station) => ({
+      ICAOCode: station.icaoCode,
+      WMOCode: station.wmoCode,
+      StationName: station.name,
+    })),
+  }),
+
+  GetSynopMsg: (_state, _account, request) => {
+    const icaoCode = field(request, 'ICAOCode').toUpperCase();
+    const wmoCode = field(request, 'WMOCode');
+    const station = SYNOP_STATIONS.find((s) => s.wmoCode === wmoCode || (icaoCode && s.icaoCode === icaoCode));
+    return {
+      IsError: 0,
+      MetMsg: station ? [{ MsgTxt: getSynop(station.wmoCode) }] : [],
+    };
+  },
+
+  SendDLA: flightPlanAction((state, account, fp, request) => {
+    const newEobt = field(request, 'EobtVal');
+    if (!HHMM.test(newEobt)) return 'Invalid EOBT';
+    const error = checkCanDo(fp);
+    if (!error) state.delay(account, fp, newEobt);
+    return error;
+  }),
+
+  SendCNL: flightPlanAction((state, account, fp) => {
+    const error = checkCanDo(fp);
+    if (!error) state.cancel(account, fp);
+    return error;
+  }),
+
+  SendDEP: flightPlanAction((state, account, fp, request) => {
+    const departureTime = field(request, 'AtdVal');
+    if (!HHMM.test(departureTime)) return 'Invalid ATD';
+    const error = checkCanDo(fp);
+    if (!error) state.depart(account, fp, departureTime);
+    return error;
+  }),
+
+  SendARR: flightPlanAction((state, account, fp, request) => {
+    const arrivalTime = field(request, 'AtaVal');
+    if (!HHMM.test(arrivalTime)) return 'Invalid ATA';
+    const error = checkCanDo(fp, true);
+    if (!error) state.arrive(account, fp, arrivalTime, field(request, 'DivAD'), field(request, 'NonIcaoDivAD'));
+    return error;
+  }),
+
+  SendCHG: flightPlanAction((state, account, fp, request) => {
+    const changes = readChanges(request);
+    if (changes.eobt !== undefined && !HHMM.test(changes.eobt)) return 'Invalid EOBT';
+    const error = checkCanDo(fp);
+    if (!error) state.change(account, fp, changes);
+    return error;
+  }),
+};
+
+// Handle a POST to ibafProvider.php, returns the response envelope.
+// Requests need the session cookie, the current X-AisWeb-Token and UserSession.
+export function handleSoapRequest(state: MockHomebriefing, session: MockBrowserSession | undefined, token: string, xml: string): string {
+  let request: XmlElement | undefined;
+  try {
+    const envelope = parseXml(xml);
+    const body = envelope.children.find((c) => c.name === 'Body');
+    request = body?.children[0];
+  } catch (error) {
+    return soapFault('Client', `Malformed request: ${error instanceof Error ? error.message : error}`);
+  }
+
+  if (!request || !request.name.endsWith('Request')) {
+    return soapFault('Client', 'SOAP Body has no request element');
+  }
+
+  const operation = request.name.slice(0, -'Request'.length);
+  const handler = handlers[operation];
+  if (!handler) {
+    return soapFault('Client', `Unknown operation ${operation}`);
+  }
+
+  const account = session && state.getAccount(session);
+  if (!session || !account || session.token !== token || session.userSession !== field(request, 'UserSession')) {
+    return soapFault('Client', 'Invalid session, please log in again');
+  }
+
+  return soapResponse(operation, handler(state, account, request));
+}
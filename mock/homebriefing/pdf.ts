@@ -0,0 +1,78 @@
+// Renders the HTML sent to generatePdf as a plain text PDF (Courier, A4), enough
+// to check what ends up in a briefing pack. The real service renders the HTML.
+
+const PAGE_WIDTH = 595;
+const PAGE_HEIGHT = 842;
+const MARGIN = 40;
+const FONT_SIZE = 9;
+const LEADING = 11;
+const LINE_CHARS = 95;
+const PAGE_LINES = Math.floor((PAGE_HEIGHT - 2 * MARGIN) / LEADING);
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+
+// Block elements become line breaks, table cells are separated by spaces
+function htmlToLines(html: string): string[] {
+  const text = html
+    .replace(/<(style|title)[^>]*>[\s\S]*?<\/\1>/gi, '')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|h\d|tr|pre|div)>/gi, '\n')
+    .replace(/<h\d[^>]*>/gi, '\n')
+    .replace(/<\/t[dh]>/gi, '  ')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&(#\d+|\w+);/g, (match, entity: string) =>
+      entity.startsWith('#') ? String.fromCharCode(parseInt(entity.slice(1))) : ENTITIES[entity] ?? match
+    );
+
+  return text.split('\n').flatMap((line) => {
+    const trimmed = line.trimEnd();
+    if (trimmed.length <= LINE_CHARS) return [trimmed];
+    const wrapped: string[] = [];
+    for (let i = 0; i < trimmed.length; i += LINE_CHARS) wrapped.push(trimmed.slice(i, i + LINE_CHARS));
+    return wrapped;
+  }).filter((line, i, lines) => line || (i > 0 && lines[i - 1]));   // No runs of empty lines
+}
+
+// PDF string literal, characters outside Latin-1 become "?"
+function pdfString(text: string): string {
+  return `(${text.replace(/[^\x20-\xff]/g, '?').replace(/([\\()])/g, '\\$1')})`;
+}
+
+export function renderPdf(title: string, html: string): Buffer {
+  const lines = htmlToLines(html);
+  const pages: string[][] = [];
+  for (let i = 0; i < Math.max(lines.length, 1); i += PAGE_LINES) pages.push(lines.slice(i, i + PAGE_LINES));
+
+  // 1 catalog, 2 page tree, 3 font, 4 info, then a page and its content stream per page
+  const objects: string[] = [];
+  const pageIds = pages.map((_, i) => 5 + i * 2);
+  objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+  objects[2] = `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`;
+  objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Courier /Encoding /WinAnsiEncoding >>';
+  objects[4] = `<< /Title ${pdfString(title)} /Producer (Mock Homebriefing) >>`;
+  pages.forEach((pageLines, i) => {
+    const content = [
+      'BT',
+      `/F1 ${FONT_SIZE} Tf`,
+      `${LEADING} TL`,
+      `${MARGIN} ${PAGE_HEIGHT - MARGIN} Td`,
+      ...pageLines.map((line) => `${pdfString(line)} '`),
+      'ET',
+    ].join('\n');
+    objects[pageIds[i]] = `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] `
+      + `/Resources << /Font << /F1 3 0 R >> >> /Contents ${pageIds[i] + 1} 0 R >>`;
+    objects[pageIds[i] + 1] = `<< /Length ${Buffer.byteLength(content, 'latin1')} >>\nstream\n${content}\nendstream`;
+  });
+
+  let pdf = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  for (let id = 1; id < objects.length; id++) {
+    offsets[id] = Buffer.byteLength(pdf, 'latin1');
+    pdf += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+  }
+  const xref = Buffer.byteLength(pdf, 'latin1');
+  pdf += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  for (let id = 1; id < objects.length; id++) pdf += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+  pdf += `trailer\n<< /Size ${objects.length} /Root 1 0 R /Info 4 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+  return Buffer.from(pdf, 'latin1');
+}
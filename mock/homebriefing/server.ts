@@ -0,0 +1,205 @@
+import { createServer, IncomingMessage, ServerResponse } from 'http';
+import { MockHomebriefing, MockBrowserSession } from './state';
+import { handleSoapRequest } from './ibaf-provider';
+import { renderCaptchaPng } from './captcha';
+import { handleBriefingMethod, isBriefingMethod } from './data-handler';
+import { renderPdf } from './pdf';
+
+// Self-contained Homebriefing mock for development and tests.
+// Start with `npm run mock:homebriefing` and point the app at it with
+// HOMEBRIEFING_BASE_URL=http://localhost:4010/ixo
+//
+// MOCK_HB_PORT          Port to listen on (default 4010)
+// MOCK_HB_USERS         Accounts as "name:password,..." (default demo:demo)
+// MOCK_HB_CAPTCHA       Fixed captcha digits for scripted logins (default random digits)
+// MOCK_HB_SESSION_TTL   Idle minutes before a login session expires (default 30)
+
+const PORT = parseInt(process.env.MOCK_HB_PORT || '4010');
+const SESSION_COOKIE = '__Host-IxoWeb-NL';
+
+const state = new MockHomebriefing(
+  process.env.MOCK_HB_USERS || 'demo:demo',
+  (parseInt(process.env.MOCK_HB_SESSION_TTL || '') || 30) * 60 * 1000,
+  process.env.MOCK_HB_CAPTCHA || undefined
+);
+
+function getCookie(request: IncomingMessage, name: string): string | undefined {
+  for (const part of (request.headers.cookie || '').split(';')) {
+    const [key, ...value] = part.trim().split('=');
+    if (key === name) return value.join('=');
+  }
+  return undefined;
+}
+
+function getSession(request: IncomingMessage): MockBrowserSession | undefined {
+  return state.getSession(getCookie(request, SESSION_COOKIE));
+}
+
+async function readBody(request: IncomingMessage): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of request) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks).toString('utf-8');
+}
+
+function send(response: ServerResponse, status: number, contentType: string, body: string | Buffer, headers: Record<string, string> = {}): void {
+  response.writeHead(status, { 'Content-Type': contentType, ...headers });
+  response.end(body);
+}
+
+// login.php starts a browser session and embeds the login token
+function handleLoginPage(response: ServerResponse): void {
+  const session = state.createSession();
+  send(response, 200, 'text/html; charset=utf-8',
+    `<!DOCTYPE html><html><head><title>Homebriefing (mock)</title></head><body>
+<script>AWLoginDataHandler.setToken("${session.token}");</script>
+</body></html>`,
+    { 'Set-Cookie': `${SESSION_COOKIE}=${session.id}; Path=/; Secure; HttpOnly; SameSite=Strict` }
+  );
+}
+
+function handleCaptcha(request: IncomingMessage, response: ServerResponse): void {
+  const session = getSession(request);
+  if (!session) {
+    send(response, 403, 'text/plain', 'No session');
+    return;
+  }
+  send(response, 200, 'image/png', renderCaptchaPng(state.generateCaptcha(session)), { 'Cache-Control': 'no-store' });
+}
+
+async function handleLoginExt(request: IncomingMessage, response: ServerResponse): Promise<void> {
+  const session = getSession(request);
+  const form = new URLSearchParams(await readBody(request));
+
+  const loginOk = !!session &&
+    request.headers['x-aisweb-token'] === session.token &&
+    state.login(session, form.get('userName') || '', form.get('password') || '', form.get('captcha') || '');
+
+  send(response, 200, 'text/xml; charset=utf-8', loginOk
+    ? '<?xml version="1.0" encoding="UTF-8"?><LoginExtResponse><IsError>0</IsError><LoginOK>1</LoginOK></LoginExtResponse>'
+    : '<?xml version="1.0" encoding="UTF-8"?><LoginExtResponse><IsError>1</IsError><LoginOK>0</LoginOK><ErrMsg>Invalid credentials or captcha</ErrMsg></LoginExtResponse>'
+  );
+}
+
+// refreshUserInfo returns the user info as JSON, or null with "LoginCheck: false"
+// once the session is gone, like the real dataHandler.php
+function handleRefreshUserInfo(request: IncomingMessage, response: ServerResponse): void {
+  const session = getSession(request);
+  const loggedIn = !!session?.userSession && request.headers['x-aisweb-token'] === session.token;
+  if (!loggedIn) {
+    send(response, 200, 'application/json', 'null', { 'LoginCheck': 'false' });
+    return;
+  }
+
+  send(response, 200, 'application/json', JSON.stringify({
+    userName: session.username,
+    lang: 'en',
+    pilotAttributes: 0,
+  }));
+}
+
+// Briefing methods need a logged in session, otherwise "LoginCheck: false"
+function handleBriefing(request: IncomingMessage, response: ServerResponse, url: URL): void {
+  const session = getSession(request);
+  const loggedIn = !!session?.userSession && request.headers['x-aisweb-token'] === session.token;
+  if (!loggedIn) {
+    send(response, 200, 'text/xml; charset=utf-8', '', { 'LoginCheck': 'false' });
+    return;
+  }
+
+  send(response, 200, 'text/xml; charset=utf-8', handleBriefingMethod(url.searchParams.get('method') || '', url.searchParams));
+}
+
+// generatePdf takes {html, title} as JSON with base64 HTML and answers with the PDF as base64
+async function handleGeneratePdf(request: IncomingMessage, response: ServerResponse): Promise<void> {
+  const session = getSession(request);
+  const loggedIn = !!session?.userSession && request.headers['x-aisweb-token'] === session.token;
+  if (!loggedIn) {
+    send(response, 200, 'text/plain', '', { 'LoginCheck': 'false' });
+    return;
+  }
+
+  let data: { html?: string; title?: string };
+  try {
+    data = JSON.parse(await readBody(request));
+  } catch {
+    data = {};
+  }
+  if (!data.html) {
+    send(response, 200, 'text/plain', '');
+    return;
+  }
+  const html = Buffer.from(data.html, 'base64').toString('utf-8');
+  send(response, 200, 'text/plain', renderPdf(data.title || 'Report', html).toString('base64'));
+}
+
+// index.php redirects to login.php unless logged in, otherwise boots the app with a new token
+function handleIndex(request: IncomingMessage, response: ServerResponse): void {
+  const session = getSession(request);
+  const app = session && state.openApplication(session);
+  if (!app) {
+    send(response, 302, 'text/html', '', { 'Location': 'login.php' });
+    return;
+  }
+
+  send(response, 200, 'text/html; charset=utf-8',
+    `<!DOCTYPE html><html><head><title>Homebriefing (mock)</title></head><body>
+<script>var app = new AppController("${app.token}", "${app.userSession}", "ixo/");</script>
+</body></html>`
+  );
+}
+
+async function handleIbafProvider(request: IncomingMessage, response: ServerResponse): Promise<void> {
+  const xml = await readBody(request);
+  const token = String(request.headers['x-aisweb-token'] || '');
+  send(response, 200, 'text/xml; charset=utf-8', handleSoapRequest(state, getSession(request), token, xml));
+}
+
+async function route(request: IncomingMessage, response: ServerResponse): Promise<void> {
+  const url = new URL(request.url || '/', `http://localhost:${PORT}`);
+  const method = request.method || 'GET';
+
+  if (method === 'GET' && url.pathname === '/ixo/login.php') {
+    return handleLoginPage(response);
+  }
+  if (method === 'GET' && url.pathname === '/ixo/dataHandler.php' && url.searchParams.get('method') === 'captchaGenerate') {
+    return handleCaptcha(request, response);
+  }
+  if (method === 'POST' && url.pathname === '/ixo/dataHandler.php' && url.searchParams.get('method') === 'loginExt') {
+    return handleLoginExt(request, response);
+  }
+  if (method === 'POST' && url.pathname === '/ixo/dataHandler.php' && url.searchParams.get('method') === 'refreshUserInfo') {
+    return handleRefreshUserInfo(request, response);
+  }
+  if (method === 'POST' && url.pathname === '/ixo/dataHandler.php' && url.searchParams.get('method') === 'generatePdf') {
+    return handleGeneratePdf(request, response);
+  }
+  if (method === 'POST' && url.pathname === '/ixo/dataHandler.php' && isBriefingMethod(url.searchParams.get('method') || '')) {
+    return handleBriefing(request, response, url);
+  }
+  if (method === 'GET' && url.pathname === '/ixo/index.php') {
+    return handleIndex(request, response);
+  }
+  if (method === 'POST' && url.pathname === '/ixo/ibafProvider.php') {
+    return handleIbafProvider(request, response);
+  }
+
+  send(response, 404, 'text/plain', 'Not found');
+}
+
+const server = createServer((request, response) => {
+  route(request, response).catch((error) => {
+    console.error('Mock Homebriefing error:', error);
+    if (!response.headersSent) {
+      send(response, 500, 'text/plain', 'Internal error');
+    }
+  });
+});
+
+server.listen(PORT, () => {
+  console.log(`Mock Homebriefing listening on http://localhost:${PORT}/ixo`);
+  if (process.env.MOCK_HB_CAPTCHA) {
+    console.log(`Captcha is fixed to ${process.env.MOCK_HB_CAPTCHA}`);
+  }
+});
@@ -0,0 +1,429 @@
+import { randomBytes } from 'crypto';
+import { FlightMessage, FlightPlan, FlightPlanChanges, FlightPlanFormData } from '@/lib/homebriefing/types';
+import {
+  renderArrMessage,
+  renderChgMessage,
+  renderCnlMessage,
+  renderDepMessage,
+  renderDlaMessage,
+  renderFplMessage,
+} from '@/lib/homebriefing/icao-message';
+import { getFiledEobt } from '@/lib/homebriefing/flight-plan-change';
+import { allocateSlot, renderSlotMessage } from './atfm';
+
+// Browser session behind the __Host-IxoWeb-NL cookie
+export interface MockBrowserSession {
+  id: string;
+  token: string;              // X-AisWeb-Token, replaced after login by index.php
+  captcha: string;            // Last generated captcha text
+  username?: string;          // Set once loginExt succeeded
+  userSession?: string;       // UserSession handed out by index.php
+  lastSeen: number;
+}
+
+// Template values as sent in FlTplValues, keyed by element name
+export type MockTemplateValues = Record<string, string>;
+
+export interface MockTemplate {
+  tplId: number;
+  tplName: string;
+  values: MockTemplateValues;
+}
+
+// Everything a Homebriefing account owns, kept across logins
+export interface MockAccount {
+  password: string;
+  flightPlans: FlightPlan[];
+  messages: Map<number, FlightMessage[]>;
+  templates: MockTemplate[];
+}
+
+// Status codes and flCanDo values used by Homebriefing (see dashboard/page.tsx)
+const STATUS_ACCEPTED = 48;
+const STATUS_CANCELLED = 4;
+const CAN_DO_ALL = 1;         // DLA, CNL, CHG, DEP and ARR
+const CAN_DO_ARR_ONLY = 16;   // Airborne, only ARR left
+const CAN_DO_NONE = 0;
+
+// ATS unit that answers our messages
+const ATS_SENDER = { senderId: 1, senderName: 'ARO', aftnSender: 'LZIBZPZX' };
+const ATS_RECIPIENTS = ['LZIBZPZX', 'EUCHZMFP', 'EUCBZMFP'];
+
+// Network Manager flow management, sends the slot messages
+const NM_SENDER = { senderId: 2, senderName: 'ETFMS', aftnSender: 'EUCHZMTA' };
+
+// "YYYY-MM-DD HH:mm" (UTC) -> "YYYY-MM-DDTHH:mm:00Z"
+function toIsoEobdt(eobdt: string): string {
+  return `${eobdt.slice(0, 10)}T${eobdt.slice(11, 16)}:00Z`;
+}
+
+function nowIso(): string {
+  return new Date().toISOString().slice(0, 19) + 'Z';
+}
+
+// Form data of a filed plan, the CHG renderer needs the full updated plan
+function toFormData(fp: FlightPlan): FlightPlanFormData {
+  return {
+    arcid: fp.arcid,
+    flRules: fp.flRules as FlightPlanFormData['flRules'],
+    flType: fp.flType as FlightPlanFormData['flType'],
+    arcNum: fp.arcNum,
+    arcType: fp.arcType,
+    wakeTurbulenceCat: fp.wakeTurbulenceCat as FlightPlanFormData['wakeTurbulenceCat'],
+    equipment: fp.equipment,
+    adep: fp.adep,
+    eobdt: fp.eobdt.slice(0, 16).replace('T', ' '),
+    flSpeed: fp.flSpeed,
+    flLevel: fp.flLevel,
+    flRoute: fp.flRoute,
+    ades: fp.ades,
+    totalEet: fp.totalEet,
+    adAltn1: fp.adAltn1,
+    adAltn2: fp.adAltn2,
+    flOther: fp.flOther,
+    flSuplementary: fp.flSuplementary,
+  };
+}
+
+// Users as "name:password,name:password", defaults to demo/demo
+function parseUsers(spec: string): Map<string, string> {
+  const users = new Map<string, string>();
+  for (const entry of spec.split(',')) {
+    const [name, ...password] = entry.trim().split(':');
+    if (name) {
+      users.set(name.toUpperCase(), password.join(':'));
+    }
+  }
+  return users;
+}
+
+// In-memory Homebriefing: browser sessions, accounts and their flight plans,
+// message histories and templates. State lives as long as the mock process.
+export class MockHomebriefing {
+  private sessions: Map<string, MockBrowserSession> = new Map();
+  private accounts: Map<string, MockAccount> = new Map();
+  private nextFlId = 100001;
+  private nextMsgId = 500001;
+  private nextTplId = 1;
+
+  constructor(
+    users: string,
+    private readonly sessionTimeout: number,   // Idle time after which a login session expires (ms)
+    private readonly fixedCaptcha?: string      // Always use this captcha (scripted logins)
+  ) {
+    for (const [username, password] of parseUsers(users)) {
+      this.accounts.set(username, {
+        password,
+        flightPlans: [],
+        messages: new Map(),
+        templates: [],
+      });
+      this.seedAccount(username);
+    }
+  }
+
+  private generateId(bytes: number): string {
+    return randomBytes(bytes).toString('hex');
+  }
+
+  // login.php: start a new browser session
+  createSession(): MockBrowserSession {
+    const session: MockBrowserSession = {
+      id: this.generateId(16),
+      token: this.generateId(20),
+      captcha: '',
+      lastSeen: Date.now(),
+    };
+    this.sessions.set(session.id, session);
+    return session;
+  }
+
+  getSession(id: string | undefined): MockBrowserSession | undefined {
+    if (!id) return undefined;
+    const session = this.sessions.get(id);
+    if (!session) return undefined;
+
+    if (Date.now() - session.lastSeen > this.sessionTimeout) {
+      this.sessions.delete(id);
+      return undefined;
+    }
+
+    session.lastSeen = Date.now();
+    return session;
+  }
+
+  // dataHandler.php?method=captchaGenerate
+  generateCaptcha(session: MockBrowserSession): string {
+    session.captcha = this.fixedCaptcha || String(Math.floor(10000 + Math.random() * 90000));
+    return session.captcha;
+  }
+
+  // dataHandler.php?method=loginExt, the captcha can only be used once
+  login(session: MockBrowserSession, username: string, password: string, captcha: string): boolean {
+    const expected = session.captcha;
+    session.captcha = '';
+
+    const account = this.accounts.get(username.toUpperCase());
+    if (!expected || captcha.trim() !== expected || !account || account.password !== password) {
+      return false;
+    }
+
+    session.username = username.toUpperCase();
+    return true;
+  }
+
+  // index.php: a logged in session gets a fresh token and its UserSession
+  openApplication(session: MockBrowserSession): { token: string; userSession: string } | undefined {
+    if (!session.username) return undefined;
+
+    session.token = this.generateId(20);
+    session.userSession = session.userSession || this.generateId(16);
+    return { token: session.token, userSession: session.userSession };
+  }
+
+  getAccount(session: MockBrowserSession): MockAccount | undefined {
+    return session.username ? this.accounts.get(session.username) : undefined;
+  }
+
+  // Flight plans still relevant numHoursAfterEta hours after their ETA
+  listCurrent(account: MockAccount, numHoursAfterEta: number): FlightPlan[] {
+    const now = Date.now();
+    return account.flightPlans.filter((fp) =>
+      new Date(fp.eobdt).getTime() + (fp.totalEet * 60 + numHoursAfterEta * 60 * 60) * 1000 > now
+    );
+  }
+
+  // Everything that dropped out of the current list (after 3 hours)
+  listArchive(account: MockAccount): FlightPlan[] {
+    const current = new Set(this.listCurrent(account, 3));
+    return account.flightPlans.filter((fp) => !current.has(fp));
+  }
+
+  findFlightPlan(account: MockAccount, flId: number): FlightPlan | undefined {
+    return account.flightPlans.find((fp) => fp.flId === flId);
+  }
+
+  getMessages(account: MockAccount, flId: number): FlightMessage[] {
+    return account.messages.get(flId) || [];
+  }
+
+  // Outgoing message followed by the ATS acknowledgement
+  private addMessage(account: MockAccount, fp: FlightPlan, msgType: string, msgTxt: string): void {
+    const messages = account.messages.get(fp.flId) || [];
+    const msgTime = nowIso();
+
+    messages.push({
+      flMsgId: this.nextMsgId++,
+      isIncome: false,
+      msgTime,
+      msgType,
+      statusCode: 1,
+      statusDesc: 'Sent',
+      senderId: 0,
+      senderName: 'HOMEBRIEFING',
+      msgTxt,
+      toAftnAddr: ATS_RECIPIENTS,
+      aftnSendTime: msgTime,
+    });
+    account.messages.set(fp.flId, messages);
+
+    this.addIncomingMessage(account, fp, 'ACK', `(ACK-${msgType}-${fp.arcid}-${fp.adep}${getFiledEobt(fp.eobdt)}-${fp.ades})`, ATS_SENDER);
+  }
+
+  private addIncomingMessage(
+    account: MockAccount,
+    fp: FlightPlan,
+    msgType: string,
+    msgTxt: string,
+    sender: typeof ATS_SENDER
+  ): void {
+    const messages = account.messages.get(fp.flId) || [];
+    const msgTime = nowIso();
+
+    messages.push({
+      flMsgId: this.nextMsgId++,
+      isIncome: true,
+      msgTime,
+      msgType,
+      statusCode: 1,
+      statusDesc: 'Received',
+      senderId: sender.senderId,
+      senderName: sender.senderName,
+      msgTxt,
+      aftnSender: sender.aftnSender,
+      aftnSendTime: msgTime,
+    });
+
+    account.messages.set(fp.flId, messages);
+  }
+
+  // Regulated flights get a slot (SAM) when filed and a new one (SRM) when delayed
+  private updateSlot(account: MockAccount, fp: FlightPlan, msgType: 'SAM' | 'SRM'): void {
+    const slot = allocateSlot(fp);
+    if (!slot) return;
+    fp.ctot = slot.ctot;
+    this.addIncomingMessage(account, fp, msgType, renderSlotMessage(msgType, fp, slot.regId), NM_SENDER);
+  }
+
+  // SendFplToCaro: a filed plan is accepted right away
+  fileFlightPlan(account: MockAccount, formData: FlightPlanFormData): FlightPlan {
+    const fp: FlightPlan = {
+      flId: this.nextFlId++,
+      arcid: formData.arcid.toUpperCase(),
+      flRules: formData.flRules,
+      flType: formData.flType,
+      arcNum: formData.arcNum || undefined,
+      arcType: formData.arcType.toUpperCase(),
+      wakeTurbulenceCat: formData.wakeTurbulenceCat,
+      equipment: formData.equipment.toUpperCase(),
+      adep: formData.adep.toUpperCase(),
+      ades: formData.ades.toUpperCase(),
+      adAltn1: formData.adAltn1 || undefined,
+      adAltn2: formData.adAltn2 || undefined,
+      eobdt: toIsoEobdt(formData.eobdt),
+      flSpeed: formData.flSpeed.toUpperCase(),
+      flLevel: formData.flLevel.toUpperCase(),
+      flRoute: formData.flRoute.toUpperCase(),
+      totalEet: formData.totalEet,
+      flOther: formData.flOther || undefined,
+      flSuplementary: formData.flSuplementary || undefined,
+      flStatusCode: STATUS_ACCEPTED,
+      flStatusStr: 'Accepted',
+      flCanDo: CAN_DO_ALL,
+    };
+
+    account.flightPlans.push(fp);
+    this.addMessage(account, fp, 'FPL', renderFplMessage(formData));
+    this.updateSlot(account, fp, 'SAM');
+    return fp;
+  }
+
+  // SendDLA: newEobt is HHMM on the date of flight
+  delay(account: MockAccount, fp: FlightPlan, newEobt: string): void {
+    this.addMessage(account, fp, 'DLA', renderDlaMessage(fp, newEobt));
+    fp.eobdt = `${fp.eobdt.slice(0, 11)}${newEobt.slice(0, 2)}:${newEobt.slice(2, 4)}:00Z`;
+    if (fp.ctot) this.updateSlot(account, fp, 'SRM');
+  }
+
+  // SendCNL, a slot goes with the flight plan
+  cancel(account: MockAccount, fp: FlightPlan): void {
+    this.addMessage(account, fp, 'CNL', renderCnlMessage(fp));
+    if (fp.ctot) {
+      this.addIncomingMessage(account, fp, 'SLC', renderSlotMessage('SLC', fp), NM_SENDER);
+      fp.ctot = undefined;
+    }
+    fp.flStatusCode = STATUS_CANCELLED;
+    fp.flStatusStr = 'Cancelled';
+    fp.flCanDo = CAN_DO_NONE;
+  }
+
+  // SendDEP
+  depart(account: MockAccount, fp: FlightPlan, departureTime: string): void {
+    this.addMessage(account, fp, 'DEP', renderDepMessage(fp, departureTime));
+    fp.flCanDo = CAN_DO_ARR_ONLY;
+  }
+
+  // SendARR closes the flight plan
+  arrive(account: MockAccount, fp: FlightPlan, arrivalTime: string, arrivalAerodrome: string, arrivalAerodromeName: string): void {
+    this.addMessage(account, fp, 'ARR', renderArrMessage(fp, arrivalTime, arrivalAerodrome, arrivalAerodromeName));
+    fp.flCanDo = CAN_DO_NONE;
+  }
+
+  // SendCHG: apply the changed fields, then render the message from the updated plan
+  change(account: MockAccount, fp: FlightPlan, changes: FlightPlanChanges): void {
+    const original = { ...fp };
+
+    if (changes.flRules !== undefined) fp.flRules = changes.flRules;
+    if (changes.flType !== undefined) fp.flType = changes.flType;
+    if (changes.arcNum !== undefined) fp.arcNum = changes.arcNum || undefined;
+    if (changes.arcType !== undefined) fp.arcType = changes.arcType.toUpperCase();
+    if (changes.wakeTurbulenceCat !== undefined) fp.wakeTurbulenceCat = changes.wakeTurbulenceCat;
+    if (changes.equipment !== undefined) fp.equipment = changes.equipment.toUpperCase();
+    if (changes.flSpeed !== undefined) fp.flSpeed = changes.flSpeed.toUpperCase();
+    if (changes.flLevel !== undefined) fp.flLevel = changes.flLevel.toUpperCase();
+    if (changes.flRoute !== undefined) fp.flRoute = changes.flRoute.toUpperCase();
+    if (changes.adAltn1 !== undefined) fp.adAltn1 = changes.adAltn1 || undefined;
+    if (changes.adAltn2 !== undefined) fp.adAltn2 = changes.adAltn2 || undefined;
+    if (changes.totalEet !== undefined) fp.totalEet = changes.totalEet;
+    if (changes.flOther !== undefined) fp.flOther = changes.flOther || undefined;
+    if (changes.flSuplementary !== undefined) fp.flSuplementary = changes.flSuplementary || undefined;
+
+    this.addMessage(account, fp, 'CHG', renderChgMessage(original, toFormData(fp), changes));
+
+    if (changes.eobt !== undefined) {
+      fp.eobdt = `${fp.eobdt.slice(0, 11)}${changes.eobt.slice(0, 2)}:${changes.eobt.slice(2, 4)}:00Z`;
+    }
+  }
+
+  // SaveFlTpl: a template id overwrites, otherwise a new template is created
+  saveTemplate(account: MockAccount, tplName: string, tplId: number | undefined, values: MockTemplateValues): number {
+    const existing = tplId ? account.templates.find((tpl) => tpl.tplId === tplId) : undefined;
+    if (existing) {
+      existing.tplName = tplName;
+      existing.values = values;
+      return existing.tplId;
+    }
+
+    const template = { tplId: this.nextTplId++, tplName, values };
+    account.templates.push(template);
+    return template.tplId;
+  }
+
+  findTemplate(account: MockAccount, tplId: number): MockTemplate | undefined {
+    return account.templates.find((tpl) => tpl.tplId === tplId);
+  }
+
+  deleteTemplate(account: MockAccount, tplId: number): boolean {
+    const before = account.templates.length;
+    account.templates = account.templates.filter((tpl) => tpl.tplId !== tplId);
+    return account.templates.length < before;
+  }
+
+  // A filed plan for later today and a template, so a fresh account has something to show
+  private seedAccount(username: string): void {
+    const account = this.accounts.get(username);
+    if (!account) return;
+
+    const eobdt = new Date(Date.now() + 2 * 60 * 60 * 1000);
+    eobdt.setUTCMinutes(Math.ceil(eobdt.getUTCMinutes() / 5) * 5, 0, 0);
+    const formData: FlightPlanFormData = {
+      arcid: 'OMABC',
+      flRules: 'V',
+      flType: 'G',
+      arcType: 'C172',
+      wakeTurbulenceCat: 'L',
+      equipment: 'SY/S',
+      adep: 'LZIB',
+      eobdt: eobdt.toISOString().slice(0, 16).replace('T', ' '),
+      flSpeed: 'N0100',
+      flLevel: 'VFR',
+      flRoute: 'DCT',
+      ades: 'LZPP',
+      totalEet: 35,
+      flOther: 'RMK/DEMO FLIGHT',
+      flSuplementary: 'E\\0300 P\\2',
+    };
+    this.fileFlightPlan(account, formData);
+
+    this.saveTemplate(account, 'OMABC LZIB-LZPP', undefined, {
+      ARCID: 'OMABC',
+      FlRules: 'V',
+      FlType: 'G',
+      ArcType: 'C172',
+      WakeTurbulenceCat: 'L',
+      Equipment_10a: 'SY',
+      Equipment_10b: 'S',
+      Equipment_10c: 'N',
+      ADEP: 'LZIB',
+      EOBT: '',
+      FlSpeedMeasure: 'N',
+      FlSpeedValue: '0100',
+      FlLevelMeasure: 'VFR',
+      FlLevelValue: '',
+      FlRoute: 'DCT',
+      ADES: 'LZPP',
+      TotalEET: '35',
+      FlOther: 'RMK/DEMO FLIGHT',
+    });
+  }
+}
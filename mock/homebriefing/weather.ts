@@ -0,0 +1,73 @@
+// MET messages for the mock: METAR and TAF generated around the current time,
+// and SYNOP stations for some aerodromes. EHTE is in fog and EHLE has TEMPO
+// showers below VFR minima, so the VFR warnings have something to show.
+
+interface MockWeather {
+  metar: string;        // Observation groups after the time
+  taf: string[];        // Base forecast, then change groups with {from}/{to} placeholders
+}
+
+const WEATHER: Record<string, MockWeather> = {
+  EHTE: {
+    metar: '20003KT 3000 BR BKN006 09/08 Q1021',
+    taf: ['VRB03KT 2500 BR BKN005', 'BECMG {+3}/{+5} 7000 NSW SCT015'],
+  },
+  EHLE: {
+    metar: '23012KT 9999 SCT025 12/07 Q1016',
+    taf: ['24012KT 9999 SCT025', 'TEMPO {+1}/{+6} 4000 SHRA BKN012', 'PROB30 TEMPO {+4}/{+6} 24020G32KT TSRA BKN010CB'],
+  },
+};
+
+const DEFAULT_WEATHER: MockWeather = {
+  metar: '25008KT CAVOK 13/06 Q1018',
+  taf: ['25008KT CAVOK', 'BECMG {+6}/{+8} 27014KT 9999 FEW030'],
+};
+
+// WMO numbers of aerodrome SYNOP stations
+export const SYNOP_STATIONS: { icaoCode: string; wmoCode: string; name: string }[] = [
+  { icaoCode: 'EHAM', wmoCode: '06240', name: 'SCHIPHOL' },
+  { icaoCode: 'EHLE', wmoCode: '06269', name: 'LELYSTAD' },
+  { icaoCode: 'EHTW', wmoCode: '06290', name: 'TWENTHE' },
+  { icaoCode: 'EHRD', wmoCode: '06344', name: 'ROTTERDAM' },
+  { icaoCode: 'EHGG', wmoCode: '06280', name: 'EELDE' },
+  { icaoCode: 'LZIB', wmoCode: '11816', name: 'BRATISLAVA/IVANKA' },
+];
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
+
+// Last half hour (METARs are issued at :20 and :50 here)
+function observationTime(now: Date): Date {
+  const observed = new Date(now);
+  observed.setUTCMinutes(now.getUTCMinutes() >= 50 ? 50 : now.getUTCMinutes() >= 20 ? 20 : -10, 0, 0);
+  return observed;
+}
+
+function dayHour(date: Date): string {
+  return `${pad(date.getUTCDate())}${pad(date.getUTCHours())}`;
+}
+
+export function getMetar(icaoCode: string, now = new Date()): string {
+  const observed = observationTime(now);
+  const weather = WEATHER[icaoCode] ?? DEFAULT_WEATHER;
+  return `METAR ${icaoCode} ${pad(observed.getUTCDate())}${pad(observed.getUTCHours())}${pad(observed.getUTCMinutes())}Z ${weather.metar}=`;
+}
+
+// 24 hour TAF issued at the start of the current hour
+export function getTaf(icaoCode: string, now = new Date()): string {
+  const issued = new Date(now);
+  issued.setUTCMinutes(0, 0, 0);
+  const hoursLater = (hours: number) => new Date(issued.getTime() + hours * 60 * 60 * 1000);
+
+  const weather = WEATHER[icaoCode] ?? DEFAULT_WEATHER;
+  const groups = weather.taf.map((group) => group.replace(/\{\+(\d+)\}/g, (_match, hours: string) => dayHour(hoursLater(parseInt(hours)))));
+  return `TAF ${icaoCode} ${dayHour(issued)}00Z ${dayHour(issued)}/${dayHour(hoursLater(24))} ${groups.join(' ')}=`;
+}
+
+// Synoptic report in FM 12 format, always the same figures
+export function getSynop(wmoCode: string, now = new Date()): string {
+  const observed = new Date(now);
+  observed.setUTCHours(Math.floor(now.getUTCHours() / 3) * 3, 0, 0, 0);
+  return `AAXX ${pad(observed.getUTCDate())}${pad(observed.getUTCHours())}1 ${wmoCode} 42575 52308 10121 20070 30152 40162 52008=`;
+}
@@ -2,6 +2,11 @@ import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
   output: "standalone",
+  // sql.js loads its WebAssembly binary from its own package directory
+  serverExternalPackages: ["sql.js"],
+  outputFileTracingIncludes: {
+    "/api/**/*": ["./node_modules/sql.js/dist/sql-wasm.wasm"],
+  },
 };
 
 export default nextConfig;
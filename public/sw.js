@@ -0,0 +1,52 @@
+// Service worker for Web Push notifications from the server-side notifier.
+// Payload: { title, body, tag, url, landedToken? }, safety timer reminders
+// carry landedToken for the "I have landed" button.
+
+self.addEventListener('push', (event) => {
+  const data = event.data ? event.data.json() : {};
+  event.waitUntil(
+    self.registration.showNotification(data.title || 'Home Briefing', {
+      body: data.body,
+      tag: data.tag,
+      renotify: true,
+      requireInteraction: !!data.landedToken,
+      actions: data.landedToken ? [{ action: 'landed', title: 'I have landed' }] : [],
+      data: { url: data.url || '/dashboard', landedToken: data.landedToken },
+    })
+  );
+});
+
+// Focus an open page with the URL, or open one
+function openPage(path) {
+  const url = new URL(path, self.location.origin).href;
+  return self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((windows) => {
+    const open = windows.find((client) => client.url.startsWith(url));
+    return open ? open.focus() : self.clients.openWindow(url);
+  });
+}
+
+// Send the ARR right away, the landed page takes over when that doesn't work
+// (no session, Homebriefing error)
+function sendLanded(notification) {
+  return fetch('/api/notifications/landed', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ token: notification.data.landedToken }),
+  })
+    .then((res) => res.json())
+    .then((data) => {
+      if (data.error || data.isError) throw new Error(data.error || data.errorMessage);
+      return self.registration.showNotification(notification.title, {
+        body: data.status === 'sent' ? 'Arrival sent, your flight plan is closed' : 'This flight plan has already been closed',
+        tag: notification.tag,
+      });
+    })
+    .catch(() => openPage(notification.data.url));
+}
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  event.waitUntil(
+    event.action === 'landed' ? sendLanded(event.notification) : openPage(event.notification.data.url)
+  );
+});
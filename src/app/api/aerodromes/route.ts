@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { sessionStore, searchAerodromes } from '@/lib/homebriefing';
+import { cookies } from 'next/headers';
+import { AerodromeSearchResponse } from '@/lib/homebriefing/types';
+
+// The aerodrome database is bundled with the app, this route only needs our session
+
+export async function GET(request: NextRequest) {
+  try {
+    const cookieStore = await cookies();
+    const sessionId = cookieStore.get('hb-session')?.value;
+
+    if (!sessionId) {
+      return NextResponse.json(
+        { error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const session = await sessionStore.getSession(sessionId);
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Session expired' },
+        { status: 401 }
+      );
+    }
+
+    const query = request.nextUrl.searchParams.get('q') || '';
+    const limit = Math.min(parseInt(request.nextUrl.searchParams.get('limit') || '10') || 10, 50);
+
+    return NextResponse.json<AerodromeSearchResponse>({ aerodromes: searchAerodromes(query, limit) });
+  } catch (error) {
+    console.error('Aerodrome search error:', error);
+    return NextResponse.json(
+      { error: 'Failed to search aerodromes' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,152 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { sessionStore } from '@/lib/homebriefing';
+import { cookies } from 'next/headers';
+import { AircraftProfileData } from '@/lib/homebriefing/types';
+
+const ARCID_REGEX = /^[A-Z0-9]{2,7}$/;
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ arcid: string }> }
+) {
+  try {
+    const cookieStore = await cookies();
+    const sessionId = cookieStore.get('hb-session')?.value;
+
+    if (!sessionId) {
+      return NextResponse.json(
+        { error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const session = await sessionStore.getSession(sessionId);
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Session expired' },
+        { status: 401 }
+      );
+    }
+
+    const arcid = (await params).arcid.toUpperCase();
+
+    if (!ARCID_REGEX.test(arcid)) {
+      return NextResponse.json(
+        { error: 'Invalid registration' },
+        { status: 400 }
+      );
+    }
+
+    const aircraft = await sessionStore.getAircraft(session.username, arcid);
+    if (!aircraft) {
+      return NextResponse.json(
+        { error: 'Aircraft not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ aircraft });
+  } catch (error) {
+    console.error('Aircraft fetch error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch aircraft' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ arcid: string }> }
+) {
+  try {
+    const cookieStore = await cookies();
+    const sessionId = cookieStore.get('hb-session')?.value;
+
+    if (!sessionId) {
+      return NextResponse.json(
+        { error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const session = await sessionStore.getSession(sessionId);
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Session expired' },
+        { status: 401 }
+      );
+    }
+
+    const arcid = (await params).arcid.toUpperCase();
+
+    if (!ARCID_REGEX.test(arcid)) {
+      return NextResponse.json(
+        { error: 'Invalid registration' },
+        { status: 400 }
+      );
+    }
+
+    const body: AircraftProfileData = await request.json();
+
+    if (!body.field19) {
+      return NextResponse.json(
+        { error: 'Missing aircraft data' },
+        { status: 400 }
+      );
+    }
+
+    // The registration is the key, it comes from the URL
+    const aircraft = await sessionStore.saveAircraft(session.username, { ...body, arcid });
+    return NextResponse.json({ aircraft });
+  } catch (error) {
+    console.error('Aircraft save error:', error);
+    return NextResponse.json(
+      { error: 'Failed to save aircraft' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ arcid: string }> }
+) {
+  try {
+    const cookieStore = await cookies();
+    const sessionId = cookieStore.get('hb-session')?.value;
+
+    if (!sessionId) {
+      return NextResponse.json(
+        { error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const session = await sessionStore.getSession(sessionId);
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Session expired' },
+        { status: 401 }
+      );
+    }
+
+    const arcid = (await params).arcid.toUpperCase();
+
+    if (!ARCID_REGEX.test(arcid)) {
+      return NextResponse.json(
+        { error: 'Invalid registration' },
+        { status: 400 }
+      );
+    }
+
+    await sessionStore.deleteAircraft(session.username, arcid);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Aircraft delete error:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete aircraft' },
+      { status: 500 }
+    );
+  }
+}
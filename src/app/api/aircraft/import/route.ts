@@ -0,0 +1,69 @@
+import { NextResponse } from 'next/server';
+import { homebriefingClient, sessionStore, toAircraftProfile } from '@/lib/homebriefing';
+import { cookies } from 'next/headers';
+import { AircraftImportResponse } from '@/lib/homebriefing/types';
+
+// Seed the aircraft profiles from the aircraft in the Homebriefing account.
+// Profiles that already exist are kept as they are, they may have been edited here.
+export async function POST() {
+  try {
+    const cookieStore = await cookies();
+    const sessionId = cookieStore.get('hb-session')?.value;
+
+    if (!sessionId) {
+      return NextResponse.json(
+        { error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const session = await sessionStore.getSession(sessionId);
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Session expired' },
+        { status: 401 }
+      );
+    }
+
+    const result = await homebriefingClient.getAircraftList(session.cookies, session.token);
+
+    // Check for session expiry at Homebriefing side
+    if (result.sessionExpired) {
+      await sessionStore.deleteSession(sessionId);
+      const response = NextResponse.json(
+        { error: 'Homebriefing session expired', code: 'SESSION_EXPIRED' },
+        { status: 401 }
+      );
+      response.cookies.delete('hb-session');
+      return response;
+    }
+
+    const existing = await sessionStore.listAircraft(session.username);
+    if (result.isError) {
+      return NextResponse.json<AircraftImportResponse>({
+        isError: true,
+        errorMessage: result.errorMessage || 'Homebriefing aircraft could not be loaded',
+        aircraft: existing,
+        imported: [],
+      });
+    }
+
+    const known = new Set(existing.map((profile) => profile.arcid));
+    const imported: string[] = [];
+    for (const profile of result.aircraft.map(toAircraftProfile)) {
+      if (!profile.arcid || known.has(profile.arcid)) continue;
+      await sessionStore.saveAircraft(session.username, profile);
+      known.add(profile.arcid);
+      imported.push(profile.arcid);
+    }
+
+    const aircraft = await sessionStore.listAircraft(session.username);
+    return NextResponse.json<AircraftImportResponse>({ isError: false, aircraft, imported });
+  } catch (error) {
+    console.error('Aircraft import error:', error);
+    return NextResponse.json(
+      { error: 'Failed to import aircraft' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { sessionStore } from '@/lib/homebriefing';
+import { cookies } from 'next/headers';
+import { AircraftProfileData, AircraftProfileListResponse } from '@/lib/homebriefing/types';
+
+// Aircraft profiles are stored by this app, not by Homebriefing, so these routes only need our session
+
+const ARCID_REGEX = /^[A-Z0-9]{2,7}$/;
+
+export async function GET() {
+  try {
+    const cookieStore = await cookies();
+    const sessionId = cookieStore.get('hb-session')?.value;
+
+    if (!sessionId) {
+      return NextResponse.json(
+        { error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const session = await sessionStore.getSession(sessionId);
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Session expired' },
+        { status: 401 }
+      );
+    }
+
+    const aircraft = await sessionStore.listAircraft(session.username);
+    return NextResponse.json<AircraftProfileListResponse>({ aircraft });
+  } catch (error) {
+    console.error('Aircraft list error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch aircraft' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const cookieStore = await cookies();
+    const sessionId = cookieStore.get('hb-session')?.value;
+
+    if (!sessionId) {
+      return NextResponse.json(
+        { error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const session = await sessionStore.getSession(sessionId);
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Session expired' },
+        { status: 401 }
+      );
+    }
+
+    const body: AircraftProfileData = await request.json();
+
+    if (!ARCID_REGEX.test((body.arcid || '').toUpperCase()) || !body.field19) {
+      return NextResponse.json(
+        { error: 'Missing registration or aircraft data' },
+        { status: 400 }
+      );
+    }
+
+    const aircraft = await sessionStore.saveAircraft(session.username, body);
+    return NextResponse.json({ aircraft });
+  } catch (error) {
+    console.error('Aircraft save error:', error);
+    return NextResponse.json(
+      { error: 'Failed to save aircraft' },
+      { status: 500 }
+    );
+  }
+}
@@ -11,7 +11,7 @@ export async function GET(request: NextRequest) {
     );
   }
 
-  const pending = sessionStore.getPendingLogin(sessionId);
+  const pending = await sessionStore.getPendingLogin(sessionId);
   if (!pending) {
     return NextResponse.json(
       { error: 'Invalid or expired session' },
@@ -1,25 +1,31 @@
 import { NextResponse } from 'next/server';
-import { sessionStore } from '@/lib/homebriefing';
+import { sessionStore, AuthCheckResponse } from '@/lib/homebriefing';
 import { cookies } from 'next/headers';
 
+// Doesn't extend the session, so polling it doesn't keep an idle session alive
 export async function GET() {
   try {
     const cookieStore = await cookies();
     const sessionId = cookieStore.get('hb-session')?.value;
 
     if (!sessionId) {
-      return NextResponse.json({ authenticated: false });
+      return NextResponse.json<AuthCheckResponse>({ authenticated: false });
     }
 
-    const session = sessionStore.getSession(sessionId);
+    const session = await sessionStore.peekSession(sessionId);
 
     if (!session) {
-      return NextResponse.json({ authenticated: false });
+      return NextResponse.json<AuthCheckResponse>({ authenticated: false });
     }
 
-    return NextResponse.json({ authenticated: true });
+    return NextResponse.json<AuthCheckResponse>({
+      authenticated: true,
+      expiresAt: session.expiresAt,
+      remainingSeconds: Math.max(0, Math.floor((session.expiresAt - Date.now()) / 1000)),
+      validatedAt: session.validatedAt,
+    });
   } catch (error) {
     console.error('Auth check error:', error);
-    return NextResponse.json({ authenticated: false });
+    return NextResponse.json<AuthCheckResponse>({ authenticated: false });
   }
 }
@@ -7,7 +7,7 @@ export async function POST() {
     const { cookies, token } = await homebriefingClient.initLogin();
 
     // Create pending session
-    const sessionId = sessionStore.createPendingLogin(cookies, token);
+    const sessionId = await sessionStore.createPendingLogin(cookies, token);
 
     return NextResponse.json({
       sessionId,
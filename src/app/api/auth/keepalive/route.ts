@@ -0,0 +1,59 @@
+import { NextResponse } from 'next/server';
+import { sessionStore, validateSession, AuthCheckResponse, SESSION_TIMEOUT } from '@/lib/homebriefing';
+import { cookies } from 'next/headers';
+
+// Called by pages while the user is working on them: extends our session and
+// checks right away that Homebriefing still accepts it
+export async function POST() {
+  try {
+    const cookieStore = await cookies();
+    const sessionId = cookieStore.get('hb-session')?.value;
+
+    if (!sessionId) {
+      return NextResponse.json(
+        { error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const session = await sessionStore.getSession(sessionId);
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Session expired' },
+        { status: 401 }
+      );
+    }
+
+    const alive = await validateSession(sessionId, session);
+    if (!alive) {
+      const response = NextResponse.json(
+        { error: 'Homebriefing session expired', code: 'SESSION_EXPIRED' },
+        { status: 401 }
+      );
+      response.cookies.delete('hb-session');
+      return response;
+    }
+
+    // Our cookie has a fixed max age, renew it along with the session
+    cookieStore.set('hb-session', sessionId, {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      sameSite: 'lax',
+      maxAge: SESSION_TIMEOUT / 1000,
+      path: '/',
+    });
+
+    return NextResponse.json<AuthCheckResponse>({
+      authenticated: true,
+      expiresAt: session.expiresAt,
+      remainingSeconds: Math.max(0, Math.floor((session.expiresAt - Date.now()) / 1000)),
+      validatedAt: Date.now(),
+    });
+  } catch (error) {
+    console.error('Keep-alive error:', error);
+    return NextResponse.json(
+      { error: 'Keep-alive failed' },
+      { status: 500 }
+    );
+  }
+}
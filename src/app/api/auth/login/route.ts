@@ -13,7 +13,7 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const pending = sessionStore.getPendingLogin(sessionId);
+    const pending = await sessionStore.getPendingLogin(sessionId);
     if (!pending) {
       return NextResponse.json(
         { error: 'Invalid or expired session. Please refresh and try again.' },
@@ -38,11 +38,12 @@ export async function POST(request: NextRequest) {
     }
 
     // Activate the session with full credentials
-    sessionStore.activateSession(
+    await sessionStore.activateSession(
       sessionId,
       result.cookies!,
       result.token!,
-      result.userSession!
+      result.userSession!,
+      username
     );
 
     // Set our session cookie
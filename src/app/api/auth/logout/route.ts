@@ -8,7 +8,7 @@ export async function POST() {
     const sessionId = cookieStore.get('hb-session')?.value;
 
     if (sessionId) {
-      sessionStore.deleteSession(sessionId);
+      await sessionStore.deleteSession(sessionId);
     }
 
     cookieStore.delete('hb-session');
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { homebriefingClient, sessionStore, BriefingRequest } from '@/lib/homebriefing';
+import { cookies } from 'next/headers';
+
+export async function POST(request: NextRequest) {
+  try {
+    const cookieStore = await cookies();
+    const sessionId = cookieStore.get('hb-session')?.value;
+
+    if (!sessionId) {
+      return NextResponse.json(
+        { error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const session = await sessionStore.getSession(sessionId);
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Session expired' },
+        { status: 401 }
+      );
+    }
+
+    const briefingRequest: BriefingRequest = await request.json();
+
+    if (!briefingRequest.adep || !briefingRequest.ades || !briefingRequest.eobdt) {
+      return NextResponse.json(
+        { error: 'Departure, destination and EOBT are required' },
+        { status: 400 }
+      );
+    }
+
+    if (isNaN(new Date(briefingRequest.eobdt.replace(' ', 'T')).getTime())) {
+      return NextResponse.json(
+        { error: 'Invalid EOBT' },
+        { status: 400 }
+      );
+    }
+
+    const result = await homebriefingClient.getNotamBriefing(
+      session.cookies,
+      session.token,
+      briefingRequest
+    );
+
+    // Check for session expiry at Homebriefing side
+    if (result.sessionExpired) {
+      await sessionStore.deleteSession(sessionId);
+      const response = NextResponse.json(
+        { error: 'Homebriefing session expired', code: 'SESSION_EXPIRED' },
+        { status: 401 }
+      );
+      response.cookies.delete('hb-session');
+      return response;
+    }
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('NOTAM briefing error:', error);
+    return NextResponse.json(
+      { error: 'Failed to load NOTAM briefing' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { homebriefingClient, sessionStore, BriefingRequest } from '@/lib/homebriefing';
+import { cookies } from 'next/headers';
+
+export async function POST(request: NextRequest) {
+  try {
+    const cookieStore = await cookies();
+    const sessionId = cookieStore.get('hb-session')?.value;
+
+    if (!sessionId) {
+      return NextResponse.json(
+        { error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const session = await sessionStore.getSession(sessionId);
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Session expired' },
+        { status: 401 }
+      );
+    }
+
+    const briefingRequest: BriefingRequest = await request.json();
+
+    if (!briefingRequest.adep || !briefingRequest.ades) {
+      return NextResponse.json(
+        { error: 'Departure and destination are required' },
+        { status: 400 }
+      );
+    }
+
+    const result = await homebriefingClient.getRouteMap(
+      session.cookies,
+      session.token,
+      briefingRequest
+    );
+
+    // Check for session expiry at Homebriefing side
+    if (result.sessionExpired) {
+      await sessionStore.deleteSession(sessionId);
+      const response = NextResponse.json(
+        { error: 'Homebriefing session expired', code: 'SESSION_EXPIRED' },
+        { status: 401 }
+      );
+      response.cookies.delete('hb-session');
+      return response;
+    }
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Route map error:', error);
+    return NextResponse.json(
+      { error: 'Failed to load route map' },
+      { status: 500 }
+    );
+  }
+}
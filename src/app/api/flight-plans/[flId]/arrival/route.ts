@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { homebriefingClient, sessionStore } from '@/lib/homebriefing';
+import { cookies } from 'next/headers';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ flId: string }> }
+) {
+  try {
+    const cookieStore = await cookies();
+    const sessionId = cookieStore.get('hb-session')?.value;
+
+    if (!sessionId) {
+      return NextResponse.json(
+        { error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const session = await sessionStore.getSession(sessionId);
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Session expired' },
+        { status: 401 }
+      );
+    }
+
+    const { flId } = await params;
+    const flightPlanId = parseInt(flId);
+
+    if (isNaN(flightPlanId)) {
+      return NextResponse.json(
+        { error: 'Invalid flight plan ID' },
+        { status: 400 }
+      );
+    }
+
+    const body = await request.json();
+    const { arrivalTime } = body;
+    const arrivalAerodrome = (body.arrivalAerodrome || '').toUpperCase();
+    const arrivalAerodromeName = (body.arrivalAerodromeName || '').toUpperCase();
+
+    // Validate ATA format (HHMM)
+    if (!arrivalTime || !/^([01]\d|2[0-3])[0-5]\d$/.test(arrivalTime)) {
+      return NextResponse.json(
+        { error: 'Invalid arrival time format. Expected HHMM (e.g., 1345)' },
+        { status: 400 }
+      );
+    }
+
+    // Diversion aerodrome is optional, but must be a 4-letter ICAO code when given
+    if (arrivalAerodrome && !/^[A-Z]{4}$/.test(arrivalAerodrome)) {
+      return NextResponse.json(
+        { error: 'Invalid arrival aerodrome. Expected 4-letter ICAO code' },
+        { status: 400 }
+      );
+    }
+
+    if (arrivalAerodrome === 'ZZZZ' && !arrivalAerodromeName) {
+      return NextResponse.json(
+        { error: 'Aerodrome name is required when arrival aerodrome is ZZZZ' },
+        { status: 400 }
+      );
+    }
+
+    const result = await homebriefingClient.sendArrival(
+      session.cookies,
+      session.token,
+      session.userSession,
+      flightPlanId,
+      arrivalAerodrome,
+      arrivalTime,
+      arrivalAerodrome === 'ZZZZ' ? arrivalAerodromeName : ''
+    );
+
+    // Check for session expiry at Homebriefing side
+    if (result.sessionExpired) {
+      await sessionStore.deleteSession(sessionId);
+      const response = NextResponse.json(
+        { error: 'Homebriefing session expired', code: 'SESSION_EXPIRED' },
+        { status: 401 }
+      );
+      response.cookies.delete('hb-session');
+      return response;
+    }
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Flight plan arrival error:', error);
+    return NextResponse.json(
+      { error: 'Failed to send arrival message' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { homebriefingClient, sessionStore, getBriefingPackFileName } from '@/lib/homebriefing';
+import { FlightPlan } from '@/lib/homebriefing/types';
+import { cookies } from 'next/headers';
+
+// Briefing pack of a filed flight plan as a PDF download. The body is the
+// flight plan as listed on the dashboard.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ flId: string }> }
+) {
+  try {
+    const cookieStore = await cookies();
+    const sessionId = cookieStore.get('hb-session')?.value;
+
+    if (!sessionId) {
+      return NextResponse.json(
+        { error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const session = await sessionStore.getSession(sessionId);
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Session expired' },
+        { status: 401 }
+      );
+    }
+
+    const { flId } = await params;
+    const flightPlanId = parseInt(flId);
+    const flightPlan: FlightPlan = await request.json();
+
+    if (isNaN(flightPlanId) || flightPlan.flId !== flightPlanId) {
+      return NextResponse.json(
+        { error: 'Invalid flight plan ID' },
+        { status: 400 }
+      );
+    }
+
+    if (!flightPlan.adep || !flightPlan.ades || !flightPlan.eobdt) {
+      return NextResponse.json(
+        { error: 'Departure, destination and EOBT are required' },
+        { status: 400 }
+      );
+    }
+
+    const result = await homebriefingClient.getBriefingPack(
+      session.cookies,
+      session.token,
+      session.userSession,
+      flightPlan
+    );
+
+    // Check for session expiry at Homebriefing side
+    if (result.sessionExpired) {
+      await sessionStore.deleteSession(sessionId);
+      const response = NextResponse.json(
+        { error: 'Homebriefing session expired', code: 'SESSION_EXPIRED' },
+        { status: 401 }
+      );
+      response.cookies.delete('hb-session');
+      return response;
+    }
+
+    if (result.isError) {
+      return NextResponse.json(
+        { error: result.errorMessage || 'Failed to create the briefing pack' },
+        { status: 500 }
+      );
+    }
+
+    return new NextResponse(Buffer.from(result.pdf, 'base64'), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${getBriefingPackFileName(flightPlan)}"`,
+      },
+    });
+  } catch (error) {
+    console.error('Briefing pack error:', error);
+    return NextResponse.json(
+      { error: 'Failed to create the briefing pack' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { homebriefingClient, sessionStore, FlightPlanFormData, getFlightPlanChanges, getLockedFieldChanges, hasFlightPlanChanges } from '@/lib/homebriefing';
+import { cookies } from 'next/headers';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ flId: string }> }
+) {
+  try {
+    const cookieStore = await cookies();
+    const sessionId = cookieStore.get('hb-session')?.value;
+
+    if (!sessionId) {
+      return NextResponse.json(
+        { error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const session = await sessionStore.getSession(sessionId);
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Session expired' },
+        { status: 401 }
+      );
+    }
+
+    const { flId } = await params;
+    const flightPlanId = parseInt(flId);
+
+    if (isNaN(flightPlanId)) {
+      return NextResponse.json(
+        { error: 'Invalid flight plan ID' },
+        { status: 400 }
+      );
+    }
+
+    const formData: FlightPlanFormData = await request.json();
+
+    // Diff against the filed plan as Homebriefing knows it, not against what the browser sent
+    const listResult = await homebriefingClient.getCurrentFlightPlans(
+      session.cookies,
+      session.token,
+      session.userSession,
+      { pageItems: 100 }
+    );
+
+    // Check for session expiry at Homebriefing side
+    if (listResult.sessionExpired) {
+      await sessionStore.deleteSession(sessionId);
+      const response = NextResponse.json(
+        { error: 'Homebriefing session expired', code: 'SESSION_EXPIRED' },
+        { status: 401 }
+      );
+      response.cookies.delete('hb-session');
+      return response;
+    }
+
+    const original = listResult.flightPlans.find((fp) => fp.flId === flightPlanId);
+    if (!original) {
+      return NextResponse.json(
+        { error: 'Flight plan not found' },
+        { status: 404 }
+      );
+    }
+
+    const lockedFields = getLockedFieldChanges(original, formData);
+    if (lockedFields.length > 0) {
+      return NextResponse.json(
+        { error: `Aircraft ID, aerodromes and date of flight cannot be changed and alternates not removed with CHG (${lockedFields.join(', ')}). Cancel and file a new flight plan instead` },
+        { status: 400 }
+      );
+    }
+
+    const changes = getFlightPlanChanges(original, formData);
+    if (!hasFlightPlanChanges(changes)) {
+      return NextResponse.json(
+        { error: 'No changes to send', code: 'UNCHANGED' },
+        { status: 400 }
+      );
+    }
+
+    const result = await homebriefingClient.sendChange(
+      session.cookies,
+      session.token,
+      session.userSession,
+      flightPlanId,
+      changes
+    );
+
+    // Check for session expiry at Homebriefing side
+    if (result.sessionExpired) {
+      await sessionStore.deleteSession(sessionId);
+      const response = NextResponse.json(
+        { error: 'Homebriefing session expired', code: 'SESSION_EXPIRED' },
+        { status: 401 }
+      );
+      response.cookies.delete('hb-session');
+      return response;
+    }
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Flight plan change error:', error);
+    return NextResponse.json(
+      { error: 'Failed to send change message' },
+      { status: 500 }
+    );
+  }
+}
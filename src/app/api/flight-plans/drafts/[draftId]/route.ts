@@ -0,0 +1,151 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { sessionStore } from '@/lib/homebriefing';
+import { cookies } from 'next/headers';
+import { FlightPlanDraftData } from '@/lib/homebriefing/types';
+
+const DRAFT_ID_REGEX = /^[0-9a-f]{16}$/;
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ draftId: string }> }
+) {
+  try {
+    const cookieStore = await cookies();
+    const sessionId = cookieStore.get('hb-session')?.value;
+
+    if (!sessionId) {
+      return NextResponse.json(
+        { error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const session = await sessionStore.getSession(sessionId);
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Session expired' },
+        { status: 401 }
+      );
+    }
+
+    const { draftId } = await params;
+
+    if (!DRAFT_ID_REGEX.test(draftId)) {
+      return NextResponse.json(
+        { error: 'Invalid draft ID' },
+        { status: 400 }
+      );
+    }
+
+    const draft = await sessionStore.getDraft(session.username, draftId);
+    if (!draft) {
+      return NextResponse.json(
+        { error: 'Draft not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ draft });
+  } catch (error) {
+    console.error('Draft fetch error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch draft' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ draftId: string }> }
+) {
+  try {
+    const cookieStore = await cookies();
+    const sessionId = cookieStore.get('hb-session')?.value;
+
+    if (!sessionId) {
+      return NextResponse.json(
+        { error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const session = await sessionStore.getSession(sessionId);
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Session expired' },
+        { status: 401 }
+      );
+    }
+
+    const { draftId } = await params;
+
+    if (!DRAFT_ID_REGEX.test(draftId)) {
+      return NextResponse.json(
+        { error: 'Invalid draft ID' },
+        { status: 400 }
+      );
+    }
+
+    const body: FlightPlanDraftData = await request.json();
+
+    if (!body.formData || !body.field18 || !body.field19) {
+      return NextResponse.json(
+        { error: 'Missing draft data' },
+        { status: 400 }
+      );
+    }
+
+    const draft = await sessionStore.saveDraft(session.username, body, draftId);
+    return NextResponse.json({ draft });
+  } catch (error) {
+    console.error('Draft save error:', error);
+    return NextResponse.json(
+      { error: 'Failed to save draft' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ draftId: string }> }
+) {
+  try {
+    const cookieStore = await cookies();
+    const sessionId = cookieStore.get('hb-session')?.value;
+
+    if (!sessionId) {
+      return NextResponse.json(
+        { error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const session = await sessionStore.getSession(sessionId);
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Session expired' },
+        { status: 401 }
+      );
+    }
+
+    const { draftId } = await params;
+
+    if (!DRAFT_ID_REGEX.test(draftId)) {
+      return NextResponse.json(
+        { error: 'Invalid draft ID' },
+        { status: 400 }
+      );
+    }
+
+    await sessionStore.deleteDraft(session.username, draftId);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Draft delete error:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete draft' },
+      { status: 500 }
+    );
+  }
+}
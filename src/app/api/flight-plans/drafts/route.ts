@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { sessionStore } from '@/lib/homebriefing';
+import { cookies } from 'next/headers';
+import { FlightPlanDraftData, FlightPlanDraftListResponse } from '@/lib/homebriefing/types';
+
+// Drafts are stored by this app, not by Homebriefing, so these routes only need our session
+
+export async function GET() {
+  try {
+    const cookieStore = await cookies();
+    const sessionId = cookieStore.get('hb-session')?.value;
+
+    if (!sessionId) {
+      return NextResponse.json(
+        { error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const session = await sessionStore.getSession(sessionId);
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Session expired' },
+        { status: 401 }
+      );
+    }
+
+    const drafts = await sessionStore.listDrafts(session.username);
+    return NextResponse.json<FlightPlanDraftListResponse>({ drafts });
+  } catch (error) {
+    console.error('Draft list error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch drafts' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const cookieStore = await cookies();
+    const sessionId = cookieStore.get('hb-session')?.value;
+
+    if (!sessionId) {
+      return NextResponse.json(
+        { error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const session = await sessionStore.getSession(sessionId);
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Session expired' },
+        { status: 401 }
+      );
+    }
+
+    const body: FlightPlanDraftData = await request.json();
+
+    if (!body.formData || !body.field18 || !body.field19) {
+      return NextResponse.json(
+        { error: 'Missing draft data' },
+        { status: 400 }
+      );
+    }
+
+    const draft = await sessionStore.saveDraft(session.username, body);
+    return NextResponse.json({ draft });
+  } catch (error) {
+    console.error('Draft save error:', error);
+    return NextResponse.json(
+      { error: 'Failed to save draft' },
+      { status: 500 }
+    );
+  }
+}
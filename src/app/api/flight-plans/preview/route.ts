@@ -0,0 +1,133 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  homebriefingClient,
+  sessionStore,
+  MessagePreviewRequest,
+  getFlightPlanChanges,
+  getLockedFieldChanges,
+  hasFlightPlanChanges,
+  renderFplMessage,
+  renderChgMessage,
+  renderDlaMessage,
+  renderCnlMessage,
+  renderDepMessage,
+  renderArrMessage,
+} from '@/lib/homebriefing';
+import { cookies } from 'next/headers';
+
+const TIME_REGEX = /^([01]\d|2[0-3])[0-5]\d$/;
+
+export async function POST(request: NextRequest) {
+  try {
+    const cookieStore = await cookies();
+    const sessionId = cookieStore.get('hb-session')?.value;
+
+    if (!sessionId) {
+      return NextResponse.json(
+        { error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const session = await sessionStore.getSession(sessionId);
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Session expired' },
+        { status: 401 }
+      );
+    }
+
+    const body: MessagePreviewRequest = await request.json();
+
+    // A new flight plan doesn't exist at Homebriefing yet, render straight from the form
+    if (body.type === 'FPL') {
+      return NextResponse.json({ message: renderFplMessage(body.formData) });
+    }
+
+    // All other messages refer to a filed flight plan
+    const listResult = await homebriefingClient.getCurrentFlightPlans(
+      session.cookies,
+      session.token,
+      session.userSession,
+      { pageItems: 100 }
+    );
+
+    // Check for session expiry at Homebriefing side
+    if (listResult.sessionExpired) {
+      await sessionStore.deleteSession(sessionId);
+      const response = NextResponse.json(
+        { error: 'Homebriefing session expired', code: 'SESSION_EXPIRED' },
+        { status: 401 }
+      );
+      response.cookies.delete('hb-session');
+      return response;
+    }
+
+    const fp = listResult.flightPlans.find((p) => p.flId === body.flId);
+    if (!fp) {
+      return NextResponse.json(
+        { error: 'Flight plan not found' },
+        { status: 404 }
+      );
+    }
+
+    switch (body.type) {
+      case 'CHG': {
+        const changes = getFlightPlanChanges(fp, body.formData);
+        if (getLockedFieldChanges(fp, body.formData).length > 0 || !hasFlightPlanChanges(changes)) {
+          return NextResponse.json(
+            { error: 'No changes to send', code: 'UNCHANGED' },
+            { status: 400 }
+          );
+        }
+        return NextResponse.json({ message: renderChgMessage(fp, body.formData, changes) });
+      }
+      case 'DLA':
+        if (!TIME_REGEX.test(body.newEobt || '')) {
+          return NextResponse.json(
+            { error: 'Invalid time format. Expected HHMM (e.g., 1200)' },
+            { status: 400 }
+          );
+        }
+        return NextResponse.json({ message: renderDlaMessage(fp, body.newEobt) });
+      case 'CNL':
+        return NextResponse.json({ message: renderCnlMessage(fp) });
+      case 'DEP':
+        if (!TIME_REGEX.test(body.departureTime || '')) {
+          return NextResponse.json(
+            { error: 'Invalid time format. Expected HHMM (e.g., 1210)' },
+            { status: 400 }
+          );
+        }
+        return NextResponse.json({ message: renderDepMessage(fp, body.departureTime) });
+      case 'ARR': {
+        if (!TIME_REGEX.test(body.arrivalTime || '')) {
+          return NextResponse.json(
+            { error: 'Invalid time format. Expected HHMM (e.g., 1345)' },
+            { status: 400 }
+          );
+        }
+        const arrivalAerodrome = (body.arrivalAerodrome || '').toUpperCase();
+        return NextResponse.json({
+          message: renderArrMessage(
+            fp,
+            body.arrivalTime,
+            arrivalAerodrome,
+            arrivalAerodrome === 'ZZZZ' ? body.arrivalAerodromeName || '' : ''
+          ),
+        });
+      }
+      default:
+        return NextResponse.json(
+          { error: 'Unknown message type' },
+          { status: 400 }
+        );
+    }
+  } catch (error) {
+    console.error('Message preview error:', error);
+    return NextResponse.json(
+      { error: 'Failed to render message preview' },
+      { status: 500 }
+    );
+  }
+}
@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import { homebriefingClient, sessionStore } from '@/lib/homebriefing';
 import { cookies } from 'next/headers';
 
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+
 export async function GET(request: NextRequest) {
   try {
     const cookieStore = await cookies();
@@ -14,7 +16,7 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    const session = sessionStore.getSession(sessionId);
+    const session = await sessionStore.getSession(sessionId);
     if (!session) {
       return NextResponse.json(
         { error: 'Session expired' },
@@ -25,6 +27,15 @@ export async function GET(request: NextRequest) {
     // Parse query parameters for filters
     const searchParams = request.nextUrl.searchParams;
     const type = searchParams.get('type') || 'current'; // 'current' or 'archive'
+    const dateFrom = searchParams.get('dateFrom') || undefined;
+    const dateTo = searchParams.get('dateTo') || undefined;
+
+    if ([dateFrom, dateTo].some((date) => date && !DATE_REGEX.test(date))) {
+      return NextResponse.json(
+        { error: 'Dates must be given as YYYY-MM-DD' },
+        { status: 400 }
+      );
+    }
 
     const filters = {
       arcid: searchParams.get('arcid') || undefined,
@@ -37,6 +48,8 @@ export async function GET(request: NextRequest) {
       orderColumn: searchParams.get('orderColumn') || 'COL_EOBDT',
       orderType: (searchParams.get('orderType') as 'ASC' | 'DESC') || 'DESC',
       numHoursAfterETA: parseInt(searchParams.get('numHoursAfterETA') || '3'),
+      dateFrom,
+      dateTo,
     };
 
     // Fetch current or archived flight plans based on type
@@ -56,7 +69,7 @@ export async function GET(request: NextRequest) {
 
     // Check for session expiry at Homebriefing side
     if (result.sessionExpired) {
-      sessionStore.deleteSession(sessionId);
+      await sessionStore.deleteSession(sessionId);
       const response = NextResponse.json(
         { error: 'Homebriefing session expired', code: 'SESSION_EXPIRED' },
         { status: 401 }
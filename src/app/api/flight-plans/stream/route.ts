@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { sessionStore, subscribeFlightStatus } from '@/lib/homebriefing';
+import { cookies } from 'next/headers';
+import { FlightStatusEvent } from '@/lib/homebriefing/types';
+
+// Server-Sent Events with the status changes of the current flight plans,
+// from the session's status poller. Comments keep proxies from closing an idle stream.
+
+const HEARTBEAT_INTERVAL = 25 * 1000;
+
+export async function GET(request: NextRequest) {
+  try {
+    const cookieStore = await cookies();
+    const sessionId = cookieStore.get('hb-session')?.value;
+
+    if (!sessionId) {
+      return NextResponse.json(
+        { error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const session = await sessionStore.getSession(sessionId);
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Session expired' },
+        { status: 401 }
+      );
+    }
+
+    const encoder = new TextEncoder();
+    let stop = () => {};
+
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        let closed = false;
+        const send = (text: string) => {
+          if (!closed) controller.enqueue(encoder.encode(text));
+        };
+
+        const unsubscribe = subscribeFlightStatus(sessionId, (event: FlightStatusEvent) => {
+          send(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+          if (event.type === 'expired') {
+            stop();
+            controller.close();
+          }
+        });
+        const heartbeat = setInterval(() => send(': ping\n\n'), HEARTBEAT_INTERVAL);
+
+        stop = () => {
+          if (closed) return;
+          closed = true;
+          unsubscribe();
+          clearInterval(heartbeat);
+        };
+        request.signal.addEventListener('abort', () => stop());
+
+        // Reconnect after 5 seconds when the connection drops
+        send('retry: 5000\n\n');
+      },
+      cancel() {
+        stop();
+      },
+    });
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        'Connection': 'keep-alive',
+      },
+    });
+  } catch (error) {
+    console.error('Flight status stream error:', error);
+    return NextResponse.json(
+      { error: 'Failed to stream flight status' },
+      { status: 500 }
+    );
+  }
+}
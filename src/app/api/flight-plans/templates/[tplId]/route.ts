@@ -17,7 +17,7 @@ export async function GET(
       );
     }
 
-    const session = sessionStore.getSession(sessionId);
+    const session = await sessionStore.getSession(sessionId);
     if (!session) {
       return NextResponse.json(
         { error: 'Session expired' },
@@ -44,7 +44,7 @@ export async function GET(
 
     // Check for session expiry at Homebriefing side
     if (result.sessionExpired) {
-      sessionStore.deleteSession(sessionId);
+      await sessionStore.deleteSession(sessionId);
       const response = NextResponse.json(
         { error: 'Homebriefing session expired', code: 'SESSION_EXPIRED' },
         { status: 401 }
@@ -92,7 +92,7 @@ export async function DELETE(
       );
     }
 
-    const session = sessionStore.getSession(sessionId);
+    const session = await sessionStore.getSession(sessionId);
     if (!session) {
       return NextResponse.json(
         { error: 'Session expired' },
@@ -119,7 +119,7 @@ export async function DELETE(
 
     // Check for session expiry at Homebriefing side
     if (result.sessionExpired) {
-      sessionStore.deleteSession(sessionId);
+      await sessionStore.deleteSession(sessionId);
       const response = NextResponse.json(
         { error: 'Homebriefing session expired', code: 'SESSION_EXPIRED' },
         { status: 401 }
@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getArrivalDue, sendLandedArrival, sessionStore } from '@/lib/homebriefing';
+import { cookies } from 'next/headers';
+import { LandedLinkResponse } from '@/lib/homebriefing/types';
+
+// "I have landed" link of safety timer reminders. The token in the link stands
+// in for the session cookie, so it also works from an email on another device;
+// the ARR is sent with any session the user has here.
+
+function currentUtcTime(): string {
+  return new Date().toISOString().slice(11, 16).replace(':', '');
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const token = request.nextUrl.searchParams.get('token') || '';
+    const found = token ? await sessionStore.getSafetyTimerByToken(token) : undefined;
+
+    if (!found) {
+      return NextResponse.json(
+        { error: 'This link has expired' },
+        { status: 404 }
+      );
+    }
+
+    const { flight, closedAt } = found.timer;
+    return NextResponse.json<LandedLinkResponse>({
+      flight,
+      arrivalDue: new Date(getArrivalDue(flight)).toISOString(),
+      closedAt,
+    });
+  } catch (error) {
+    console.error('Landed link error:', error);
+    return NextResponse.json(
+      { error: 'Failed to read the link' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body: { token?: string; arrivalTime?: string } = await request.json();
+    const found = body.token ? await sessionStore.getSafetyTimerByToken(body.token) : undefined;
+
+    if (!found) {
+      return NextResponse.json(
+        { error: 'This link has expired' },
+        { status: 404 }
+      );
+    }
+
+    // Validate ATA format (HHMM), the time of the click by default
+    const arrivalTime = body.arrivalTime || currentUtcTime();
+    if (!/^([01]\d|2[0-3])[0-5]\d$/.test(arrivalTime)) {
+      return NextResponse.json(
+        { error: 'Invalid arrival time format. Expected HHMM (e.g., 1345)' },
+        { status: 400 }
+      );
+    }
+
+    const cookieStore = await cookies();
+    const result = await sendLandedArrival(found.username, found.timer, arrivalTime, cookieStore.get('hb-session')?.value);
+
+    if (result.status === 'sign-in') {
+      return NextResponse.json(
+        { error: 'Sign in to send the arrival', code: 'SIGN_IN' },
+        { status: 401 }
+      );
+    }
+    if (result.status === 'error') {
+      return NextResponse.json({ isError: true, errorMessage: result.errorMessage });
+    }
+    return NextResponse.json({ isError: false, status: result.status });
+  } catch (error) {
+    console.error('Landed link error:', error);
+    return NextResponse.json(
+      { error: 'Failed to send arrival message' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,128 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { sessionStore, isAllowedTarget } from '@/lib/homebriefing';
+import { cookies } from 'next/headers';
+import { PushSubscriptionData } from '@/lib/homebriefing/types';
+
+// Browsers of the user that get Web Push notifications, one subscription per browser
+
+const MAX_PUSH_SUBSCRIPTIONS = 10;
+
+// P-256 public key (uncompressed point) and 16-byte auth secret, base64url
+function isValidSubscription(body: PushSubscriptionData): boolean {
+  try {
+    if (new URL(body.endpoint).protocol !== 'https:') return false;
+    const p256dh = Buffer.from(body.keys?.p256dh ?? '', 'base64url');
+    const auth = Buffer.from(body.keys?.auth ?? '', 'base64url');
+    return p256dh.length === 65 && p256dh[0] === 4 && auth.length === 16;
+  } catch {
+    return false;
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const cookieStore = await cookies();
+    const sessionId = cookieStore.get('hb-session')?.value;
+
+    if (!sessionId) {
+      return NextResponse.json(
+        { error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const session = await sessionStore.getSession(sessionId);
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Session expired' },
+        { status: 401 }
+      );
+    }
+
+    const body: PushSubscriptionData = await request.json();
+
+    if (!isValidSubscription(body)) {
+      return NextResponse.json(
+        { error: 'Invalid push subscription' },
+        { status: 400 }
+      );
+    }
+
+    if (!(await isAllowedTarget(body.endpoint))) {
+      return NextResponse.json(
+        { error: 'Push service is not at a public address' },
+        { status: 400 }
+      );
+    }
+
+    const settings = await sessionStore.getNotificationSettings(session.username);
+    const subscription = { endpoint: body.endpoint, keys: { p256dh: body.keys.p256dh, auth: body.keys.auth } };
+    const others = (settings?.pushSubscriptions ?? []).filter((sub) => sub.endpoint !== subscription.endpoint);
+
+    if (others.length >= MAX_PUSH_SUBSCRIPTIONS) {
+      return NextResponse.json(
+        { error: `At most ${MAX_PUSH_SUBSCRIPTIONS} browsers, turn notifications off in one first` },
+        { status: 400 }
+      );
+    }
+
+    const saved = await sessionStore.saveNotificationSettings(session.username, {
+      pushSubscriptions: [...others, subscription],
+      webhooks: settings?.webhooks ?? [],
+      safetyTimer: settings?.safetyTimer,
+    });
+    return NextResponse.json({ settings: saved });
+  } catch (error) {
+    console.error('Push subscribe error:', error);
+    return NextResponse.json(
+      { error: 'Failed to save push subscription' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const cookieStore = await cookies();
+    const sessionId = cookieStore.get('hb-session')?.value;
+
+    if (!sessionId) {
+      return NextResponse.json(
+        { error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const session = await sessionStore.getSession(sessionId);
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Session expired' },
+        { status: 401 }
+      );
+    }
+
+    const body: { endpoint?: string } = await request.json();
+
+    if (!body.endpoint) {
+      return NextResponse.json(
+        { error: 'Missing endpoint' },
+        { status: 400 }
+      );
+    }
+
+    const settings = await sessionStore.getNotificationSettings(session.username);
+    if (settings) {
+      await sessionStore.saveNotificationSettings(session.username, {
+        ...settings,
+        pushSubscriptions: settings.pushSubscriptions.filter((sub) => sub.endpoint !== body.endpoint),
+      });
+    }
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Push unsubscribe error:', error);
+    return NextResponse.json(
+      { error: 'Failed to remove push subscription' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,45 @@
+import { NextResponse } from 'next/server';
+import { getVapidPublicKey, isEmailAvailable, sessionStore } from '@/lib/homebriefing';
+import { cookies } from 'next/headers';
+import { NotificationSettingsResponse } from '@/lib/homebriefing/types';
+
+// Notification settings are stored by this app, the notifier sends them from the server
+
+export async function GET() {
+  try {
+    const cookieStore = await cookies();
+    const sessionId = cookieStore.get('hb-session')?.value;
+
+    if (!sessionId) {
+      return NextResponse.json(
+        { error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const session = await sessionStore.getSession(sessionId);
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Session expired' },
+        { status: 401 }
+      );
+    }
+
+    const settings = await sessionStore.getNotificationSettings(session.username);
+    return NextResponse.json<NotificationSettingsResponse>({
+      settings: {
+        pushSubscriptions: settings?.pushSubscriptions ?? [],
+        webhooks: settings?.webhooks ?? [],
+        safetyTimer: settings?.safetyTimer,
+      },
+      vapidPublicKey: getVapidPublicKey(),
+      emailAvailable: isEmailAvailable(),
+    });
+  } catch (error) {
+    console.error('Notification settings error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch notification settings' },
+      { status: 500 }
+    );
+  }
+}
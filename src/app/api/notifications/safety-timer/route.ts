@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isEmailAvailable, sessionStore } from '@/lib/homebriefing';
+import { cookies } from 'next/headers';
+import { SafetyTimerChannel, SafetyTimerListResponse, SafetyTimerSettings } from '@/lib/homebriefing/types';
+
+// Safety timer settings, and the timers with their reminder and acknowledgement log
+
+const CHANNELS: SafetyTimerChannel[] = ['push', 'email', 'webhook'];
+const EMAIL_REGEX = /^[^\s@<>]+@[^\s@<>]+\.[^\s@<>]+$/;
+
+export async function GET() {
+  try {
+    const cookieStore = await cookies();
+    const sessionId = cookieStore.get('hb-session')?.value;
+
+    if (!sessionId) {
+      return NextResponse.json(
+        { error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const session = await sessionStore.getSession(sessionId);
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Session expired' },
+        { status: 401 }
+      );
+    }
+
+    const timers = await sessionStore.listSafetyTimers(session.username);
+    return NextResponse.json<SafetyTimerListResponse>({ timers });
+  } catch (error) {
+    console.error('Safety timer list error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch safety timers' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const cookieStore = await cookies();
+    const sessionId = cookieStore.get('hb-session')?.value;
+
+    if (!sessionId) {
+      return NextResponse.json(
+        { error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const session = await sessionStore.getSession(sessionId);
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Session expired' },
+        { status: 401 }
+      );
+    }
+
+    const body: SafetyTimerSettings = await request.json();
+    const channels = CHANNELS.filter((channel) => body.channels?.includes(channel));
+    const email = (body.email || '').trim();
+
+    if (body.enabled && channels.length === 0) {
+      return NextResponse.json(
+        { error: 'Pick at least one channel for the reminders' },
+        { status: 400 }
+      );
+    }
+
+    if (channels.includes('email') && !isEmailAvailable()) {
+      return NextResponse.json(
+        { error: 'Email is not set up on this server' },
+        { status: 400 }
+      );
+    }
+
+    if (channels.includes('email') && !EMAIL_REGEX.test(email)) {
+      return NextResponse.json(
+        { error: 'Invalid email address' },
+        { status: 400 }
+      );
+    }
+
+    const settings = await sessionStore.getNotificationSettings(session.username);
+    const saved = await sessionStore.saveNotificationSettings(session.username, {
+      pushSubscriptions: settings?.pushSubscriptions ?? [],
+      webhooks: settings?.webhooks ?? [],
+      safetyTimer: { enabled: !!body.enabled, channels, email: email || undefined },
+    });
+    return NextResponse.json({ settings: saved });
+  } catch (error) {
+    console.error('Safety timer save error:', error);
+    return NextResponse.json(
+      { error: 'Failed to save safety timer settings' },
+      { status: 500 }
+    );
+  }
+}
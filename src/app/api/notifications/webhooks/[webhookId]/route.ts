@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { sessionStore } from '@/lib/homebriefing';
+import { cookies } from 'next/headers';
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ webhookId: string }> }
+) {
+  try {
+    const cookieStore = await cookies();
+    const sessionId = cookieStore.get('hb-session')?.value;
+
+    if (!sessionId) {
+      return NextResponse.json(
+        { error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const session = await sessionStore.getSession(sessionId);
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Session expired' },
+        { status: 401 }
+      );
+    }
+
+    const { webhookId } = await params;
+    const settings = await sessionStore.getNotificationSettings(session.username);
+    if (settings) {
+      await sessionStore.saveNotificationSettings(session.username, {
+        ...settings,
+        webhooks: settings.webhooks.filter((webhook) => webhook.webhookId !== webhookId),
+      });
+    }
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Webhook delete error:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete webhook' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { sessionStore, isAllowedTarget } from '@/lib/homebriefing';
+import { cookies } from 'next/headers';
+import { randomBytes } from 'crypto';
+
+// Outgoing webhooks, called with the notification as JSON
+
+const MAX_WEBHOOKS = 5;
+
+function isValidWebhookUrl(url: string): boolean {
+  try {
+    const { protocol } = new URL(url);
+    return protocol === 'https:' || protocol === 'http:';
+  } catch {
+    return false;
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const cookieStore = await cookies();
+    const sessionId = cookieStore.get('hb-session')?.value;
+
+    if (!sessionId) {
+      return NextResponse.json(
+        { error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const session = await sessionStore.getSession(sessionId);
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Session expired' },
+        { status: 401 }
+      );
+    }
+
+    const body: { url?: string; secret?: string } = await request.json();
+    const url = (body.url || '').trim();
+
+    if (!isValidWebhookUrl(url)) {
+      return NextResponse.json(
+        { error: 'Webhook URL must start with http:// or https://' },
+        { status: 400 }
+      );
+    }
+
+    if (!(await isAllowedTarget(url))) {
+      return NextResponse.json(
+        { error: 'Webhook URL must be a public address, not a local or private network' },
+        { status: 400 }
+      );
+    }
+
+    const settings = await sessionStore.getNotificationSettings(session.username);
+    const webhooks = settings?.webhooks ?? [];
+
+    if (webhooks.length >= MAX_WEBHOOKS) {
+      return NextResponse.json(
+        { error: `At most ${MAX_WEBHOOKS} webhooks` },
+        { status: 400 }
+      );
+    }
+
+    const saved = await sessionStore.saveNotificationSettings(session.username, {
+      pushSubscriptions: settings?.pushSubscriptions ?? [],
+      webhooks: [...webhooks, { webhookId: randomBytes(8).toString('hex'), url, secret: body.secret || undefined }],
+      safetyTimer: settings?.safetyTimer,
+    });
+    return NextResponse.json({ settings: saved });
+  } catch (error) {
+    console.error('Webhook save error:', error);
+    return NextResponse.json(
+      { error: 'Failed to save webhook' },
+      { status: 500 }
+    );
+  }
+}
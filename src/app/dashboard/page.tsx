@@ -3,14 +3,140 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { useRouter } from 'next/navigation';
 import Link from 'next/link';
-import { FlightPlan, FlightMessage } from '@/lib/homebriefing/types';
+import { FlightPlan, FlightPlanDraft, FlightMessage, FlightStatusEvent, MessagePreviewRequest, AtfmRegulation } from '@/lib/homebriefing/types';
+import { getBriefingRequest } from '@/lib/homebriefing/briefing/route';
+import { isAirborne } from '@/lib/homebriefing/flight-messages';
+import NotamBriefingPanel from '@/components/NotamBriefingPanel';
+import MetBriefingPanel from '@/components/MetBriefingPanel';
+import RouteMapPanel from '@/components/RouteMapPanel';
+import AerodromeInput from '@/components/AerodromeInput';
+import NotificationSettingsPanel from '@/components/NotificationSettingsPanel';
 
 type TabType = 'current' | 'archive';
 
+// Tab, filters, order and page of the flight plan list, kept in the URL
+// (e.g. /dashboard?tab=archive&ades=EHTE&page=2) so a search can be shared or reloaded
+interface DashboardQuery {
+  tab: TabType;
+  arcid: string;
+  adep: string;
+  ades: string;
+  flRules: string;        // V, I, Y, Z, X (all)
+  ownFlsOnly: boolean;
+  orderColumn: string;
+  orderType: 'ASC' | 'DESC';
+  page: number;           // From 0, as GetFPLList/GetFPLArchive count
+  dateFrom: string;       // Archive only, EOBT date range in UTC (YYYY-MM-DD)
+  dateTo: string;
+}
+
+const DEFAULT_QUERY: DashboardQuery = {
+  tab: 'current',
+  arcid: '',
+  adep: '',
+  ades: '',
+  flRules: 'X',
+  ownFlsOnly: false,
+  orderColumn: 'COL_EOBDT',
+  orderType: 'DESC',
+  page: 0,
+  dateFrom: '',
+  dateTo: '',
+};
+
+const PAGE_SIZE = 25;
+
+// Order columns of the Homebriefing flight plan lists
+const sortOptions = [
+  { value: 'COL_EOBDT', label: 'EOBT' },
+  { value: 'COL_ARCID', label: 'Callsign' },
+  { value: 'COL_ADEP', label: 'Departure' },
+  { value: 'COL_ADES', label: 'Destination' },
+  { value: 'COL_ATYP', label: 'Aircraft type' },
+  { value: 'COL_FR', label: 'Flight rules' },
+];
+
+const flightRulesFilterOptions = [
+  { value: 'X', label: 'All rules' },
+  { value: 'V', label: 'VFR' },
+  { value: 'I', label: 'IFR' },
+  { value: 'Y', label: 'IFR then VFR' },
+  { value: 'Z', label: 'VFR then IFR' },
+];
+
+// The URL counts pages from 1 and leaves out the defaults
+function parseDashboardQuery(search: string): DashboardQuery {
+  const params = new URLSearchParams(search);
+  const text = (name: string) => (params.get(name) || '').trim().toUpperCase();
+  const page = parseInt(params.get('page') || '');
+  const date = (name: string) => (/^\d{4}-\d{2}-\d{2}$/.test(params.get(name) || '') ? params.get(name)! : '');
+  return {
+    tab: params.get('tab') === 'archive' ? 'archive' : 'current',
+    arcid: text('arcid'),
+    adep: text('adep'),
+    ades: text('ades'),
+    flRules: ['V', 'I', 'Y', 'Z'].includes(text('flRules')) ? text('flRules') : 'X',
+    ownFlsOnly: params.get('ownFlsOnly') === 'true',
+    orderColumn: sortOptions.some((o) => o.value === params.get('orderColumn')) ? params.get('orderColumn')! : DEFAULT_QUERY.orderColumn,
+    orderType: params.get('orderType') === 'ASC' ? 'ASC' : 'DESC',
+    page: page > 1 ? page - 1 : 0,
+    dateFrom: date('dateFrom'),
+    dateTo: date('dateTo'),
+  };
+}
+
+function buildDashboardSearch(query: DashboardQuery): string {
+  const params = new URLSearchParams();
+  (Object.keys(query) as (keyof DashboardQuery)[]).forEach((key) => {
+    if (key === 'page' || query[key] === DEFAULT_QUERY[key]) return;
+    params.set(key, String(query[key]));
+  });
+  if (query.page > 0) params.set('page', String(query.page + 1));
+  const search = params.toString();
+  return search ? `?${search}` : '';
+}
+
+function hasFilters(query: DashboardQuery): boolean {
+  return !!(query.arcid || query.adep || query.ades) || query.flRules !== 'X' || query.ownFlsOnly || hasDateRange(query);
+}
+
+// The date range only applies to the archive
+function hasDateRange(query: DashboardQuery): boolean {
+  return query.tab === 'archive' && !!(query.dateFrom || query.dateTo);
+}
+
+// First and last day of a UTC month, `offset` months from now: 0 this month, -1 last month
+function getMonthRange(offset: number): { dateFrom: string; dateTo: string } {
+  const now = new Date();
+  const first = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + offset, 1));
+  const last = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + offset + 1, 0));
+  return { dateFrom: first.toISOString().slice(0, 10), dateTo: last.toISOString().slice(0, 10) };
+}
+
+// Query of /api/flight-plans
+function buildFlightPlansQuery(query: DashboardQuery): string {
+  const params = new URLSearchParams({
+    type: query.tab,
+    flRules: query.flRules,
+    ownFlsOnly: String(query.ownFlsOnly),
+    page: String(query.page),
+    limit: String(PAGE_SIZE),
+    orderColumn: query.orderColumn,
+    orderType: query.orderType,
+  });
+  if (query.arcid) params.set('arcid', query.arcid);
+  if (query.adep) params.set('adep', query.adep);
+  if (query.ades) params.set('ades', query.ades);
+  if (query.tab === 'archive' && query.dateFrom) params.set('dateFrom', query.dateFrom);
+  if (query.tab === 'archive' && query.dateTo) params.set('dateTo', query.dateTo);
+  return params.toString();
+}
+
 // Status display logic based on Homebriefing status codes and flCanDo bitmask
 // flCanDo bitmask: 1=DEP, 3=ARR, 4=CNL, 7=DLA, 16=CHG (values can be combined)
 // Active flight = statusCode 48/53 + EOBT in future or recent past
-function getStatusDisplay(statusCode: number, statusStr: string, flCanDo: number, eobdt?: string): { color: string; label: string } {
+// Airborne = accepted flight whose latest status message is an acknowledged DEP (isAirborne)
+function getStatusDisplay(statusCode: number, statusStr: string, flCanDo: number, eobdt?: string, airborne?: boolean): { color: string; label: string } {
   // Rejected states
   if (statusCode === 49 || statusCode === 490 || statusCode === 491) {
     return { color: 'bg-red-100 text-red-800', label: 'Rejected' };
@@ -28,6 +154,10 @@ function getStatusDisplay(statusCode: number, statusStr: string, flCanDo: number
 
   // Accepted states (48, 53)
   if (statusCode === 48 || statusCode === 53) {
+    if (airborne) {
+      return { color: 'bg-sky-100 text-sky-800', label: 'Airborne' };
+    }
+
     // Check if flight is in the past (more than 3 hours after EOBT)
     if (eobdt) {
       const flightTime = new Date(eobdt).getTime();
@@ -89,6 +219,21 @@ function canPerformActions(statusCode: number, flCanDo: number): boolean {
   return false;
 }
 
+// ARR stays available once DLA/CNL are locked (flCanDo=16), so a pilot can still
+// close the flight plan after landing at an uncontrolled field
+function canSendArrival(statusCode: number, flCanDo: number): boolean {
+  if (canPerformActions(statusCode, flCanDo)) return true;
+
+  if (statusCode !== 48 && statusCode !== 53) {
+    return false;
+  }
+
+  if ((flCanDo & 7) === 7) return false;
+  if ((flCanDo & 4) === 4) return false;
+
+  return (flCanDo & 16) === 16;
+}
+
 
 function formatDateTime(dateStr: string): { date: string; time: string } {
   const d = new Date(dateStr);
@@ -117,22 +262,64 @@ function getMsgTypeColor(msgType: string): string {
     case 'DLA': return 'bg-orange-100 text-orange-800';
     case 'ACK': return 'bg-emerald-100 text-emerald-800';
     case 'REJ': return 'bg-red-100 text-red-800';
+    case 'SAM': return 'bg-amber-100 text-amber-800';
+    case 'SRM': return 'bg-amber-100 text-amber-800';
+    case 'SLC': return 'bg-teal-100 text-teal-800';
     default: return 'bg-slate-100 text-slate-800';
   }
 }
 
+// Slot messages from the Network Manager: allocation, revision and cancellation
+const SLOT_MESSAGE_TYPES = ['SAM', 'SRM', 'SLC'];
+
+// ATFM regulation cause codes (Network Manager)
+const REGULATION_REASONS: Record<string, string> = {
+  A: 'Accident/incident',
+  C: 'ATC capacity',
+  D: 'De-icing',
+  E: 'Equipment (non-ATC)',
+  G: 'Aerodrome capacity',
+  I: 'Industrial action (ATC)',
+  M: 'Airspace management',
+  N: 'Industrial action (non-ATC)',
+  O: 'Other',
+  P: 'Special event',
+  R: 'ATC routeing',
+  S: 'ATC staffing',
+  T: 'Equipment (ATC)',
+  V: 'Environmental issues',
+  W: 'Weather',
+};
+
+// ICAO message text as it will be sent, same style as the message history
+function MessagePreview({ message, error }: { message: string | null; error: string | null }) {
+  if (error) {
+    return <p className="mt-4 text-sm text-red-600">{error}</p>;
+  }
+  return (
+    <div className="mt-4">
+      <p className="text-xs font-medium text-slate-500 mb-1">Message to be sent</p>
+      <pre className="text-sm text-slate-800 whitespace-pre-wrap font-mono bg-white p-3 rounded border border-slate-200 overflow-x-auto">
+        {message ?? 'Loading message preview...'}
+      </pre>
+    </div>
+  );
+}
+
 function FlightPlanDetailModal({
   fp,
   onClose,
   onSessionExpired,
   onRefresh,
   isArchive,
+  messagesVersion,
 }: {
   fp: FlightPlan;
   onClose: () => void;
   onSessionExpired: () => void;
   onRefresh: () => void;
   isArchive: boolean;
+  messagesVersion: number;   // Goes up when the status stream reports new messages for this flight
 }) {
   const [messages, setMessages] = useState<FlightMessage[]>([]);
   const [loading, setLoading] = useState(true);
@@ -146,8 +333,26 @@ function FlightPlanDetailModal({
   const [cancelling, setCancelling] = useState(false);
   const [cancelError, setCancelError] = useState<string | null>(null);
   const [cancelSuccess, setCancelSuccess] = useState(false);
+  const [showDepartureModal, setShowDepartureModal] = useState(false);
+  const [departureTime, setDepartureTime] = useState('');
+  const [sendingDeparture, setSendingDeparture] = useState(false);
+  const [departureError, setDepartureError] = useState<string | null>(null);
+  const [departureSuccess, setDepartureSuccess] = useState(false);
+  const [showArrivalModal, setShowArrivalModal] = useState(false);
+  const [arrivalTime, setArrivalTime] = useState('');
+  const [arrivalAerodrome, setArrivalAerodrome] = useState('');
+  const [arrivalAerodromeName, setArrivalAerodromeName] = useState('');
+  const [sendingArrival, setSendingArrival] = useState(false);
+  const [arrivalError, setArrivalError] = useState<string | null>(null);
+  const [arrivalSuccess, setArrivalSuccess] = useState(false);
+  const [previewMessage, setPreviewMessage] = useState<string | null>(null);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+  const [downloadingPack, setDownloadingPack] = useState(false);
+  const [packError, setPackError] = useState<string | null>(null);
+  const [regulations, setRegulations] = useState<AtfmRegulation[]>([]);
+  const [regulationsError, setRegulationsError] = useState<string | null>(null);
   const { date, time } = formatDateTime(fp.eobdt);
-  const status = getStatusDisplay(fp.flStatusCode, fp.flStatusStr, fp.flCanDo, fp.eobdt);
+  const status = getStatusDisplay(fp.flStatusCode, fp.flStatusStr, fp.flCanDo, fp.eobdt, !loading && isAirborne(messages));
 
   // Use ref to avoid dependency on onSessionExpired causing re-renders
   const onSessionExpiredRef = useRef(onSessionExpired);
@@ -181,7 +386,122 @@ function FlightPlanDetailModal({
     };
 
     fetchMessages();
-  }, [fp.flId]);
+  }, [fp.flId, messagesVersion]);
+
+  // Regulations behind the slot, only a flight with a CTOT has any
+  useEffect(() => {
+    if (!fp.ctot) return;
+
+    const fetchRegulations = async () => {
+      setRegulationsError(null);
+      try {
+        const res = await fetch(`/api/flight-plans/${fp.flId}/regulations`);
+        if (res.status === 401) {
+          onSessionExpiredRef.current();
+          return;
+        }
+        const data = await res.json();
+        if (data.error) {
+          setRegulationsError(data.error);
+        } else {
+          setRegulations(data.regulations || []);
+        }
+      } catch {
+        setRegulationsError('Failed to fetch ATFM regulations');
+      }
+    };
+
+    fetchRegulations();
+  }, [fp.flId, fp.ctot]);
+
+  // Message the open action panel would send, rendered server-side
+  let previewRequest: MessagePreviewRequest | null = null;
+  if (showDelayModal && /^\d{4}$/.test(delayTime)) {
+    previewRequest = { type: 'DLA', flId: fp.flId, newEobt: delayTime };
+  } else if (showCancelModal) {
+    previewRequest = { type: 'CNL', flId: fp.flId };
+  } else if (showDepartureModal && /^\d{4}$/.test(departureTime)) {
+    previewRequest = { type: 'DEP', flId: fp.flId, departureTime };
+  } else if (showArrivalModal && /^\d{4}$/.test(arrivalTime)) {
+    previewRequest = {
+      type: 'ARR',
+      flId: fp.flId,
+      arrivalTime,
+      arrivalAerodrome: arrivalAerodrome === fp.ades ? '' : arrivalAerodrome,
+      arrivalAerodromeName,
+    };
+  }
+  const previewKey = previewRequest ? JSON.stringify(previewRequest) : null;
+
+  const briefingRequest = getBriefingRequest(fp);
+
+  useEffect(() => {
+    if (!previewKey) return;
+
+    // Debounce so typing an aerodrome name doesn't fire a request per keystroke
+    const timeout = setTimeout(async () => {
+      setPreviewMessage(null);
+      setPreviewError(null);
+      try {
+        const res = await fetch('/api/flight-plans/preview', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: previewKey,
+        });
+        if (res.status === 401) {
+          onSessionExpiredRef.current();
+          return;
+        }
+        const data = await res.json();
+        if (data.message) {
+          setPreviewMessage(data.message);
+        } else {
+          setPreviewError(data.error || 'Failed to load message preview');
+        }
+      } catch {
+        setPreviewError('Failed to load message preview');
+      }
+    }, 300);
+
+    return () => clearTimeout(timeout);
+  }, [previewKey]);
+
+  // Download the briefing pack PDF (flight plan, messages, weather, NOTAMs)
+  const handleDownloadBriefingPack = async () => {
+    setDownloadingPack(true);
+    setPackError(null);
+
+    try {
+      const res = await fetch(`/api/flight-plans/${fp.flId}/briefing-pack`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(fp),
+      });
+
+      if (res.status === 401) {
+        onSessionExpiredRef.current();
+        return;
+      }
+
+      if (!res.ok) {
+        const data = await res.json();
+        setPackError(data.error || 'Failed to create the briefing pack');
+        return;
+      }
+
+      const fileName = res.headers.get('Content-Disposition')?.match(/filename="([^"]+)"/)?.[1] || 'briefing.pdf';
+      const url = URL.createObjectURL(await res.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = fileName;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch {
+      setPackError('Failed to download the briefing pack');
+    } finally {
+      setDownloadingPack(false);
+    }
+  };
 
   // Handle delay submission
   const handleDelay = async () => {
@@ -262,6 +582,103 @@ function FlightPlanDetailModal({
     }
   };
 
+  // Handle departure submission
+  const handleDeparture = async () => {
+    if (!departureTime || !/^\d{4}$/.test(departureTime)) {
+      setDepartureError('Enter time in HHMM format (e.g., 1210)');
+      return;
+    }
+
+    setSendingDeparture(true);
+    setDepartureError(null);
+
+    try {
+      const res = await fetch(`/api/flight-plans/${fp.flId}/departure`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ departureTime }),
+      });
+
+      if (res.status === 401) {
+        onSessionExpiredRef.current();
+        return;
+      }
+
+      const data = await res.json();
+
+      if (data.success) {
+        setDepartureSuccess(true);
+        // Refresh the flight plans list after successful departure
+        setTimeout(() => {
+          onRefresh();
+          onClose();
+        }, 1500);
+      } else {
+        setDepartureError(data.errorMessage || data.error || 'Failed to send departure');
+      }
+    } catch {
+      setDepartureError('Failed to send departure message');
+    } finally {
+      setSendingDeparture(false);
+    }
+  };
+
+  // Handle arrival submission
+  const handleArrival = async () => {
+    if (!arrivalTime || !/^\d{4}$/.test(arrivalTime)) {
+      setArrivalError('Enter time in HHMM format (e.g., 1345)');
+      return;
+    }
+
+    if (arrivalAerodrome.length !== 4) {
+      setArrivalError('Enter the 4-letter ICAO code of the arrival aerodrome');
+      return;
+    }
+
+    if (arrivalAerodrome === 'ZZZZ' && !arrivalAerodromeName) {
+      setArrivalError('Enter the name of the arrival aerodrome');
+      return;
+    }
+
+    setSendingArrival(true);
+    setArrivalError(null);
+
+    try {
+      const res = await fetch(`/api/flight-plans/${fp.flId}/arrival`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          arrivalTime,
+          // Only a diversion is reported as arrival aerodrome, Homebriefing uses ADES otherwise
+          arrivalAerodrome: arrivalAerodrome === fp.ades ? '' : arrivalAerodrome,
+          arrivalAerodromeName,
+        }),
+      });
+
+      if (res.status === 401) {
+        onSessionExpiredRef.current();
+        return;
+      }
+
+      const data = await res.json();
+
+      if (data.success) {
+        setArrivalSuccess(true);
+        // Refresh the flight plans list after successful arrival
+        setTimeout(() => {
+          onRefresh();
+          onClose();
+        }, 1500);
+      } else {
+        setArrivalError(data.errorMessage || data.error || 'Failed to send arrival');
+      }
+    } catch {
+      setArrivalError('Failed to send arrival message');
+    } finally {
+      setSendingArrival(false);
+    }
+  };
+
   return (
     <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4" onClick={onClose}>
       <div
@@ -298,31 +715,85 @@ function FlightPlanDetailModal({
           </div>
 
           {/* Action buttons */}
-          {!isArchive && canPerformActions(fp.flStatusCode, fp.flCanDo) && (
-            <div className="mt-4 flex gap-2">
+          {!isArchive && canSendArrival(fp.flStatusCode, fp.flCanDo) && (
+            <div className="mt-4 flex flex-wrap gap-2">
+              {canPerformActions(fp.flStatusCode, fp.flCanDo) && (
+                <>
+                  <button
+                    onClick={() => {
+                      setDelayTime(currentEobt);
+                      setShowDelayModal(true);
+                    }}
+                    className="flex items-center gap-2 px-3 py-1.5 text-sm font-medium text-orange-700 bg-orange-100 hover:bg-orange-200 rounded-lg transition"
+                  >
+                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+                    </svg>
+                    Delay (DLA)
+                  </button>
+                  <Link
+                    href={`/new-flight-plan?modify=${fp.flId}`}
+                    className="flex items-center gap-2 px-3 py-1.5 text-sm font-medium text-yellow-700 bg-yellow-100 hover:bg-yellow-200 rounded-lg transition"
+                  >
+                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
+                    </svg>
+                    Modify (CHG)
+                  </Link>
+                  <button
+                    onClick={() => setShowCancelModal(true)}
+                    className="flex items-center gap-2 px-3 py-1.5 text-sm font-medium text-red-700 bg-red-100 hover:bg-red-200 rounded-lg transition"
+                  >
+                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                    </svg>
+                    Cancel (CNL)
+                  </button>
+                  <button
+                    onClick={() => {
+                      setDepartureTime(new Date().toISOString().slice(11, 16).replace(':', ''));
+                      setShowDepartureModal(true);
+                    }}
+                    className="flex items-center gap-2 px-3 py-1.5 text-sm font-medium text-green-700 bg-green-100 hover:bg-green-200 rounded-lg transition"
+                  >
+                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 10l7-7m0 0l7 7m-7-7v18" />
+                    </svg>
+                    Departed (DEP)
+                  </button>
+                </>
+              )}
               <button
                 onClick={() => {
-                  setDelayTime(currentEobt);
-                  setShowDelayModal(true);
+                  setArrivalTime(new Date().toISOString().slice(11, 16).replace(':', ''));
+                  setArrivalAerodrome(fp.ades);
+                  setArrivalAerodromeName('');
+                  setShowArrivalModal(true);
                 }}
-                className="flex items-center gap-2 px-3 py-1.5 text-sm font-medium text-orange-700 bg-orange-100 hover:bg-orange-200 rounded-lg transition"
-              >
-                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
-                </svg>
-                Delay (DLA)
-              </button>
-              <button
-                onClick={() => setShowCancelModal(true)}
-                className="flex items-center gap-2 px-3 py-1.5 text-sm font-medium text-red-700 bg-red-100 hover:bg-red-200 rounded-lg transition"
+                className="flex items-center gap-2 px-3 py-1.5 text-sm font-medium text-purple-700 bg-purple-100 hover:bg-purple-200 rounded-lg transition"
               >
                 <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
                 </svg>
-                Cancel (CNL)
+                Arrived (ARR)
               </button>
             </div>
           )}
+
+          {/* Briefing pack, also for archived flights */}
+          <div className="mt-3 flex flex-wrap items-center gap-3">
+            <button
+              onClick={handleDownloadBriefingPack}
+              disabled={downloadingPack}
+              className="flex items-center gap-2 px-3 py-1.5 text-sm font-medium text-slate-700 bg-slate-100 hover:bg-slate-200 rounded-lg transition disabled:opacity-50"
+            >
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+              </svg>
+              {downloadingPack ? 'Preparing briefing pack...' : 'Download briefing pack'}
+            </button>
+            {packError && <span className="text-sm text-red-600">{packError}</span>}
+          </div>
         </div>
 
         {/* Delay Modal */}
@@ -377,6 +848,8 @@ function FlightPlanDetailModal({
                   </div>
                 </div>
 
+                {previewKey && <MessagePreview message={previewMessage} error={previewError} />}
+
                 {delayError && (
                   <div className="mt-3 p-3 bg-red-50 border border-red-200 rounded-lg text-red-700 text-sm">
                     {delayError}
@@ -410,6 +883,10 @@ function FlightPlanDetailModal({
                   </p>
                 </div>
 
+                <div className="mb-4">
+                  <MessagePreview message={previewMessage} error={previewError} />
+                </div>
+
                 <div className="flex gap-2">
                   <button
                     onClick={handleCancel}
@@ -439,6 +916,160 @@ function FlightPlanDetailModal({
           </div>
         )}
 
+        {/* Departure Modal */}
+        {showDepartureModal && (
+          <div className="p-6 border-b border-slate-200 bg-green-50">
+            <h3 className="text-lg font-semibold text-slate-800 mb-3">Report Departure</h3>
+
+            {departureSuccess ? (
+              <div className="p-4 bg-green-50 border border-green-200 rounded-lg text-green-700">
+                Departure message sent successfully!
+              </div>
+            ) : (
+              <>
+                <p className="text-sm text-slate-600 mb-4">
+                  Enter the actual time of departure (ATD) in UTC, as take-off time from {fp.adep}.
+                  EOBT: <span className="font-mono font-medium">{time}z</span>
+                </p>
+
+                <div className="flex items-center gap-3">
+                  <div>
+                    <label className="block text-sm font-medium text-slate-700 mb-1">
+                      ATD (HHMM)
+                    </label>
+                    <input
+                      type="text"
+                      value={departureTime}
+                      onChange={(e) => setDepartureTime(e.target.value.replace(/\D/g, '').slice(0, 4))}
+                      placeholder="1210"
+                      className="w-24 px-3 py-2 border border-slate-300 rounded-lg font-mono text-center focus:ring-2 focus:ring-green-500 focus:border-green-500"
+                      maxLength={4}
+                    />
+                  </div>
+
+                  <div className="flex gap-2 mt-6">
+                    <button
+                      onClick={handleDeparture}
+                      disabled={sendingDeparture || !departureTime}
+                      className="px-4 py-2 bg-green-600 text-white rounded-lg font-medium hover:bg-green-700 transition disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      {sendingDeparture ? 'Sending...' : 'Send DEP'}
+                    </button>
+                    <button
+                      onClick={() => {
+                        setShowDepartureModal(false);
+                        setDepartureError(null);
+                      }}
+                      className="px-4 py-2 text-slate-600 hover:bg-slate-100 rounded-lg transition"
+                    >
+                      Cancel
+                    </button>
+                  </div>
+                </div>
+
+                {previewKey && <MessagePreview message={previewMessage} error={previewError} />}
+
+                {departureError && (
+                  <div className="mt-3 p-3 bg-red-50 border border-red-200 rounded-lg text-red-700 text-sm">
+                    {departureError}
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+        )}
+
+        {/* Arrival Modal */}
+        {showArrivalModal && (
+          <div className="p-6 border-b border-slate-200 bg-purple-50">
+            <h3 className="text-lg font-semibold text-slate-800 mb-3">Close Flight Plan</h3>
+
+            {arrivalSuccess ? (
+              <div className="p-4 bg-green-50 border border-green-200 rounded-lg text-green-700">
+                Arrival message sent successfully!
+              </div>
+            ) : (
+              <>
+                <p className="text-sm text-slate-600 mb-4">
+                  Enter the actual time of arrival (ATA) in UTC. Change the aerodrome only if you
+                  diverted from <span className="font-mono font-medium">{fp.ades}</span>.
+                </p>
+
+                <div className="flex flex-wrap items-center gap-3">
+                  <div>
+                    <label className="block text-sm font-medium text-slate-700 mb-1">
+                      ATA (HHMM)
+                    </label>
+                    <input
+                      type="text"
+                      value={arrivalTime}
+                      onChange={(e) => setArrivalTime(e.target.value.replace(/\D/g, '').slice(0, 4))}
+                      placeholder="1345"
+                      className="w-24 px-3 py-2 border border-slate-300 rounded-lg font-mono text-center focus:ring-2 focus:ring-purple-500 focus:border-purple-500"
+                      maxLength={4}
+                    />
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-slate-700 mb-1">
+                      Aerodrome
+                    </label>
+                    <AerodromeInput
+                      value={arrivalAerodrome}
+                      onChange={setArrivalAerodrome}
+                      onSelect={(aerodrome) => setArrivalAerodromeName(aerodrome.icao ? '' : aerodrome.name)}
+                      placeholder={fp.ades}
+                      className="w-24 px-3 py-2 border border-slate-300 rounded-lg font-mono text-center uppercase focus:ring-2 focus:ring-purple-500 focus:border-purple-500"
+                    />
+                  </div>
+
+                  {arrivalAerodrome === 'ZZZZ' && (
+                    <div>
+                      <label className="block text-sm font-medium text-slate-700 mb-1">
+                        Aerodrome name
+                      </label>
+                      <input
+                        type="text"
+                        value={arrivalAerodromeName}
+                        onChange={(e) => setArrivalAerodromeName(e.target.value.toUpperCase())}
+                        placeholder="GRASSTRIP"
+                        className="w-48 px-3 py-2 border border-slate-300 rounded-lg font-mono uppercase focus:ring-2 focus:ring-purple-500 focus:border-purple-500"
+                      />
+                    </div>
+                  )}
+
+                  <div className="flex gap-2 mt-6">
+                    <button
+                      onClick={handleArrival}
+                      disabled={sendingArrival || !arrivalTime}
+                      className="px-4 py-2 bg-purple-600 text-white rounded-lg font-medium hover:bg-purple-700 transition disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      {sendingArrival ? 'Sending...' : 'Send ARR'}
+                    </button>
+                    <button
+                      onClick={() => {
+                        setShowArrivalModal(false);
+                        setArrivalError(null);
+                      }}
+                      className="px-4 py-2 text-slate-600 hover:bg-slate-100 rounded-lg transition"
+                    >
+                      Cancel
+                    </button>
+                  </div>
+                </div>
+
+                {previewKey && <MessagePreview message={previewMessage} error={previewError} />}
+
+                {arrivalError && (
+                  <div className="mt-3 p-3 bg-red-50 border border-red-200 rounded-lg text-red-700 text-sm">
+                    {arrivalError}
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+        )}
+
         {/* Flight Details */}
         <div className="p-6 border-b border-slate-200 bg-slate-50">
           <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
@@ -477,6 +1108,46 @@ function FlightPlanDetailModal({
 
         {/* Messages */}
         <div className="flex-1 overflow-y-auto p-6">
+          {/* ATFM slot and the regulations behind it */}
+          {fp.ctot && (
+            <div className="mb-6 p-4 bg-amber-50 border border-amber-300 rounded-lg">
+              <div className="flex justify-between items-center">
+                <h3 className="text-lg font-semibold text-amber-900">ATFM Slot</h3>
+                <div className="text-sm text-amber-900">
+                  CTOT <span className="font-mono font-semibold">{formatDateTime(fp.ctot).time}</span>
+                  <span className="ml-2 text-amber-700">{formatDateTime(fp.ctot).date}</span>
+                </div>
+              </div>
+              {regulationsError ? (
+                <p className="mt-2 text-sm text-red-700">{regulationsError}</p>
+              ) : regulations.length > 0 && (
+                <ul className="mt-3 space-y-2">
+                  {regulations.map((regulation) => (
+                    <li key={regulation.regId} className="text-sm text-slate-800">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <span className="font-mono font-medium">{regulation.regId}</span>
+                        <span className="text-slate-600">{regulation.location}</span>
+                        {regulation.reason && (
+                          <span className="text-xs font-medium px-2 py-0.5 rounded bg-amber-100 text-amber-800">
+                            {REGULATION_REASONS[regulation.reason] || regulation.reason}
+                          </span>
+                        )}
+                        {regulation.validFrom && regulation.validTo && (
+                          <span className="text-xs text-slate-500">
+                            {formatDateTime(regulation.validFrom).time}-{formatDateTime(regulation.validTo).time}
+                          </span>
+                        )}
+                      </div>
+                      {regulation.description && (
+                        <div className="text-xs text-slate-600 mt-0.5">{regulation.description}</div>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+
           <h3 className="text-lg font-semibold text-slate-800 mb-4">Messages</h3>
 
           {loading ? (
@@ -500,9 +1171,11 @@ function FlightPlanDetailModal({
                   <div
                     key={msg.flMsgId}
                     className={`p-4 rounded-lg border ${
-                      msg.isIncome
-                        ? 'bg-blue-50 border-blue-200'
-                        : 'bg-slate-50 border-slate-200'
+                      msg.isIncome && SLOT_MESSAGE_TYPES.includes(msg.msgType)
+                        ? 'bg-amber-50 border-amber-300'
+                        : msg.isIncome
+                          ? 'bg-blue-50 border-blue-200'
+                          : 'bg-slate-50 border-slate-200'
                     }`}
                   >
                     <div className="flex justify-between items-start mb-2">
@@ -531,13 +1204,26 @@ function FlightPlanDetailModal({
               })}
             </div>
           )}
+
+          {/* Route map */}
+          <div className="mt-8">
+            <RouteMapPanel request={briefingRequest} onSessionExpired={onSessionExpired} autoLoad />
+          </div>
+
+          {/* Weather and NOTAM briefing, archived flights are over */}
+          {!isArchive && (
+            <div className="mt-8 space-y-8">
+              <MetBriefingPanel request={briefingRequest} onSessionExpired={onSessionExpired} autoLoad />
+              <NotamBriefingPanel request={briefingRequest} onSessionExpired={onSessionExpired} autoLoad />
+            </div>
+          )}
         </div>
       </div>
     </div>
   );
 }
 
-function FlightPlanCard({ fp, onClick }: { fp: FlightPlan; onClick: () => void }) {
+function FlightPlanCard({ fp, airborne, onClick }: { fp: FlightPlan; airborne: boolean; onClick: () => void }) {
   const { date, time: depTime } = formatDateTime(fp.eobdt);
 
   // Calculate arrival time
@@ -557,7 +1243,7 @@ function FlightPlanCard({ fp, onClick }: { fp: FlightPlan; onClick: () => void }
           <span className="ml-2 text-sm text-slate-500">{fp.arcType}</span>
         </div>
         {(() => {
-          const status = getStatusDisplay(fp.flStatusCode, fp.flStatusStr, fp.flCanDo, fp.eobdt);
+          const status = getStatusDisplay(fp.flStatusCode, fp.flStatusStr, fp.flCanDo, fp.eobdt, airborne);
           return (
             <span className={`text-xs font-medium px-2 py-1 rounded-full ${status.color}`}>
               {status.label}
@@ -618,17 +1304,215 @@ function FlightPlanCard({ fp, onClick }: { fp: FlightPlan; onClick: () => void }
   );
 }
 
+// Unsent flight plan autosaved by the flight plan form
+function DraftCard({ draft, onDiscard, discarding }: { draft: FlightPlanDraft; onDiscard: () => void; discarding: boolean }) {
+  const resumeHref = draft.modifyFlId
+    ? `/new-flight-plan?modify=${draft.modifyFlId}&draft=${draft.draftId}`
+    : `/new-flight-plan?draft=${draft.draftId}`;
+  const saved = formatDateTime(new Date(draft.updatedAt).toISOString());
+
+  return (
+    <div className="bg-white rounded-xl border border-dashed border-slate-300 p-4 flex items-center justify-between gap-4">
+      <div className="min-w-0">
+        <div className="flex items-center gap-2">
+          <span className="font-bold text-slate-800">{draft.formData.arcid || 'No callsign'}</span>
+          <span className="text-xs font-medium px-2 py-0.5 rounded-full bg-amber-100 text-amber-800">
+            {draft.modifyFlId ? 'Change draft' : 'Draft'}
+          </span>
+        </div>
+        <div className="text-sm text-slate-600 font-mono truncate">
+          {draft.formData.adep || '----'} → {draft.formData.ades || '----'}
+          {draft.formData.eobdt && <span className="text-slate-400"> {draft.formData.eobdt.replace('T', ' ')}</span>}
+        </div>
+        <div className="text-xs text-slate-400">Saved {saved.date} {saved.time}</div>
+      </div>
+      <div className="flex items-center gap-2 flex-shrink-0">
+        <Link
+          href={resumeHref}
+          className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition"
+        >
+          Resume
+        </Link>
+        <button
+          onClick={onDiscard}
+          disabled={discarding}
+          className="px-3 py-1.5 text-sm text-slate-600 hover:text-red-600 hover:bg-red-50 rounded-lg transition disabled:opacity-50"
+        >
+          {discarding ? 'Discarding...' : 'Discard'}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+// Filters and order of the flight plan list. The text filters apply with the
+// Search button or Enter, so typing doesn't query Homebriefing on every key.
+function FlightPlanFilterBar({
+  query,
+  onChange,
+}: {
+  query: DashboardQuery;
+  onChange: (changes: Partial<DashboardQuery>) => void;
+}) {
+  const [arcid, setArcid] = useState(query.arcid);
+  const [adep, setAdep] = useState(query.adep);
+  const [ades, setAdes] = useState(query.ades);
+
+  const fieldClass = 'px-3 py-2 border border-slate-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500';
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onChange({ arcid: arcid.trim(), adep: adep.trim(), ades: ades.trim() });
+  };
+
+  const handleClear = () => {
+    setArcid('');
+    setAdep('');
+    setAdes('');
+    onChange({ arcid: '', adep: '', ades: '', flRules: 'X', ownFlsOnly: false, dateFrom: '', dateTo: '' });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="mt-4 flex flex-wrap items-end gap-3 bg-white border border-slate-200 rounded-xl p-4">
+      <div>
+        <label className="block text-xs font-medium text-slate-500 mb-1">Callsign</label>
+        <input
+          type="text"
+          value={arcid}
+          onChange={(e) => setArcid(e.target.value.toUpperCase())}
+          placeholder="PHABC"
+          maxLength={7}
+          className={`w-28 uppercase font-mono ${fieldClass}`}
+        />
+      </div>
+      <div>
+        <label className="block text-xs font-medium text-slate-500 mb-1">Departure</label>
+        <AerodromeInput value={adep} onChange={setAdep} placeholder="EHAM" className={`w-28 uppercase font-mono ${fieldClass}`} />
+      </div>
+      <div>
+        <label className="block text-xs font-medium text-slate-500 mb-1">Destination</label>
+        <AerodromeInput value={ades} onChange={setAdes} placeholder="EHTE" className={`w-28 uppercase font-mono ${fieldClass}`} />
+      </div>
+      <div>
+        <label className="block text-xs font-medium text-slate-500 mb-1">Rules</label>
+        <select
+          value={query.flRules}
+          onChange={(e) => onChange({ flRules: e.target.value })}
+          className={fieldClass}
+        >
+          {flightRulesFilterOptions.map((opt) => (
+            <option key={opt.value} value={opt.value}>{opt.label}</option>
+          ))}
+        </select>
+      </div>
+      {query.tab === 'archive' && (
+        <div>
+          <label className="block text-xs font-medium text-slate-500 mb-1">EOBT date (UTC)</label>
+          <div className="flex items-center gap-2">
+            <input
+              type="date"
+              value={query.dateFrom}
+              max={query.dateTo || undefined}
+              onChange={(e) => onChange({ dateFrom: e.target.value })}
+              className={fieldClass}
+            />
+            <span className="text-slate-400">to</span>
+            <input
+              type="date"
+              value={query.dateTo}
+              min={query.dateFrom || undefined}
+              onChange={(e) => onChange({ dateTo: e.target.value })}
+              className={fieldClass}
+            />
+            <button
+              type="button"
+              onClick={() => onChange(getMonthRange(0))}
+              className="px-2 py-2 text-xs text-slate-600 hover:bg-slate-100 rounded-lg transition"
+            >
+              This month
+            </button>
+            <button
+              type="button"
+              onClick={() => onChange(getMonthRange(-1))}
+              className="px-2 py-2 text-xs text-slate-600 hover:bg-slate-100 rounded-lg transition"
+            >
+              Last month
+            </button>
+          </div>
+        </div>
+      )}
+      <label className="flex items-center gap-2 text-sm text-slate-600 pb-2">
+        <input
+          type="checkbox"
+          checked={query.ownFlsOnly}
+          onChange={(e) => onChange({ ownFlsOnly: e.target.checked })}
+          className="rounded border-slate-300"
+        />
+        Own flights only
+      </label>
+      <button
+        type="submit"
+        className="px-4 py-2 text-sm bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition"
+      >
+        Search
+      </button>
+      {hasFilters(query) && (
+        <button
+          type="button"
+          onClick={handleClear}
+          className="px-3 py-2 text-sm text-slate-600 hover:bg-slate-100 rounded-lg transition"
+        >
+          Clear
+        </button>
+      )}
+      <div className="ml-auto flex items-end gap-2">
+        <div>
+          <label className="block text-xs font-medium text-slate-500 mb-1">Sort by</label>
+          <select
+            value={query.orderColumn}
+            onChange={(e) => onChange({ orderColumn: e.target.value })}
+            className={fieldClass}
+          >
+            {sortOptions.map((opt) => (
+              <option key={opt.value} value={opt.value}>{opt.label}</option>
+            ))}
+          </select>
+        </div>
+        <button
+          type="button"
+          onClick={() => onChange({ orderType: query.orderType === 'ASC' ? 'DESC' : 'ASC' })}
+          className="px-3 py-2 text-sm border border-slate-300 rounded-lg text-slate-600 hover:bg-slate-100 transition"
+          title={query.orderType === 'ASC' ? 'Ascending' : 'Descending'}
+        >
+          {query.orderType === 'ASC' ? '↑ Ascending' : '↓ Descending'}
+        </button>
+      </div>
+    </form>
+  );
+}
+
 export default function DashboardPage() {
   const router = useRouter();
-  const [activeTab, setActiveTab] = useState<TabType>('current');
+  const [query, setQuery] = useState<DashboardQuery | null>(null);   // Read from the URL on mount
   const [flightPlans, setFlightPlans] = useState<FlightPlan[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [totalCount, setTotalCount] = useState(0);
+  const [totalPages, setTotalPages] = useState(0);
   const [selectedFlightPlan, setSelectedFlightPlan] = useState<FlightPlan | null>(null);
   const [utcTime, setUtcTime] = useState<string>('');
   const [refreshing, setRefreshing] = useState(false);
   const [lastRefresh, setLastRefresh] = useState<Date | null>(null);
+  const [drafts, setDrafts] = useState<FlightPlanDraft[]>([]);
+  const [discardingDraft, setDiscardingDraft] = useState<string | null>(null);
+  const latestFetch = useRef(0);
+  const [live, setLive] = useState(false);
+  const [messagesVersions, setMessagesVersions] = useState<Record<number, number>>({});
+  const [airborneFlights, setAirborneFlights] = useState<Record<number, boolean>>({});   // From the status stream
+  const [showNotifications, setShowNotifications] = useState(false);
+
+  const activeTab = query?.tab ?? 'current';
+  const filtered = !!query && hasFilters(query);
 
   // Update UTC time every second
   useEffect(() => {
@@ -641,7 +1525,17 @@ export default function DashboardPage() {
     return () => clearInterval(interval);
   }, []);
 
-  const fetchFlightPlans = useCallback(async (type: TabType, isRefresh = false) => {
+  // Start from the query in the URL, and follow the browser's back and forward buttons
+  useEffect(() => {
+    const readQuery = () => setQuery(parseDashboardQuery(window.location.search));
+    readQuery();
+    window.addEventListener('popstate', readQuery);
+    return () => window.removeEventListener('popstate', readQuery);
+  }, []);
+
+  const fetchFlightPlans = useCallback(async (query: DashboardQuery, isRefresh = false) => {
+    // Only the answer to the latest query is shown
+    const fetchId = ++latestFetch.current;
     if (isRefresh) {
       setRefreshing(true);
     } else {
@@ -649,45 +1543,122 @@ export default function DashboardPage() {
     }
     setError(null);
     try {
-      const res = await fetch(`/api/flight-plans?type=${type}`);
+      const res = await fetch(`/api/flight-plans?${buildFlightPlansQuery(query)}`);
       if (res.status === 401) {
         router.push('/login');
         return;
       }
       const data = await res.json();
+      if (fetchId !== latestFetch.current) return;
       if (data.error) {
         setError(data.error);
       } else {
-        setFlightPlans(data.flightPlans || []);
+        const plans: FlightPlan[] = data.flightPlans || [];
+        setFlightPlans(plans);
         setTotalCount(data.fplsCount || 0);
+        setTotalPages(data.totalPages || 0);
         setLastRefresh(new Date());
+        // Keep an open flight plan up to date with the list
+        setSelectedFlightPlan((prev) => (prev && plans.find((fp) => fp.flId === prev.flId)) || prev);
       }
     } catch {
-      setError('Failed to fetch flight plans');
+      if (fetchId === latestFetch.current) setError('Failed to fetch flight plans');
     } finally {
-      setLoading(false);
-      setRefreshing(false);
+      if (fetchId === latestFetch.current) {
+        setLoading(false);
+        setRefreshing(false);
+      }
     }
   }, [router]);
 
-  // Initial fetch and tab change
+  // Fetch whenever the tab, filters, order or page change
   useEffect(() => {
-    fetchFlightPlans(activeTab);
-  }, [activeTab, fetchFlightPlans]);
+    if (query) fetchFlightPlans(query);
+  }, [query, fetchFlightPlans]);
 
-  // Auto-refresh every 30 seconds for current tab only
+  // Status changes come from the server-side poller, which asks Homebriefing once
+  // per session however many tabs are open. Only a change reloads the list.
+  const queryRef = useRef(query);
+  queryRef.current = query;
   useEffect(() => {
-    if (activeTab !== 'current') return;
+    const events = new EventSource('/api/flight-plans/stream');
+    events.onopen = () => setLive(true);
+    events.onerror = () => setLive(false);
+    events.addEventListener('snapshot', (e) => {
+      const event: FlightStatusEvent = JSON.parse((e as MessageEvent).data);
+      if (event.type !== 'snapshot') return;
+      setAirborneFlights(Object.fromEntries(event.flights.map((f) => [f.flId, f.airborne])));
+    });
+    events.addEventListener('changes', (e) => {
+      const event: FlightStatusEvent = JSON.parse((e as MessageEvent).data);
+      if (event.type !== 'changes') return;
+      if (queryRef.current) fetchFlightPlans(queryRef.current, true);
+      setAirborneFlights((prev) => {
+        const next = { ...prev };
+        event.changes.forEach((c) => { next[c.flId] = c.kind !== 'removed' && c.airborne; });
+        return next;
+      });
+      setMessagesVersions((prev) => {
+        const next = { ...prev };
+        event.changes.filter((c) => c.newMessages).forEach((c) => { next[c.flId] = (next[c.flId] || 0) + 1; });
+        return next;
+      });
+    });
+    events.addEventListener('expired', () => {
+      events.close();
+      router.push('/login');
+    });
+    return () => events.close();
+  }, [fetchFlightPlans, router]);
+
+  // Filter and order changes start at the first page again
+  const updateQuery = (changes: Partial<DashboardQuery>) => {
+    if (!query) return;
+    const next = { ...query, page: 0, ...changes };
+    setQuery(next);
+    router.replace(`/dashboard${buildDashboardSearch(next)}`, { scroll: false });
+  };
+
+  // Fetch drafts on mount, an expired session is handled by the flight plan fetch
+  useEffect(() => {
+    async function fetchDrafts() {
+      try {
+        const res = await fetch('/api/flight-plans/drafts');
+        if (res.ok) {
+          const data = await res.json();
+          setDrafts(data.drafts || []);
+        }
+      } catch (error) {
+        console.error('Failed to fetch drafts:', error);
+      }
+    }
+    fetchDrafts();
+  }, []);
 
-    const interval = setInterval(() => {
-      fetchFlightPlans('current', true);
-    }, 30000);
+  const handleDiscardDraft = async (draftId: string) => {
+    if (!confirm('Discard this draft?')) {
+      return;
+    }
 
-    return () => clearInterval(interval);
-  }, [activeTab, fetchFlightPlans]);
+    setDiscardingDraft(draftId);
+    try {
+      const res = await fetch(`/api/flight-plans/drafts/${draftId}`, { method: 'DELETE' });
+      if (res.status === 401) {
+        router.push('/login');
+        return;
+      }
+      if (res.ok) {
+        setDrafts(prev => prev.filter(d => d.draftId !== draftId));
+      }
+    } catch (error) {
+      console.error('Failed to discard draft:', error);
+    } finally {
+      setDiscardingDraft(null);
+    }
+  };
 
   const handleRefresh = () => {
-    fetchFlightPlans(activeTab, true);
+    if (query) fetchFlightPlans(query, true);
   };
 
   const handleLogout = async () => {
@@ -696,7 +1667,7 @@ export default function DashboardPage() {
   };
 
   const handleTabChange = (tab: TabType) => {
-    setActiveTab(tab);
+    updateQuery({ tab });
   };
 
   return (
@@ -715,6 +1686,12 @@ export default function DashboardPage() {
               <div className="text-sm font-mono text-slate-600">
                 <span className="text-slate-400">UTC</span> {utcTime}
               </div>
+              <button
+                onClick={() => setShowNotifications(true)}
+                className="text-sm text-slate-600 hover:text-slate-800 hover:bg-slate-100 px-3 py-2 rounded-lg transition"
+              >
+                Notifications
+              </button>
               <button
                 onClick={handleLogout}
                 className="text-sm text-slate-600 hover:text-slate-800 hover:bg-slate-100 px-3 py-2 rounded-lg transition"
@@ -748,9 +1725,9 @@ export default function DashboardPage() {
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
                 </svg>
               </button>
-              {activeTab === 'current' && (
-                <span className="text-xs text-slate-400">Auto-refresh: 30s</span>
-              )}
+              <span className={`text-xs ${live ? 'text-green-600' : 'text-slate-400'}`}>
+                {live ? 'Live updates' : 'Connecting...'}
+              </span>
             </div>
             <Link
               href="/new-flight-plan"
@@ -797,18 +1774,40 @@ export default function DashboardPage() {
             </button>
           </div>
 
+          {query && <FlightPlanFilterBar key={`${query.arcid}/${query.adep}/${query.ades}`} query={query} onChange={updateQuery} />}
+
           {/* Count */}
           <p className="text-slate-500 mt-4">
             {totalCount} {activeTab === 'current' ? 'active' : 'archived'} flight plan{totalCount !== 1 ? 's' : ''}
+            {filtered && ' matching the filters'}
           </p>
         </div>
 
+        {/* Drafts */}
+        {activeTab === 'current' && drafts.length > 0 && (
+          <div className="mb-8">
+            <h3 className="text-sm font-medium text-slate-500 mb-3">
+              {drafts.length} unsent draft{drafts.length !== 1 ? 's' : ''}
+            </h3>
+            <div className="grid gap-3 md:grid-cols-2 lg:grid-cols-3">
+              {drafts.map((draft) => (
+                <DraftCard
+                  key={draft.draftId}
+                  draft={draft}
+                  onDiscard={() => handleDiscardDraft(draft.draftId)}
+                  discarding={discardingDraft === draft.draftId}
+                />
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Error */}
         {error && (
           <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg text-red-700">
             {error}
             <button
-              onClick={() => fetchFlightPlans(activeTab)}
+              onClick={() => query && fetchFlightPlans(query)}
               className="ml-4 underline hover:no-underline"
             >
               Retry
@@ -829,12 +1828,36 @@ export default function DashboardPage() {
               <FlightPlanCard
                 key={fp.flId}
                 fp={fp}
+                airborne={!!airborneFlights[fp.flId]}
                 onClick={() => setSelectedFlightPlan(fp)}
               />
             ))}
           </div>
         )}
 
+        {/* Pagination */}
+        {!loading && query && totalPages > 1 && (
+          <div className="mt-8 flex items-center justify-center gap-4">
+            <button
+              onClick={() => updateQuery({ page: query.page - 1 })}
+              disabled={query.page === 0}
+              className="px-4 py-2 text-sm bg-white border border-slate-200 rounded-lg text-slate-600 hover:bg-slate-100 transition disabled:opacity-50"
+            >
+              Previous
+            </button>
+            <span className="text-sm text-slate-500">
+              Page {query.page + 1} of {totalPages}
+            </span>
+            <button
+              onClick={() => updateQuery({ page: query.page + 1 })}
+              disabled={query.page + 1 >= totalPages}
+              className="px-4 py-2 text-sm bg-white border border-slate-200 rounded-lg text-slate-600 hover:bg-slate-100 transition disabled:opacity-50"
+            >
+              Next
+            </button>
+          </div>
+        )}
+
         {/* Empty State */}
         {!loading && flightPlans.length === 0 && !error && (
           <div className="text-center py-12">
@@ -842,12 +1865,16 @@ export default function DashboardPage() {
               {activeTab === 'current' ? '📋' : '📁'}
             </div>
             <h3 className="text-lg font-medium text-slate-800">
-              {activeTab === 'current' ? 'No active flight plans' : 'No archived flight plans'}
+              {filtered
+                ? 'No flight plans match the filters'
+                : activeTab === 'current' ? 'No active flight plans' : 'No archived flight plans'}
             </h3>
             <p className="text-slate-500 mt-1">
-              {activeTab === 'current'
-                ? 'Flight plans for upcoming flights will appear here'
-                : 'Your past flight plans will appear here'}
+              {filtered
+                ? 'Change or clear the filters to see more flight plans'
+                : activeTab === 'current'
+                  ? 'Flight plans for upcoming flights will appear here'
+                  : 'Your past flight plans will appear here'}
             </p>
           </div>
         )}
@@ -859,10 +1886,34 @@ export default function DashboardPage() {
           fp={selectedFlightPlan}
           onClose={() => setSelectedFlightPlan(null)}
           onSessionExpired={() => router.push('/login')}
-          onRefresh={() => fetchFlightPlans(activeTab, true)}
+          onRefresh={() => query && fetchFlightPlans(query, true)}
           isArchive={activeTab === 'archive'}
+          messagesVersion={messagesVersions[selectedFlightPlan.flId] || 0}
         />
       )}
+
+      {/* Notification Settings */}
+      {showNotifications && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4" onClick={() => setShowNotifications(false)}>
+          <div
+            className="bg-white rounded-2xl shadow-2xl max-w-xl w-full max-h-[90vh] overflow-y-auto p-6"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <div className="flex justify-between items-start mb-4">
+              <h2 className="text-xl font-bold text-slate-800">Notifications</h2>
+              <button
+                onClick={() => setShowNotifications(false)}
+                className="text-slate-400 hover:text-slate-600 transition"
+              >
+                <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            </div>
+            <NotificationSettingsPanel onSessionExpired={() => router.push('/login')} />
+          </div>
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,135 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { LandedLinkResponse } from '@/lib/homebriefing/types';
+
+// "I have landed" page of safety timer reminders: sends the ARR for the flight
+// in the link, with the arrival time filled in as now.
+
+function currentUtcTime(): string {
+  return new Date().toISOString().slice(11, 16).replace(':', '');
+}
+
+export default function LandedPage() {
+  const [token, setToken] = useState('');
+  const [link, setLink] = useState<LandedLinkResponse | null>(null);
+  const [arrivalTime, setArrivalTime] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [sending, setSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [needsSignIn, setNeedsSignIn] = useState(false);
+  const [closed, setClosed] = useState<'sent' | 'already-closed' | null>(null);
+
+  useEffect(() => {
+    const loadLink = async () => {
+      const linkToken = new URLSearchParams(window.location.search).get('token') || '';
+      setToken(linkToken);
+      setArrivalTime(currentUtcTime());
+      try {
+        const res = await fetch(`/api/notifications/landed?token=${encodeURIComponent(linkToken)}`);
+        const data = await res.json();
+        if (data.error) {
+          setError(data.error);
+        } else {
+          setLink(data);
+          if (data.closedAt) setClosed('already-closed');
+        }
+      } catch {
+        setError('Failed to read the link');
+      } finally {
+        setLoading(false);
+      }
+    };
+    loadLink();
+  }, []);
+
+  const handleLanded = async () => {
+    setSending(true);
+    setError(null);
+    setNeedsSignIn(false);
+    try {
+      const res = await fetch('/api/notifications/landed', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token, arrivalTime }),
+      });
+      const data = await res.json();
+      if (data.code === 'SIGN_IN') {
+        setNeedsSignIn(true);
+      } else if (data.error || data.isError) {
+        setError(data.error || data.errorMessage || 'Failed to send arrival message');
+      } else {
+        setClosed(data.status);
+      }
+    } catch {
+      setError('Failed to send arrival message');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-slate-50 p-4">
+      <div className="bg-white rounded-2xl shadow-lg max-w-md w-full p-6">
+        <h1 className="text-xl font-bold text-slate-800 mb-4">Close flight plan</h1>
+
+        {loading ? (
+          <p className="text-slate-500">Loading...</p>
+        ) : !link ? (
+          <p className="text-red-700">{error}</p>
+        ) : (
+          <>
+            <div className="mb-4">
+              <div className="flex items-center gap-3">
+                <span className="text-2xl font-bold text-slate-800">{link.flight.arcid}</span>
+                <span className="text-slate-600">
+                  <span className="font-semibold">{link.flight.adep}</span> → <span className="font-semibold">{link.flight.ades}</span>
+                </span>
+              </div>
+              <p className="text-sm text-slate-500 mt-1">ETA {link.arrivalDue.slice(11, 16)}z</p>
+            </div>
+
+            {closed ? (
+              <div className="p-4 bg-green-50 border border-green-200 rounded-lg text-green-800">
+                {closed === 'sent' ? 'Arrival sent, your flight plan is closed.' : 'This flight plan has already been closed.'}
+              </div>
+            ) : (
+              <>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Arrival time (UTC, HHMM)</label>
+                <input
+                  type="text"
+                  value={arrivalTime}
+                  onChange={(e) => setArrivalTime(e.target.value.replace(/\D/g, '').slice(0, 4))}
+                  inputMode="numeric"
+                  className="w-full px-3 py-2 mb-4 font-mono border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+
+                {error && (
+                  <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">{error}</div>
+                )}
+                {needsSignIn && (
+                  <div className="mb-4 p-3 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-800">
+                    Your session has ended, the arrival can&apos;t be sent without it.{' '}
+                    <Link href={`/login?next=${encodeURIComponent(`/landed?token=${token}`)}`} className="font-medium underline">
+                      Sign in
+                    </Link>{' '}
+                    and try again, or close the flight plan with ATC or FIS.
+                  </div>
+                )}
+
+                <button
+                  onClick={handleLanded}
+                  disabled={sending || arrivalTime.length !== 4}
+                  className="w-full py-3 bg-green-600 text-white rounded-lg font-medium hover:bg-green-700 transition disabled:opacity-50"
+                >
+                  {sending ? 'Sending...' : 'I have landed, send ARR'}
+                </button>
+              </>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
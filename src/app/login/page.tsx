@@ -3,6 +3,20 @@
 import { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
 
+// Where to continue after login. Pages that lost their session pass ?next= to
+// get back to where the user was; only same-origin URLs are followed, resolved
+// the way the browser would so "/\tevil.com" and the like can't leave the site.
+function getNextPath(): string {
+  const next = new URLSearchParams(window.location.search).get('next');
+  if (!next) return '/dashboard';
+  try {
+    const url = new URL(next, window.location.origin);
+    return url.origin === window.location.origin ? url.pathname + url.search + url.hash : '/dashboard';
+  } catch {
+    return '/dashboard';
+  }
+}
+
 export default function LoginPage() {
   const router = useRouter();
   const [sessionId, setSessionId] = useState<string | null>(null);
@@ -13,6 +27,7 @@ export default function LoginPage() {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [initializing, setInitializing] = useState(true);
+  const [resuming, setResuming] = useState(false);
 
   // Initialize login session
   const initSession = async () => {
@@ -35,12 +50,14 @@ export default function LoginPage() {
   };
 
   useEffect(() => {
+    setResuming(getNextPath() !== '/dashboard');
+
     // Check if already logged in
     fetch('/api/auth/check')
       .then((res) => res.json())
       .then((data) => {
         if (data.authenticated) {
-          router.push('/dashboard');
+          router.push(getNextPath());
         } else {
           initSession();
         }
@@ -65,7 +82,7 @@ export default function LoginPage() {
       const data = await res.json();
 
       if (data.success) {
-        router.push('/dashboard');
+        router.push(getNextPath());
       } else {
         setError(data.error || 'Login failed');
         // Refresh captcha on error
@@ -186,6 +203,12 @@ export default function LoginPage() {
               <p className="text-slate-500 mt-1">With your Homebriefing account</p>
             </div>
 
+            {resuming && !error && (
+              <div className="mb-6 p-4 bg-amber-50 border border-amber-200 rounded-lg text-amber-800 text-sm">
+                Your Homebriefing session has expired. Sign in again to continue, your unsaved changes have been kept.
+              </div>
+            )}
+
             {error && (
               <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg text-red-700 text-sm">
                 {error}
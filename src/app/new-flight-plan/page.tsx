@@ -1,9 +1,17 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { useRouter } from 'next/navigation';
 import Link from 'next/link';
-import { FlightPlanFormData, FlightPlanValidationResponse, FlightPlanSubmitResponse, FlightPlanTemplateListItem, FlightPlanTemplateData } from '@/lib/homebriefing/types';
+import { Aerodrome, AircraftImportResponse, AircraftProfile, AircraftProfileData, Field18Data, Field19Data, FlightPlan, FlightPlanChanges, FlightPlanDraft, FlightPlanDraftData, FlightPlanFormData, FlightPlanValidationResponse, FlightPlanSubmitResponse, FlightPlanActionResponse, FlightPlanTemplateListItem, FlightPlanTemplateData, MessagePreviewRequest, BriefingRequest } from '@/lib/homebriefing/types';
+import { getFlightPlanChanges, getLockedFieldChanges, hasFlightPlanChanges } from '@/lib/homebriefing/flight-plan-change';
+import { parseRoute } from '@/lib/homebriefing/route-parser';
+import { addLocalFieldWarnings, pbnRnavOptions, pbnRnpOptions, validateFlightPlanFields } from '@/lib/homebriefing/flight-plan-validator';
+import NotamBriefingPanel from '@/components/NotamBriefingPanel';
+import MetBriefingPanel from '@/components/MetBriefingPanel';
+import RouteMapPanel from '@/components/RouteMapPanel';
+import EetCalculator from '@/components/EetCalculator';
+import AerodromeInput from '@/components/AerodromeInput';
 
 // Map field codes to readable field names
 const fieldCodeToName: Record<string, string> = {
@@ -36,6 +44,26 @@ const fieldCodeToName: Record<string, string> = {
   'F19j': 'Remarks (Field 19)',
   'F19k': 'Pilot in Command (Field 19)',
   'FAddinfoPilottel': 'Pilot Telephone',
+  'DOF': 'Date of Flight',
+};
+
+// Map CHG change keys to field codes
+const changeKeyToFieldCode: Record<keyof FlightPlanChanges, string> = {
+  flRules: 'F8a',
+  flType: 'F8b',
+  arcNum: 'F9a',
+  arcType: 'F9b',
+  wakeTurbulenceCat: 'F9c',
+  equipment: 'F10a',
+  eobt: 'F13b',
+  flSpeed: 'F15a',
+  flLevel: 'F15b',
+  flRoute: 'F15c',
+  totalEet: 'F16b',
+  adAltn1: 'F16c',
+  adAltn2: 'F16d',
+  flOther: 'F18',
+  flSuplementary: 'F19',
 };
 
 function getReadableFieldName(fieldCode: string): string {
@@ -114,37 +142,6 @@ const stsOptions = [
   { code: 'STATE', desc: 'State flight', help: 'For a flight engaged in military, customs or police services' },
 ];
 
-// PBN/ Performance Based Navigation with required Field 10a descriptors
-const pbnRnavOptions = [
-  { code: 'A1', desc: 'RNAV 10 (RNP 10)', req: '' },
-  { code: 'B1', desc: 'RNAV 5 all sensors', req: 'O or S, D, G, I' },
-  { code: 'B2', desc: 'RNAV 5 GNSS', req: 'G' },
-  { code: 'B3', desc: 'RNAV 5 DME/DME', req: 'D' },
-  { code: 'B4', desc: 'RNAV 5 VOR/DME', req: 'O or S, D' },
-  { code: 'B5', desc: 'RNAV 5 INS/IRS', req: 'I' },
-  { code: 'B6', desc: 'RNAV 5 LORANC', req: '' },
-  { code: 'C1', desc: 'RNAV 2 all sensors', req: 'D, G, I' },
-  { code: 'C2', desc: 'RNAV 2 GNSS', req: 'G' },
-  { code: 'C3', desc: 'RNAV 2 DME/DME', req: 'D' },
-  { code: 'C4', desc: 'RNAV 2 DME/DME/IRU', req: 'D, I' },
-  { code: 'D1', desc: 'RNAV 1 all sensors', req: 'D, G, I' },
-  { code: 'D2', desc: 'RNAV 1 GNSS', req: 'G' },
-  { code: 'D3', desc: 'RNAV 1 DME/DME', req: 'D' },
-  { code: 'D4', desc: 'RNAV 1 DME/DME/IRU', req: 'D, I' },
-];
-
-const pbnRnpOptions = [
-  { code: 'L1', desc: 'RNP 4', req: '' },
-  { code: 'O1', desc: 'Basic RNP 1 all sensors', req: 'D, G, I' },
-  { code: 'O2', desc: 'Basic RNP 1 GNSS', req: 'G' },
-  { code: 'O3', desc: 'Basic RNP 1 DME/DME', req: 'D' },
-  { code: 'O4', desc: 'Basic RNP 1 DME/DME/IRU', req: 'D, I' },
-  { code: 'S1', desc: 'RNP APCH', req: '' },
-  { code: 'S2', desc: 'RNP APCH BARO-VNAV', req: '' },
-  { code: 'T1', desc: 'RNP AR APCH with RF', req: '(special auth)' },
-  { code: 'T2', desc: 'RNP AR APCH w/o RF', req: '(special auth)' },
-];
-
 // Field 18 text indicators with full help descriptions
 const field18TextIndicators = [
   { code: 'NAV', desc: 'Navigation equipment', placeholder: 'GBAS SBAS', help: 'Significant data related to navigation equipment, other than specified in PBN/. Indicate GNSS augmentation with a space between methods, e.g. NAV/GBAS SBAS. Required if Z in Field 10a.' },
@@ -176,6 +173,18 @@ const perOptions = ['', 'A', 'B', 'C', 'D', 'E', 'H'];
 const rfpOptions = ['', 'Q1', 'Q2', 'Q3', 'Q4', 'Q5', 'Q6', 'Q7', 'Q8', 'Q9'];
 
 // Help tooltip component
+// ICAO message text as it will be sent, same style as the messages in the dashboard
+function MessagePreview({ message, error }: { message: string | null; error: string | null }) {
+  if (error) {
+    return <p className="text-sm text-red-600">{error}</p>;
+  }
+  return (
+    <pre className="text-sm text-slate-800 whitespace-pre-wrap font-mono bg-white p-3 rounded border border-slate-200 overflow-x-auto">
+      {message ?? 'Loading message preview...'}
+    </pre>
+  );
+}
+
 function HelpTooltip({ text }: { text: string }) {
   return (
     <span className="group relative inline-block ml-1">
@@ -191,16 +200,6 @@ function HelpTooltip({ text }: { text: string }) {
 }
 
 // Field 18 Settings Modal Component
-interface Field18Data {
-  sts: string[];
-  pbn: string[];
-  per: string;
-  eurProtected: boolean;
-  rfp: string;
-  stayInfo: string[];  // STAYINFO1-9
-  textFields: Record<string, string>;
-}
-
 function Field18SettingsModal({
   isOpen,
   onClose,
@@ -520,29 +519,32 @@ function parseField18String(str: string): Field18Data {
   return data;
 }
 
-// Field 19 Supplementary Information data structure
-interface Field19Data {
-  endurance: string;      // E/ HHMM
-  persons: string;        // P/ 3 digits or TBN
-  radioUhf: boolean;      // R/ U
-  radioVhf: boolean;      // R/ V
-  radioElba: boolean;     // R/ E
-  survivalPolar: boolean; // S/ P
-  survivalDesert: boolean;// S/ D
-  survivalMaritime: boolean; // S/ M
-  survivalJungle: boolean;// S/ J
-  jacketsLight: boolean;  // J/ L
-  jacketsFluores: boolean;// J/ F
-  jacketsUhf: boolean;    // J/ U
-  jacketsVhf: boolean;    // J/ V
-  dinghiesEnabled: boolean;
-  dinghiesNumber: string; // D/ number
-  dinghiesCapacity: string; // capacity
-  dinghiesCover: boolean; // C
-  dinghiesColour: string; // colour
-  aircraftColour: string; // A/
-  remarks: string;        // N/ remarks
-  pilotInCommand: string; // C/
+// Field 18 location of an aerodrome without ICAO indicator: name and position
+// to the minute, e.g. "MALDEN 5147N00551E"
+function formatField18Location(aerodrome: Aerodrome): string {
+  const format = (value: number, degreeDigits: number, hemispheres: string) => {
+    const minutes = Math.round(Math.abs(value) * 60);
+    const degrees = String(Math.floor(minutes / 60)).padStart(degreeDigits, '0');
+    return `${degrees}${String(minutes % 60).padStart(2, '0')}${value < 0 ? hemispheres[1] : hemispheres[0]}`;
+  };
+  return `${aerodrome.name} ${format(aerodrome.lat, 2, 'NS')}${format(aerodrome.lng, 3, 'EW')}`;
+}
+
+// Locations in DEP/, DEST/ or ALTN/ text, each ending in its position. Text
+// typed without positions is one location.
+function getField18Locations(text: string): string[] {
+  const trimmed = text.trim();
+  if (!trimmed) return [];
+  return trimmed.match(/\S.*?\d{4}[NS]\d{5}[EW]/g) ?? [trimmed];
+}
+
+// Field 19 as kept in an aircraft profile, without what differs per flight
+function getAircraftField19(data: Field19Data): AircraftProfileData['field19'] {
+  const field19: Partial<Field19Data> = { ...data };
+  delete field19.persons;
+  delete field19.remarks;
+  delete field19.pilotInCommand;
+  return field19 as AircraftProfileData['field19'];
 }
 
 const defaultField19Data: Field19Data = {
@@ -720,6 +722,29 @@ function formatEobdt(dateTimeLocal: string): string {
   return `${year}-${month}-${day} ${hours}:${mins}`;
 }
 
+// Unsaved form state is parked in sessionStorage while the user logs in again
+const SAVED_FORM_KEY = 'hb-next:new-flight-plan';
+
+interface SavedFormState {
+  formData: FlightPlanFormData;
+  field18Data: Field18Data;
+  field19Data: Field19Data;
+  modifyFlId?: number;
+}
+
+// Keep-alive: ping while the user is working, warn before an idle session runs out
+const SESSION_CHECK_INTERVAL = 60 * 1000;
+const KEEPALIVE_PING_INTERVAL = 4 * 60 * 1000;
+const SESSION_WARNING_SECONDS = 5 * 60;
+
+// Drafts are saved to the server this long after the last change
+const DRAFT_AUTOSAVE_DELAY = 2000;
+
+// Login page URL that brings the user back to this page
+function getLoginPath(): string {
+  return `/login?next=${encodeURIComponent(window.location.pathname + window.location.search)}`;
+}
+
 export default function NewFlightPlanPage() {
   const router = useRouter();
   const [formData, setFormData] = useState<FlightPlanFormData>({
@@ -731,6 +756,8 @@ export default function NewFlightPlanPage() {
   const [sending, setSending] = useState(false);
   const [sendResult, setSendResult] = useState<FlightPlanSubmitResponse | null>(null);
   const [showConfirmModal, setShowConfirmModal] = useState(false);
+  const [previewMessage, setPreviewMessage] = useState<string | null>(null);
+  const [previewError, setPreviewError] = useState<string | null>(null);
   const [utcTime, setUtcTime] = useState<string>('');
   const [showField18Modal, setShowField18Modal] = useState(false);
   const [field18Data, setField18Data] = useState<Field18Data>({ sts: [], pbn: [], per: '', eurProtected: false, rfp: '', stayInfo: Array(9).fill(''), textFields: {} });
@@ -751,13 +778,236 @@ export default function NewFlightPlanPage() {
   // Delete template state
   const [deletingTemplate, setDeletingTemplate] = useState<number | null>(null);
 
+  // Aircraft profiles, applied when a known registration is typed
+  const [aircraftProfiles, setAircraftProfiles] = useState<AircraftProfile[]>([]);
+  const [appliedProfile, setAppliedProfile] = useState<string | null>(null);
+  const [savingProfile, setSavingProfile] = useState(false);
+  const [importingProfiles, setImportingProfiles] = useState(false);
+  const [profileMessage, setProfileMessage] = useState<string | null>(null);
+
+  // Modify (CHG) state - the filed flight plan being changed
+  const [modifyPlan, setModifyPlan] = useState<FlightPlan | null>(null);
+  const [modifyError, setModifyError] = useState<string | null>(null);
+
+  // Session state for the expiry banner
+  const [sessionRemaining, setSessionRemaining] = useState<number | null>(null);
+  const [sessionLost, setSessionLost] = useState(false);
+  const lastActivity = useRef(0);
+  const restoredForm = useRef<SavedFormState | null>(null);
+
+  // Draft autosave state. Saves run one after another so the first one can assign the draft ID.
+  const [draftSavedAt, setDraftSavedAt] = useState<number | null>(null);
+  const draftId = useRef<string | null>(null);
+  const formEdited = useRef(false);
+  const savingDraft = useRef<Promise<void>>(Promise.resolve());
+
+  // Restore a form that was parked for a re-login
+  useEffect(() => {
+    const saved = sessionStorage.getItem(SAVED_FORM_KEY);
+    if (!saved) return;
+    sessionStorage.removeItem(SAVED_FORM_KEY);
+
+    try {
+      const state: SavedFormState = JSON.parse(saved);
+      const modifyFlId = parseInt(new URLSearchParams(window.location.search).get('modify') || '');
+      if ((state.modifyFlId ?? null) !== (isNaN(modifyFlId) ? null : modifyFlId)) return;
+
+      restoredForm.current = state;
+      formEdited.current = true;
+      setFormData(state.formData);
+      setField18Data(state.field18Data);
+      setField19Data(state.field19Data);
+    } catch (error) {
+      console.error('Failed to restore flight plan form:', error);
+    }
+  }, []);
+
+  // Resume a draft opened from the dashboard (?draft=<id>)
+  useEffect(() => {
+    const resumeDraftId = new URLSearchParams(window.location.search).get('draft');
+    if (!resumeDraftId) return;
+    draftId.current = resumeDraftId;
+    // A form parked for a re-login is newer than its saved draft
+    if (restoredForm.current) return;
+
+    async function fetchDraft() {
+      try {
+        const res = await fetch(`/api/flight-plans/drafts/${resumeDraftId}`);
+        if (res.status === 401) {
+          router.push(getLoginPath());
+          return;
+        }
+        if (!res.ok) {
+          // Discarded elsewhere, the next autosave starts a new draft
+          draftId.current = null;
+          return;
+        }
+
+        const { draft }: { draft: FlightPlanDraft } = await res.json();
+        setFormData(draft.formData);
+        setField18Data(draft.field18);
+        setField19Data(draft.field19);
+        setDraftSavedAt(draft.updatedAt);
+      } catch (error) {
+        console.error('Failed to load draft:', error);
+      }
+    }
+    fetchDraft();
+  }, [router]);
+
+  // Autosave the form as a draft shortly after the user stops typing
+  useEffect(() => {
+    if (!formEdited.current) return;
+
+    const draft: FlightPlanDraftData = { modifyFlId: modifyPlan?.flId, formData, field18: field18Data, field19: field19Data };
+    const timeout = setTimeout(() => {
+      savingDraft.current = savingDraft.current.then(async () => {
+        // Sent or discarded while waiting
+        if (!formEdited.current) return;
+
+        const res = await fetch(draftId.current ? `/api/flight-plans/drafts/${draftId.current}` : '/api/flight-plans/drafts', {
+          method: draftId.current ? 'PUT' : 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(draft),
+        });
+        // A lost session shows up in the session banner, the parked form covers it
+        if (!res.ok) return;
+
+        const data: { draft: FlightPlanDraft } = await res.json();
+        draftId.current = data.draft.draftId;
+        setDraftSavedAt(data.draft.updatedAt);
+
+        // Keep the draft in the URL, so a reload resumes it
+        const url = new URL(window.location.href);
+        if (url.searchParams.get('draft') !== data.draft.draftId) {
+          url.searchParams.set('draft', data.draft.draftId);
+          window.history.replaceState(null, '', url);
+        }
+      }).catch((error) => console.error('Failed to save draft:', error));
+    }, DRAFT_AUTOSAVE_DELAY);
+
+    return () => clearTimeout(timeout);
+  }, [formData, field18Data, field19Data, modifyPlan]);
+
+  // Drop the draft once the flight plan has been sent
+  const discardDraft = () => {
+    formEdited.current = false;
+    savingDraft.current = savingDraft.current.then(async () => {
+      const sentDraftId = draftId.current;
+      draftId.current = null;
+      if (sentDraftId) {
+        await fetch(`/api/flight-plans/drafts/${sentDraftId}`, { method: 'DELETE' });
+      }
+    }).catch((error) => console.error('Failed to delete draft:', error));
+  };
+
+  // Keep the session alive while the user is working on the form
+  useEffect(() => {
+    const markActive = () => {
+      lastActivity.current = Date.now();
+    };
+    const events = ['keydown', 'pointerdown', 'input'] as const;
+    events.forEach((event) => document.addEventListener(event, markActive));
+
+    let lastPing = Date.now();
+    const checkSession = async () => {
+      try {
+        let res: Response;
+        if (lastActivity.current > lastPing && Date.now() - lastPing >= KEEPALIVE_PING_INTERVAL) {
+          lastPing = Date.now();
+          res = await fetch('/api/auth/keepalive', { method: 'POST' });
+        } else {
+          res = await fetch('/api/auth/check');
+        }
+
+        const data = await res.json();
+        if (res.status === 401 || !data.authenticated) {
+          setSessionLost(true);
+          return;
+        }
+        setSessionRemaining(data.remainingSeconds ?? null);
+      } catch {
+        // Offline for a moment, try again on the next round
+      }
+    };
+
+    const interval = setInterval(checkSession, SESSION_CHECK_INTERVAL);
+    return () => {
+      clearInterval(interval);
+      events.forEach((event) => document.removeEventListener(event, markActive));
+    };
+  }, []);
+
+  const staySignedIn = async () => {
+    try {
+      const res = await fetch('/api/auth/keepalive', { method: 'POST' });
+      const data = await res.json();
+      if (res.status === 401) {
+        setSessionLost(true);
+        return;
+      }
+      setSessionRemaining(data.remainingSeconds ?? null);
+    } catch (error) {
+      console.error('Keep-alive failed:', error);
+    }
+  };
+
+  // Park the form and log in again, the login page sends the user back here
+  const handleSessionExpired = () => {
+    const state: SavedFormState = { formData, field18Data, field19Data, modifyFlId: modifyPlan?.flId };
+    sessionStorage.setItem(SAVED_FORM_KEY, JSON.stringify(state));
+    router.push(getLoginPath());
+  };
+
+  // Weather and NOTAM briefing once the aerodromes and EOBT are filled in
+  const briefingRequest: BriefingRequest | null =
+    /^[A-Z]{4}$/.test(formData.adep) && /^[A-Z]{4}$/.test(formData.ades) && formData.eobdt
+      ? {
+          adep: formData.adep,
+          ades: formData.ades,
+          adAltn1: formData.adAltn1,
+          adAltn2: formData.adAltn2,
+          eobdt: formData.eobdt,
+          totalEet: formData.totalEet,
+          arcid: formData.arcid,
+          flRules: formData.flRules,
+          flSpeed: formData.flSpeed,
+          flLevel: formData.flLevel,
+          flRoute: formData.flRoute,
+        }
+      : null;
+
+  // The route map needs no EOBT, and Field 18 for ZZZZ aerodromes. Kept apart from
+  // the briefing request so editing Field 18 doesn't outdate the weather and NOTAMs.
+  const routeMapRequest: BriefingRequest | null =
+    /^[A-Z]{4}$/.test(formData.adep) && /^[A-Z]{4}$/.test(formData.ades)
+      ? {
+          adep: formData.adep,
+          ades: formData.ades,
+          adAltn1: formData.adAltn1,
+          adAltn2: formData.adAltn2,
+          eobdt: formData.eobdt,
+          totalEet: formData.totalEet,
+          arcid: formData.arcid,
+          flRules: formData.flRules,
+          flSpeed: formData.flSpeed,
+          flLevel: formData.flLevel,
+          flRoute: formData.flRoute,
+          flOther: formData.flOther,
+        }
+      : null;
+
+  // Checked while typing, Homebriefing reports the same field codes on validation
+  const routeErrors = parseRoute(formData.flRoute).errors;
+  const localFieldErrors = validateFlightPlanFields(formData);
+
   // Fetch templates on mount
   useEffect(() => {
     async function fetchTemplates() {
       try {
         const res = await fetch('/api/flight-plans/templates');
         if (res.status === 401) {
-          router.push('/login');
+          router.push(getLoginPath());
           return;
         }
         if (res.ok) {
@@ -771,6 +1021,83 @@ export default function NewFlightPlanPage() {
     fetchTemplates();
   }, [router]);
 
+  // Fetch aircraft profiles on mount
+  useEffect(() => {
+    async function fetchAircraftProfiles() {
+      try {
+        const res = await fetch('/api/aircraft');
+        if (res.status === 401) {
+          router.push(getLoginPath());
+          return;
+        }
+        if (res.ok) {
+          const data = await res.json();
+          setAircraftProfiles(data.aircraft || []);
+        }
+      } catch (error) {
+        console.error('Failed to fetch aircraft profiles:', error);
+      }
+    }
+    fetchAircraftProfiles();
+  }, [router]);
+
+  // Load the filed flight plan when opened with ?modify=<flId>
+  useEffect(() => {
+    const modifyFlId = parseInt(new URLSearchParams(window.location.search).get('modify') || '');
+    if (isNaN(modifyFlId)) return;
+
+    async function fetchFlightPlan() {
+      try {
+        const res = await fetch('/api/flight-plans?type=current&limit=100');
+        if (res.status === 401) {
+          router.push(getLoginPath());
+          return;
+        }
+        if (!res.ok) {
+          setModifyError('Failed to load flight plan');
+          return;
+        }
+
+        const data = await res.json();
+        const fp: FlightPlan | undefined = (data.flightPlans || []).find((p: FlightPlan) => p.flId === modifyFlId);
+        if (!fp) {
+          setModifyError('Flight plan not found. It may no longer be active.');
+          return;
+        }
+
+        setModifyPlan(fp);
+        // Edits made before a re-login, or in a resumed draft, win over the filed plan
+        if (restoredForm.current || new URLSearchParams(window.location.search).has('draft')) return;
+        setFormData({
+          ...defaultFormData,
+          arcid: fp.arcid,
+          flRules: fp.flRules as FlightPlanFormData['flRules'],
+          flType: fp.flType as FlightPlanFormData['flType'],
+          arcNum: fp.arcNum || '',
+          arcType: fp.arcType,
+          wakeTurbulenceCat: fp.wakeTurbulenceCat as FlightPlanFormData['wakeTurbulenceCat'],
+          equipment: fp.equipment,
+          adep: fp.adep,
+          eobdt: new Date(fp.eobdt).toISOString().slice(0, 16),
+          flSpeed: fp.flSpeed,
+          flLevel: fp.flLevel,
+          flRoute: fp.flRoute,
+          ades: fp.ades,
+          totalEet: fp.totalEet,
+          adAltn1: fp.adAltn1 || '',
+          adAltn2: fp.adAltn2 || '',
+          flOther: fp.flOther || '',
+          flSuplementary: fp.flSuplementary || '',
+        });
+        setField19Data(parseField19String(fp.flSuplementary || ''));
+      } catch (error) {
+        console.error('Failed to fetch flight plan:', error);
+        setModifyError('Failed to load flight plan');
+      }
+    }
+    fetchFlightPlan();
+  }, [router]);
+
   // Load template data
   const loadTemplate = async (tplId: number) => {
     setLoadingTemplate(tplId);
@@ -779,7 +1106,7 @@ export default function NewFlightPlanPage() {
     try {
       const res = await fetch(`/api/flight-plans/templates/${tplId}`);
       if (res.status === 401) {
-        router.push('/login');
+        handleSessionExpired();
         return;
       }
 
@@ -924,7 +1251,7 @@ export default function NewFlightPlanPage() {
       });
 
       if (res.status === 401) {
-        router.push('/login');
+        handleSessionExpired();
         return;
       }
 
@@ -944,7 +1271,7 @@ export default function NewFlightPlanPage() {
       // Refresh templates list
       const templatesRes = await fetch('/api/flight-plans/templates');
       if (templatesRes.status === 401) {
-        router.push('/login');
+        handleSessionExpired();
         return;
       }
       if (templatesRes.ok) {
@@ -975,7 +1302,7 @@ export default function NewFlightPlanPage() {
       });
 
       if (res.status === 401) {
-        router.push('/login');
+        handleSessionExpired();
         return;
       }
 
@@ -1006,6 +1333,7 @@ export default function NewFlightPlanPage() {
   }, []);
 
   const handleInputChange = (field: keyof FlightPlanFormData, value: string | number) => {
+    formEdited.current = true;
     setFormData((prev) => ({ ...prev, [field]: value }));
     // Clear validation when form changes
     setValidationResult(null);
@@ -1017,9 +1345,52 @@ export default function NewFlightPlanPage() {
     handleInputChange('flOther', field18String);
   };
 
+  // Add an entry like "RMK/NIGHT VFR APPROVED" to Field 18, after what is already there
+  const addField18Entry = (entry: string) => {
+    const flOther = formData.flOther || '';
+    const data = buildField18String(field18Data) === flOther ? field18Data : parseField18String(flOther);
+    const [code, value] = [entry.slice(0, entry.indexOf('/')), entry.slice(entry.indexOf('/') + 1)];
+    if (code === 'STS') {
+      handleField18Apply({ ...data, sts: data.sts.includes(value) ? data.sts : [...data.sts, value] });
+    } else {
+      const existing = data.textFields[code];
+      handleField18Apply({ ...data, textFields: { ...data.textFields, [code]: existing ? `${existing} ${value}` : value } });
+    }
+  };
+
+  // Replace EET/ in Field 18 with calculated FIR boundary times, e.g. "EBBU0025 EHAA0040"
+  const setField18Eet = (entry: string) => {
+    const flOther = formData.flOther || '';
+    const data = buildField18String(field18Data) === flOther ? field18Data : parseField18String(flOther);
+    handleField18Apply({ ...data, textFields: { ...data.textFields, EET: entry } });
+  };
+
+  // An aerodrome without ICAO indicator is filed as ZZZZ, Field 18 says where it is:
+  // DEP/ for the departure, DEST/ for the destination, ALTN/ for the alternates
+  const handleAerodromeSelect = (field: 'adep' | 'ades' | 'adAltn1' | 'adAltn2', aerodrome: Aerodrome) => {
+    if (aerodrome.icao) return;
+    const flOther = formData.flOther || '';
+    const data = buildField18String(field18Data) === flOther ? field18Data : parseField18String(flOther);
+    const location = formatField18Location(aerodrome);
+    const code = field === 'adep' ? 'DEP' : field === 'ades' ? 'DEST' : 'ALTN';
+    // Both alternates ZZZZ: ALTN/ has the first one, then the second
+    const alternates = getField18Locations(data.textFields.ALTN || '');
+    let value = location;
+    if (field === 'adAltn1' && formData.adAltn2 === 'ZZZZ' && alternates.length > 0) {
+      const second = alternates[alternates.length - 1];
+      if (second !== location) value = `${location} ${second}`;
+    } else if (field === 'adAltn2' && formData.adAltn1 === 'ZZZZ' && alternates.length > 0) {
+      const first = alternates[0];
+      if (first !== location) value = `${first} ${location}`;
+    }
+    handleField18Apply({ ...data, textFields: { ...data.textFields, [code]: value } });
+  };
+
   const openField18Modal = () => {
-    // Parse current field 18 string to populate modal
-    const parsed = parseField18String(formData.flOther || '');
+    // Reuse the modal structure (also restored with a draft) while it still matches the
+    // field 18 text, otherwise parse the text as it was typed
+    const flOther = formData.flOther || '';
+    const parsed = buildField18String(field18Data) === flOther ? field18Data : parseField18String(flOther);
     setField18Data(parsed);
     setShowField18Modal(true);
   };
@@ -1031,6 +1402,136 @@ export default function NewFlightPlanPage() {
     handleInputChange('flSuplementary', field19String);
   };
 
+  // Fill in type, wake category, equipment, speed, PBN/, CODE/ and Field 19 from a
+  // profile. Persons, remarks and pilot in command differ per flight and are kept.
+  const applyAircraftProfile = (profile: AircraftProfile) => {
+    setFormData((prev) => ({
+      ...prev,
+      arcType: profile.arcType || prev.arcType,
+      wakeTurbulenceCat: profile.wakeTurbulenceCat || prev.wakeTurbulenceCat,
+      equipment: profile.equipment || prev.equipment,
+      flSpeed: profile.flSpeed || prev.flSpeed,
+    }));
+
+    const flOther = formData.flOther || '';
+    const data = buildField18String(field18Data) === flOther ? field18Data : parseField18String(flOther);
+    const textFields = { ...data.textFields };
+    if (profile.code) textFields.CODE = profile.code;
+    else delete textFields.CODE;
+    handleField18Apply({ ...data, pbn: profile.pbn, textFields });
+
+    updateField19(profile.field19);
+    setAppliedProfile(profile.arcid);
+    setProfileMessage(null);
+  };
+
+  const handleArcidChange = (value: string) => {
+    const arcid = value.toUpperCase();
+    handleInputChange('arcid', arcid);
+    setProfileMessage(null);
+    const profile = aircraftProfiles.find((p) => p.arcid === arcid);
+    if (profile && !modifyPlan) {
+      applyAircraftProfile(profile);
+    } else {
+      setAppliedProfile(null);
+    }
+  };
+
+  const handleSaveAircraftProfile = async () => {
+    setSavingProfile(true);
+    setProfileMessage(null);
+    try {
+      const flOther = formData.flOther || '';
+      const data = buildField18String(field18Data) === flOther ? field18Data : parseField18String(flOther);
+      const profile: AircraftProfileData = {
+        arcid: formData.arcid,
+        arcType: formData.arcType,
+        wakeTurbulenceCat: formData.wakeTurbulenceCat,
+        equipment: formData.equipment,
+        flSpeed: formData.flSpeed,
+        pbn: data.pbn,
+        code: data.textFields.CODE || undefined,
+        field19: getAircraftField19(field19Data),
+      };
+
+      const res = await fetch('/api/aircraft', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(profile),
+      });
+      if (res.status === 401) {
+        handleSessionExpired();
+        return;
+      }
+      const result = await res.json();
+      if (!res.ok) {
+        setProfileMessage(result.error || 'Failed to save aircraft profile');
+        return;
+      }
+      const saved: AircraftProfile = result.aircraft;
+      setAircraftProfiles((prev) =>
+        [...prev.filter((p) => p.arcid !== saved.arcid), saved].sort((a, b) => a.arcid.localeCompare(b.arcid))
+      );
+      setAppliedProfile(saved.arcid);
+      setProfileMessage(`Saved the ${saved.arcid} profile`);
+    } catch (error) {
+      console.error('Failed to save aircraft profile:', error);
+      setProfileMessage('Failed to save aircraft profile');
+    } finally {
+      setSavingProfile(false);
+    }
+  };
+
+  const handleImportAircraftProfiles = async () => {
+    setImportingProfiles(true);
+    setProfileMessage(null);
+    try {
+      const res = await fetch('/api/aircraft/import', { method: 'POST' });
+      if (res.status === 401) {
+        handleSessionExpired();
+        return;
+      }
+      const result: AircraftImportResponse & { error?: string } = await res.json();
+      if (!res.ok || result.isError) {
+        setProfileMessage(result.error || result.errorMessage || 'Failed to import aircraft');
+        return;
+      }
+      setAircraftProfiles(result.aircraft);
+      setProfileMessage(
+        result.imported.length > 0
+          ? `Imported ${result.imported.join(', ')} from Homebriefing`
+          : 'No new aircraft in your Homebriefing account'
+      );
+    } catch (error) {
+      console.error('Failed to import aircraft:', error);
+      setProfileMessage('Failed to import aircraft');
+    } finally {
+      setImportingProfiles(false);
+    }
+  };
+
+  const handleDeleteAircraftProfile = async (arcid: string) => {
+    if (!confirm(`Delete the aircraft profile of ${arcid}?`)) return;
+    setProfileMessage(null);
+    try {
+      const res = await fetch(`/api/aircraft/${arcid}`, { method: 'DELETE' });
+      if (res.status === 401) {
+        handleSessionExpired();
+        return;
+      }
+      if (!res.ok) {
+        setProfileMessage('Failed to delete aircraft profile');
+        return;
+      }
+      setAircraftProfiles((prev) => prev.filter((p) => p.arcid !== arcid));
+      setAppliedProfile(null);
+      setProfileMessage(`Deleted the ${arcid} profile`);
+    } catch (error) {
+      console.error('Failed to delete aircraft profile:', error);
+      setProfileMessage('Failed to delete aircraft profile');
+    }
+  };
+
   const handleValidate = async () => {
     setValidating(true);
     setValidationResult(null);
@@ -1049,12 +1550,13 @@ export default function NewFlightPlanPage() {
       });
 
       if (res.status === 401) {
-        router.push('/login');
+        handleSessionExpired();
         return;
       }
 
+      // The local checks show as warnings, Homebriefing decides whether it can be filed
       const result: FlightPlanValidationResponse = await res.json();
-      setValidationResult(result);
+      setValidationResult(addLocalFieldWarnings(result, localFieldErrors));
     } catch (error) {
       console.error('Validation error:', error);
       setValidationResult({
@@ -1067,9 +1569,94 @@ export default function NewFlightPlanPage() {
     }
   };
 
-  const handleFileClick = () => {
-    if (!validationResult?.fplIsOk) return;
+  // CHG diff against the filed plan (only in modify mode)
+  const modifyFormData = modifyPlan ? { ...formData, eobdt: formatEobdt(formData.eobdt) } : null;
+  const chgChanges = modifyPlan && modifyFormData ? getFlightPlanChanges(modifyPlan, modifyFormData) : null;
+  const chgLockedFields = modifyPlan && modifyFormData ? getLockedFieldChanges(modifyPlan, modifyFormData) : [];
+  const canSendChange = !!chgChanges && hasFlightPlanChanges(chgChanges) && chgLockedFields.length === 0;
+
+  const handleFileClick = async () => {
+    if (modifyPlan) {
+      // CHG doesn't need a full validation, Homebriefing checks the changed fields itself
+      if (!canSendChange) return;
+    } else if (!validationResult?.fplIsOk) {
+      return;
+    }
+    setPreviewMessage(null);
+    setPreviewError(null);
     setShowConfirmModal(true);
+
+    // Render the exact message text that will be sent
+    try {
+      const previewRequest: MessagePreviewRequest = modifyPlan && modifyFormData
+        ? { type: 'CHG', flId: modifyPlan.flId, formData: modifyFormData }
+        : { type: 'FPL', formData: { ...formData, eobdt: formatEobdt(formData.eobdt) } };
+
+      const res = await fetch('/api/flight-plans/preview', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(previewRequest),
+      });
+
+      if (res.status === 401) {
+        handleSessionExpired();
+        return;
+      }
+
+      const data = await res.json();
+      if (data.message) {
+        setPreviewMessage(data.message);
+      } else {
+        setPreviewError(data.error || 'Failed to load message preview');
+      }
+    } catch {
+      setPreviewError('Failed to load message preview');
+    }
+  };
+
+  const handleConfirmChange = async () => {
+    if (!modifyPlan) return;
+
+    setShowConfirmModal(false);
+    setSending(true);
+    setSendResult(null);
+
+    try {
+      const res = await fetch(`/api/flight-plans/${modifyPlan.flId}/change`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(modifyFormData),
+      });
+
+      if (res.status === 401) {
+        handleSessionExpired();
+        return;
+      }
+
+      const result: FlightPlanActionResponse & { error?: string } = await res.json();
+      setSendResult({
+        isError: !result.success,
+        fplIsSent: !!result.success,
+        errorMessage: result.errorMessage || result.error,
+      });
+
+      if (result.success) {
+        discardDraft();
+        // Success - redirect to dashboard after a brief delay
+        setTimeout(() => {
+          router.push('/dashboard');
+        }, 1500);
+      }
+    } catch (error) {
+      console.error('Change error:', error);
+      setSendResult({
+        isError: true,
+        fplIsSent: false,
+        errorMessage: 'Failed to send change message',
+      });
+    } finally {
+      setSending(false);
+    }
   };
 
   const handleConfirmSend = async () => {
@@ -1091,7 +1678,7 @@ export default function NewFlightPlanPage() {
       });
 
       if (res.status === 401) {
-        router.push('/login');
+        handleSessionExpired();
         return;
       }
 
@@ -1099,6 +1686,7 @@ export default function NewFlightPlanPage() {
       setSendResult(result);
 
       if (result.fplIsSent) {
+        discardDraft();
         // Success - redirect to dashboard after a brief delay
         setTimeout(() => {
           router.push('/dashboard');
@@ -1131,7 +1719,7 @@ export default function NewFlightPlanPage() {
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 19l-7-7m0 0l7-7m-7 7h18" />
                 </svg>
               </Link>
-              <h1 className="text-xl font-bold text-slate-800">New Flight Plan</h1>
+              <h1 className="text-xl font-bold text-slate-800">{modifyPlan ? 'Modify Flight Plan' : 'New Flight Plan'}</h1>
             </div>
             <div className="flex items-center gap-4">
               {/* Template dropdown */}
@@ -1220,6 +1808,11 @@ export default function NewFlightPlanPage() {
                 </svg>
                 Save Template
               </button>
+              {draftSavedAt && (
+                <span className="hidden sm:inline text-xs text-slate-400" title="Drafts are listed on the dashboard">
+                  Draft saved {new Date(draftSavedAt).toISOString().slice(11, 16)}z
+                </span>
+              )}
               <div className="text-sm font-mono text-slate-600">
                 <span className="text-slate-400">UTC</span> {utcTime}
               </div>
@@ -1230,6 +1823,36 @@ export default function NewFlightPlanPage() {
 
       <main className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
         <form onSubmit={(e) => e.preventDefault()} className="space-y-8">
+          {sessionLost ? (
+            <div className="p-4 rounded-lg bg-amber-50 border border-amber-200 text-sm text-amber-800 flex items-center justify-between gap-4">
+              <span>Your Homebriefing session has expired. Sign in again to continue, the form will be kept.</span>
+              <button
+                type="button"
+                onClick={handleSessionExpired}
+                className="flex-shrink-0 px-3 py-1.5 bg-amber-600 text-white rounded-lg hover:bg-amber-700 transition"
+              >
+                Sign in again
+              </button>
+            </div>
+          ) : sessionRemaining !== null && sessionRemaining < SESSION_WARNING_SECONDS && (
+            <div className="p-4 rounded-lg bg-amber-50 border border-amber-200 text-sm text-amber-800 flex items-center justify-between gap-4">
+              <span>Your session ends in {Math.max(1, Math.ceil(sessionRemaining / 60))} min without activity.</span>
+              <button
+                type="button"
+                onClick={staySignedIn}
+                className="flex-shrink-0 px-3 py-1.5 bg-amber-600 text-white rounded-lg hover:bg-amber-700 transition"
+              >
+                Stay signed in
+              </button>
+            </div>
+          )}
+
+          {modifyError && (
+            <div className="p-4 rounded-lg bg-red-50 border border-red-200 text-sm text-red-700">
+              {modifyError}
+            </div>
+          )}
+
           {/* Field 7 - Aircraft Identification */}
           <section className="bg-white rounded-xl border border-slate-200 p-6">
             <h2 className="text-lg font-semibold text-slate-800 mb-4 flex items-center gap-2">
@@ -1244,12 +1867,59 @@ export default function NewFlightPlanPage() {
                 <input
                   type="text"
                   value={formData.arcid}
-                  onChange={(e) => handleInputChange('arcid', e.target.value.toUpperCase())}
+                  onChange={(e) => handleArcidChange(e.target.value)}
                   placeholder="e.g. PHHLR"
-                  className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 uppercase"
+                  disabled={!!modifyPlan}
+                  list="aircraft-profiles"
+                  className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 uppercase disabled:bg-slate-100 disabled:text-slate-500"
                   maxLength={7}
                 />
+                <datalist id="aircraft-profiles">
+                  {aircraftProfiles.map((profile) => (
+                    <option key={profile.arcid} value={profile.arcid}>{profile.arcType}</option>
+                  ))}
+                </datalist>
+                {appliedProfile && appliedProfile === formData.arcid && (
+                  <p className="mt-1 text-xs text-green-700">Filled from the {appliedProfile} profile</p>
+                )}
               </div>
+              {!modifyPlan && (
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-1">
+                    Aircraft Profile
+                  </label>
+                  <div className="flex flex-wrap gap-2">
+                    <button
+                      type="button"
+                      onClick={handleSaveAircraftProfile}
+                      disabled={savingProfile || !/^[A-Z0-9]{2,7}$/.test(formData.arcid)}
+                      className="px-3 py-2 text-sm bg-slate-200 text-slate-700 rounded-lg hover:bg-slate-300 transition disabled:opacity-50"
+                    >
+                      {savingProfile ? 'Saving...' : 'Save aircraft profile'}
+                    </button>
+                    <button
+                      type="button"
+                      onClick={handleImportAircraftProfiles}
+                      disabled={importingProfiles}
+                      className="px-3 py-2 text-sm bg-slate-200 text-slate-700 rounded-lg hover:bg-slate-300 transition disabled:opacity-50"
+                    >
+                      {importingProfiles ? 'Importing...' : 'Import from Homebriefing'}
+                    </button>
+                    {aircraftProfiles.some((p) => p.arcid === formData.arcid) && (
+                      <button
+                        type="button"
+                        onClick={() => handleDeleteAircraftProfile(formData.arcid)}
+                        className="px-3 py-2 text-sm text-red-600 rounded-lg hover:bg-red-50 transition"
+                      >
+                        Delete profile
+                      </button>
+                    )}
+                  </div>
+                  <p className="mt-1 text-xs text-slate-500">
+                    {profileMessage || 'Saves type, equipment, speed, PBN/, CODE/ and Field 19 for this registration.'}
+                  </p>
+                </div>
+              )}
             </div>
           </section>
 
@@ -1390,13 +2060,12 @@ export default function NewFlightPlanPage() {
                 <label className="block text-sm font-medium text-slate-700 mb-1">
                   Departure Aerodrome (ADEP)
                 </label>
-                <input
-                  type="text"
+                <AerodromeInput
                   value={formData.adep}
-                  onChange={(e) => handleInputChange('adep', e.target.value.toUpperCase())}
+                  onChange={(code) => handleInputChange('adep', code)}
+                  onSelect={(aerodrome) => handleAerodromeSelect('adep', aerodrome)}
                   placeholder="e.g. EHRD"
-                  className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 uppercase"
-                  maxLength={4}
+                  disabled={!!modifyPlan}
                 />
               </div>
               <div>
@@ -1460,6 +2129,15 @@ export default function NewFlightPlanPage() {
                 className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 font-mono uppercase"
                 rows={2}
               />
+              {routeErrors.length > 0 && (
+                <div className="mt-2 space-y-1">
+                  {routeErrors.map((err, idx) => (
+                    <p key={idx} className="text-xs text-amber-800">
+                      <span className="font-semibold">{getReadableFieldName(err.field)}:</span> {err.message}
+                    </p>
+                  ))}
+                </div>
+              )}
             </div>
           </section>
 
@@ -1474,13 +2152,12 @@ export default function NewFlightPlanPage() {
                 <label className="block text-sm font-medium text-slate-700 mb-1">
                   Destination (ADES)
                 </label>
-                <input
-                  type="text"
+                <AerodromeInput
                   value={formData.ades}
-                  onChange={(e) => handleInputChange('ades', e.target.value.toUpperCase())}
+                  onChange={(code) => handleInputChange('ades', code)}
+                  onSelect={(aerodrome) => handleAerodromeSelect('ades', aerodrome)}
                   placeholder="e.g. EHMZ"
-                  className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 uppercase"
-                  maxLength={4}
+                  disabled={!!modifyPlan}
                 />
               </div>
               <div>
@@ -1500,29 +2177,31 @@ export default function NewFlightPlanPage() {
                 <label className="block text-sm font-medium text-slate-700 mb-1">
                   1st Alternate
                 </label>
-                <input
-                  type="text"
+                <AerodromeInput
                   value={formData.adAltn1 || ''}
-                  onChange={(e) => handleInputChange('adAltn1', e.target.value.toUpperCase())}
+                  onChange={(code) => handleInputChange('adAltn1', code)}
+                  onSelect={(aerodrome) => handleAerodromeSelect('adAltn1', aerodrome)}
                   placeholder="e.g. EHSE"
-                  className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 uppercase"
-                  maxLength={4}
                 />
               </div>
               <div>
                 <label className="block text-sm font-medium text-slate-700 mb-1">
                   2nd Alternate
                 </label>
-                <input
-                  type="text"
+                <AerodromeInput
                   value={formData.adAltn2 || ''}
-                  onChange={(e) => handleInputChange('adAltn2', e.target.value.toUpperCase())}
+                  onChange={(code) => handleInputChange('adAltn2', code)}
+                  onSelect={(aerodrome) => handleAerodromeSelect('adAltn2', aerodrome)}
                   placeholder="Optional"
-                  className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 uppercase"
-                  maxLength={4}
                 />
               </div>
             </div>
+            <EetCalculator
+              request={routeMapRequest}
+              onApplyTotalEet={(minutes) => handleInputChange('totalEet', minutes)}
+              onApplyField18Eet={setField18Eet}
+              onSessionExpired={handleSessionExpired}
+            />
           </section>
 
           {/* Field 18 - Other Information */}
@@ -1890,6 +2569,38 @@ export default function NewFlightPlanPage() {
             </div>
           </section>
 
+          {/* Route Map */}
+          <section className="bg-white rounded-xl border border-slate-200 p-6">
+            <RouteMapPanel request={routeMapRequest} onSessionExpired={handleSessionExpired} />
+          </section>
+
+          {/* Weather Briefing */}
+          <section className="bg-white rounded-xl border border-slate-200 p-6">
+            <MetBriefingPanel request={briefingRequest} onSessionExpired={handleSessionExpired} />
+          </section>
+
+          {/* NOTAM Briefing */}
+          <section className="bg-white rounded-xl border border-slate-200 p-6">
+            <NotamBriefingPanel request={briefingRequest} onSessionExpired={handleSessionExpired} />
+          </section>
+
+          {/* Local checks while typing, until the next validation */}
+          {!validationResult && localFieldErrors.length > 0 && (
+            <div className="p-4 rounded-lg border bg-amber-50 border-amber-200 text-amber-800">
+              <p className="font-medium">Check these before validating</p>
+              <div className="mt-3 space-y-2">
+                {localFieldErrors.map((err, idx) => (
+                  <div key={idx} className="flex items-start gap-2 text-sm bg-amber-100/50 rounded p-2">
+                    <span className="font-semibold shrink-0">
+                      {getReadableFieldName(err.field)}:
+                    </span>
+                    <span>{err.message}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Validation Result */}
           {validationResult && (
             <div
@@ -1931,6 +2642,32 @@ export default function NewFlightPlanPage() {
                 </div>
               )}
 
+              {/* Our own checks, e.g. VFR after dark */}
+              {validationResult.warnings && validationResult.warnings.length > 0 && (
+                <div className="mt-3 space-y-2">
+                  {validationResult.warnings.map((warning, idx) => (
+                    <div key={idx} className="text-sm bg-amber-50 border border-amber-200 text-amber-800 rounded p-2">
+                      <div className="flex items-start gap-2">
+                        <span className="font-semibold shrink-0">
+                          {getReadableFieldName(warning.field)}:
+                        </span>
+                        <span>{warning.message}</span>
+                      </div>
+                      {warning.suggestions?.map((suggestion) => (
+                        <button
+                          key={suggestion}
+                          type="button"
+                          onClick={() => addField18Entry(suggestion)}
+                          className="mt-2 px-2 py-1 text-xs font-medium bg-amber-100 hover:bg-amber-200 rounded transition"
+                        >
+                          Add {suggestion} to Field 18
+                        </button>
+                      ))}
+                    </div>
+                  ))}
+                </div>
+              )}
+
               {/* General error messages */}
               {validationResult.errorMessages && validationResult.errorMessages.length > 0 && (
                 <ul className="mt-2 list-disc list-inside text-sm">
@@ -1957,6 +2694,29 @@ export default function NewFlightPlanPage() {
             </div>
           )}
 
+          {/* CHG diff */}
+          {modifyPlan && chgChanges && (
+            <div className={`p-4 rounded-lg border ${canSendChange ? 'bg-yellow-50 border-yellow-200' : 'bg-slate-50 border-slate-200'}`}>
+              {chgLockedFields.length > 0 ? (
+                <p className="text-sm text-red-700">
+                  {chgLockedFields.map(getReadableFieldName).join(', ')} cannot be changed or removed with a CHG message.
+                  Cancel this flight plan and file a new one instead.
+                </p>
+              ) : !hasFlightPlanChanges(chgChanges) ? (
+                <p className="text-sm text-slate-600">No changes yet. Edit the fields you want to change.</p>
+              ) : (
+                <>
+                  <p className="text-sm font-medium text-yellow-800 mb-2">Changed fields</p>
+                  <ul className="list-disc list-inside text-sm text-yellow-900">
+                    {(Object.keys(chgChanges) as (keyof FlightPlanChanges)[]).map((key) => (
+                      <li key={key}>{getReadableFieldName(changeKeyToFieldCode[key])}</li>
+                    ))}
+                  </ul>
+                </>
+              )}
+            </div>
+          )}
+
           {/* Send Result */}
           {sendResult && (
             <div className={`p-4 rounded-lg ${sendResult.fplIsSent ? 'bg-green-50 border border-green-200' : 'bg-red-50 border border-red-200'}`}>
@@ -1966,7 +2726,7 @@ export default function NewFlightPlanPage() {
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z" />
                   </svg>
                   <div>
-                    <p className="font-medium text-green-800">Flight plan filed successfully!</p>
+                    <p className="font-medium text-green-800">{modifyPlan ? 'Change message sent successfully!' : 'Flight plan filed successfully!'}</p>
                     <p className="text-sm text-green-600">Redirecting to dashboard...</p>
                   </div>
                 </div>
@@ -1976,7 +2736,7 @@ export default function NewFlightPlanPage() {
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
                   </svg>
                   <div>
-                    <p className="font-medium text-red-800">Failed to file flight plan</p>
+                    <p className="font-medium text-red-800">{modifyPlan ? 'Failed to send change message' : 'Failed to file flight plan'}</p>
                     {sendResult.errorMessage && (
                       <p className="text-sm text-red-600 mt-1">{sendResult.errorMessage}</p>
                     )}
@@ -2005,10 +2765,10 @@ export default function NewFlightPlanPage() {
             <button
               type="button"
               onClick={handleFileClick}
-              disabled={!validationResult?.fplIsOk || sending || sendResult?.fplIsSent}
+              disabled={(modifyPlan ? !canSendChange : !validationResult?.fplIsOk) || sending || sendResult?.fplIsSent}
               className="px-6 py-3 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition disabled:opacity-50 disabled:cursor-not-allowed"
             >
-              {sending ? 'Sending...' : sendResult?.fplIsSent ? 'Sent!' : 'File Flight Plan'}
+              {sending ? 'Sending...' : sendResult?.fplIsSent ? 'Sent!' : modifyPlan ? 'Send Change (CHG)' : 'File Flight Plan'}
             </button>
           </div>
         </form>
@@ -2022,7 +2782,7 @@ export default function NewFlightPlanPage() {
             onClick={(e) => e.stopPropagation()}
           >
             <div className="p-4 border-b border-slate-200">
-              <h2 className="text-lg font-bold text-slate-800">Confirm Flight Plan Filing</h2>
+              <h2 className="text-lg font-bold text-slate-800">{modifyPlan ? 'Confirm Flight Plan Change' : 'Confirm Flight Plan Filing'}</h2>
               <p className="text-sm text-slate-500 mt-1">
                 Please verify the details before submitting
               </p>
@@ -2064,11 +2824,16 @@ export default function NewFlightPlanPage() {
                   </p>
                 </div>
               </div>
+              <MessagePreview message={previewMessage} error={previewError} />
               <p className="text-xs text-amber-700 bg-amber-50 p-2 rounded flex items-start gap-2">
                 <svg className="w-4 h-4 flex-shrink-0 mt-0.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" />
                 </svg>
-                <span>This will submit your flight plan to ATC. Make sure all details are correct.</span>
+                <span>
+                  {modifyPlan
+                    ? 'This will send the change message to ATC. Make sure all details are correct.'
+                    : 'This will submit your flight plan to ATC. Make sure all details are correct.'}
+                </span>
               </p>
             </div>
             <div className="p-4 border-t border-slate-200 flex justify-end gap-3">
@@ -2079,10 +2844,11 @@ export default function NewFlightPlanPage() {
                 Cancel
               </button>
               <button
-                onClick={handleConfirmSend}
-                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition font-medium"
+                onClick={modifyPlan ? handleConfirmChange : handleConfirmSend}
+                disabled={!previewMessage}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition font-medium disabled:opacity-50"
               >
-                File Flight Plan
+                {modifyPlan ? 'Send Change' : 'File Flight Plan'}
               </button>
             </div>
           </div>
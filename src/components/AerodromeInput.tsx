@@ -0,0 +1,143 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Aerodrome, AerodromeSearchResponse } from '@/lib/homebriefing/types';
+
+// Aerodrome field with autocomplete from the bundled aerodrome database. Takes an
+// ICAO indicator or part of a name; only indicators (up to 4 characters) go into
+// the form, a name is just a search. Leaving the field with a name or a partial
+// indicator puts back the indicator it had. Aerodromes without an indicator become ZZZZ.
+
+const FIELD_CLASS = 'w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 uppercase disabled:bg-slate-100 disabled:text-slate-500';
+
+export default function AerodromeInput({
+  value,
+  onChange,
+  onSelect,
+  placeholder,
+  disabled,
+  className = FIELD_CLASS,
+}: {
+  value: string;
+  onChange: (code: string) => void;
+  onSelect?: (aerodrome: Aerodrome) => void;
+  placeholder?: string;
+  disabled?: boolean;
+  className?: string;
+}) {
+  const [text, setText] = useState(value);          // What's typed while the field has focus
+  const [before, setBefore] = useState(value);      // Form value when the field got focus
+  const [focused, setFocused] = useState(false);
+  const [found, setFound] = useState<{ query: string; aerodromes: Aerodrome[] }>({ query: '', aerodromes: [] });
+  const [highlighted, setHighlighted] = useState(0);
+  const [dismissed, setDismissed] = useState(false);   // Closed by a choice or Escape until the next keystroke
+
+  // Without focus the field shows the form value, which templates and drafts may change
+  const shown = focused ? text : value;
+  const query = focused ? text.trim() : '';
+  const results = query.length >= 2 && found.query === query ? found.aerodromes : [];
+
+  useEffect(() => {
+    if (query.length < 2) return;
+
+    // Debounce so typing a name doesn't fire a request per keystroke
+    const controller = new AbortController();
+    const timeout = setTimeout(async () => {
+      try {
+        const res = await fetch(`/api/aerodromes?q=${encodeURIComponent(query)}`, { signal: controller.signal });
+        if (!res.ok) return;
+        const data: AerodromeSearchResponse = await res.json();
+        setFound({ query, aerodromes: data.aerodromes || [] });
+        setHighlighted(0);
+      } catch {
+        // Aborted or offline, keep the field usable without suggestions
+      }
+    }, 200);
+
+    return () => {
+      clearTimeout(timeout);
+      controller.abort();
+    };
+  }, [query]);
+
+  const handleChange = (input: string) => {
+    const upper = input.toUpperCase();
+    setText(upper);
+    setDismissed(false);
+    if (/^[A-Z]{0,4}$/.test(upper)) onChange(upper);
+  };
+
+  const select = (aerodrome: Aerodrome) => {
+    const code = aerodrome.icao || 'ZZZZ';
+    setText(code);
+    setDismissed(true);
+    onChange(code);
+    onSelect?.(aerodrome);
+  };
+
+  const open = focused && !dismissed && results.length > 0;
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!open) return;
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setHighlighted((highlighted + 1) % results.length);
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setHighlighted((highlighted - 1 + results.length) % results.length);
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      select(results[highlighted]);
+    } else if (e.key === 'Escape') {
+      setDismissed(true);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <input
+        type="text"
+        value={shown}
+        onChange={(e) => handleChange(e.target.value)}
+        onFocus={() => {
+          setText(value);
+          setBefore(value);
+          setFocused(true);
+        }}
+        onBlur={() => {
+          setFocused(false);
+          // The form got the typed prefix, "TEUG" of "TEUGE" would pass as an indicator
+          if (text !== '' && !/^[A-Z]{4}$/.test(text)) onChange(before);
+        }}
+        onKeyDown={handleKeyDown}
+        placeholder={placeholder}
+        disabled={disabled}
+        className={className}
+        autoComplete="off"
+        maxLength={30}
+      />
+      {open && (
+        <ul className="absolute z-20 mt-1 w-72 max-h-64 overflow-y-auto bg-white border border-slate-200 rounded-lg shadow-lg">
+          {results.map((aerodrome, index) => (
+            <li key={aerodrome.icao || aerodrome.name}>
+              <button
+                type="button"
+                // Select before the input's blur closes the list
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  select(aerodrome);
+                }}
+                onMouseEnter={() => setHighlighted(index)}
+                className={`w-full px-3 py-2 text-left text-sm flex items-baseline gap-2 ${index === highlighted ? 'bg-blue-50' : ''}`}
+              >
+                <span className="font-mono font-medium text-slate-800 w-12">{aerodrome.icao || 'ZZZZ'}</span>
+                <span className="flex-1 text-slate-700 truncate">{aerodrome.name}</span>
+                <span className="text-xs text-slate-500">{aerodrome.country} · {aerodrome.elevation} ft</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,165 @@
+'use client';
+
+import { useState, useRef } from 'react';
+import { BriefingRequest, EetRequest, EetResponse } from '@/lib/homebriefing/types';
+
+// Total EET and EET/ (FIR boundary) suggestions for the flight plan form,
+// calculated along the route at the cruising speed with an optional headwind.
+
+const EET_ENTRY = /\bEET\/.*?(?=\s+[A-Z0-9]+\/|$)/;
+
+function formatMinutes(minutes: number): string {
+  const rounded = Math.round(minutes);
+  return `${Math.floor(rounded / 60)}:${String(rounded % 60).padStart(2, '0')}`;
+}
+
+export default function EetCalculator({
+  request,
+  onApplyTotalEet,
+  onApplyField18Eet,
+  onSessionExpired,
+}: {
+  request: BriefingRequest | null;   // null while departure or destination is missing
+  onApplyTotalEet: (minutes: number) => void;
+  onApplyField18Eet: (entry: string) => void;
+  onSessionExpired: () => void;
+}) {
+  const [headwind, setHeadwind] = useState('');
+  const [result, setResult] = useState<EetResponse | null>(null);
+  const [loadedKey, setLoadedKey] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Use ref to avoid dependency on onSessionExpired causing re-renders
+  const onSessionExpiredRef = useRef(onSessionExpired);
+  onSessionExpiredRef.current = onSessionExpired;
+
+  // Total EET and the EET/ entry are what the calculation fills in, they don't change it
+  const eetRequest: EetRequest | null = request && {
+    ...request,
+    totalEet: 0,
+    flOther: (request.flOther || '').replace(EET_ENTRY, '').trim(),
+    headwind: parseInt(headwind) || 0,
+  };
+  const requestKey = eetRequest ? JSON.stringify(eetRequest) : null;
+
+  const calculate = async () => {
+    if (!requestKey) return;
+
+    setLoading(true);
+    setError(null);
+    try {
+      const res = await fetch('/api/briefing/eet', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: requestKey,
+      });
+      if (res.status === 401) {
+        onSessionExpiredRef.current();
+        return;
+      }
+      const data = await res.json();
+      if (data.error || data.isError) {
+        setError(data.error || data.errorMessage || 'Failed to calculate EET');
+        setResult(null);
+      } else {
+        setResult(data);
+        setLoadedKey(requestKey);
+      }
+    } catch {
+      setError('Failed to calculate EET');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const outdated = !!result && loadedKey !== requestKey;
+
+  return (
+    <div className="mt-4 p-4 bg-slate-50 border border-slate-200 rounded-lg">
+      <div className="flex flex-wrap items-end gap-3">
+        <div>
+          <label className="block text-xs font-medium text-slate-600 mb-1">Headwind (kt, negative for tailwind)</label>
+          <input
+            type="number"
+            value={headwind}
+            onChange={(e) => setHeadwind(e.target.value)}
+            placeholder="0"
+            className="w-28 px-3 py-1.5 border border-slate-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          />
+        </div>
+        <button
+          type="button"
+          onClick={calculate}
+          disabled={!request || loading}
+          className="px-3 py-1.5 text-sm bg-slate-200 text-slate-700 rounded-lg hover:bg-slate-300 transition disabled:opacity-50"
+        >
+          {loading ? 'Calculating...' : 'Calculate EET'}
+        </button>
+        {!request && (
+          <p className="text-xs text-slate-500 pb-2">Enter departure and destination to calculate the EET.</p>
+        )}
+      </div>
+
+      {error && (
+        <div className="mt-3 p-3 bg-red-50 border border-red-200 rounded-lg text-red-700 text-sm">{error}</div>
+      )}
+
+      {outdated && (
+        <p className="mt-3 text-sm text-amber-800">The route, speed or wind changed since the calculation, calculate again to update it.</p>
+      )}
+
+      {result && (
+        <div className="mt-3 space-y-3">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-slate-500">
+                <th className="font-medium py-1">Leg</th>
+                <th className="font-medium py-1 text-right">Track</th>
+                <th className="font-medium py-1 text-right">Distance</th>
+                <th className="font-medium py-1 text-right">GS</th>
+                <th className="font-medium py-1 text-right">Time</th>
+              </tr>
+            </thead>
+            <tbody className="font-mono text-slate-800">
+              {result.legs.map((leg, idx) => (
+                <tr key={idx} className="border-t border-slate-200">
+                  <td className="py-1">{leg.from} - {leg.to}</td>
+                  <td className="py-1 text-right">{String(Math.round(leg.track) % 360).padStart(3, '0')}°</td>
+                  <td className="py-1 text-right">{leg.distance.toFixed(1)} NM</td>
+                  <td className="py-1 text-right">{leg.groundSpeed} kt</td>
+                  <td className="py-1 text-right">{formatMinutes(leg.minutes)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <div className="flex flex-wrap gap-2">
+            {result.totalEet !== undefined && (
+              <button
+                type="button"
+                onClick={() => onApplyTotalEet(result.totalEet!)}
+                className="px-3 py-1.5 text-sm font-medium bg-blue-100 text-blue-800 rounded-lg hover:bg-blue-200 transition"
+              >
+                Use {result.totalEet} min as total EET
+              </button>
+            )}
+            {result.field18Eet && (
+              <button
+                type="button"
+                onClick={() => onApplyField18Eet(result.field18Eet!)}
+                className="px-3 py-1.5 text-sm font-medium bg-blue-100 text-blue-800 rounded-lg hover:bg-blue-200 transition"
+              >
+                Set EET/{result.field18Eet} in Field 18
+              </button>
+            )}
+          </div>
+
+          {result.warnings.map((warning, idx) => (
+            <p key={idx} className="text-sm text-amber-800">{warning}</p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
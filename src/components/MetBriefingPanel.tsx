@@ -0,0 +1,282 @@
+'use client';
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { BriefingRequest, DecodedMetar, DecodedTaf, MetBriefingResponse, MetConditions, MetReport, TafPeriod } from '@/lib/homebriefing/types';
+import { BriefingRoleBadges, formatBriefingTime } from './briefing';
+
+// MET briefing for a flight: latest METAR, TAF and SYNOP per aerodrome, decoded,
+// with a warning where conditions are below VFR minima for the chosen flight rules.
+
+const cloudCovers: Record<string, string> = {
+  FEW: 'Few',
+  SCT: 'Scattered',
+  BKN: 'Broken',
+  OVC: 'Overcast',
+  VV: 'Vertical visibility',
+};
+
+function describeWind(conditions: MetConditions): string | undefined {
+  const wind = conditions.wind;
+  if (!wind) return undefined;
+  const unit = wind.unit === 'KT' ? 'kt' : 'm/s';
+  if (wind.speed === 0) return 'Calm';
+  const direction = wind.variable ? 'Variable' : `${String(wind.direction).padStart(3, '0')}°`;
+  return `${direction} ${wind.speed} ${unit}${wind.gust ? `, gusts ${wind.gust} ${unit}` : ''}`;
+}
+
+function describeVisibility(conditions: MetConditions): string | undefined {
+  if (conditions.cavok) return 'CAVOK';
+  if (conditions.visibility === undefined) return undefined;
+  return conditions.visibility >= 9999 ? '10 km or more' : `${conditions.visibility} m`;
+}
+
+function describeClouds(conditions: MetConditions): string | undefined {
+  if (conditions.clouds.length === 0) return undefined;
+  return conditions.clouds
+    .map((cloud) => `${cloudCovers[cloud.cover] ?? cloud.cover} ${cloud.height !== undefined ? `${cloud.height} ft` : '?'}${cloud.type ? ` ${cloud.type}` : ''}`)
+    .join(', ');
+}
+
+function ConditionRows({ conditions }: { conditions: MetConditions }) {
+  const rows: [string, string | undefined][] = [
+    ['Wind', describeWind(conditions)],
+    ['Visibility', describeVisibility(conditions)],
+    ['Weather', conditions.weather.length > 0 ? conditions.weather.join(' ') : undefined],
+    ['Clouds', describeClouds(conditions)],
+  ];
+  return (
+    <>
+      {rows.filter(([, value]) => value).map(([label, value]) => (
+        <div key={label} className="flex gap-2">
+          <span className="w-20 shrink-0 text-slate-500">{label}</span>
+          <span className="text-slate-800">{value}</span>
+        </div>
+      ))}
+    </>
+  );
+}
+
+function MetarDetails({ metar }: { metar: DecodedMetar }) {
+  return (
+    <div className="mt-2 text-sm space-y-0.5">
+      {metar.observed && (
+        <div className="flex gap-2">
+          <span className="w-20 shrink-0 text-slate-500">Observed</span>
+          <span className="text-slate-800">{formatBriefingTime(metar.observed)}</span>
+        </div>
+      )}
+      <ConditionRows conditions={metar} />
+      {metar.temperature !== undefined && (
+        <div className="flex gap-2">
+          <span className="w-20 shrink-0 text-slate-500">Temp</span>
+          <span className="text-slate-800">
+            {metar.temperature}°C{metar.dewpoint !== undefined ? ` / dew point ${metar.dewpoint}°C` : ''}
+          </span>
+        </div>
+      )}
+      {metar.qnh !== undefined && (
+        <div className="flex gap-2">
+          <span className="w-20 shrink-0 text-slate-500">QNH</span>
+          <span className="text-slate-800">{metar.qnh} hPa</span>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function periodLabel(period: TafPeriod): string {
+  switch (period.change) {
+    case 'BASE':
+      return 'Initially';
+    case 'FM':
+      return `From ${formatBriefingTime(period.from)}`;
+    case 'PROB':
+      return `PROB${period.probability}${period.tempo ? ' TEMPO' : ''} ${formatBriefingTime(period.from)} - ${formatBriefingTime(period.to)}`;
+    default:
+      return `${period.change} ${formatBriefingTime(period.from)} - ${formatBriefingTime(period.to)}`;
+  }
+}
+
+function TafDetails({ taf }: { taf: DecodedTaf }) {
+  return (
+    <div className="mt-2 space-y-2">
+      {taf.validFrom && (
+        <p className="text-xs text-slate-500">Valid {formatBriefingTime(taf.validFrom)} - {formatBriefingTime(taf.validTo)}</p>
+      )}
+      {taf.periods.map((period, i) => (
+        <div key={i} className="text-sm">
+          <p className="text-xs font-medium text-slate-600">{periodLabel(period)}</p>
+          <div className="pl-3 space-y-0.5">
+            <ConditionRows conditions={period} />
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function MetReportSection({ report }: { report: MetReport }) {
+  const [showSynop, setShowSynop] = useState(false);
+
+  return (
+    <div className="border border-slate-200 rounded-lg overflow-hidden">
+      <div className="px-4 py-2 bg-slate-100 flex items-center gap-2">
+        <span className="font-semibold text-slate-800">{report.location}</span>
+        <BriefingRoleBadges roles={report.roles} />
+      </div>
+
+      <div className="p-4 space-y-4">
+        {report.vfrWarnings.length > 0 && (
+          <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+            <p className="font-medium">Below VFR minima</p>
+            <ul className="mt-1 list-disc list-inside">
+              {report.vfrWarnings.map((warning) => <li key={warning}>{warning}</li>)}
+            </ul>
+          </div>
+        )}
+        {report.errorMessage && (
+          <p className="text-sm text-red-600">{report.errorMessage}</p>
+        )}
+
+        <div>
+          <p className="text-xs font-medium text-slate-500 mb-1">METAR</p>
+          {report.metar ? (
+            <>
+              <pre className="text-sm text-slate-800 whitespace-pre-wrap font-mono bg-slate-50 p-2 rounded border border-slate-200 overflow-x-auto">
+                {report.metar}
+              </pre>
+              {report.decodedMetar && <MetarDetails metar={report.decodedMetar} />}
+            </>
+          ) : (
+            <p className="text-sm text-slate-500">No METAR</p>
+          )}
+        </div>
+
+        <div>
+          <p className="text-xs font-medium text-slate-500 mb-1">TAF</p>
+          {report.taf ? (
+            <>
+              <pre className="text-sm text-slate-800 whitespace-pre-wrap font-mono bg-slate-50 p-2 rounded border border-slate-200 overflow-x-auto">
+                {report.taf}
+              </pre>
+              {report.decodedTaf && <TafDetails taf={report.decodedTaf} />}
+            </>
+          ) : (
+            <p className="text-sm text-slate-500">No TAF</p>
+          )}
+        </div>
+
+        {report.synop.length > 0 && (
+          <div>
+            <button
+              type="button"
+              onClick={() => setShowSynop(!showSynop)}
+              className="text-xs font-medium text-blue-600 hover:text-blue-800"
+            >
+              {showSynop ? 'Hide SYNOP' : 'Show SYNOP'}
+            </button>
+            {showSynop && (
+              <pre className="mt-1 text-sm text-slate-800 whitespace-pre-wrap font-mono bg-slate-50 p-2 rounded border border-slate-200 overflow-x-auto">
+                {report.synop.join('\n')}
+              </pre>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default function MetBriefingPanel({
+  request,
+  onSessionExpired,
+  autoLoad = false,
+}: {
+  request: BriefingRequest | null;   // null while the flight details are incomplete
+  onSessionExpired: () => void;
+  autoLoad?: boolean;
+}) {
+  const [briefing, setBriefing] = useState<MetBriefingResponse | null>(null);
+  const [loadedKey, setLoadedKey] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Use ref to avoid dependency on onSessionExpired causing re-renders
+  const onSessionExpiredRef = useRef(onSessionExpired);
+  onSessionExpiredRef.current = onSessionExpired;
+
+  const requestKey = request ? JSON.stringify(request) : null;
+
+  const loadBriefing = useCallback(async () => {
+    if (!requestKey) return;
+
+    setLoading(true);
+    setError(null);
+    try {
+      const res = await fetch('/api/briefing/met', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: requestKey,
+      });
+      if (res.status === 401) {
+        onSessionExpiredRef.current();
+        return;
+      }
+      const data = await res.json();
+      if (data.error || data.isError) {
+        setError(data.error || data.errorMessage || 'Failed to load weather');
+      } else {
+        setBriefing(data);
+        setLoadedKey(requestKey);
+      }
+    } catch {
+      setError('Failed to load weather');
+    } finally {
+      setLoading(false);
+    }
+  }, [requestKey]);
+
+  useEffect(() => {
+    if (autoLoad) {
+      loadBriefing();
+    }
+  }, [autoLoad, loadBriefing]);
+
+  const outdated = !!briefing && loadedKey !== requestKey;
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-lg font-semibold text-slate-800">Weather</h3>
+        <button
+          type="button"
+          onClick={loadBriefing}
+          disabled={!request || loading}
+          className="px-3 py-1.5 text-sm bg-slate-100 text-slate-700 rounded-lg hover:bg-slate-200 transition disabled:opacity-50"
+        >
+          {loading ? 'Loading...' : briefing ? 'Refresh' : 'Load weather'}
+        </button>
+      </div>
+
+      {!request && !briefing && (
+        <p className="text-sm text-slate-500">Enter departure, destination and EOBT to load METAR and TAF.</p>
+      )}
+
+      {error && (
+        <div className="mb-3 p-3 bg-red-50 border border-red-200 rounded-lg text-red-700 text-sm">{error}</div>
+      )}
+
+      {outdated && (
+        <div className="mb-3 p-3 bg-amber-50 border border-amber-200 rounded-lg text-amber-800 text-sm">
+          The flight details changed since the weather was loaded, refresh to update it.
+        </div>
+      )}
+
+      {briefing && (
+        <div className="space-y-4">
+          {briefing.reports.map((report) => <MetReportSection key={report.location} report={report} />)}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,201 @@
+'use client';
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { Notam, BriefingRequest, NotamBriefingResponse, NotamGroup, NotamValidity } from '@/lib/homebriefing/types';
+import { BriefingRoleBadges, formatBriefingTime } from './briefing';
+
+// NOTAM briefing for a flight, shared by the new flight plan page and the
+// flight plan details on the dashboard. Grouped by aerodrome, then by validity.
+
+const validitySections: { validity: NotamValidity; label: string; className: string }[] = [
+  { validity: 'flight', label: 'During the flight', className: 'bg-amber-50 border-amber-200' },
+  { validity: 'permanent', label: 'Permanent', className: 'bg-slate-50 border-slate-200' },
+  { validity: 'other', label: 'Outside the flight window', className: 'bg-white border-slate-200' },
+];
+
+function formatValidity(notam: Notam): string {
+  const from = formatBriefingTime(notam.validFrom);
+  const to = notam.permanent ? 'PERM' : `${formatBriefingTime(notam.validTo)}${notam.estimated ? ' EST' : ''}`;
+  return from || to ? `${from || '?'} - ${to || '?'}` : '';
+}
+
+function NotamItem({ notam }: { notam: Notam }) {
+  const [showRaw, setShowRaw] = useState(false);
+
+  return (
+    <div className="p-3 bg-white rounded border border-slate-200">
+      <div className="flex flex-wrap justify-between items-center gap-2 mb-1">
+        <span className="font-mono text-sm font-medium text-slate-800">{notam.id || 'NOTAM'}</span>
+        <span className="text-xs text-slate-500">{formatValidity(notam)}</span>
+      </div>
+      {notam.schedule && <p className="text-xs text-slate-500 mb-1">Schedule: {notam.schedule}</p>}
+      <p className="text-sm text-slate-800 whitespace-pre-wrap">{notam.text}</p>
+      <button
+        type="button"
+        onClick={() => setShowRaw(!showRaw)}
+        className="mt-1 text-xs text-blue-600 hover:text-blue-800"
+      >
+        {showRaw ? 'Hide full text' : 'Full text'}
+      </button>
+      {showRaw && (
+        <pre className="mt-2 text-xs text-slate-700 whitespace-pre-wrap font-mono bg-slate-50 p-2 rounded border border-slate-200 overflow-x-auto">
+          {notam.raw}
+        </pre>
+      )}
+    </div>
+  );
+}
+
+function NotamGroupSection({ group }: { group: NotamGroup }) {
+  const [showOther, setShowOther] = useState(false);
+  const title = group.location || 'En route';
+
+  return (
+    <div className="border border-slate-200 rounded-lg overflow-hidden">
+      <div className="px-4 py-2 bg-slate-100 flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <span className="font-semibold text-slate-800">{title}</span>
+          <BriefingRoleBadges roles={group.roles} />
+        </div>
+        <span className="text-xs text-slate-500">
+          {group.notams.length} NOTAM{group.notams.length === 1 ? '' : 's'}
+        </span>
+      </div>
+
+      <div className="p-4 space-y-4">
+        {group.errorMessage && (
+          <p className="text-sm text-red-600">{group.errorMessage}</p>
+        )}
+        {!group.errorMessage && group.notams.length === 0 && (
+          <p className="text-sm text-slate-500">No NOTAMs</p>
+        )}
+        {validitySections.map(({ validity, label, className }) => {
+          const notams = group.notams.filter((notam) => notam.validity === validity);
+          if (notams.length === 0) return null;
+          const collapsed = validity === 'other' && !showOther;
+          return (
+            <div key={validity} className={`p-3 rounded-lg border ${className}`}>
+              <button
+                type="button"
+                onClick={validity === 'other' ? () => setShowOther(!showOther) : undefined}
+                className={`text-xs font-medium text-slate-600 ${validity === 'other' ? 'hover:text-slate-800' : 'cursor-default'}`}
+              >
+                {label} ({notams.length}){validity === 'other' && (collapsed ? ' - show' : ' - hide')}
+              </button>
+              {!collapsed && (
+                <div className="mt-2 space-y-2">
+                  {notams.map((notam, i) => <NotamItem key={`${notam.id}-${i}`} notam={notam} />)}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+export default function NotamBriefingPanel({
+  request,
+  onSessionExpired,
+  autoLoad = false,
+}: {
+  request: BriefingRequest | null;   // null while the flight details are incomplete
+  onSessionExpired: () => void;
+  autoLoad?: boolean;
+}) {
+  const [briefing, setBriefing] = useState<NotamBriefingResponse | null>(null);
+  const [loadedKey, setLoadedKey] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Use ref to avoid dependency on onSessionExpired causing re-renders
+  const onSessionExpiredRef = useRef(onSessionExpired);
+  onSessionExpiredRef.current = onSessionExpired;
+
+  const requestKey = request ? JSON.stringify(request) : null;
+
+  const loadBriefing = useCallback(async () => {
+    if (!requestKey) return;
+
+    setLoading(true);
+    setError(null);
+    try {
+      const res = await fetch('/api/briefing/notams', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: requestKey,
+      });
+      if (res.status === 401) {
+        onSessionExpiredRef.current();
+        return;
+      }
+      const data = await res.json();
+      if (data.error || data.isError) {
+        setError(data.error || data.errorMessage || 'Failed to load NOTAMs');
+      } else {
+        setBriefing(data);
+        setLoadedKey(requestKey);
+      }
+    } catch {
+      setError('Failed to load NOTAMs');
+    } finally {
+      setLoading(false);
+    }
+  }, [requestKey]);
+
+  useEffect(() => {
+    if (autoLoad) {
+      loadBriefing();
+    }
+  }, [autoLoad, loadBriefing]);
+
+  const outdated = !!briefing && loadedKey !== requestKey;
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-3">
+        <div>
+          <h3 className="text-lg font-semibold text-slate-800">NOTAMs</h3>
+          {briefing && (
+            <p className="text-xs text-slate-500">
+              Flight window {formatBriefingTime(briefing.flightFrom)} - {formatBriefingTime(briefing.flightTo)}
+            </p>
+          )}
+        </div>
+        <button
+          type="button"
+          onClick={loadBriefing}
+          disabled={!request || loading}
+          className="px-3 py-1.5 text-sm bg-slate-100 text-slate-700 rounded-lg hover:bg-slate-200 transition disabled:opacity-50"
+        >
+          {loading ? 'Loading...' : briefing ? 'Refresh' : 'Load NOTAMs'}
+        </button>
+      </div>
+
+      {!request && !briefing && (
+        <p className="text-sm text-slate-500">Enter departure, destination and EOBT to load the NOTAM briefing.</p>
+      )}
+
+      {error && (
+        <div className="mb-3 p-3 bg-red-50 border border-red-200 rounded-lg text-red-700 text-sm">{error}</div>
+      )}
+
+      {outdated && (
+        <div className="mb-3 p-3 bg-amber-50 border border-amber-200 rounded-lg text-amber-800 text-sm">
+          The flight details changed since this briefing was loaded, refresh to update it.
+        </div>
+      )}
+
+      {briefing && (
+        <div className="space-y-4">
+          {briefing.groups.length === 0 ? (
+            <p className="text-sm text-slate-500">No NOTAMs for this flight</p>
+          ) : (
+            briefing.groups.map((group) => <NotamGroupSection key={group.location || 'route'} group={group} />)
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,416 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import {
+  NotificationSettingsData,
+  NotificationSettingsResponse,
+  SafetyTimer,
+  SafetyTimerChannel,
+  SafetyTimerListResponse,
+  SafetyTimerLogEntry,
+} from '@/lib/homebriefing/types';
+
+// Where ACK, REJ, DLA, CNL and DEP messages and overdue arrivals are sent:
+// Web Push to this browser (through public/sw.js) and outgoing webhooks.
+// The safety timer sends reminders to close VFR flight plans through the channels picked for it.
+
+const safetyTimerChannels: { value: SafetyTimerChannel; label: string }[] = [
+  { value: 'push', label: 'Browser notifications' },
+  { value: 'email', label: 'Email' },
+  { value: 'webhook', label: 'Webhooks' },
+];
+
+// applicationServerKey wants the raw bytes of the base64url key
+function decodeBase64Url(value: string): Uint8Array<ArrayBuffer> {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/').padEnd(Math.ceil(value.length / 4) * 4, '=');
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+function describeLogEntry(entry: SafetyTimerLogEntry): string {
+  switch (entry.event) {
+    case 'reminder':
+      return `Reminder ETA+${entry.minutesOverdue} sent to ${entry.channels?.length ? entry.channels.join(', ') : 'no channel'}`;
+    case 'acknowledged':
+      return 'I have landed';
+    case 'closed':
+      return 'Closed';
+  }
+}
+
+function SafetyTimerLog({ timer }: { timer: SafetyTimer }) {
+  return (
+    <li className="px-3 py-2">
+      <div className="flex items-center justify-between text-sm">
+        <span className="font-medium text-slate-800">
+          {timer.flight.arcid} {timer.flight.adep}-{timer.flight.ades}
+        </span>
+        <span className={`text-xs font-medium px-2 py-0.5 rounded-full ${timer.closedAt ? 'bg-green-100 text-green-800' : 'bg-amber-100 text-amber-800'}`}>
+          {timer.closedAt ? 'Closed' : 'Open'}
+        </span>
+      </div>
+      <ul className="mt-1 space-y-0.5">
+        {timer.log.map((entry, i) => (
+          <li key={i} className="text-xs text-slate-600">
+            <span className="font-mono text-slate-400">{new Date(entry.at).toISOString().slice(11, 16)}z</span>{' '}
+            {describeLogEntry(entry)}
+            {entry.detail && <span className="text-slate-400"> - {entry.detail}</span>}
+          </li>
+        ))}
+      </ul>
+    </li>
+  );
+}
+
+function isPushSupported(): boolean {
+  return typeof window !== 'undefined' && 'serviceWorker' in navigator && 'PushManager' in window && 'Notification' in window;
+}
+
+export default function NotificationSettingsPanel({ onSessionExpired }: { onSessionExpired: () => void }) {
+  const [settings, setSettings] = useState<NotificationSettingsData | null>(null);
+  const [vapidPublicKey, setVapidPublicKey] = useState('');
+  const [browserEndpoint, setBrowserEndpoint] = useState<string | null>(null);
+  const [pushSupported, setPushSupported] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [webhookUrl, setWebhookUrl] = useState('');
+  const [webhookSecret, setWebhookSecret] = useState('');
+  const [emailAvailable, setEmailAvailable] = useState(false);
+  const [timerEnabled, setTimerEnabled] = useState(false);
+  const [timerChannels, setTimerChannels] = useState<SafetyTimerChannel[]>(['push']);
+  const [timerEmail, setTimerEmail] = useState('');
+  const [timerSaved, setTimerSaved] = useState(false);
+  const [timers, setTimers] = useState<SafetyTimer[]>([]);
+
+  // Use ref to avoid dependency on onSessionExpired causing re-renders
+  const onSessionExpiredRef = useRef(onSessionExpired);
+  onSessionExpiredRef.current = onSessionExpired;
+
+  useEffect(() => {
+    const loadSettings = async () => {
+      try {
+        const res = await fetch('/api/notifications');
+        if (res.status === 401) {
+          onSessionExpiredRef.current();
+          return;
+        }
+        const data: NotificationSettingsResponse & { error?: string } = await res.json();
+        if (data.error) {
+          setError(data.error);
+          return;
+        }
+        setSettings(data.settings);
+        setVapidPublicKey(data.vapidPublicKey);
+        setEmailAvailable(data.emailAvailable);
+        if (data.settings.safetyTimer) {
+          setTimerEnabled(data.settings.safetyTimer.enabled);
+          setTimerChannels(data.settings.safetyTimer.channels);
+          setTimerEmail(data.settings.safetyTimer.email ?? '');
+        }
+
+        const timersRes = await fetch('/api/notifications/safety-timer');
+        if (timersRes.ok) {
+          const timerData: SafetyTimerListResponse = await timersRes.json();
+          setTimers(timerData.timers);
+        }
+
+        if (!isPushSupported()) {
+          setPushSupported(false);
+          return;
+        }
+        const registration = await navigator.serviceWorker.register('/sw.js');
+        const subscription = await registration.pushManager.getSubscription();
+        setBrowserEndpoint(subscription?.endpoint ?? null);
+      } catch {
+        setError('Failed to load notification settings');
+      }
+    };
+    loadSettings();
+  }, []);
+
+  // Settings routes answer with the saved settings, or 401 when the session is gone
+  const saveSettings = async (url: string, init: RequestInit): Promise<boolean> => {
+    const res = await fetch(url, { ...init, headers: { 'Content-Type': 'application/json' } });
+    if (res.status === 401) {
+      onSessionExpiredRef.current();
+      return false;
+    }
+    const data = await res.json();
+    if (data.error) {
+      setError(data.error);
+      return false;
+    }
+    if (data.settings) {
+      setSettings({
+        pushSubscriptions: data.settings.pushSubscriptions,
+        webhooks: data.settings.webhooks,
+        safetyTimer: data.settings.safetyTimer,
+      });
+    }
+    return true;
+  };
+
+  const browserEnabled = !!browserEndpoint && !!settings?.pushSubscriptions.some((sub) => sub.endpoint === browserEndpoint);
+  const otherBrowsers = settings?.pushSubscriptions.filter((sub) => sub.endpoint !== browserEndpoint).length ?? 0;
+
+  const handleEnablePush = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      if (await Notification.requestPermission() !== 'granted') {
+        setError('Notifications are blocked for this site in the browser settings');
+        return;
+      }
+      const registration = await navigator.serviceWorker.ready;
+      // A subscription for an older server key can't receive our messages
+      await (await registration.pushManager.getSubscription())?.unsubscribe();
+      const subscription = await registration.pushManager.subscribe({
+        userVisibleOnly: true,
+        applicationServerKey: decodeBase64Url(vapidPublicKey),
+      });
+      if (await saveSettings('/api/notifications/push', { method: 'POST', body: JSON.stringify(subscription.toJSON()) })) {
+        setBrowserEndpoint(subscription.endpoint);
+      }
+    } catch {
+      setError('Failed to enable notifications on this browser');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleDisablePush = async () => {
+    if (!browserEndpoint) return;
+    setBusy(true);
+    setError(null);
+    try {
+      if (await saveSettings('/api/notifications/push', { method: 'DELETE', body: JSON.stringify({ endpoint: browserEndpoint }) })) {
+        setSettings((prev) => prev && { ...prev, pushSubscriptions: prev.pushSubscriptions.filter((sub) => sub.endpoint !== browserEndpoint) });
+        const registration = await navigator.serviceWorker.ready;
+        await (await registration.pushManager.getSubscription())?.unsubscribe();
+        setBrowserEndpoint(null);
+      }
+    } catch {
+      setError('Failed to disable notifications on this browser');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleAddWebhook = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setBusy(true);
+    setError(null);
+    try {
+      const body = JSON.stringify({ url: webhookUrl.trim(), secret: webhookSecret.trim() || undefined });
+      if (await saveSettings('/api/notifications/webhooks', { method: 'POST', body })) {
+        setWebhookUrl('');
+        setWebhookSecret('');
+      }
+    } catch {
+      setError('Failed to save webhook');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleDeleteWebhook = async (webhookId: string) => {
+    setBusy(true);
+    setError(null);
+    try {
+      if (await saveSettings(`/api/notifications/webhooks/${webhookId}`, { method: 'DELETE' })) {
+        setSettings((prev) => prev && { ...prev, webhooks: prev.webhooks.filter((webhook) => webhook.webhookId !== webhookId) });
+      }
+    } catch {
+      setError('Failed to delete webhook');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSaveSafetyTimer = async () => {
+    setBusy(true);
+    setError(null);
+    setTimerSaved(false);
+    try {
+      const body = JSON.stringify({ enabled: timerEnabled, channels: timerChannels, email: timerEmail.trim() || undefined });
+      if (await saveSettings('/api/notifications/safety-timer', { method: 'PUT', body })) {
+        setTimerSaved(true);
+      }
+    } catch {
+      setError('Failed to save safety timer settings');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const toggleTimerChannel = (channel: SafetyTimerChannel) => {
+    setTimerSaved(false);
+    setTimerChannels((prev) => (prev.includes(channel) ? prev.filter((c) => c !== channel) : [...prev, channel]));
+  };
+
+  if (!settings) {
+    return (
+      <div className="text-sm text-slate-500">
+        {error ?? 'Loading notification settings...'}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <p className="text-sm text-slate-600">
+        ACK, REJ, DLA, CNL and DEP messages of your active flight plans are sent on, and an alert when
+        a flight is past EOBT + EET without an ARR. Flights are only checked while you are signed in.
+      </p>
+
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">{error}</div>
+      )}
+
+      {/* Web Push */}
+      <div>
+        <h3 className="text-sm font-semibold text-slate-800 mb-2">Browser notifications</h3>
+        {!pushSupported ? (
+          <p className="text-sm text-slate-500">This browser does not support push notifications.</p>
+        ) : (
+          <div className="flex items-center justify-between gap-4">
+            <span className="text-sm text-slate-600">
+              {browserEnabled ? 'On for this browser' : 'Off for this browser'}
+              {otherBrowsers > 0 && `, on for ${otherBrowsers} other browser${otherBrowsers !== 1 ? 's' : ''}`}
+            </span>
+            <button
+              onClick={browserEnabled ? handleDisablePush : handleEnablePush}
+              disabled={busy}
+              className={`px-3 py-1.5 text-sm rounded-lg font-medium transition disabled:opacity-50 ${
+                browserEnabled
+                  ? 'border border-slate-300 text-slate-700 hover:bg-slate-50'
+                  : 'bg-blue-600 text-white hover:bg-blue-700'
+              }`}
+            >
+              {browserEnabled ? 'Turn off' : 'Turn on'}
+            </button>
+          </div>
+        )}
+      </div>
+
+      {/* Webhooks */}
+      <div>
+        <h3 className="text-sm font-semibold text-slate-800 mb-1">Webhooks</h3>
+        <p className="text-xs text-slate-500 mb-3">
+          Called with a JSON POST per notification. With a secret the body is signed in the
+          X-Homebriefing-Signature header (sha256=HMAC of the body).
+        </p>
+        {settings.webhooks.length > 0 && (
+          <ul className="mb-3 divide-y divide-slate-100 border border-slate-200 rounded-lg">
+            {settings.webhooks.map((webhook) => (
+              <li key={webhook.webhookId} className="flex items-center justify-between gap-3 px-3 py-2">
+                <span className="text-sm font-mono text-slate-700 truncate">{webhook.url}</span>
+                <span className="flex items-center gap-3 shrink-0">
+                  {webhook.secret && <span className="text-xs text-slate-400">Signed</span>}
+                  <button
+                    onClick={() => handleDeleteWebhook(webhook.webhookId)}
+                    disabled={busy}
+                    className="text-sm text-red-600 hover:text-red-700 disabled:opacity-50"
+                  >
+                    Remove
+                  </button>
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+        <form onSubmit={handleAddWebhook} className="flex flex-col sm:flex-row gap-2">
+          <input
+            type="url"
+            value={webhookUrl}
+            onChange={(e) => setWebhookUrl(e.target.value)}
+            placeholder="https://example.com/hooks/flights"
+            required
+            className="flex-1 px-3 py-1.5 text-sm border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <input
+            type="text"
+            value={webhookSecret}
+            onChange={(e) => setWebhookSecret(e.target.value)}
+            placeholder="Secret (optional)"
+            className="sm:w-40 px-3 py-1.5 text-sm border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <button
+            type="submit"
+            disabled={busy || !webhookUrl.trim()}
+            className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition disabled:opacity-50"
+          >
+            Add
+          </button>
+        </form>
+      </div>
+
+      {/* Safety timer */}
+      <div>
+        <h3 className="text-sm font-semibold text-slate-800 mb-1">Safety timer</h3>
+        <p className="text-xs text-slate-500 mb-3">
+          Reminders to close VFR flight plans at ETA+10 and ETA+20 minutes while no ARR has been sent,
+          each with an &quot;I have landed&quot; link that sends the ARR. Your session is kept open until the last reminder.
+        </p>
+        <label className="flex items-center gap-2 text-sm text-slate-700 mb-2">
+          <input
+            type="checkbox"
+            checked={timerEnabled}
+            onChange={(e) => { setTimerEnabled(e.target.checked); setTimerSaved(false); }}
+            className="rounded border-slate-300"
+          />
+          Remind me to close VFR flight plans
+        </label>
+        <div className="flex flex-wrap gap-4 mb-2 ml-6">
+          {safetyTimerChannels.map(({ value, label }) => (
+            <label key={value} className={`flex items-center gap-2 text-sm ${value === 'email' && !emailAvailable ? 'text-slate-400' : 'text-slate-700'}`}>
+              <input
+                type="checkbox"
+                checked={timerChannels.includes(value)}
+                onChange={() => toggleTimerChannel(value)}
+                disabled={!timerEnabled || (value === 'email' && !emailAvailable)}
+                className="rounded border-slate-300"
+              />
+              {label}
+            </label>
+          ))}
+        </div>
+        {!emailAvailable && (
+          <p className="text-xs text-slate-400 mb-2 ml-6">Email needs an SMTP relay on the server (SMTP_URL).</p>
+        )}
+        {timerEnabled && timerChannels.includes('email') && (
+          <input
+            type="email"
+            value={timerEmail}
+            onChange={(e) => { setTimerEmail(e.target.value); setTimerSaved(false); }}
+            placeholder="pilot@example.com"
+            className="ml-6 mb-2 w-64 px-3 py-1.5 text-sm border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        )}
+        <div className="flex items-center gap-3">
+          <button
+            onClick={handleSaveSafetyTimer}
+            disabled={busy}
+            className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition disabled:opacity-50"
+          >
+            Save
+          </button>
+          {timerSaved && <span className="text-sm text-green-600">Saved</span>}
+        </div>
+
+        {timers.length > 0 && (
+          <>
+            <h4 className="text-xs font-medium text-slate-500 mt-4 mb-2">Reminder log</h4>
+            <ul className="divide-y divide-slate-100 border border-slate-200 rounded-lg">
+              {timers.map((timer) => <SafetyTimerLog key={timer.flight.flId} timer={timer} />)}
+            </ul>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
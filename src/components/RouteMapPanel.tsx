@@ -0,0 +1,233 @@
+'use client';
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { BriefingRequest, RouteMapPoint, RouteMapResponse } from '@/lib/homebriefing/types';
+import { FIR_OUTLINES } from '@/lib/homebriefing/briefing/fir';
+
+// Route map of a flight: the route as a line over the FIR outlines, drawn as
+// SVG so it needs no tile server and works offline once the route is placed.
+
+const WIDTH = 640;
+const HEIGHT = 400;
+const MARGIN = 24;            // Pixels between the outermost point and the edge
+const MIN_SPAN = 0.5;         // Degrees, so a local flight isn't zoomed in to a few fields
+const GRID_STEPS = [0.25, 0.5, 1, 2, 5];
+
+interface Projection {
+  project: (lat: number, lng: number) => [number, number];
+  south: number;
+  west: number;
+  north: number;
+  east: number;
+}
+
+// Equirectangular, with longitudes shortened by cos(latitude) of the map centre
+function getProjection(points: RouteMapPoint[]): Projection {
+  const lats = points.map((p) => p.lat);
+  const lngs = points.map((p) => p.lng);
+  const midLat = (Math.min(...lats) + Math.max(...lats)) / 2;
+  const midLng = (Math.min(...lngs) + Math.max(...lngs)) / 2;
+  const cosLat = Math.cos((midLat * Math.PI) / 180);
+
+  const spanLat = Math.max(MIN_SPAN, Math.max(...lats) - Math.min(...lats));
+  const spanLng = Math.max(MIN_SPAN / cosLat, Math.max(...lngs) - Math.min(...lngs));
+  const scale = Math.min((WIDTH - 2 * MARGIN) / (spanLng * cosLat), (HEIGHT - 2 * MARGIN) / spanLat);
+
+  return {
+    project: (lat, lng) => [WIDTH / 2 + (lng - midLng) * cosLat * scale, HEIGHT / 2 - (lat - midLat) * scale],
+    south: midLat - HEIGHT / 2 / scale,
+    north: midLat + HEIGHT / 2 / scale,
+    west: midLng - WIDTH / 2 / (cosLat * scale),
+    east: midLng + WIDTH / 2 / (cosLat * scale),
+  };
+}
+
+// Meridians and parallels, at most about six of each
+function getGrid(from: number, to: number): number[] {
+  const step = GRID_STEPS.find((s) => (to - from) / s <= 6) ?? 10;
+  const lines: number[] = [];
+  for (let value = Math.ceil(from / step) * step; value <= to; value += step) {
+    lines.push(Math.round(value * 100) / 100);
+  }
+  return lines;
+}
+
+function formatDegrees(value: number, positive: string, negative: string): string {
+  return `${Math.abs(value)}°${value >= 0 ? positive : negative}`;
+}
+
+function RouteMap({ map }: { map: RouteMapResponse }) {
+  const all = [...map.points, ...map.alternates];
+  const { project, south, west, north, east } = getProjection(all);
+  const toPath = (points: [number, number][]) =>
+    points.map(([lat, lng], i) => `${i === 0 ? 'M' : 'L'}${project(lat, lng).map((v) => v.toFixed(1)).join(' ')}`).join(' ');
+
+  const destination = map.points[map.points.length - 1];
+  const divertFrom = destination?.roles?.includes('destination') ? destination : undefined;
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto bg-sky-50 border border-slate-200 rounded-lg" role="img" aria-label="Route map">
+      {FIR_OUTLINES.map((fir) => {
+        // Label near the middle of the outline, when that's on the map
+        const lat = fir.points.reduce((sum, p) => sum + p[0], 0) / fir.points.length;
+        const lng = fir.points.reduce((sum, p) => sum + p[1], 0) / fir.points.length;
+        const [x, y] = project(lat, lng);
+        const labelShown = x > 0 && x < WIDTH && y > 0 && y < HEIGHT;
+        return (
+          <g key={fir.id}>
+            <path d={`${toPath(fir.points)} Z`} className="fill-white stroke-slate-400" strokeWidth={1} />
+            {labelShown && (
+              <text x={x} y={y} textAnchor="middle" className="fill-slate-300 text-xs font-semibold">
+                {fir.id} {fir.name}
+              </text>
+            )}
+          </g>
+        );
+      })}
+
+      {getGrid(west, east).map((lng) => {
+        const [x] = project(south, lng);
+        return (
+          <g key={`lng${lng}`}>
+            <line x1={x} y1={0} x2={x} y2={HEIGHT} className="stroke-slate-200" strokeWidth={0.5} />
+            <text x={x + 2} y={HEIGHT - 4} className="fill-slate-400 text-[10px]">{formatDegrees(lng, 'E', 'W')}</text>
+          </g>
+        );
+      })}
+      {getGrid(south, north).map((lat) => {
+        const [, y] = project(lat, west);
+        return (
+          <g key={`lat${lat}`}>
+            <line x1={0} y1={y} x2={WIDTH} y2={y} className="stroke-slate-200" strokeWidth={0.5} />
+            <text x={2} y={y - 2} className="fill-slate-400 text-[10px]">{formatDegrees(lat, 'N', 'S')}</text>
+          </g>
+        );
+      })}
+
+      {divertFrom && map.alternates.map((alternate) => (
+        <path
+          key={`altn${alternate.name}${alternate.lat}`}
+          d={toPath([[divertFrom.lat, divertFrom.lng], [alternate.lat, alternate.lng]])}
+          className="stroke-amber-500"
+          strokeWidth={1.5}
+          strokeDasharray="6 4"
+          fill="none"
+        />
+      ))}
+      {map.points.length > 1 && (
+        <path d={toPath(map.points.map((p) => [p.lat, p.lng]))} className="stroke-blue-600" strokeWidth={2} fill="none" />
+      )}
+
+      {all.map((point, i) => {
+        const [x, y] = project(point.lat, point.lng);
+        const alternate = point.roles?.includes('alternate') && !point.roles.includes('departure') && !point.roles.includes('destination');
+        return (
+          <g key={i}>
+            {point.kind === 'aerodrome' ? (
+              <rect x={x - 4} y={y - 4} width={8} height={8} className={alternate ? 'fill-amber-500' : 'fill-blue-700'} />
+            ) : (
+              <circle cx={x} cy={y} r={3.5} className="fill-white stroke-blue-600" strokeWidth={1.5} />
+            )}
+            <text x={x + 7} y={y - 5} className="fill-slate-700 text-[11px] font-mono">{point.name}</text>
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
+
+export default function RouteMapPanel({
+  request,
+  onSessionExpired,
+  autoLoad = false,
+}: {
+  request: BriefingRequest | null;   // null while departure or destination is missing
+  onSessionExpired: () => void;
+  autoLoad?: boolean;
+}) {
+  const [map, setMap] = useState<RouteMapResponse | null>(null);
+  const [loadedKey, setLoadedKey] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Use ref to avoid dependency on onSessionExpired causing re-renders
+  const onSessionExpiredRef = useRef(onSessionExpired);
+  onSessionExpiredRef.current = onSessionExpired;
+
+  const requestKey = request ? JSON.stringify(request) : null;
+
+  const loadMap = useCallback(async () => {
+    if (!requestKey) return;
+
+    setLoading(true);
+    setError(null);
+    try {
+      const res = await fetch('/api/briefing/route', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: requestKey,
+      });
+      if (res.status === 401) {
+        onSessionExpiredRef.current();
+        return;
+      }
+      const data = await res.json();
+      if (data.error || data.isError) {
+        setError(data.error || data.errorMessage || 'Failed to load route map');
+      } else {
+        setMap(data);
+        setLoadedKey(requestKey);
+      }
+    } catch {
+      setError('Failed to load route map');
+    } finally {
+      setLoading(false);
+    }
+  }, [requestKey]);
+
+  useEffect(() => {
+    if (autoLoad) {
+      loadMap();
+    }
+  }, [autoLoad, loadMap]);
+
+  const outdated = !!map && loadedKey !== requestKey;
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-lg font-semibold text-slate-800">Route Map</h3>
+        <button
+          type="button"
+          onClick={loadMap}
+          disabled={!request || loading}
+          className="px-3 py-1.5 text-sm bg-slate-100 text-slate-700 rounded-lg hover:bg-slate-200 transition disabled:opacity-50"
+        >
+          {loading ? 'Loading...' : map ? 'Refresh' : 'Show route'}
+        </button>
+      </div>
+
+      {!request && !map && (
+        <p className="text-sm text-slate-500">Enter departure and destination to show the route on a map.</p>
+      )}
+
+      {error && (
+        <div className="mb-3 p-3 bg-red-50 border border-red-200 rounded-lg text-red-700 text-sm">{error}</div>
+      )}
+
+      {outdated && (
+        <div className="mb-3 p-3 bg-amber-50 border border-amber-200 rounded-lg text-amber-800 text-sm">
+          The flight details changed since the map was drawn, refresh to update it.
+        </div>
+      )}
+
+      {map && (map.points.length > 0 || map.alternates.length > 0) && <RouteMap map={map} />}
+
+      {map && map.unresolved.length > 0 && (
+        <p className="mt-2 text-sm text-amber-800">
+          Not on the map: <span className="font-mono">{map.unresolved.join(', ')}</span>
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,28 @@
+import { BriefingRole } from '@/lib/homebriefing/types';
+
+// Helpers shared by the briefing panels
+
+const roleLabels: Record<BriefingRole, string> = {
+  departure: 'Departure',
+  destination: 'Destination',
+  alternate: 'Alternate',
+  route: 'Route',
+};
+
+export function BriefingRoleBadges({ roles }: { roles: BriefingRole[] }) {
+  return (
+    <>
+      {roles.filter((role) => role !== 'route').map((role) => (
+        <span key={role} className="text-xs px-2 py-0.5 rounded bg-blue-100 text-blue-800">{roleLabels[role]}</span>
+      ))}
+    </>
+  );
+}
+
+// ISO -> "DD Mon HHMMz"
+export function formatBriefingTime(iso?: string): string {
+  if (!iso) return '';
+  const d = new Date(iso);
+  const month = d.toLocaleString('en-GB', { month: 'short', timeZone: 'UTC' });
+  return `${String(d.getUTCDate()).padStart(2, '0')} ${month} ${String(d.getUTCHours()).padStart(2, '0')}${String(d.getUTCMinutes()).padStart(2, '0')}z`;
+}
@@ -0,0 +1,9 @@
+export async function register() {
+  // The keep-alive and notifier need Node (timers, session store backends), skip the edge runtime
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { startKeepAlive } = await import('@/lib/homebriefing/keep-alive');
+    startKeepAlive();
+    const { startNotifier } = await import('@/lib/homebriefing/notifications');
+    startNotifier();
+  }
+}
@@ -0,0 +1,446 @@
+import { readFileSync } from 'fs';
+import { describe, expect, it } from 'vitest';
+import { parseXml } from '../soap';
+import {
+  checkVfrMinima,
+  computeEet,
+  decodeMetar,
+  decodeTaf,
+  findAerodrome,
+  findFir,
+  getBriefingAerodromes,
+  getBriefingPackFileName,
+  getSunTimes,
+  getCorridor,
+  getDaylightWarnings,
+  getAerodromePosition,
+  getNotamValidity,
+  getNotamsForArpMethod,
+  getPointsForFplMethod,
+  getRouteMap,
+  getUpperLimitFeet,
+  htmlToText,
+  isVfrAt,
+  parseCruisingSpeed,
+  parseEobdt,
+  parseNotam,
+  renderAdexp,
+  renderBriefingPack,
+  searchAerodromes,
+} from '../briefing';
+import { FlightPlan } from '../types';
+import { parseRoute } from '../route-parser';
+import { getAircraftListMethod, toAircraftProfile } from '../aircraft';
+
+function readFixture(name: string): string {
+  return readFileSync(new URL(`./fixtures/${name}`, import.meta.url), 'utf-8');
+}
+
+describe('NOTAM parsing', () => {
+  it('turns the HTML snippet into text with line breaks', () => {
+    expect(htmlToText('<b>A) EHLE</b><br/>E) MEN &amp; EQPT&nbsp;ON&#32;RWY')).toBe('A) EHLE\nE) MEN & EQPT ON RWY');
+  });
+
+  it('reads the items of a NOTAM', () => {
+    const notam = parseNotam(
+      'Q) EHAA/QMXLC/IV/M/A/000/999/5228N00531E005<br/>A) EHLE B) 2610190600 C) 2610201800 EST<br/>D) DAILY 0600-1800<br/>E) RWY 05/23 CLSD.',
+      '<b>A0419/26</b>',
+      'NEW'
+    );
+
+    expect(notam).toMatchObject({
+      id: 'A0419/26',
+      status: 'NEW',
+      location: 'EHLE',
+      validFrom: '2026-10-19T06:00:00.000Z',
+      validTo: '2026-10-20T18:00:00.000Z',
+      permanent: false,
+      estimated: true,
+      schedule: 'DAILY 0600-1800',
+      text: 'RWY 05/23 CLSD.',
+    });
+  });
+
+  it('keeps NOTAMs without items as plain text', () => {
+    const notam = parseNotam('A1234/26 BIRD CONCENTRATION IN THE VICINITY OF AD');
+
+    expect(notam).toMatchObject({ id: 'A1234/26', location: '', permanent: false, text: 'A1234/26 BIRD CONCENTRATION IN THE VICINITY OF AD' });
+  });
+
+  it('sorts NOTAMs into the flight window', () => {
+    const from = new Date('2026-10-20T09:00:00Z');
+    const to = new Date('2026-10-20T10:30:00Z');
+    const notam = (b: string, c: string) => parseNotam(`A) EHLE B) ${b} C) ${c} E) TEXT`);
+
+    expect(getNotamValidity(notam('2610200600', '2610200930'), from, to)).toBe('flight');
+    expect(getNotamValidity(notam('2610201000', '2610201800'), from, to)).toBe('flight');
+    expect(getNotamValidity(notam('2610010000', 'PERM'), from, to)).toBe('permanent');
+    expect(getNotamValidity(notam('2610210000', 'PERM'), from, to)).toBe('other');
+    expect(getNotamValidity(notam('2610200600', '2610200859'), from, to)).toBe('other');
+    expect(getNotamValidity(notam('2610201031', '2610201800'), from, to)).toBe('other');
+  });
+});
+
+describe('route geometry', () => {
+  it('renders a minimal ADEXP flight plan', () => {
+    const request = {
+      adep: 'ehle', ades: 'EHAM', eobdt: '2026-10-20 09:05', totalEet: 75,
+      arcid: 'PHABC', flRules: 'V', flSpeed: 'N0100', flLevel: 'VFR', flRoute: 'WOODY  DCT SPY',
+    };
+
+    expect(renderAdexp(request, parseEobdt(request.eobdt))).toBe(
+      '-TITLE IFPL -ARCID PHABC -FLTRUL V -ADEP EHLE -EOBD 261020 -EOBT 0905 -ADES EHAM -TTLEET 0115 -ROUTE N0100VFR WOODY DCT SPY'
+    );
+  });
+
+  it('reads EOBT as UTC with or without a zone', () => {
+    expect(parseEobdt('2026-10-20 09:05').toISOString()).toBe('2026-10-20T09:05:00.000Z');
+    expect(parseEobdt('2026-10-20T09:05').toISOString()).toBe('2026-10-20T09:05:00.000Z');
+    expect(parseEobdt('2026-10-20T09:05:00+02:00').toISOString()).toBe('2026-10-20T07:05:00.000Z');
+  });
+
+  it('adds a margin above the cruising level', () => {
+    expect(getUpperLimitFeet('F085')).toBe(10500);
+    expect(getUpperLimitFeet('A045')).toBe(6500);
+    expect(getUpperLimitFeet('M0150')).toBe(6921);
+    expect(getUpperLimitFeet('VFR')).toBe(22000);
+  });
+
+  it('lists each aerodrome once with all its roles', () => {
+    const aerodromes = getBriefingAerodromes({
+      adep: 'EHLE', ades: 'EHLE', adAltn1: 'EHAM', adAltn2: 'ZZZZ', eobdt: '2026-10-20 09:05', totalEet: 60,
+    });
+
+    expect(aerodromes).toEqual([
+      { location: 'EHLE', roles: ['departure', 'destination'] },
+      { location: 'EHAM', roles: ['alternate'] },
+    ]);
+  });
+
+  it('widens the bounding box by the buffer', () => {
+    const corridor = getCorridor([
+      { name: 'EHLE', type: 'AD', lat: 52.46, lng: 5.52 },
+      { name: 'EHAM', type: 'AD', lat: 52.31, lng: 4.76 },
+    ], 6);
+
+    expect(corridor?.south).toBeCloseTo(52.21);
+    expect(corridor?.north).toBeCloseTo(52.56);
+    expect(corridor?.west).toBeLessThan(4.76 - 0.1);
+    expect(corridor?.east).toBeGreaterThan(5.52 + 0.1);
+    expect(getCorridor([], 6)).toBeUndefined();
+  });
+
+  it('places the route on the map from the database, the route text and the route analysis', () => {
+    const request = {
+      adep: 'ZZZZ', ades: 'EHAM', adAltn1: 'EHRD', adAltn2: 'EHXX', eobdt: '', totalEet: 60,
+      flRoute: 'DCT SPY/N0100A015 DCT SPY180010 DCT 5230N00445E DCT WOODY', flOther: 'DEP/MALDEN 5147N00551E RMK/TEST',
+    };
+    const analysed = [{ name: 'SPY', type: 'NAV', lat: 52.54, lng: 4.85 }];
+
+    const map = getRouteMap(request, parseRoute(request.flRoute).elements, analysed);
+
+    expect(map.points.map((p) => p.name)).toEqual(['ZZZZ', 'SPY', 'SPY180010', '5230N00445E', 'EHAM']);
+    expect(map.points[0]).toMatchObject({ kind: 'aerodrome', roles: ['departure'], lat: 51 + 47 / 60 });
+    expect(map.points[1]).toMatchObject({ kind: 'point', lat: 52.54, lng: 4.85, index: 1 });
+    expect(map.points[2].lat).toBeCloseTo(52.54 - 10 / 60);
+    expect(map.points[2].lng).toBeCloseTo(4.85);
+    expect(map.alternates.map((p) => p.name)).toEqual(['EHRD']);
+    expect(map.unresolved).toEqual(['WOODY', 'EHXX']);
+  });
+});
+
+describe('dataHandler methods', () => {
+  it('parses getNotamsForArp', () => {
+    const result = getNotamsForArpMethod.response(parseXml(readFixture('getNotamsForArp/success.xml')));
+
+    expect(result.isError).toBe(false);
+    expect(result.notams.map((notam) => notam.id)).toEqual(['A0419/26', 'A0412/26', 'A0433/26']);
+    expect(result.notams[0].text).toBe('RWY 05/23 WIP ALONG NORTH EDGE.\nMEN & EQPT.');
+    expect(result.notams[1].permanent).toBe(true);
+    expect(result.notams[2].schedule).toBe('0800-1100 1400-1700');
+  });
+
+  it('passes arp and date as URL parameters', () => {
+    expect(getNotamsForArpMethod.params({ code: 'EHLE', date: new Date('2026-10-20T09:00:00Z') }))
+      .toEqual({ aDate: '2026-10-20T09:00:00.000Z', aArpCode: 'EHLE' });
+  });
+
+  it('parses getPointsForFpl and skips points without coordinates', () => {
+    const result = getPointsForFplMethod.response(parseXml(readFixture('getPointsForFpl/success.xml')));
+
+    expect(result.points.map((point) => point.name)).toEqual(['EHLE', 'WOODY', 'EHAM']);
+    expect(result.points[1]).toEqual({ name: 'WOODY', type: 'NAV', lat: 52.42, lng: 5.29 });
+    expect(result.messages).toEqual(['Unknown point XYZZY']);
+  });
+
+  it('returns the Error attribute of getPointsForFpl', () => {
+    const result = getPointsForFplMethod.response(parseXml(readFixture('getPointsForFpl/error.xml')));
+
+    expect(result).toMatchObject({ isError: true, errorMessage: 'Missing ADEP or ADES', points: [] });
+  });
+
+  it('parses getAircraftList into aircraft profiles', () => {
+    const result = getAircraftListMethod.response(parseXml(readFixture('getAircraftList/success.xml')));
+    const [abc, xyz] = result.aircraft.map(toAircraftProfile);
+
+    expect(result.aircraft).toHaveLength(2);
+    expect(abc).toMatchObject({ arcid: 'PHABC', arcType: 'C172', wakeTurbulenceCat: 'L', equipment: 'SDFGY/S', flSpeed: 'N0105' });
+    expect(abc.field19).toMatchObject({
+      endurance: '0615', radioVhf: true, radioElba: true, radioUhf: false, jacketsLight: true, jacketsFluores: true,
+      dinghiesEnabled: true, dinghiesNumber: '1', dinghiesCapacity: '4', dinghiesCover: true, dinghiesColour: 'ORANGE',
+      aircraftColour: 'WHITE BLUE',
+    });
+    expect(xyz).toMatchObject({ arcid: 'PHXYZ', equipment: '', flSpeed: 'K0190' });
+    expect(xyz.field19.endurance).toBe('');
+  });
+});
+
+describe('MET decoding', () => {
+  const reference = new Date('2026-10-20T09:00:00Z');
+
+  it('decodes a METAR', () => {
+    const metar = decodeMetar('METAR EHLE 200850Z 24014G25KT 210V270 6000 -SHRA FEW008 BKN014CB M01/M03 Q1015 NOSIG=', reference);
+
+    expect(metar).toEqual({
+      station: 'EHLE',
+      observed: '2026-10-20T08:50:00.000Z',
+      wind: { direction: 240, variable: false, speed: 14, gust: 25, unit: 'KT' },
+      visibility: 6000,
+      cavok: false,
+      weather: ['-SHRA'],
+      clouds: [{ cover: 'FEW', height: 800 }, { cover: 'BKN', height: 1400, type: 'CB' }],
+      ceiling: 1400,
+      temperature: -1,
+      dewpoint: -3,
+      qnh: 1015,
+    });
+  });
+
+  it('decodes CAVOK and statute miles', () => {
+    expect(decodeMetar('EHAM 200855Z VRB02KT CAVOK 13/06 Q1018', reference)).toMatchObject({ cavok: true, visibility: 9999, clouds: [] });
+    expect(decodeMetar('KJFK 200851Z 31010KT 1 1/2SM BR OVC004 A2992', reference)).toMatchObject({ visibility: 2414, qnh: 1013 });
+    expect(decodeMetar('KJFK 200851Z 31010KT 3/4SM FG', reference)?.visibility).toBe(1207);
+    expect(decodeMetar('NOT A METAR')).toBeUndefined();
+  });
+
+  it('resolves the day of a report into the closest month', () => {
+    expect(decodeMetar('EHLE 302350Z 00000KT CAVOK', new Date('2026-11-01T00:30:00Z'))?.observed).toBe('2026-10-30T23:50:00.000Z');
+  });
+
+  it('decodes TAF change groups', () => {
+    const taf = decodeTaf(
+      'TAF EHLE 200500Z 2006/2106 24012KT 9999 SCT025 TEMPO 2009/2014 4000 SHRA BKN012 PROB30 TEMPO 2012/2014 24020G32KT TSRA BKN010CB FM201800 30008KT CAVOK=',
+      reference
+    );
+
+    expect(taf).toMatchObject({ station: 'EHLE', issued: '2026-10-20T05:00:00.000Z', validFrom: '2026-10-20T06:00:00.000Z', validTo: '2026-10-21T06:00:00.000Z' });
+    expect(taf?.periods.map((period) => [period.change, period.from, period.to])).toEqual([
+      ['BASE', '2026-10-20T06:00:00.000Z', '2026-10-20T18:00:00.000Z'],
+      ['TEMPO', '2026-10-20T09:00:00.000Z', '2026-10-20T14:00:00.000Z'],
+      ['PROB', '2026-10-20T12:00:00.000Z', '2026-10-20T14:00:00.000Z'],
+      ['FM', '2026-10-20T18:00:00.000Z', '2026-10-21T06:00:00.000Z'],
+    ]);
+    expect(taf?.periods[1]).toMatchObject({ visibility: 4000, weather: ['SHRA'], ceiling: 1200 });
+    expect(taf?.periods[2]).toMatchObject({ probability: 30, tempo: true, ceiling: 1000 });
+    expect(taf?.periods[3].cavok).toBe(true);
+  });
+});
+
+describe('VFR minima', () => {
+  it('applies to the VFR part of the flight', () => {
+    expect(isVfrAt('V', ['destination'])).toBe(true);
+    expect(isVfrAt('I', ['departure'])).toBe(false);
+    expect(isVfrAt('Z', ['departure'])).toBe(true);
+    expect(isVfrAt('Z', ['destination'])).toBe(false);
+    expect(isVfrAt('Y', ['alternate'])).toBe(true);
+  });
+
+  it('warns about TAF periods below minima in the window', () => {
+    const now = Date.now();
+    const hour = 60 * 60 * 1000;
+    const at = (hours: number) => new Date(now + hours * hour);
+    const day = (hours: number) => at(hours).toISOString().slice(8, 13).replace('T', '');
+    const taf = decodeTaf(`TAF EHTE ${day(0)}00Z ${day(0)}/${day(24)} 24010KT 9999 SCT030 TEMPO ${day(2)}/${day(4)} 3000 BR BKN008`, at(0));
+
+    expect(checkVfrMinima(undefined, taf, at(5), at(7))).toEqual([]);
+    expect(checkVfrMinima(undefined, taf, at(3), at(5))).toEqual([
+      `TAF TEMPO ${day(2)}/${day(4)}: visibility 3000 m, ceiling 800 ft (minimum 5000 m visibility, 1500 ft ceiling)`,
+    ]);
+  });
+
+  it('only uses the METAR for the next hours', () => {
+    const metar = decodeMetar('EHTE 200850Z 20003KT 3000 BR BKN006 09/08 Q1021');
+    const later = (hours: number) => new Date(Date.now() + hours * 60 * 60 * 1000);
+
+    expect(checkVfrMinima(metar, undefined, later(1), later(2))).toEqual([
+      'METAR: visibility 3000 m, ceiling 600 ft (minimum 5000 m visibility, 1500 ft ceiling)',
+    ]);
+    expect(checkVfrMinima(metar, undefined, later(5), later(6))).toEqual([]);
+  });
+});
+
+describe('sun times', () => {
+  it('calculates sunrise, sunset and civil twilight', () => {
+    const minutes = (iso?: string) => iso ? new Date(iso).getTime() / 60000 : NaN;
+    const times = getSunTimes(new Date('2026-06-21T12:00:00Z'), 52.31, 4.76);
+
+    // Schiphol on midsummer day: sunrise 03:19Z, sunset 20:06Z
+    expect(Math.abs(minutes(times.sunrise) - minutes('2026-06-21T03:19:00Z'))).toBeLessThanOrEqual(2);
+    expect(Math.abs(minutes(times.sunset) - minutes('2026-06-21T20:06:00Z'))).toBeLessThanOrEqual(2);
+    expect(minutes(times.civilDawn)).toBeLessThan(minutes(times.sunrise));
+    expect(minutes(times.civilDusk)).toBeGreaterThan(minutes(times.sunset));
+  });
+
+  it('has no sunset in the midnight sun', () => {
+    expect(getSunTimes(new Date('2026-06-21T12:00:00Z'), 78.25, 15.47)).toEqual({
+      civilDawn: undefined, sunrise: undefined, sunset: undefined, civilDusk: undefined,
+    });
+  });
+});
+
+describe('briefing pack', () => {
+  const flightPlan: FlightPlan = {
+    flId: 1045872, arcid: 'PH-ABC', flRules: 'V', flType: 'G', arcType: 'C172', wakeTurbulenceCat: 'L',
+    equipment: 'SY/S', adep: 'EHLE', ades: 'EHTE', eobdt: '2026-10-20T09:05:00Z', flSpeed: 'N0100',
+    flLevel: 'VFR', flRoute: 'DCT', totalEet: 75, flOther: 'RMK/<SCRIPT>', flStatusCode: 1,
+    flStatusStr: 'Accepted', flCanDo: 0,
+  };
+
+  it('renders the flight plan, messages and briefing as HTML', () => {
+    const html = renderBriefingPack({
+      flightPlan,
+      messages: [{
+        flMsgId: 1, isIncome: false, msgTime: '2026-10-20T08:00:00Z', msgType: 'FPL', statusCode: 1,
+        statusDesc: 'Sent', senderId: 1, senderName: 'demo', msgTxt: '(FPL-PHABC-VG)',
+      }],
+      notams: { isError: false, flightFrom: '2026-10-20T09:05:00Z', flightTo: '2026-10-20T10:20:00Z', groups: [] },
+      met: { isError: true, errorMessage: 'No weather', reports: [] },
+      sunTimes: [{ location: 'EHLE', roles: ['departure'], date: '2026-10-20', sunrise: '2026-10-20T06:10:00.000Z' }],
+      generatedAt: new Date('2026-10-20T07:00:00Z'),
+    });
+
+    expect(html).toContain('<title>Briefing PH-ABC EHLE-EHTE 2026-10-20 0905Z</title>');
+    expect(html).toContain('<td>RMK/&lt;SCRIPT&gt;</td>');
+    expect(html).toContain('<td>EHTE / 0115</td>');
+    expect(html).toContain('<pre>(FPL-PHABC-VG)</pre>');
+    expect(html).toContain('<td>0610Z</td>');
+    expect(html).toContain('<p class="warning">No weather</p>');
+  });
+
+  it('names the file after the flight', () => {
+    expect(getBriefingPackFileName(flightPlan)).toBe('briefing-PHABC-EHLE-EHTE-20261020.pdf');
+  });
+});
+
+describe('daylight check', () => {
+  // EHTE on 21 December: civil twilight ends around 16:00Z
+  const flight = {
+    flRules: 'V' as const, adep: 'EHLE', ades: 'EHTE', eobdt: '2026-12-21 15:30', totalEet: 60, flOther: '',
+  };
+
+  it('warns about a VFR arrival after civil twilight', () => {
+    const warnings = getDaylightWarnings(flight);
+
+    expect(warnings).toHaveLength(1);
+    expect(warnings[0].field).toBe('F16b');
+    expect(warnings[0].message).toMatch(/^Arrival at EHTE at 1630Z is after civil twilight ends \(16\d\dZ\)/);
+    expect(warnings[0].suggestions).toEqual(['RMK/NIGHT VFR APPROVED']);
+  });
+
+  it('only checks the VFR part of the flight', () => {
+    expect(getDaylightWarnings({ ...flight, flRules: 'I' })).toEqual([]);
+    expect(getDaylightWarnings({ ...flight, flRules: 'Z' })).toEqual([]);
+    expect(getDaylightWarnings({ ...flight, flRules: 'Y' })).toHaveLength(1);
+    expect(getDaylightWarnings({ ...flight, eobdt: '2026-12-21 06:00', totalEet: 60 })[0]?.field).toBe('F13b');
+  });
+
+  it('accepts an approval noted in Field 18', () => {
+    expect(getDaylightWarnings({ ...flight, flOther: 'RMK/NIGHT VFR APPROVED' })).toEqual([]);
+    expect(getDaylightWarnings({ ...flight, flOther: 'STS/HOSP' })).toEqual([]);
+  });
+
+  it('places ZZZZ with the coordinates in Field 18', () => {
+    expect(getAerodromePosition('ZZZZ', 'DEST/HOLTEN 5217N00626E RMK/TEST', 'DEST')).toEqual({ lat: 52 + 17 / 60, lng: 6 + 26 / 60 });
+    expect(getDaylightWarnings({ ...flight, ades: 'ZZZZ', flOther: 'DEST/HOLTEN 5217N00626E' })).toHaveLength(1);
+    expect(getDaylightWarnings({ ...flight, ades: 'ZZZZ' })).toEqual([]);
+  });
+});
+
+describe('aerodrome database', () => {
+  it('looks up aerodromes by ICAO indicator', () => {
+    expect(findAerodrome('ehte')).toMatchObject({ icao: 'EHTE', name: 'TEUGE', country: 'NL', fir: 'EHAA' });
+    expect(findAerodrome('ZZZZ')).toBeUndefined();
+    expect(getAerodromePosition('EBAW')).toEqual({ lat: 51.1894, lng: 4.4603 });
+  });
+
+  it('searches by indicator first, then by name', () => {
+    expect(searchAerodromes('EHL').map((aerodrome) => aerodrome.icao)).toEqual(['EHLE', 'EHLW']);
+    expect(searchAerodromes('twent')[0].icao).toBe('EHTW');
+    expect(searchAerodromes('Münster')[0].icao).toBe('EDDG');
+    expect(searchAerodromes('lelystad', 1)).toHaveLength(1);
+    expect(searchAerodromes(' ')).toEqual([]);
+  });
+
+  it('lists aerodromes without an indicator for ZZZZ', () => {
+    const aerodromes = searchAerodromes('ZZZZ');
+
+    expect(aerodromes.length).toBeGreaterThan(0);
+    expect(aerodromes.every((aerodrome) => !aerodrome.icao)).toBe(true);
+    expect(searchAerodromes('malden')).toEqual([expect.objectContaining({ name: 'MALDEN' })]);
+    expect(searchAerodromes('malden')[0].icao).toBeUndefined();
+  });
+});
+
+describe('EET calculation', () => {
+  const calculate = (adep: string, ades: string, flRoute: string, flSpeed: string, headwind = 0) => {
+    const request = { adep, ades, eobdt: '', totalEet: 0, flRoute };
+    const { elements } = parseRoute(flRoute);
+    const map = getRouteMap(request, elements, []);
+    return computeEet(map.points, elements, flSpeed, headwind, map.unresolved);
+  };
+
+  it('reads the cruising speed in knots', () => {
+    expect(parseCruisingSpeed('N0105')).toBe(105);
+    expect(parseCruisingSpeed('K0185')).toBe(100);
+    expect(parseCruisingSpeed('M082')).toBe(470);
+    expect(parseCruisingSpeed('VFR')).toBeUndefined();
+  });
+
+  it('times great-circle legs at the cruising speed less the headwind', () => {
+    const still = calculate('EHLE', 'EHAM', 'DCT', 'N0100');
+    const headwind = calculate('EHLE', 'EHAM', 'DCT', 'N0100', 20);
+
+    expect(still.legs).toHaveLength(1);
+    expect(still.legs[0].distance).toBeCloseTo(29.4, 1);
+    expect(still.legs[0].track).toBeCloseTo(252, 0);
+    expect(still.totalEet).toBe(18);
+    expect(headwind.legs[0].groundSpeed).toBe(80);
+    expect(headwind.totalEet).toBe(23);
+    expect(calculate('EHLE', 'EHAM', 'DCT', 'N0100', 100).errorMessage).toContain('no ground speed');
+  });
+
+  it('changes speed where the route says so', () => {
+    const result = calculate('EHRD', 'EHLE', '5200N00500E/N0120VFR DCT', 'N0100');
+
+    expect(result.legs.map((leg) => leg.groundSpeed)).toEqual([100, 120]);
+  });
+
+  it('gives the accumulated EET at each FIR boundary', () => {
+    expect(findFir(52.31, 4.76)?.id).toBe('EHAA');
+    expect(findFir(50.9, 4.48)?.id).toBe('EBBU');
+    expect(findFir(52.13, 7.68)).toBeUndefined();
+
+    const result = calculate('EHAM', 'EBAW', 'DCT', 'N0100');
+    expect(result.firEets).toEqual([{ fir: 'EBBU', eet: 30 }]);
+    expect(result.field18Eet).toBe('EBBU0030');
+    expect(result.totalEet).toBe(41);
+  });
+
+  it('warns where the route leaves the known FIR boundaries', () => {
+    const result = calculate('EHRD', 'EDDG', 'DCT', 'N0100');
+
+    expect(result.firEets).toEqual([]);
+    expect(result.field18Eet).toBeUndefined();
+    expect(result.warnings[0]).toContain('leaves the FIRs');
+  });
+});
@@ -0,0 +1,187 @@
+import { readFileSync } from 'fs';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { HomebriefingClient } from '../client';
+
+function readFixture(name: string): string {
+  return readFileSync(new URL(`./fixtures/${name}`, import.meta.url), 'utf-8');
+}
+
+// Answer every ibafProvider.php call with a fixture
+function respondWith(name: string) {
+  const fetchMock = vi.fn(async () => new Response(readFixture(name)));
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+}
+
+describe('HomebriefingClient', () => {
+  let client: HomebriefingClient;
+
+  beforeEach(() => {
+    client = new HomebriefingClient();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('sends the request envelope and parses the response', async () => {
+    const fetchMock = respondWith('GetFPLList/success.xml');
+
+    const result = await client.getCurrentFlightPlans('cookie=1', 'token', 'user-session', { arcid: 'PHABC' });
+
+    expect(result.flightPlans.map((fp) => fp.flId)).toEqual([1045872, 1045860]);
+    const [url, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    expect(url).toMatch(/\/ibafProvider\.php$/);
+    expect(init.body).toContain('<mob:GetFPLListRequest>');
+    expect(init.body).toContain('<mob:UserSession>user-session</mob:UserSession>');
+    expect(init.body).toContain('<mob:ARCID>PHABC</mob:ARCID>');
+  });
+
+  it('returns sessionExpired when Homebriefing answers with the login page', async () => {
+    respondWith('envelope/session-expired.html');
+
+    const result = await client.getCurrentFlightPlans('cookie=1', 'token', 'user-session');
+
+    expect(result).toEqual({
+      isError: true,
+      sessionExpired: true,
+      fplsCount: 0,
+      totalPages: 0,
+      currentPage: 0,
+      flightPlans: [],
+    });
+  });
+
+  it('returns the fault string of a SOAP Fault', async () => {
+    respondWith('envelope/fault-soap11.xml');
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const result = await client.getFlightPlanMessages('cookie=1', 'token', 'user-session', 1045872);
+
+    expect(result).toEqual({ isError: true, errorMessage: 'Database connection failed', msgCount: 0, messages: [] });
+  });
+
+  it('warns once about unknown response elements', async () => {
+    respondWith('GetFPLList/drift.xml');
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    await client.getCurrentFlightPlans('cookie=1', 'token', 'user-session');
+    await client.getCurrentFlightPlans('cookie=1', 'token', 'user-session');
+
+    expect(warn).toHaveBeenCalledTimes(1);
+    expect(warn.mock.calls[0][1]).toBe('FlightPlans, ServerTime');
+  });
+
+  it('does not warn about responses that match the schema', async () => {
+    respondWith('GetFlTpl/found.xml');
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const result = await client.getTemplate('cookie=1', 'token', 'user-session', 311);
+
+    expect(result.found).toBe(true);
+    expect(warn).not.toHaveBeenCalled();
+  });
+
+  it('reports a live session from refreshUserInfo', async () => {
+    const fetchMock = vi.fn(async () => Response.json({ userName: 'DEMO', pilotAttributes: 0 }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const result = await client.refreshUserInfo('cookie=1', 'token');
+
+    expect(result).toEqual({ alive: true, userInfo: { userName: 'DEMO', pilotAttributes: 0 } });
+    const [url, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    expect(url).toMatch(/\/dataHandler\.php\?method=refreshUserInfo$/);
+    expect(init.headers).toMatchObject({ 'Cookie': 'cookie=1', 'X-AisWeb-Token': 'token' });
+  });
+
+  it('reports a dead session from the LoginCheck header or the login page', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('null', { headers: { 'LoginCheck': 'false' } })));
+    expect(await client.refreshUserInfo('cookie=1', 'token')).toEqual({ alive: false });
+
+    respondWith('envelope/session-expired.html');
+    expect(await client.refreshUserInfo('cookie=1', 'token')).toEqual({ alive: false });
+  });
+
+  it('builds a NOTAM briefing from aerodromes and the route corridor', async () => {
+    const fetchMock = vi.fn(async (url: string) => {
+      const method = new URL(url).searchParams.get('method');
+      return new Response(readFixture(`${method}/success.xml`));
+    });
+    vi.stubGlobal('fetch', fetchMock);
+
+    const result = await client.getNotamBriefing('cookie=1', 'token', {
+      adep: 'EHLE', ades: 'EHAM', adAltn1: 'EHLE', eobdt: '2026-10-20 09:00', totalEet: 60,
+      flSpeed: 'N0100', flLevel: 'VFR', flRoute: 'WOODY XYZZY',
+    });
+
+    expect(result.isError).toBe(false);
+    expect(result.flightTo).toBe('2026-10-20T10:00:00.000Z');
+    expect(result.groups.map((group) => [group.location, group.roles])).toEqual([
+      ['EHLE', ['departure', 'alternate']],
+      ['EHAM', ['destination']],
+      ['', ['route']],
+    ]);
+    expect(result.groups[0].notams.map((notam) => notam.validity)).toEqual(['flight', 'permanent', 'other']);
+    // Already listed under EHLE
+    expect(result.groups[2].notams.map((notam) => notam.id)).toEqual(['B0215/26']);
+
+    const area = new URL(fetchMock.mock.calls[3][0]).searchParams;
+    expect(area.get('method')).toBe('getNotamsFromRectangle');
+    expect(area.get('lat1')).toBe(String(Math.floor((52.31 - 10 / 60) * 3600)));
+    expect(area.get('flUp')).toBe('22000');
+  });
+
+  it('returns sessionExpired when a dataHandler call has LoginCheck false', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('', { headers: { 'LoginCheck': 'false' } })));
+
+    const result = await client.getNotamBriefing('cookie=1', 'token', { adep: 'EHLE', ades: 'EHAM', eobdt: '2026-10-20 09:00', totalEet: 60 });
+
+    expect(result).toMatchObject({ isError: true, sessionExpired: true, groups: [] });
+  });
+
+  it('resolves the route once for a briefing pack and survives an invalid EOBT', async () => {
+    const fetchMock = vi.fn(async (url: string) => {
+      const method = new URL(url).searchParams.get('method');
+      return new Response(method === 'generatePdf' ? 'JVBERi0xLjQK' : readFixture(`${method}/success.xml`));
+    });
+    vi.stubGlobal('fetch', fetchMock);
+    vi.spyOn(client, 'getFlightPlanMessages').mockImplementation(async () => ({ isError: false, msgCount: 0, messages: [] }));
+    vi.spyOn(client, 'getMetBriefing').mockImplementation(async () => ({ isError: false, reports: [] }));
+    const flightPlan = {
+      flId: 7, arcid: 'PHABC', flRules: 'V', flType: 'G', arcType: 'C172', wakeTurbulenceCat: 'L', equipment: 'SDFGY/S',
+      adep: 'EHLE', ades: 'EHAM', eobdt: '2026-10-20 09:00', flSpeed: 'N0100', flLevel: 'VFR', flRoute: 'WOODY XYZZY',
+      totalEet: 60, flStatusCode: 48, flStatusStr: 'Accepted', flCanDo: 3,
+    };
+    const methods = () => fetchMock.mock.calls.map(([url]) => new URL(url).searchParams.get('method'));
+
+    expect(await client.getBriefingPack('cookie=1', 'token', 'user-session', flightPlan)).toEqual({ isError: false, pdf: 'JVBERi0xLjQK' });
+    expect(methods().filter((method) => method === 'getPointsForFpl')).toHaveLength(1);
+
+    fetchMock.mockClear();
+    expect(await client.getBriefingPack('cookie=1', 'token', 'user-session', { ...flightPlan, eobdt: 'soon' }))
+      .toEqual({ isError: false, pdf: 'JVBERi0xLjQK' });
+    expect(methods()).toEqual(['generatePdf']);
+  });
+
+  it('sends generatePdf the HTML as base64 JSON', async () => {
+    const fetchMock = vi.fn(async () => new Response('JVBERi0xLjQK\n'));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const result = await client.generatePdf('cookie=1', 'token', '<p>Vlieg één</p>', 'Briefing');
+
+    expect(result).toEqual({ isError: false, pdf: 'JVBERi0xLjQK' });
+    const [url, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    expect(new URL(url).searchParams.get('method')).toBe('generatePdf');
+    const body = JSON.parse(init.body as string);
+    expect(body.title).toBe('Briefing');
+    expect(Buffer.from(body.html, 'base64').toString('utf-8')).toBe('<p>Vlieg één</p>');
+  });
+
+  it('fails generatePdf when the answer is not a PDF', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('')));
+
+    expect(await client.generatePdf('cookie=1', 'token', '<p></p>', 'Briefing'))
+      .toEqual({ isError: true, errorMessage: 'Homebriefing could not generate the PDF', pdf: '' });
+  });
+});
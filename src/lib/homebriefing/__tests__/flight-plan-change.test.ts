@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { getFiledEobt, getFlightPlanChanges, getLockedFieldChanges, hasFlightPlanChanges } from '../flight-plan-change';
+import { FlightPlan, FlightPlanFormData } from '../types';
+
+const filed: FlightPlan = {
+  flId: 7, arcid: 'PHABC', flRules: 'V', flType: 'G', arcType: 'C172', wakeTurbulenceCat: 'L', equipment: 'SDFGY/S',
+  adep: 'EHLE', ades: 'EHTE', eobdt: '2026-10-20T09:00:00Z', flSpeed: 'N0105', flLevel: 'VFR', flRoute: 'DCT SPY DCT',
+  adAltn1: 'EHSE', totalEet: 45, flOther: 'RMK/TRAINING', flSuplementary: 'E\\0430 P\\002',
+  flStatusCode: 48, flStatusStr: 'Accepted', flCanDo: 23,
+};
+
+// The filed plan as the form holds it, eobdt in HB format
+function formData(overrides: Partial<FlightPlanFormData> = {}): FlightPlanFormData {
+  return {
+    arcid: 'PHABC', flRules: 'V', flType: 'G', arcType: 'C172', wakeTurbulenceCat: 'L', equipment: 'SDFGY/S',
+    adep: 'EHLE', eobdt: '2026-10-20 09:00', flSpeed: 'N0105', flLevel: 'VFR', flRoute: 'DCT SPY DCT',
+    ades: 'EHTE', adAltn1: 'EHSE', totalEet: 45, flOther: 'RMK/TRAINING', flSuplementary: 'E\\0430 P\\002',
+    ...overrides,
+  };
+}
+
+describe('getFiledEobt', () => {
+  it('reads HHMM from the filed EOBDT', () => {
+    expect(getFiledEobt('2026-10-20T09:05:00Z')).toBe('0905');
+    expect(getFiledEobt('')).toBe('');
+    expect(getFiledEobt('not a date')).toBe('');
+  });
+});
+
+describe('getFlightPlanChanges', () => {
+  it('finds nothing in an unchanged plan, whatever the case and whitespace', () => {
+    const changes = getFlightPlanChanges(filed, formData({ flRoute: ' dct  spy dct ', flOther: 'rmk/training' }));
+    expect(changes).toEqual({});
+    expect(hasFlightPlanChanges(changes)).toBe(false);
+  });
+
+  it('lists only the fields that differ', () => {
+    expect(getFlightPlanChanges(filed, formData({ eobdt: '2026-10-20 09:30', flLevel: 'A025', adAltn2: 'EHRD' }))).toEqual({
+      eobt: '0930',
+      flLevel: 'A025',
+      adAltn2: 'EHRD',
+    });
+    expect(getFlightPlanChanges(filed, formData({ totalEet: 50, flSuplementary: 'E\\0430 P\\003' }))).toEqual({
+      totalEet: 50,
+      flSuplementary: 'E\\0430 P\\003',
+    });
+  });
+});
+
+describe('getLockedFieldChanges', () => {
+  it('refuses changes to what identifies the flight', () => {
+    expect(getLockedFieldChanges(filed, formData())).toEqual([]);
+    expect(getLockedFieldChanges(filed, formData({ arcid: 'PHXYZ', adep: 'EHRD', ades: 'EHAM' }))).toEqual(['F7', 'F13a', 'F16a']);
+    expect(getLockedFieldChanges(filed, formData({ eobdt: '2026-10-21 09:00' }))).toEqual(['DOF']);
+  });
+
+  it('refuses removing an alternate, changing one is fine', () => {
+    expect(getLockedFieldChanges(filed, formData({ adAltn1: 'EHRD' }))).toEqual([]);
+    expect(getLockedFieldChanges(filed, formData({ adAltn1: '' }))).toEqual(['F16c']);
+    expect(getLockedFieldChanges({ ...filed, adAltn2: 'EHRD' }, formData({ adAltn2: undefined }))).toEqual(['F16d']);
+  });
+
+  it("doesn't throw on a filed plan without a readable EOBDT", () => {
+    expect(getLockedFieldChanges({ ...filed, eobdt: 'garbage' }, formData())).toEqual([]);
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { addLocalFieldWarnings, validateFlightPlanFields } from '../flight-plan-validator';
+import { FlightPlanFormData } from '../types';
+
+function formData(overrides: Partial<FlightPlanFormData> = {}): FlightPlanFormData {
+  return {
+    arcid: 'PHABC',
+    flRules: 'V',
+    flType: 'G',
+    arcType: 'C172',
+    wakeTurbulenceCat: 'L',
+    equipment: 'SDFGY/S',
+    adep: 'EHAM',
+    eobdt: '2026-10-20 10:00',
+    flSpeed: 'N0105',
+    flLevel: 'VFR',
+    flRoute: 'DCT SPY DCT',
+    ades: 'EHRD',
+    totalEet: 45,
+    flOther: '',
+    flSuplementary: 'E\\0430 P\\002 R\\VE',
+    ...overrides,
+  };
+}
+
+const fields = (data: FlightPlanFormData) => validateFlightPlanFields(data).map((e) => e.field);
+
+describe('validateFlightPlanFields', () => {
+  it('accepts a complete flight plan', () => {
+    expect(validateFlightPlanFields(formData())).toEqual([]);
+  });
+
+  it('leaves empty fields to Homebriefing', () => {
+    expect(fields(formData({ arcid: '', arcType: '', equipment: '', flSpeed: '', flLevel: '', flRoute: '' }))).toEqual([]);
+  });
+
+  it('checks the callsign, type, speed, level and aerodrome syntax', () => {
+    expect(fields(formData({ arcid: 'PH-ABC' }))).toEqual(['F7']);
+    expect(fields(formData({ arcType: 'CESSNA' }))).toEqual(['F9b']);
+    expect(fields(formData({ flSpeed: 'N105' }))).toEqual(['F15a']);
+    expect(fields(formData({ flLevel: 'FL065' }))).toEqual(['F15b']);
+    expect(fields(formData({ ades: 'EHR' }))).toEqual(['F16a']);
+    expect(fields(formData({ flSuplementary: 'E\\0475 P\\ABC' }))).toEqual(['F19a', 'F19b']);
+  });
+
+  it('checks the PBN/ codes against the equipment', () => {
+    expect(fields(formData({ equipment: 'SDFGRY/S', flOther: 'PBN/B2D2' }))).toEqual([]);
+    expect(validateFlightPlanFields(formData({ equipment: 'SFGRY/S', flOther: 'PBN/B4' }))).toEqual([
+      { field: 'F10a', message: 'PBN/B4 (RNAV 5 VOR/DME) needs D in Field 10a' },
+    ]);
+    expect(fields(formData({ equipment: 'SDFGRY/S' }))).toEqual(['F18']);
+    expect(fields(formData({ flOther: 'PBN/B2' }))).toEqual(['F10a']);
+    expect(fields(formData({ equipment: 'SDFGQ/S' }))).toEqual(['F10a']);
+    expect(fields(formData({ equipment: 'SDFGY' }))).toEqual(['F10b']);
+  });
+
+  it('needs Field 18 entries for Z and ZZZZ', () => {
+    expect(fields(formData({ equipment: 'SDFGYZ/S' }))).toEqual(['F10a']);
+    expect(fields(formData({ equipment: 'SDFGYZ/S', flOther: 'NAV/SBAS' }))).toEqual([]);
+    expect(fields(formData({ arcType: 'ZZZZ', adep: 'ZZZZ', adAltn1: 'ZZZZ' }))).toEqual(['F9b', 'F13a', 'F16c']);
+    expect(fields(formData({ arcType: 'ZZZZ', adep: 'ZZZZ', flOther: 'DEP/MALDEN 5147N00551E TYP/AQUILA' }))).toEqual([]);
+  });
+
+  it('checks the flight rules against changes of rules in the route', () => {
+    expect(fields(formData({ flRules: 'V', flRoute: 'DCT SPY IFR DCT PAM' }))).toEqual(['F15c']);
+    expect(fields(formData({ flRules: 'Y', flLevel: 'F070', flRoute: 'DCT SPY VFR DCT PAM' }))).toEqual([]);
+    expect(fields(formData({ flRules: 'Y', flLevel: 'VFR', flRoute: 'DCT SPY DCT PAM' }))).toEqual(['F15c', 'F15b']);
+    expect(fields(formData({ flRules: 'Z', flRoute: 'DCT SPY/N0105F070 IFR DCT PAM' }))).toEqual([]);
+  });
+});
+
+describe('addLocalFieldWarnings', () => {
+  it("doesn't let local findings block a plan Homebriefing accepts", () => {
+    // A point name longer than the local check allows
+    const local = validateFlightPlanFields(formData({ flRoute: 'DCT SPIJKENISSE DCT' }));
+    expect(local.length).toBeGreaterThan(0);
+
+    const result = addLocalFieldWarnings({ isError: false, fplIsOk: true }, local);
+
+    expect(result.fplIsOk).toBe(true);
+    expect(result.warnings).toEqual(local);
+  });
+
+  it('leaves out what Homebriefing reports itself', () => {
+    const own = { field: 'F7', message: 'Invalid callsign' };
+    const local = [own, { field: 'F15b', message: 'Not a level' }];
+
+    const result = addLocalFieldWarnings({ isError: false, fplIsOk: false, fieldErrors: [own] }, local);
+
+    expect(result).toEqual({ isError: false, fplIsOk: false, fieldErrors: [own], warnings: [{ field: 'F15b', message: 'Not a level' }] });
+    expect(addLocalFieldWarnings({ isError: false, fplIsOk: true }, [])).toEqual({ isError: false, fplIsOk: true });
+  });
+});
@@ -0,0 +1,142 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { FlightSnapshot, diffFlightStatus, subscribeFlightStatus, STATUS_INTERVAL } from '../flight-status';
+import { isAirborne } from '../flight-messages';
+import { homebriefingClient } from '../client';
+import { sessionStore } from '../session-store';
+import { SESSION_EXTEND_STEP } from '../session-store/store';
+import { FlightMessage, FlightPlan, FlightStatusEvent } from '../types';
+
+function flight(overrides: Partial<FlightSnapshot> = {}): FlightSnapshot {
+  return { arcid: 'PHABC', flStatusCode: 48, flCanDo: 23, msgCount: 2, airborne: false, ...overrides };
+}
+
+function message(flMsgId: number, msgType: string, isIncome: boolean, msgTime: string): FlightMessage {
+  return { flMsgId, isIncome, msgType, msgTime, statusCode: 0, statusDesc: '', senderId: 1, senderName: 'EHAAZPZX', msgTxt: '' };
+}
+
+describe('diffFlightStatus', () => {
+  it('reports added, removed and changed flights', () => {
+    const previous = new Map([[1, flight()], [2, flight({ arcid: 'PHXYZ' })], [3, flight({ arcid: 'PHDEF' })]]);
+    const current = new Map([[1, flight({ flStatusCode: 53, flCanDo: 3, msgCount: 3 })], [2, flight({ arcid: 'PHXYZ' })], [4, flight({ arcid: 'PHGHI', msgCount: 1 })]]);
+
+    expect(diffFlightStatus(previous, current)).toEqual([
+      { flId: 1, arcid: 'PHABC', kind: 'changed', flStatusCode: 53, flCanDo: 3, msgCount: 3, airborne: false, newMessages: true },
+      { flId: 4, arcid: 'PHGHI', kind: 'added', flStatusCode: 48, flCanDo: 23, msgCount: 1, airborne: false, newMessages: true },
+      { flId: 3, arcid: 'PHDEF', kind: 'removed', flStatusCode: 48, flCanDo: 23, msgCount: 2, airborne: false, newMessages: false },
+    ]);
+  });
+
+  it('ignores flights that stayed the same', () => {
+    expect(diffFlightStatus(new Map([[1, flight()]]), new Map([[1, flight()]]))).toEqual([]);
+    expect(diffFlightStatus(new Map([[1, flight()]]), new Map([[1, flight({ airborne: true })]])).map((c) => c.kind)).toEqual(['changed']);
+  });
+});
+
+describe('isAirborne', () => {
+  const fpl = message(1, 'FPL', false, '2026-10-20T08:00:00Z');
+  const ack = message(2, 'ACK', true, '2026-10-20T08:01:00Z');
+
+  it('is airborne after an acknowledged DEP', () => {
+    expect(isAirborne([fpl, ack, message(3, 'DEP', true, '2026-10-20T09:05:00Z')])).toBe(true);
+    expect(isAirborne([fpl, ack, message(3, 'DEP', false, '2026-10-20T09:05:00Z')])).toBe(false);
+    expect(isAirborne([fpl, ack, message(3, 'DEP', false, '2026-10-20T09:05:00Z'), message(4, 'ACK', true, '2026-10-20T09:05:30Z')])).toBe(true);
+  });
+
+  it('ends when a later status message follows the DEP', () => {
+    const dep = [fpl, ack, message(3, 'DEP', true, '2026-10-20T09:05:00Z')];
+    expect(isAirborne([...dep, message(4, 'ARR', false, '2026-10-20T10:00:00Z')])).toBe(false);
+    expect(isAirborne([...dep, message(4, 'CNL', false, '2026-10-20T09:10:00Z'), message(5, 'ACK', true, '2026-10-20T09:10:30Z')])).toBe(false);
+    // Order by time, not by position in the list
+    expect(isAirborne([message(4, 'DLA', false, '2026-10-20T09:00:00Z'), ...dep])).toBe(true);
+  });
+});
+
+describe('subscribeFlightStatus', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('polls once per session and passes on changes', async () => {
+    vi.useFakeTimers();
+    const sessionId = await sessionStore.createPendingLogin('cookie=1', 'token');
+    await sessionStore.activateSession(sessionId, 'cookie=1', 'token', 'user-session', 'pilot');
+    let status = 48;
+    let msgCount = 1;
+    const list = vi.spyOn(homebriefingClient, 'getCurrentFlightPlans').mockImplementation(async () => ({
+      isError: false, fplsCount: 1, totalPages: 1, currentPage: 0,
+      flightPlans: [{ flId: 7, arcid: 'PHABC', flStatusCode: status, flCanDo: 23 } as FlightPlan],
+    }));
+    vi.spyOn(homebriefingClient, 'getFlightPlanMessages').mockImplementation(async () => ({ isError: false, msgCount, messages: [] }));
+
+    const first: FlightStatusEvent[] = [];
+    const second: FlightStatusEvent[] = [];
+    const stopFirst = subscribeFlightStatus(sessionId, (event) => first.push(event));
+    const stopSecond = subscribeFlightStatus(sessionId, (event) => second.push(event));
+    await vi.advanceTimersByTimeAsync(0);
+    expect(list).toHaveBeenCalledTimes(1);
+
+    status = 53;
+    msgCount = 2;
+    await vi.advanceTimersByTimeAsync(STATUS_INTERVAL);
+
+    expect(list).toHaveBeenCalledTimes(2);
+    expect(first).toEqual([
+      { type: 'snapshot', flights: [{ flId: 7, arcid: 'PHABC', flStatusCode: 48, flCanDo: 23, msgCount: 1, airborne: false }] },
+      {
+        type: 'changes',
+        changes: [{ flId: 7, arcid: 'PHABC', kind: 'changed', flStatusCode: 53, flCanDo: 23, msgCount: 2, airborne: false, newMessages: true }],
+      },
+    ]);
+    expect(second).toEqual(first);
+
+    stopFirst();
+    stopSecond();
+    await vi.advanceTimersByTimeAsync(STATUS_INTERVAL);
+    expect(list).toHaveBeenCalledTimes(2);
+  });
+
+  it("doesn't read the messages of a closed flight plan again until its status changes", async () => {
+    vi.useFakeTimers();
+    const sessionId = await sessionStore.createPendingLogin('cookie=1', 'token');
+    await sessionStore.activateSession(sessionId, 'cookie=1', 'token', 'user-session', 'closed');
+    let cancelled = 4;
+    vi.spyOn(homebriefingClient, 'getCurrentFlightPlans').mockImplementation(async () => ({
+      isError: false, fplsCount: 2, totalPages: 1, currentPage: 0,
+      flightPlans: [
+        { flId: 7, arcid: 'PHABC', flStatusCode: 48, flCanDo: 23 } as FlightPlan,
+        { flId: 8, arcid: 'PHXYZ', flStatusCode: cancelled, flCanDo: 0 } as FlightPlan,
+      ],
+    }));
+    const messages = vi.spyOn(homebriefingClient, 'getFlightPlanMessages')
+      .mockImplementation(async () => ({ isError: false, msgCount: 1, messages: [] }));
+    const readFor = (flId: number) => messages.mock.calls.filter((call) => call[3] === flId).length;
+
+    const stop = subscribeFlightStatus(sessionId, () => {});
+    await vi.advanceTimersByTimeAsync(0);
+    await vi.advanceTimersByTimeAsync(STATUS_INTERVAL);
+    expect(readFor(7)).toBe(2);
+    expect(readFor(8)).toBe(1);
+
+    cancelled = 7;
+    await vi.advanceTimersByTimeAsync(STATUS_INTERVAL);
+    expect(readFor(7)).toBe(3);
+    expect(readFor(8)).toBe(2);
+    stop();
+  });
+
+  it("doesn't extend the session it polls for", async () => {
+    vi.useFakeTimers();
+    const sessionId = await sessionStore.createPendingLogin('cookie=1', 'token');
+    await sessionStore.activateSession(sessionId, 'cookie=1', 'token', 'user-session', 'idle');
+    const { expiresAt } = (await sessionStore.peekSession(sessionId))!;
+    vi.spyOn(homebriefingClient, 'getCurrentFlightPlans').mockImplementation(async () => ({
+      isError: false, fplsCount: 0, totalPages: 1, currentPage: 0, flightPlans: [],
+    }));
+
+    const stop = subscribeFlightStatus(sessionId, () => {});
+    await vi.advanceTimersByTimeAsync(SESSION_EXTEND_STEP + STATUS_INTERVAL);
+    expect((await sessionStore.peekSession(sessionId))?.expiresAt).toBe(expiresAt);
+    stop();
+  });
+});
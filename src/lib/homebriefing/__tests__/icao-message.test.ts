@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import {
+  renderArrMessage,
+  renderChgMessage,
+  renderCnlMessage,
+  renderDepMessage,
+  renderDlaMessage,
+  renderFplMessage,
+} from '../icao-message';
+import { getFlightPlanChanges } from '../flight-plan-change';
+import { FlightPlan, FlightPlanFormData } from '../types';
+
+function formData(overrides: Partial<FlightPlanFormData> = {}): FlightPlanFormData {
+  return {
+    arcid: 'phabc', flRules: 'V', flType: 'G', arcType: 'c172', wakeTurbulenceCat: 'L', equipment: 'sdfgy/s',
+    adep: 'EHLE', eobdt: '2026-10-20 09:00', flSpeed: 'N0105', flLevel: 'VFR', flRoute: 'DCT  SPY DCT',
+    ades: 'EHTE', totalEet: 45, flOther: 'RMK/TRAINING', flSuplementary: 'E\\0430 P\\002',
+    ...overrides,
+  };
+}
+
+const filed: FlightPlan = {
+  flId: 7, arcid: 'PHABC', flRules: 'V', flType: 'G', arcType: 'C172', wakeTurbulenceCat: 'L', equipment: 'SDFGY/S',
+  adep: 'EHLE', ades: 'EHTE', eobdt: '2026-10-20T09:00:00Z', flSpeed: 'N0105', flLevel: 'VFR', flRoute: 'DCT SPY DCT',
+  adAltn1: 'EHSE', totalEet: 45, flOther: 'RMK/TRAINING DOF/261020', flSuplementary: 'E\\0430 P\\002',
+  flStatusCode: 48, flStatusStr: 'Accepted', flCanDo: 23,
+};
+
+describe('renderFplMessage', () => {
+  it('renders one field per line with DOF/ added to Field 18', () => {
+    expect(renderFplMessage(formData({ adAltn1: 'EHSE' }))).toBe([
+      '(FPL-PHABC-VG',
+      '-C172/L-SDFGY/S',
+      '-EHLE0900',
+      '-N0105VFR DCT SPY DCT',
+      '-EHTE0045 EHSE',
+      '-RMK/TRAINING DOF/261020',
+      '-E/0430 P/002)',
+    ].join('\n'));
+  });
+
+  it('names ZZZZ alternates in ALTN/', () => {
+    expect(renderFplMessage(formData({
+      adAltn1: 'ZZZZ', adAltn2: 'ZZZZ', flOther: 'ALTN/MALDEN 5147N00551E SEPPE 5133N00433E', flSuplementary: '',
+    }))).toBe([
+      '(FPL-PHABC-VG',
+      '-C172/L-SDFGY/S',
+      '-EHLE0900',
+      '-N0105VFR DCT SPY DCT',
+      '-EHTE0045 ZZZZ ZZZZ',
+      '-ALTN/MALDEN 5147N00551E SEPPE 5133N00433E DOF/261020)',
+    ].join('\n'));
+  });
+
+  it('keeps Field 18 to DOF/ when it is empty and puts a multi-line Field 19 on one line', () => {
+    expect(renderFplMessage(formData({ arcNum: '2', flOther: '', flSuplementary: 'E\\0430 P\\002\nR\\VE\n  A\\WHITE BLUE' }))).toBe([
+      '(FPL-PHABC-VG',
+      '-2C172/L-SDFGY/S',
+      '-EHLE0900',
+      '-N0105VFR DCT SPY DCT',
+      '-EHTE0045',
+      '-DOF/261020',
+      '-E/0430 P/002 R/VE A/WHITE BLUE)',
+    ].join('\n'));
+  });
+});
+
+describe('renderChgMessage', () => {
+  it('repeats the whole field group of what changed', () => {
+    const edited = formData({ adAltn1: 'EHSE', adAltn2: 'EHRD', eobdt: '2026-10-20 09:30', flOther: 'RMK/TRAINING DOF/261020' });
+    expect(renderChgMessage(filed, edited, getFlightPlanChanges(filed, edited))).toBe([
+      '(CHG-PHABC',
+      '-EHLE0900',
+      '-EHTE',
+      '-DOF/261020',
+      '-13/EHLE0930',
+      '-16/EHTE0045 EHSE EHRD)',
+    ].join('\n'));
+  });
+
+  it('sends an emptied Field 18 as 0', () => {
+    const edited = formData({ adAltn1: 'EHSE', flOther: '', flSuplementary: 'E\\0430\nP\\003' });
+    expect(renderChgMessage(filed, edited, getFlightPlanChanges(filed, edited))).toBe([
+      '(CHG-PHABC',
+      '-EHLE0900',
+      '-EHTE',
+      '-DOF/261020',
+      '-18/0',
+      '-19/E/0430 P/003)',
+    ].join('\n'));
+  });
+});
+
+describe('renderDlaMessage, renderCnlMessage, renderDepMessage and renderArrMessage', () => {
+  it('address the flight by callsign, ADEP with EOBT or the new time, ADES and DOF/', () => {
+    expect(renderDlaMessage(filed, '0945')).toBe('(DLA-PHABC\n-EHLE0945\n-EHTE\n-DOF/261020)');
+    expect(renderCnlMessage(filed)).toBe('(CNL-PHABC\n-EHLE0900\n-EHTE\n-DOF/261020)');
+    expect(renderDepMessage(filed, '0907')).toBe('(DEP-PHABC\n-EHLE0907\n-EHTE\n-DOF/261020)');
+  });
+
+  it('reports the arrival at ADES, a diversion or a ZZZZ aerodrome by name', () => {
+    expect(renderArrMessage(filed, '0950')).toBe('(ARR-PHABC\n-EHLE0900\n-EHTE0950\n-DOF/261020)');
+    expect(renderArrMessage(filed, '0955', 'EHSE')).toBe('(ARR-PHABC\n-EHLE0900\n-EHSE0955\n-DOF/261020)');
+    expect(renderArrMessage(filed, '1000', 'ZZZZ', 'Malden')).toBe('(ARR-PHABC\n-EHLE0900\n-ZZZZ1000 MALDEN\n-DOF/261020)');
+  });
+
+  it('takes the date of flight from the EOBDT without DOF/ in Field 18', () => {
+    expect(renderCnlMessage({ ...filed, flOther: '', eobdt: '2026-12-31T23:30:00Z' })).toBe('(CNL-PHABC\n-EHLE2330\n-EHTE\n-DOF/261231)');
+  });
+});
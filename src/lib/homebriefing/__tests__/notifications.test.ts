@@ -0,0 +1,415 @@
+import { createDecipheriv, createECDH, createPublicKey, hkdfSync, randomBytes, verify } from 'crypto';
+import { createServer as createHttpServer } from 'http';
+import { AddressInfo, createServer } from 'net';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  detectFlightNotifications,
+  encryptPushPayload,
+  getDueSafetyReminder,
+  isAllowedTarget,
+  isPublicAddress,
+  postToAddress,
+  runNotifications,
+  SAFETY_REMINDER_ATTEMPTS,
+  sendLandedArrival,
+  sendMail,
+  sendWebhook,
+  vapidAuthorization,
+  webhookSignature,
+} from '../notifications';
+import { homebriefingClient } from '../client';
+import { getRecentFlightRound, subscribeFlightStatus } from '../flight-status';
+import { sessionStore } from '../session-store';
+import { FlightMessage, FlightPlan } from '../types';
+
+// No DNS here: intranet.example.com is on the LAN, every other name public
+vi.mock('dns/promises', () => ({
+  lookup: vi.fn(async (hostname: string) => [{ address: hostname.startsWith('intranet.') ? '192.168.1.20' : '93.184.216.34', family: 4 }]),
+}));
+
+// Nor anything to call, push services and webhooks answer here
+vi.mock('../notifications/targets', async (importOriginal) => ({
+  ...await importOriginal<typeof import('../notifications/targets')>(),
+  postToAddress: vi.fn(),
+}));
+
+function answerTargets(status: (url: string) => number) {
+  return vi.mocked(postToAddress).mockReset().mockImplementation(async (url) => status(url));
+}
+
+function flightPlan(overrides: Partial<FlightPlan> = {}): FlightPlan {
+  return {
+    flId: 7, arcid: 'PHABC', flRules: 'V', flType: 'G', arcType: 'C172', wakeTurbulenceCat: 'L', equipment: 'SDFGY/S',
+    adep: 'EHLE', ades: 'EHTE', eobdt: '2026-10-19T09:00:00Z', flSpeed: 'N0105', flLevel: 'VFR', flRoute: 'DCT',
+    totalEet: 45, flStatusCode: 48, flStatusStr: 'Accepted', flCanDo: 3,
+    ...overrides,
+  };
+}
+
+function message(flMsgId: number, msgType: string, isIncome = true): FlightMessage {
+  return {
+    flMsgId, isIncome, msgType, msgTime: '2026-10-19T08:50:00Z', statusCode: 0, statusDesc: '',
+    senderId: 1, senderName: 'EHAAZPZX', msgTxt: `(${msgType}-PHABC-EHLE0900-EHTE)`,
+  };
+}
+
+const beforeArrival = Date.parse('2026-10-19T09:30:00Z');
+const afterArrival = Date.parse('2026-10-19T09:50:00Z');
+
+describe('detectFlightNotifications', () => {
+  it('passes on new ACK, REJ, DLA, CNL and DEP messages', () => {
+    const first = detectFlightNotifications(flightPlan(), [message(1, 'FPL', false), message(2, 'ACK')], undefined, beforeArrival);
+    expect(first.notifications).toEqual([{ type: 'message', flight: expect.objectContaining({ flId: 7, arcid: 'PHABC' }), message: message(2, 'ACK') }]);
+
+    const second = detectFlightNotifications(
+      flightPlan(), [message(1, 'FPL', false), message(2, 'ACK'), message(3, 'DEP', false), message(4, 'CHG')], first.watched, beforeArrival
+    );
+    expect(second.notifications.map((n) => n.type === 'message' && n.message.flMsgId)).toEqual([3]);
+  });
+
+  it('raises one overdue alert when EOBT + EET passes without an ARR', () => {
+    const messages = [message(1, 'ACK')];
+    const due = detectFlightNotifications(flightPlan(), messages, { messageIds: [1], overdueSent: false }, afterArrival);
+    expect(due.notifications).toEqual([{ type: 'arrival-overdue', flight: expect.objectContaining({ flId: 7 }), arrivalDue: '2026-10-19T09:45:00.000Z' }]);
+    expect(detectFlightNotifications(flightPlan(), messages, due.watched, afterArrival).notifications).toEqual([]);
+
+    expect(detectFlightNotifications(flightPlan(), messages, { messageIds: [1], overdueSent: false }, beforeArrival).notifications).toEqual([]);
+    expect(detectFlightNotifications(flightPlan(), [...messages, message(2, 'ARR', false)], { messageIds: [1, 2], overdueSent: false }, afterArrival).notifications).toEqual([]);
+    expect(detectFlightNotifications(flightPlan({ flStatusCode: 59 }), messages, { messageIds: [1], overdueSent: false }, afterArrival).notifications).toEqual([]);
+  });
+});
+
+describe('Web Push', () => {
+  it('encrypts the payload for the subscription (RFC 8291)', () => {
+    const receiver = createECDH('prime256v1');
+    const receiverKey = receiver.generateKeys();
+    const authSecret = randomBytes(16);
+    const body = encryptPushPayload({
+      endpoint: 'https://push.example.com/send/abc',
+      keys: { p256dh: receiverKey.toString('base64url'), auth: authSecret.toString('base64url') },
+    }, '{"title":"PHABC"}');
+
+    // What the browser does with the body
+    const salt = body.subarray(0, 16);
+    expect(body.readUInt32BE(16)).toBe(4096);
+    const senderKey = body.subarray(21, 21 + body[20]);
+    const keyInfo = Buffer.concat([Buffer.from('WebPush: info\0'), receiverKey, senderKey]);
+    const ikm = Buffer.from(hkdfSync('sha256', receiver.computeSecret(senderKey), authSecret, keyInfo, 32));
+    const key = Buffer.from(hkdfSync('sha256', ikm, salt, Buffer.from('Content-Encoding: aes128gcm\0'), 16));
+    const nonce = Buffer.from(hkdfSync('sha256', ikm, salt, Buffer.from('Content-Encoding: nonce\0'), 12));
+    const record = body.subarray(21 + body[20]);
+    const decipher = createDecipheriv('aes-128-gcm', key, nonce);
+    decipher.setAuthTag(record.subarray(-16));
+    const plaintext = Buffer.concat([decipher.update(record.subarray(0, -16)), decipher.final()]);
+
+    expect(plaintext.toString('utf-8')).toBe('{"title":"PHABC"}\x02');
+  });
+
+  it('signs a VAPID token for the push service origin', () => {
+    const now = Date.parse('2026-10-19T09:00:00Z');
+    const header = vapidAuthorization('https://push.example.com/send/abc', now);
+    const [, token, publicKey] = header.match(/^vapid t=([^,]+), k=(.+)$/)!;
+    const [head, claims, signature] = token.split('.');
+
+    expect(JSON.parse(Buffer.from(claims, 'base64url').toString())).toMatchObject({
+      aud: 'https://push.example.com',
+      exp: now / 1000 + 12 * 60 * 60,
+    });
+    const key = Buffer.from(publicKey, 'base64url');
+    const verifyKey = createPublicKey({
+      key: { kty: 'EC', crv: 'P-256', x: key.subarray(1, 33).toString('base64url'), y: key.subarray(33).toString('base64url') },
+      format: 'jwk',
+    });
+    expect(verify('sha256', Buffer.from(`${head}.${claims}`), { key: verifyKey, dsaEncoding: 'ieee-p1363' }, Buffer.from(signature, 'base64url'))).toBe(true);
+  });
+});
+
+describe('notification targets', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('only accepts public addresses', async () => {
+    for (const address of ['127.0.0.1', '10.1.2.3', '172.20.0.1', '192.168.1.1', '169.254.169.254', '100.64.0.1', '0.0.0.0', '::1', '::', 'fd00::1', 'fe80::1', '::ffff:7f00:1']) {
+      expect(isPublicAddress(address), address).toBe(false);
+    }
+    expect(isPublicAddress('93.184.216.34')).toBe(true);
+    expect(isPublicAddress('2606:2800:220:1::1')).toBe(true);
+
+    expect(await isAllowedTarget('https://hooks.example.com/flights')).toBe(true);
+    expect(await isAllowedTarget('http://intranet.example.com/hook')).toBe(false);
+    expect(await isAllowedTarget('http://127.0.0.1:3000/api')).toBe(false);
+    expect(await isAllowedTarget('http://[::ffff:127.0.0.1]/api')).toBe(false);
+  });
+
+  it("doesn't call a webhook that now resolves to a private address", async () => {
+    const post = answerTargets(() => 204);
+    const notification = { type: 'arrival-overdue' as const, flight: { flId: 7, arcid: 'PHABC', adep: 'EHLE', ades: 'EHTE', eobdt: '', totalEet: 45 }, arrivalDue: '' };
+
+    await expect(sendWebhook({ webhookId: 'w1', url: 'http://intranet.example.com/hook' }, notification)).rejects.toThrow('not a public address');
+    expect(post).not.toHaveBeenCalled();
+
+    await sendWebhook({ webhookId: 'w2', url: 'https://hooks.example.com/flights' }, notification);
+    expect(post).toHaveBeenCalledWith('https://hooks.example.com/flights', '93.184.216.34', expect.anything());
+  });
+
+  it('connects to the checked address and keeps the host name of the URL', async () => {
+    const { postToAddress: post } = await vi.importActual<typeof import('../notifications/targets')>('../notifications/targets');
+    let received: { host?: string; body: string } | undefined;
+    const server = createHttpServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => { body += chunk; });
+      req.on('end', () => {
+        received = { host: req.headers.host, body };
+        res.writeHead(204).end();
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+
+    try {
+      // hooks.example.com doesn't resolve here, only the pinned address reaches the server
+      const status = await post(`http://hooks.example.com:${port}/flights`, '127.0.0.1', { headers: {}, body: '{"ok":true}', timeout: 5000 });
+      expect(status).toBe(204);
+      expect(received).toEqual({ host: `hooks.example.com:${port}`, body: '{"ok":true}' });
+    } finally {
+      server.close();
+    }
+  });
+});
+
+describe('runNotifications', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('sends new messages to webhooks and drops push subscriptions that are gone', async () => {
+    const sessionId = await sessionStore.createPendingLogin('cookie=1', 'token');
+    await sessionStore.activateSession(sessionId, 'cookie=1', 'token', 'user-session', 'notified');
+    const receiver = createECDH('prime256v1');
+    await sessionStore.saveNotificationSettings('notified', {
+      pushSubscriptions: [{
+        endpoint: 'https://push.example.com/send/abc',
+        keys: { p256dh: receiver.generateKeys().toString('base64url'), auth: randomBytes(16).toString('base64url') },
+      }],
+      webhooks: [{ webhookId: 'w1', url: 'https://hooks.example.com/flights', secret: 'shared' }],
+    });
+
+    const messages = [message(1, 'FPL', false)];
+    vi.spyOn(homebriefingClient, 'getCurrentFlightPlans').mockImplementation(async () => ({
+      isError: false, fplsCount: 1, totalPages: 1, currentPage: 0, flightPlans: [flightPlan({ eobdt: '2099-01-01T09:00:00Z' })],
+    }));
+    vi.spyOn(homebriefingClient, 'getFlightPlanMessages').mockImplementation(async () => ({
+      isError: false, msgCount: messages.length, messages: [...messages],
+    }));
+    const post = answerTargets((url) => url.startsWith('https://push.') ? 410 : 204);
+
+    // The first round only records the messages that are there
+    await runNotifications();
+    expect(post).not.toHaveBeenCalled();
+
+    messages.push(message(2, 'ACK'));
+    await runNotifications();
+
+    const webhookCall = post.mock.calls.find(([url]) => url === 'https://hooks.example.com/flights')!;
+    const request = webhookCall[2];
+    expect(JSON.parse(request.body as string)).toMatchObject({ type: 'message', flight: { flId: 7 }, message: { flMsgId: 2, msgType: 'ACK' } });
+    expect(request.headers['X-Homebriefing-Signature']).toBe(webhookSignature('shared', request.body as string));
+    expect((await sessionStore.getNotificationSettings('notified'))?.pushSubscriptions).toEqual([]);
+
+    await sessionStore.deleteSession(sessionId);
+  });
+
+  it('uses the round of an open dashboard instead of asking Homebriefing again', async () => {
+    const sessionId = await sessionStore.createPendingLogin('cookie=1', 'token');
+    await sessionStore.activateSession(sessionId, 'cookie=1', 'token', 'user-session', 'watching');
+    await sessionStore.saveNotificationSettings('watching', {
+      pushSubscriptions: [],
+      webhooks: [{ webhookId: 'w1', url: 'https://hooks.example.com/flights' }],
+    });
+    const list = vi.spyOn(homebriefingClient, 'getCurrentFlightPlans').mockImplementation(async () => ({
+      isError: false, fplsCount: 1, totalPages: 1, currentPage: 0, flightPlans: [flightPlan({ eobdt: '2099-01-01T09:00:00Z' })],
+    }));
+    const messages = vi.spyOn(homebriefingClient, 'getFlightPlanMessages').mockImplementation(async () => ({
+      isError: false, msgCount: 1, messages: [message(1, 'ACK')],
+    }));
+    answerTargets(() => 204);
+
+    const unsubscribe = subscribeFlightStatus(sessionId, () => {});
+    await vi.waitFor(() => expect(getRecentFlightRound('watching', 60 * 1000)).toBeDefined());
+    await runNotifications();
+    unsubscribe();
+
+    expect(list).toHaveBeenCalledTimes(1);
+    expect(messages).toHaveBeenCalledTimes(1);
+    // Without the dashboard the notifier reads the flights itself
+    await runNotifications();
+    expect(list).toHaveBeenCalledTimes(2);
+
+    await sessionStore.deleteSession(sessionId);
+  });
+});
+
+describe('getDueSafetyReminder', () => {
+  const eta = Date.parse('2026-10-19T09:45:00Z');
+  const at = (minutes: number) => eta + minutes * 60 * 1000;
+
+  it('is due at ETA+10 and ETA+20 until an ARR is in', () => {
+    expect(getDueSafetyReminder(flightPlan(), [], [], at(5))).toBeUndefined();
+    expect(getDueSafetyReminder(flightPlan(), [], [], at(12))).toBe(10);
+    expect(getDueSafetyReminder(flightPlan(), [], [10], at(15))).toBeUndefined();
+    expect(getDueSafetyReminder(flightPlan(), [], [10], at(21))).toBe(20);
+    // After a gap only the latest one
+    expect(getDueSafetyReminder(flightPlan(), [], [], at(25))).toBe(20);
+    expect(getDueSafetyReminder(flightPlan(), [message(1, 'ARR', false)], [], at(12))).toBeUndefined();
+  });
+
+  it('only runs for flight plans that end under VFR', () => {
+    expect(getDueSafetyReminder(flightPlan({ flRules: 'Y' }), [], [], at(12))).toBe(10);
+    expect(getDueSafetyReminder(flightPlan({ flRules: 'I' }), [], [], at(12))).toBeUndefined();
+    expect(getDueSafetyReminder(flightPlan({ flRules: 'Z' }), [], [], at(12))).toBeUndefined();
+  });
+});
+
+describe('safety timer', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('sends a reminder with a landed link, logs it and closes the timer from the link', async () => {
+    const sessionId = await sessionStore.createPendingLogin('cookie=1', 'token');
+    await sessionStore.activateSession(sessionId, 'cookie=1', 'token', 'user-session', 'safety');
+    await sessionStore.saveNotificationSettings('safety', {
+      pushSubscriptions: [],
+      webhooks: [{ webhookId: 'w1', url: 'https://hooks.example.com/sar' }],
+      safetyTimer: { enabled: true, channels: ['webhook'] },
+    });
+
+    // ETA was 11 minutes ago
+    const eobdt = new Date(Date.now() - (45 + 11) * 60 * 1000).toISOString();
+    vi.spyOn(homebriefingClient, 'getCurrentFlightPlans').mockImplementation(async () => ({
+      isError: false, fplsCount: 1, totalPages: 1, currentPage: 0, flightPlans: [flightPlan({ flId: 8, eobdt })],
+    }));
+    vi.spyOn(homebriefingClient, 'getFlightPlanMessages').mockImplementation(async () => ({
+      isError: false, msgCount: 1, messages: [message(1, 'ACK')],
+    }));
+    const post = answerTargets(() => 204);
+    const arrival = vi.spyOn(homebriefingClient, 'sendArrival').mockImplementation(async () => ({ isError: false, success: true }));
+
+    await runNotifications();
+    await runNotifications();
+
+    const reminders = post.mock.calls
+      .map(([, , request]) => JSON.parse(request.body as string))
+      .filter((body) => body.type === 'arrival-reminder');
+    expect(reminders).toHaveLength(1);
+    expect(reminders[0]).toMatchObject({ flight: { flId: 8, arcid: 'PHABC' }, minutesOverdue: 10 });
+
+    const timer = (await sessionStore.getSafetyTimer('safety', 8))!;
+    expect(reminders[0].landedUrl).toBe(`http://localhost:3000/landed?token=${timer.token}`);
+    expect(timer.log).toEqual([
+      { at: expect.any(Number), event: 'reminder', minutesOverdue: 10, channels: ['webhook https://hooks.example.com/sar'] },
+    ]);
+
+    const found = (await sessionStore.getSafetyTimerByToken(timer.token))!;
+    expect(await sendLandedArrival(found.username, found.timer, '0955')).toEqual({ status: 'sent' });
+    expect(arrival).toHaveBeenCalledWith('cookie=1', 'token', 'user-session', 8, '', '0955');
+    expect((await sessionStore.getSafetyTimer('safety', 8))?.log.map((entry) => entry.event)).toEqual(['reminder', 'acknowledged']);
+
+    const closed = (await sessionStore.getSafetyTimerByToken(timer.token))!;
+    expect(await sendLandedArrival(closed.username, closed.timer, '0956')).toEqual({ status: 'already-closed' });
+    expect(arrival).toHaveBeenCalledTimes(1);
+
+    await sessionStore.deleteSession(sessionId);
+  });
+
+  it('tries a reminder no channel delivered again next round, a limited number of times', async () => {
+    const sessionId = await sessionStore.createPendingLogin('cookie=1', 'token');
+    await sessionStore.activateSession(sessionId, 'cookie=1', 'token', 'user-session', 'unreachable');
+    await sessionStore.saveNotificationSettings('unreachable', {
+      pushSubscriptions: [],
+      webhooks: [{ webhookId: 'w1', url: 'https://hooks.example.com/down' }],
+      safetyTimer: { enabled: true, channels: ['push', 'email', 'webhook'] },
+    });
+
+    const eobdt = new Date(Date.now() - (45 + 11) * 60 * 1000).toISOString();
+    vi.spyOn(homebriefingClient, 'getCurrentFlightPlans').mockImplementation(async () => ({
+      isError: false, fplsCount: 1, totalPages: 1, currentPage: 0, flightPlans: [flightPlan({ flId: 9, eobdt })],
+    }));
+    vi.spyOn(homebriefingClient, 'getFlightPlanMessages').mockImplementation(async () => ({
+      isError: false, msgCount: 1, messages: [message(1, 'ACK')],
+    }));
+    const post = answerTargets(() => 500);
+    const reminders = () => post.mock.calls.filter(([, , request]) => JSON.parse(request.body as string).type === 'arrival-reminder');
+
+    await runNotifications();
+    await runNotifications();
+    expect(reminders()).toHaveLength(2);
+    expect((await sessionStore.getSafetyTimer('unreachable', 9))?.remindersSent).toEqual([]);
+
+    await runNotifications();
+    await runNotifications();
+    expect(reminders()).toHaveLength(SAFETY_REMINDER_ATTEMPTS);
+    const timer = (await sessionStore.getSafetyTimer('unreachable', 9))!;
+    expect(timer.remindersSent).toEqual([10]);
+    expect(timer.log).toHaveLength(SAFETY_REMINDER_ATTEMPTS);
+    expect(timer.log[0]).toEqual({
+      at: expect.any(Number), event: 'reminder', minutesOverdue: 10, channels: [],
+      detail: 'Not delivered: push, webhook https://hooks.example.com/down',
+    });
+
+    await sessionStore.deleteSession(sessionId);
+  });
+});
+
+describe('sendMail', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('delivers a message through the SMTP relay', async () => {
+    const received: string[] = [];
+    const server = createServer((socket) => {
+      let data = false;
+      let buffer = '';
+      socket.write('220 relay.example.com ESMTP\r\n');
+      socket.on('data', (chunk) => {
+        buffer += chunk.toString();
+        let lineEnd = buffer.indexOf('\r\n');
+        while (lineEnd !== -1) {
+          const line = buffer.slice(0, lineEnd);
+          buffer = buffer.slice(lineEnd + 2);
+          received.push(line);
+          if (data) {
+            if (line === '.') {
+              data = false;
+              socket.write('250 Queued\r\n');
+            }
+          } else if (line.startsWith('EHLO')) {
+            socket.write('250-relay.example.com\r\n250 8BITMIME\r\n');
+          } else if (line === 'DATA') {
+            data = true;
+            socket.write('354 Go ahead\r\n');
+          } else if (line === 'QUIT') {
+            socket.end('221 Bye\r\n');
+          } else {
+            socket.write('250 OK\r\n');
+          }
+          lineEnd = buffer.indexOf('\r\n');
+        }
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    vi.stubEnv('SMTP_URL', `smtp://127.0.0.1:${(server.address() as AddressInfo).port}`);
+    vi.stubEnv('SMTP_FROM', 'sar@hb.example.com');
+
+    await sendMail({ to: 'pilot@example.com', subject: 'PHABC EHLE-EHTE: close your flight plan', text: 'Line one\n.dot line' });
+    server.close();
+
+    expect(received).toContain('MAIL FROM:<sar@hb.example.com>');
+    expect(received).toContain('RCPT TO:<pilot@example.com>');
+    expect(received).toContain('Subject: PHABC EHLE-EHTE: close your flight plan');
+    expect(received).toContain('..dot line');
+    expect(received[received.length - 1]).toBe('QUIT');
+  });
+});
@@ -0,0 +1,539 @@
+import { readFileSync } from 'fs';
+import { describe, expect, it, vi } from 'vitest';
+import {
+  SessionExpiredError,
+  SoapFaultError,
+  SoapOperation,
+  SoapResult,
+  findUnknownElements,
+  parseSoapEnvelope,
+  trackLookups,
+} from '../soap';
+import {
+  getFplListOperation,
+  getFplArchiveOperation,
+  getFlMsgListOperation,
+  getERegulationByFlIdOperation,
+  checkFplValidityOperation,
+  getFlTplListOperation,
+  getFlTplOperation,
+  saveFlTplOperation,
+  sendFplToCaroOperation,
+  deleteFlTplOperation,
+  sendDlaOperation,
+  sendCnlOperation,
+  sendDepOperation,
+  sendArrOperation,
+  sendChgOperation,
+  getMetMsgOperation,
+  getSynopStationsOperation,
+} from '../operations';
+import { FlightPlanActionResponse } from '../types';
+
+// Contract tests: each fixture is a Homebriefing response in the wire format
+// (fixtures/<Operation>/<case>.xml). New captures can be recorded with
+// HOMEBRIEFING_RECORD_DIR, see README.
+
+function readFixture(name: string): string {
+  return readFileSync(new URL(`./fixtures/${name}`, import.meta.url), 'utf-8');
+}
+
+// Parse a fixture like HomebriefingClient does and collect elements the operation didn't read
+function parseFixture<TParams, TResult extends SoapResult>(operation: SoapOperation<TParams, TResult>, name: string) {
+  const xml = readFixture(name);
+  const body = parseSoapEnvelope(xml);
+  const { result, lookups } = trackLookups(() => operation.response(body, xml));
+  return { xml, result, unknownElements: findUnknownElements(body, lookups) };
+}
+
+describe('GetFPLList', () => {
+  it('parses flight plans', () => {
+    const { result, unknownElements } = parseFixture(getFplListOperation, 'GetFPLList/success.xml');
+
+    expect(unknownElements).toEqual([]);
+    expect(result).toEqual({
+      isError: false,
+      fplsCount: 2,
+      totalPages: 1,
+      currentPage: 0,
+      flightPlans: [
+        {
+          flId: 1045872,
+          arcid: 'PHABC',
+          flRules: 'V',
+          flType: 'G',
+          arcNum: undefined,
+          arcType: 'C172',
+          wakeTurbulenceCat: 'L',
+          equipment: 'SY/S',
+          adep: 'EHLE',
+          ades: 'EHTE',
+          adAltn1: 'EHST',
+          adAltn2: undefined,
+          eobdt: '2026-10-19T13:30:00Z',
+          flSpeed: 'N0105',
+          flLevel: 'VFR',
+          flRoute: 'DCT SPY DCT',
+          totalEet: 45,
+          flOther: 'DOF/261019 RMK/NO RADIO CONTACT',
+          flSuplementary: 'E\\0330 P\\2 R\\V J\\L',
+          flStatusCode: 48,
+          flStatusStr: 'ACK received',
+          flCanDo: 1,
+        },
+        {
+          flId: 1045860,
+          arcid: 'PHXYZ',
+          flRules: 'Y',
+          flType: 'G',
+          arcNum: '2',
+          arcType: 'P28A',
+          wakeTurbulenceCat: 'L',
+          equipment: 'SDFGY/S',
+          adep: 'EHRD',
+          ades: 'EBAW',
+          adAltn1: 'EBBR',
+          adAltn2: 'EHWO',
+          eobdt: '2026-10-19T09:00:00Z',
+          flSpeed: 'N0110',
+          flLevel: 'F065',
+          flRoute: 'DCT WOODY DCT',
+          totalEet: 50,
+          flOther: undefined,
+          flSuplementary: undefined,
+          flStatusCode: 4,
+          flStatusStr: 'Cancelled',
+          flCanDo: 0,
+        },
+      ],
+    });
+  });
+
+  it('parses a response without FPLsArray as an empty list', () => {
+    const { result, unknownElements } = parseFixture(getFplListOperation, 'GetFPLList/empty.xml');
+
+    expect(unknownElements).toEqual([]);
+    expect(result).toEqual({ isError: false, fplsCount: 0, totalPages: 0, currentPage: 0, flightPlans: [] });
+  });
+
+  it('flags unknown elements when the schema changed', () => {
+    const { result, unknownElements } = parseFixture(getFplListOperation, 'GetFPLList/drift.xml');
+
+    // Renamed list elements parse as an empty list, only the drift check notices
+    expect(result.flightPlans).toEqual([]);
+    expect(result.fplsCount).toBe(1);
+    expect(unknownElements).toEqual(['FlightPlans', 'ServerTime']);
+  });
+});
+
+describe('GetFPLArchive', () => {
+  it('parses archived flight plans and paging', () => {
+    const { result, unknownElements } = parseFixture(getFplArchiveOperation, 'GetFPLArchive/success.xml');
+
+    expect(unknownElements).toEqual([]);
+    expect(result).toMatchObject({ isError: false, fplsCount: 31, totalPages: 31, currentPage: 3 });
+    expect(result.flightPlans).toHaveLength(1);
+    expect(result.flightPlans[0]).toMatchObject({
+      flId: 1039114,
+      adep: 'EHTE',
+      ades: 'EHLE',
+      adAltn1: undefined,
+      flOther: undefined,
+      flStatusCode: 53,
+      flCanDo: 0,
+    });
+  });
+
+  it('sends a date range as whole days of EOBT', () => {
+    const request = getFplArchiveOperation.request({ userSession: 'abc', filters: { dateFrom: '2026-09-01', dateTo: '2026-09-30' } });
+    expect(request).toMatchObject({ EOBTFrom: '2026-09-01 00:00', EOBTTill: '2026-09-30 23:59' });
+
+    const withoutRange = getFplArchiveOperation.request({ userSession: 'abc', filters: {} });
+    expect(withoutRange.EOBTFrom).toBeUndefined();
+    expect(withoutRange.EOBTTill).toBeUndefined();
+  });
+});
+
+describe('GetFlMsgList', () => {
+  it('parses outgoing and incoming messages', () => {
+    const { result, unknownElements } = parseFixture(getFlMsgListOperation, 'GetFlMsgList/success.xml');
+
+    expect(unknownElements).toEqual([]);
+    expect(result).toEqual({
+      isError: false,
+      msgCount: 2,
+      messages: [
+        {
+          flMsgId: 8812301,
+          isIncome: false,
+          msgTime: '2026-10-19T11:02:14Z',
+          msgType: 'FPL',
+          statusCode: 1,
+          statusDesc: 'Sent',
+          senderId: 0,
+          senderName: 'HOMEBRIEFING',
+          msgTxt: '(FPL-PHABC-VG\n-C172/L-SY/S\n-EHLE1330\n-N0105VFR DCT SPY DCT\n-EHTE0045 EHST\n-DOF/261019 RMK/NO RADIO CONTACT\n-E/0330 P/2 R/V J/L)',
+          toAftnAddr: ['EHAAZPZX', 'EUCHZMFP'],
+          aftnSender: undefined,
+          aftnSendTime: '2026-10-19T11:02:15Z',
+        },
+        {
+          flMsgId: 8812302,
+          isIncome: true,
+          msgTime: '2026-10-19T11:02:40Z',
+          msgType: 'ACK',
+          statusCode: 1,
+          statusDesc: 'Received',
+          senderId: 12,
+          senderName: 'ARO Schiphol',
+          msgTxt: '(ACK-MSGTYP FPL-PHABC-EHLE1330-EHTE-DOF/261019)',
+          toAftnAddr: undefined,
+          aftnSender: 'EHAAZPZX',
+          aftnSendTime: '2026-10-19T11:02:39Z',
+        },
+      ],
+    });
+  });
+
+  it('parses a flight plan without messages', () => {
+    const { result, unknownElements } = parseFixture(getFlMsgListOperation, 'GetFlMsgList/empty.xml');
+
+    expect(unknownElements).toEqual([]);
+    expect(result).toEqual({ isError: false, msgCount: 0, messages: [] });
+  });
+});
+
+describe('GetERegulationByFlId', () => {
+  it('parses the regulations of a flight', () => {
+    const { result, unknownElements } = parseFixture(getERegulationByFlIdOperation, 'GetERegulationByFlId/success.xml');
+
+    expect(unknownElements).toEqual([]);
+    expect(result).toEqual({
+      isError: false,
+      regulations: [
+        {
+          regId: 'EHAMA20A',
+          location: 'EHAM',
+          reason: 'G',
+          validFrom: '2026-10-20T06:00:00Z',
+          validTo: '2026-10-20T22:00:00Z',
+          description: 'RWY 18R/36L CLSD, REDUCED ARRIVAL CAPACITY',
+        },
+        {
+          regId: 'EDYYB20',
+          location: 'EDYYBOL',
+          reason: undefined,
+          validFrom: undefined,
+          validTo: undefined,
+          description: undefined,
+        },
+      ],
+    });
+  });
+
+  it('parses a flight without regulations', () => {
+    const { result, unknownElements } = parseFixture(getERegulationByFlIdOperation, 'GetERegulationByFlId/empty.xml');
+
+    expect(unknownElements).toEqual([]);
+    expect(result).toEqual({ isError: false, regulations: [] });
+  });
+
+  it('sends the flight plan ID', () => {
+    expect(getERegulationByFlIdOperation.request({ userSession: 'abc', flId: 1045872 })).toEqual({ FlId: 1045872, UserSession: 'abc' });
+  });
+});
+
+describe('CheckFplValidity', () => {
+  it('parses a valid flight plan', () => {
+    const { result, unknownElements } = parseFixture(checkFplValidityOperation, 'CheckFplValidity/ok.xml');
+
+    expect(unknownElements).toEqual([]);
+    expect(result).toEqual({ isError: false, fplIsOk: true });
+  });
+
+  it('maps FplErrors with a field code to field errors', () => {
+    const { xml, result, unknownElements } = parseFixture(checkFplValidityOperation, 'CheckFplValidity/field-errors.xml');
+
+    expect(unknownElements).toEqual([]);
+    expect(result).toEqual({
+      isError: false,
+      fplIsOk: false,
+      errorMessages: undefined,
+      fieldErrors: [
+        { field: 'F7', message: 'Invalid Aircraft Identification' },
+        { field: 'F15c', message: 'Route contains unknown point XYZAB' },
+        { field: 'f16B', message: 'Total EET must be greater than 0' },
+        { field: 'FAddinfoPilottel', message: 'Invalid phone number' },
+      ],
+      rawResponse: xml,
+    });
+  });
+
+  it('maps FplErrors without a field code to General and keeps ErrMsg', () => {
+    const { xml, result, unknownElements } = parseFixture(checkFplValidityOperation, 'CheckFplValidity/general-errors.xml');
+
+    expect(unknownElements).toEqual([]);
+    expect(result).toEqual({
+      isError: false,
+      fplIsOk: false,
+      errorMessages: ['Flight plan could not be validated', 'Please check field 13'],
+      fieldErrors: [{ field: 'General', message: 'EOBT is more than 120 hours ahead' }],
+      rawResponse: xml,
+    });
+  });
+
+  it('returns the raw response when validation failed without details', () => {
+    const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+    const { xml, result } = parseFixture(checkFplValidityOperation, 'CheckFplValidity/no-details.xml');
+    log.mockRestore();
+
+    expect(result).toEqual({ isError: false, fplIsOk: false, rawResponse: xml });
+  });
+});
+
+describe('GetFlTplList', () => {
+  it('parses templates', () => {
+    const { result, unknownElements } = parseFixture(getFlTplListOperation, 'GetFlTplList/success.xml');
+
+    expect(unknownElements).toEqual([]);
+    expect(result).toEqual({
+      isError: false,
+      count: 2,
+      templates: [
+        { tplId: 311, tplName: 'EHLE - EHTE' },
+        { tplId: 342, tplName: 'Rondje Texel & terug' },
+      ],
+    });
+  });
+
+  it('parses an account without templates', () => {
+    const { result, unknownElements } = parseFixture(getFlTplListOperation, 'GetFlTplList/empty.xml');
+
+    expect(unknownElements).toEqual([]);
+    expect(result).toEqual({ isError: false, count: 0, templates: [] });
+  });
+});
+
+describe('GetFlTpl', () => {
+  it('parses template values', () => {
+    const { result, unknownElements } = parseFixture(getFlTplOperation, 'GetFlTpl/found.xml');
+
+    expect(unknownElements).toEqual([]);
+    expect(result).toEqual({
+      isError: false,
+      found: true,
+      template: {
+        tplId: 311,
+        tplName: 'EHLE - EHTE',
+        arcid: 'PHABC',
+        flRules: 'V',
+        flType: 'G',
+        arcType: 'C172',
+        wakeTurbulenceCat: 'L',
+        equipment10a: 'SY',
+        equipment10b: 'S',
+        equipment10c: 'N',
+        adep: 'EHLE',
+        eobt: '1330',
+        flSpeedMeasure: 'N',
+        flSpeedValue: '0105',
+        flLevelMeasure: 'VFR',
+        flLevelValue: undefined,
+        ades: 'EHTE',
+        flRoute: 'DCT SPY DCT',
+        totalEet: 45,
+        adAltn1: 'EHST',
+        adAltn2: undefined,
+        flOther: 'RMK/NO RADIO CONTACT',
+        radio: 'V',
+        survival: undefined,
+        jackets: 'L',
+        dinghies: undefined,
+        dinghiesNumber: undefined,
+        dinghiesCapacity: undefined,
+        dinghiesCover: false,
+        dinghiesColour: undefined,
+        aircraftColour: 'WHITE BLUE',
+        remarks: undefined,
+        pilotInCommand: 'JANSEN',
+        pilotTel: '+31612345678',
+      },
+    });
+  });
+
+  it('parses a missing template', () => {
+    const { result, unknownElements } = parseFixture(getFlTplOperation, 'GetFlTpl/not-found.xml');
+
+    expect(unknownElements).toEqual([]);
+    expect(result).toEqual({ isError: false, found: false });
+  });
+});
+
+describe('SaveFlTpl', () => {
+  it('parses a saved template', () => {
+    const { result, unknownElements } = parseFixture(saveFlTplOperation, 'SaveFlTpl/success.xml');
+
+    expect(unknownElements).toEqual([]);
+    expect(result).toEqual({ isError: false, success: true });
+  });
+
+  it('parses an error', () => {
+    const { xml, result, unknownElements } = parseFixture(saveFlTplOperation, 'SaveFlTpl/error.xml');
+
+    expect(unknownElements).toEqual([]);
+    expect(result).toEqual({
+      isError: true,
+      success: false,
+      errorMessage: 'Template with this name already exists',
+      rawResponse: xml,
+    });
+  });
+});
+
+describe('SendFplToCaro', () => {
+  it('parses a sent flight plan', () => {
+    const { result, unknownElements } = parseFixture(sendFplToCaroOperation, 'SendFplToCaro/sent.xml');
+
+    expect(unknownElements).toEqual([]);
+    expect(result).toEqual({ isError: false, fplIsSent: true });
+  });
+
+  it('parses a rejected flight plan', () => {
+    const { result, unknownElements } = parseFixture(sendFplToCaroOperation, 'SendFplToCaro/error.xml');
+
+    expect(unknownElements).toEqual([]);
+    expect(result).toEqual({
+      isError: true,
+      fplIsSent: false,
+      errorMessage: 'Flight plan with the same ARCID and EOBT already exists',
+    });
+  });
+});
+
+describe('DeleteFlTpl', () => {
+  it('parses a deleted template', () => {
+    const { result, unknownElements } = parseFixture(deleteFlTplOperation, 'DeleteFlTpl/success.xml');
+
+    expect(unknownElements).toEqual([]);
+    expect(result).toEqual({ isError: false, success: true, deletedTplId: 342 });
+  });
+
+  it('parses an error', () => {
+    const { result, unknownElements } = parseFixture(deleteFlTplOperation, 'DeleteFlTpl/error.xml');
+
+    expect(unknownElements).toEqual([]);
+    expect(result).toEqual({ isError: true, success: false, errorMessage: 'Template not found' });
+  });
+});
+
+describe.each<SoapOperation<never, FlightPlanActionResponse>>([
+  sendDlaOperation,
+  sendCnlOperation,
+  sendDepOperation,
+  sendArrOperation,
+  sendChgOperation,
+])('$name', (operation) => {
+  it('parses a sent message', () => {
+    const { result, unknownElements } = parseFixture(operation, 'actions/sent.xml');
+
+    expect(unknownElements).toEqual([]);
+    expect(result).toEqual({ isError: false, success: true, msgSent: true });
+  });
+
+  it('parses an error', () => {
+    const { result, unknownElements } = parseFixture(operation, 'actions/error.xml');
+
+    expect(unknownElements).toEqual([]);
+    expect(result).toEqual({
+      isError: true,
+      success: false,
+      msgSent: false,
+      errorMessage: 'Operation is not allowed in current flight plan state',
+    });
+  });
+});
+
+describe('GetMetMsg', () => {
+  it('parses messages and trims the text', () => {
+    const { result, unknownElements } = parseFixture(getMetMsgOperation, 'GetMetMsg/success.xml');
+
+    expect(unknownElements).toEqual([]);
+    expect(result).toEqual({
+      isError: false,
+      messages: [
+        'METAR EHLE 200820Z 23012KT 9999 SCT025 12/07 Q1016=',
+        'METAR EHLE 200850Z 24014KT 210V270 6000 -SHRA BKN014 12/08 Q1015 NOSIG=',
+      ],
+    });
+  });
+
+  it('parses an aerodrome without messages', () => {
+    const { result, unknownElements } = parseFixture(getMetMsgOperation, 'GetMetMsg/empty.xml');
+
+    expect(unknownElements).toEqual([]);
+    expect(result).toEqual({ isError: false, messages: [] });
+  });
+
+  it('sends the date as YYYYMMDD', () => {
+    const request = getMetMsgOperation.request({
+      userSession: 'abc', msgType: 'TAF', icaoCode: 'EHLE', date: new Date('2026-10-20T09:00:00Z'), history: 0,
+    });
+
+    expect(request).toEqual({ MsgType: 'TAF', ValidityDate: '20261020', MsgHistory: 0, ICAOCode: 'EHLE', UserSession: 'abc' });
+  });
+});
+
+describe('GetSynopStations', () => {
+  it('parses stations with and without an ICAO code', () => {
+    const { result, unknownElements } = parseFixture(getSynopStationsOperation, 'GetSynopStations/success.xml');
+
+    expect(unknownElements).toEqual([]);
+    expect(result).toEqual({
+      isError: false,
+      stations: [
+        { icaoCode: 'EHLE', wmoCode: '06269', name: 'LELYSTAD' },
+        { icaoCode: undefined, wmoCode: '06235', name: 'DE KOOY' },
+      ],
+    });
+  });
+});
+
+describe('SOAP envelope', () => {
+  it('treats the login page as an expired session', () => {
+    expect(() => parseSoapEnvelope(readFixture('envelope/session-expired.html'))).toThrow(SessionExpiredError);
+  });
+
+  it('treats a session fault as an expired session', () => {
+    expect(() => parseSoapEnvelope(readFixture('envelope/session-fault.xml'))).toThrow(SessionExpiredError);
+  });
+
+  it('decodes SOAP 1.1 faults', () => {
+    const error = (() => {
+      try {
+        parseSoapEnvelope(readFixture('envelope/fault-soap11.xml'));
+      } catch (e) {
+        return e;
+      }
+    })();
+
+    expect(error).toBeInstanceOf(SoapFaultError);
+    expect(error).toMatchObject({
+      faultCode: 'Server',
+      message: 'Database connection failed',
+      detail: 'ORA-12541: TNS:no listener',
+    });
+  });
+
+  it('decodes SOAP 1.2 faults', () => {
+    const error = (() => {
+      try {
+        parseSoapEnvelope(readFixture('envelope/fault-soap12.xml'));
+      } catch (e) {
+        return e;
+      }
+    })();
+
+    expect(error).toBeInstanceOf(SoapFaultError);
+    expect(error).toMatchObject({ faultCode: 'Sender', message: 'Missing FlId' });
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { parseRoute } from '../route-parser';
+
+describe('parseRoute', () => {
+  it('recognises the route elements', () => {
+    const { elements, errors } = parseRoute('spy1a SPY UL980 PAM DCT 5230N00445E VFR DCT SPY090025 STAY1/0030 52N005E T');
+
+    expect(errors).toEqual([]);
+    expect(elements.map((e) => e.type)).toEqual([
+      'procedure', 'point', 'airway', 'point', 'dct', 'coordinates', 'rules', 'dct', 'bearing', 'stay', 'coordinates', 'truncate',
+    ]);
+    expect(elements[5]).toMatchObject({ lat: 52.5, lng: 4.75 });
+    expect(elements[8]).toMatchObject({ name: 'SPY', bearing: 90, distance: 25 });
+    expect(elements[10]).toMatchObject({ lat: 52, lng: 5 });
+  });
+
+  it('reads speed and level changes at a point', () => {
+    const { elements, errors } = parseRoute('DCT PAM/N0105A025 DCT C/SPY/N0450F350PLUS');
+
+    expect(errors).toEqual([]);
+    expect(elements[1]).toMatchObject({ type: 'point', name: 'PAM', speed: 'N0105', level: 'A025' });
+    expect(elements[3]).toMatchObject({ type: 'point', name: 'SPY', speed: 'N0450', level: 'F350', cruiseClimb: true });
+  });
+
+  it('reports speed, level and route errors with their F15 field codes', () => {
+    const { errors } = parseRoute('DCT PAM/X0105A025 DCT SPY/N0105Z99 DCT 5290N00445E ?');
+
+    expect(errors.map((e) => [e.field, e.token, e.index])).toEqual([
+      ['F15a', 'PAM/X0105A025', 1],
+      ['F15b', 'SPY/N0105Z99', 3],
+      ['F15c', '5290N00445E', 5],
+      ['F15c', '?', 6],
+    ]);
+  });
+
+  it('checks the order of the elements', () => {
+    expect(parseRoute('UL980 SPY').errors[0]).toMatchObject({ field: 'F15c', token: 'UL980', index: 0 });
+    expect(parseRoute('SPY DCT UL980 PAM').errors[0]).toMatchObject({ token: 'DCT' });
+    expect(parseRoute('IFR DCT SPY').errors[0]).toMatchObject({ token: 'IFR' });
+    expect(parseRoute('SPY T PAM').errors[0]).toMatchObject({ token: 'T' });
+    expect(parseRoute('SPY N0105A025').errors[0].message).toContain('POINT/N0105A025');
+  });
+
+  it('accepts an empty route', () => {
+    expect(parseRoute('  ')).toEqual({ elements: [], errors: [] });
+  });
+});
@@ -0,0 +1,248 @@
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { AddressInfo, createServer } from 'net';
+import { tmpdir } from 'os';
+import path from 'path';
+import { afterAll, afterEach, describe, expect, it, vi } from 'vitest';
+import { SessionCipher } from '../session-store/cipher';
+import { AIRCRAFT_TIMEOUT, DRAFT_TIMEOUT, KeyValueSessionStore, NOTIFICATIONS_TIMEOUT, PENDING_TIMEOUT, SAFETY_TIMER_TIMEOUT, SESSION_EXTEND_STEP, SESSION_TIMEOUT } from '../session-store/store';
+import { AircraftProfileData, FlightPlanDraftData } from '../types';
+import { MemorySessionStore } from '../session-store/memory';
+import { RedisSessionStore } from '../session-store/redis';
+import { SqliteSessionStore } from '../session-store/sqlite';
+
+function draftData(arcid: string): FlightPlanDraftData {
+  return {
+    formData: {
+      arcid, flRules: 'V', flType: 'G', arcType: 'C172', wakeTurbulenceCat: 'L', equipment: 'SDFGY/S',
+      adep: 'EHLE', eobdt: '2026-10-20T09:00', flSpeed: 'N0100', flLevel: 'VFR', flRoute: 'DCT', ades: 'EHTE', totalEet: 45,
+    },
+    field18: { sts: [], pbn: [], per: '', eurProtected: false, rfp: '', stayInfo: Array(9).fill(''), textFields: { DOF: '261020' } },
+    field19: {
+      endurance: '0400', persons: '2', radioUhf: false, radioVhf: true, radioElba: true,
+      survivalPolar: false, survivalDesert: false, survivalMaritime: false, survivalJungle: false,
+      jacketsLight: false, jacketsFluores: false, jacketsUhf: false, jacketsVhf: false,
+      dinghiesEnabled: false, dinghiesNumber: '', dinghiesCapacity: '', dinghiesCover: false, dinghiesColour: '',
+      aircraftColour: 'WHITE', remarks: '', pilotInCommand: 'JANSEN',
+    },
+  };
+}
+
+function aircraftData(arcid: string): AircraftProfileData {
+  return {
+    arcid, arcType: 'C172', wakeTurbulenceCat: 'L', equipment: 'SDFGY/S', flSpeed: 'N0105', pbn: [], code: '484ABC',
+    field19: { ...draftData(arcid).field19 },
+  };
+}
+
+const tmpDir = mkdtempSync(path.join(tmpdir(), 'hb-sessions-'));
+let dbCount = 0;
+
+afterAll(() => {
+  rmSync(tmpDir, { recursive: true, force: true });
+});
+
+describe.each([
+  ['memory', (cipher: SessionCipher) => new MemorySessionStore(cipher)],
+  ['sqlite', (cipher: SessionCipher) => new SqliteSessionStore(cipher, path.join(tmpDir, `${++dbCount}.db`))],
+] as [string, (cipher: SessionCipher) => KeyValueSessionStore][])('%s session store', (_name, createStore) => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('turns a pending login into a session', async () => {
+    const store = createStore(new SessionCipher('secret'));
+
+    const sessionId = await store.createPendingLogin('cookie=1', 'login-token');
+    expect(await store.getPendingLogin(sessionId)).toMatchObject({ cookies: 'cookie=1', token: 'login-token' });
+
+    await store.activateSession(sessionId, 'cookie=2', 'app-token', 'user-session', 'DEMO');
+    expect(await store.getPendingLogin(sessionId)).toBeUndefined();
+    expect(await store.getSession(sessionId)).toMatchObject({ cookies: 'cookie=2', token: 'app-token', userSession: 'user-session' });
+
+    await store.deleteSession(sessionId);
+    expect(await store.getSession(sessionId)).toBeUndefined();
+  });
+
+  it('expires pending logins after PENDING_TIMEOUT', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const store = createStore(new SessionCipher('secret'));
+    const sessionId = await store.createPendingLogin('cookie=1', 'login-token');
+
+    vi.setSystemTime(Date.now() + PENDING_TIMEOUT + 1);
+    expect(await store.getPendingLogin(sessionId)).toBeUndefined();
+  });
+
+  it('extends sessions on access and expires them after SESSION_TIMEOUT', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const store = createStore(new SessionCipher('secret'));
+    const sessionId = store.generateSessionId();
+    await store.activateSession(sessionId, 'cookie=2', 'app-token', 'user-session', 'DEMO');
+
+    vi.setSystemTime(Date.now() + SESSION_TIMEOUT - 1000);
+    expect(await store.getSession(sessionId)).toBeDefined();
+
+    vi.setSystemTime(Date.now() + SESSION_TIMEOUT - 1000);
+    expect(await store.getSession(sessionId)).toBeDefined();
+
+    vi.setSystemTime(Date.now() + SESSION_TIMEOUT + 1);
+    expect(await store.getSession(sessionId)).toBeUndefined();
+  });
+
+  it('only writes the session when access moves the expiry by SESSION_EXTEND_STEP', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const store = createStore(new SessionCipher('secret'));
+    const sessionId = store.generateSessionId();
+    await store.activateSession(sessionId, 'cookie=2', 'app-token', 'user-session', 'DEMO');
+    const expiresAt = Date.now() + SESSION_TIMEOUT;
+
+    vi.setSystemTime(Date.now() + SESSION_EXTEND_STEP - 1000);
+    await store.getSession(sessionId);
+    expect(await store.peekSession(sessionId)).toMatchObject({ expiresAt });
+
+    vi.setSystemTime(Date.now() + 1000);
+    await store.getSession(sessionId);
+    expect(await store.peekSession(sessionId)).toMatchObject({ expiresAt: Date.now() + SESSION_TIMEOUT });
+  });
+
+  it('peeks at sessions without extending them', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const store = createStore(new SessionCipher('secret'));
+    const sessionId = store.generateSessionId();
+    await store.activateSession(sessionId, 'cookie=2', 'app-token', 'user-session', 'DEMO');
+    const expiresAt = Date.now() + SESSION_TIMEOUT;
+
+    vi.setSystemTime(Date.now() + SESSION_TIMEOUT - 1000);
+    expect(await store.peekSession(sessionId)).toMatchObject({ expiresAt });
+
+    vi.setSystemTime(Date.now() + 2000);
+    expect(await store.peekSession(sessionId)).toBeUndefined();
+  });
+
+  it('lists sessions and records keep-alive validation', async () => {
+    const store = createStore(new SessionCipher('secret'));
+    const sessionId = store.generateSessionId();
+    await store.activateSession(sessionId, 'cookie=2', 'app-token', 'user-session', 'DEMO');
+    await store.createPendingLogin('cookie=1', 'login-token');
+
+    expect(await store.listSessionIds()).toEqual([sessionId]);
+
+    await store.markSessionValidated(sessionId);
+    expect((await store.peekSession(sessionId))?.validatedAt).toBeTypeOf('number');
+  });
+
+  it('keeps drafts per user, newest first', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const store = createStore(new SessionCipher('secret'));
+
+    const first = await store.saveDraft('demo', draftData('PHABC'));
+    vi.setSystemTime(Date.now() + 1000);
+    const second = await store.saveDraft('DEMO', draftData('PHXYZ'));
+    await store.saveDraft('other', draftData('DEABC'));
+
+    expect((await store.listDrafts('Demo')).map((draft) => draft.formData.arcid)).toEqual(['PHXYZ', 'PHABC']);
+    expect(await store.getDraft('other', first.draftId)).toBeUndefined();
+
+    vi.setSystemTime(Date.now() + 1000);
+    const updated = await store.saveDraft('demo', draftData('PHABD'), first.draftId);
+    expect(updated.draftId).toBe(first.draftId);
+    expect((await store.listDrafts('demo')).map((draft) => draft.draftId)).toEqual([first.draftId, second.draftId]);
+
+    await store.deleteDraft('demo', second.draftId);
+    expect(await store.listDrafts('demo')).toHaveLength(1);
+
+    vi.setSystemTime(Date.now() + DRAFT_TIMEOUT + 1);
+    expect(await store.listDrafts('demo')).toEqual([]);
+  });
+
+  it('keeps one aircraft profile per user and registration', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const store = createStore(new SessionCipher('secret'));
+
+    await store.saveAircraft('demo', aircraftData('PHXYZ'));
+    await store.saveAircraft('demo', aircraftData('phabc'));
+    await store.saveAircraft('other', aircraftData('DEABC'));
+    await store.saveAircraft('DEMO', { ...aircraftData('PHABC'), arcType: 'PA28' });
+
+    expect((await store.listAircraft('demo')).map((profile) => profile.arcid)).toEqual(['PHABC', 'PHXYZ']);
+    expect(await store.getAircraft('demo', 'phabc')).toMatchObject({ arcType: 'PA28', code: '484ABC' });
+    expect(await store.getAircraft('other', 'PHABC')).toBeUndefined();
+
+    await store.deleteAircraft('demo', 'PHXYZ');
+    expect(await store.listAircraft('demo')).toHaveLength(1);
+
+    vi.setSystemTime(Date.now() + AIRCRAFT_TIMEOUT + 1);
+    expect(await store.listAircraft('demo')).toEqual([]);
+  });
+
+  it('keeps notification settings per user', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const store = createStore(new SessionCipher('secret'));
+    const webhooks = [{ webhookId: 'w1', url: 'https://hooks.example.com/flights' }];
+
+    await store.saveNotificationSettings('demo', { pushSubscriptions: [], webhooks });
+
+    expect(await store.getNotificationSettings('DEMO')).toMatchObject({ pushSubscriptions: [], webhooks });
+    expect(await store.getNotificationSettings('other')).toBeUndefined();
+
+    vi.setSystemTime(Date.now() + NOTIFICATIONS_TIMEOUT + 1);
+    expect(await store.getNotificationSettings('demo')).toBeUndefined();
+  });
+
+  it('finds safety timers by flight and by their landed token', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const store = createStore(new SessionCipher('secret'));
+    const flight = { flId: 7, arcid: 'PHABC', adep: 'EHLE', ades: 'EHTE', eobdt: '2026-10-19T09:00:00Z', totalEet: 45 };
+
+    await store.saveSafetyTimer('demo', { flight, token: 'landed-token', remindersSent: [10], log: [] });
+
+    expect(await store.getSafetyTimer('DEMO', 7)).toMatchObject({ flight, remindersSent: [10] });
+    expect(await store.getSafetyTimerByToken('landed-token')).toMatchObject({ username: 'demo', timer: { flight } });
+    expect(await store.getSafetyTimerByToken('other-token')).toBeUndefined();
+    expect((await store.listSafetyTimers('demo')).map((timer) => timer.flight.flId)).toEqual([7]);
+
+    vi.setSystemTime(Date.now() + SAFETY_TIMER_TIMEOUT + 1);
+    expect(await store.getSafetyTimerByToken('landed-token')).toBeUndefined();
+  });
+});
+
+describe('SqliteSessionStore', () => {
+  it('keeps sessions across restarts and stores them encrypted', async () => {
+    const filePath = path.join(tmpDir, 'restart.db');
+    const store = new SqliteSessionStore(new SessionCipher('secret'), filePath);
+    const sessionId = store.generateSessionId();
+    await store.activateSession(sessionId, '__Host-IxoWeb-NL=abc123', 'app-token', 'user-session', 'DEMO');
+
+    const restarted = new SqliteSessionStore(new SessionCipher('secret'), filePath);
+    expect(await restarted.getSession(sessionId)).toMatchObject({ userSession: 'user-session' });
+    expect(readFileSync(filePath).includes('abc123')).toBe(false);
+
+    const otherKey = new SqliteSessionStore(new SessionCipher('another secret'), filePath);
+    expect(await otherKey.getSession(sessionId)).toBeUndefined();
+  });
+});
+
+describe('RedisSessionStore', () => {
+  it('reconnects after a failed AUTH', async () => {
+    // Refuses the password on the first connection, answers like an empty Redis after that
+    let connections = 0;
+    const server = createServer((socket) => {
+      const refuse = ++connections === 1;
+      socket.on('data', (data) => {
+        const command = data.toString('utf-8');
+        if (command.includes('AUTH')) socket.write(refuse ? '-WRONGPASS invalid password\r\n' : '+OK\r\n');
+        if (command.includes('GET')) socket.write('$-1\r\n');
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+
+    try {
+      const store = new RedisSessionStore(new SessionCipher('secret'), `redis://:secret@127.0.0.1:${port}`);
+      await expect(store.getSession('missing')).rejects.toThrow('WRONGPASS');
+      expect(await store.getSession('missing')).toBeUndefined();
+      expect(connections).toBe(2);
+    } finally {
+      server.close();
+    }
+  });
+});
@@ -0,0 +1,117 @@
+import { SoapResult, XmlElement, list, text, optionalText } from './soap';
+import { defineDataHandlerMethod } from './briefing/methods';
+import { AircraftProfileData, FlightPlanFormData } from './types';
+
+// Aircraft kept in the user's Homebriefing account (dataHandler.php getAircraftList,
+// the reference client's aircraft list) to seed the local aircraft profiles.
+// aircraftListForUserNotFull only tells whether that list has room for another
+// aircraft, it doesn't return any.
+
+export interface HomebriefingAircraft {
+  id: string;
+  registration: string;
+  type?: string;
+  turbulency?: string;        // Wake turbulence category
+  colourMark?: string;
+  ias?: string;
+  iasUnit?: string;
+  fuelTotal?: string;
+  fuelBurn?: string;          // Per hour, in the unit of fuelTotal
+  emergencyRadio?: string;    // Field 19 letters in lower case, e.g. "ve"
+  survivalEquipment?: string;
+  lifeJacket?: string;
+  dinghiesNumber?: string;
+  dinghiesCapacity?: string;
+  dinghiesCovered?: string;
+  dinghiesColour?: string;
+  comNav?: string;            // Field 10a in lower case, e.g. "sdfgy"
+  comNavEquipment?: string;   // Field 10b
+}
+
+export interface AircraftListResult extends SoapResult {
+  aircraft: HomebriefingAircraft[];
+}
+
+// <Aircraft> entries, the performance and fuel planning fields aren't used here
+const aircraftSchema = {
+  id: text('id'),
+  registration: text('registration'),
+  type: optionalText('type'),
+  turbulency: optionalText('turbulency'),
+  colourMark: optionalText('colourMark'),
+  ias: optionalText('ias'),
+  iasUnit: optionalText('iasUnit'),
+  fuelTotal: optionalText('fuelTotal'),
+  fuelBurn: optionalText('fuelBurn'),
+  emergencyRadio: optionalText('emergencyRadio'),
+  survivalEquipment: optionalText('survivalEquipment'),
+  lifeJacket: optionalText('lifeJacket'),
+  dinghiesNumber: optionalText('dinghiesNumber'),
+  dinghiesCapacity: optionalText('dinghiesCapacity'),
+  dinghiesCovered: optionalText('dinghiesCovered'),
+  dinghiesColour: optionalText('dinghiesColour'),
+  comNav: optionalText('comNav'),
+  comNavEquipment: optionalText('comNavEquipment'),
+};
+
+export const getAircraftListMethod = defineDataHandlerMethod<void, AircraftListResult>({
+  name: 'getAircraftList',
+  params: () => ({}),
+  response: (result: XmlElement) => ({
+    isError: false,
+    aircraft: list('Aircraft', aircraftSchema)(result),
+  }),
+  empty: { aircraft: [] },
+});
+
+// "105" in kt -> "N0105", km/h -> "K0185"
+function toCruisingSpeed(ias?: string, unit?: string): string {
+  const speed = parseInt((ias || '').replace(/\D/g, ''));
+  if (!speed) return '';
+  return `${/^km/i.test(unit || '') ? 'K' : 'N'}${String(speed).padStart(4, '0')}`;
+}
+
+// Usable fuel over hourly burn -> "HHMM"
+function toEndurance(fuelTotal?: string, fuelBurn?: string): string {
+  const total = parseFloat(fuelTotal || '');
+  const burn = parseFloat(fuelBurn || '');
+  if (!(total > 0) || !(burn > 0)) return '';
+  const minutes = Math.floor((total / burn) * 60);
+  return `${String(Math.floor(minutes / 60)).padStart(2, '0')}${String(minutes % 60).padStart(2, '0')}`;
+}
+
+export function toAircraftProfile(aircraft: HomebriefingAircraft): AircraftProfileData {
+  const has = (letters: string | undefined, letter: string) => (letters || '').toUpperCase().includes(letter);
+  const wake = (aircraft.turbulency || '').toUpperCase();
+  const comNav = (aircraft.comNav || '').toUpperCase();
+  const surveillance = (aircraft.comNavEquipment || '').toUpperCase();
+
+  return {
+    arcid: aircraft.registration.replace(/[^A-Za-z0-9]/g, '').toUpperCase(),
+    arcType: (aircraft.type || '').toUpperCase(),
+    wakeTurbulenceCat: (['L', 'M', 'H', 'J'].includes(wake) ? wake : 'L') as FlightPlanFormData['wakeTurbulenceCat'],
+    equipment: comNav ? `${comNav}/${surveillance || 'N'}` : '',
+    flSpeed: toCruisingSpeed(aircraft.ias, aircraft.iasUnit),
+    pbn: [],
+    field19: {
+      endurance: toEndurance(aircraft.fuelTotal, aircraft.fuelBurn),
+      radioUhf: has(aircraft.emergencyRadio, 'U'),
+      radioVhf: has(aircraft.emergencyRadio, 'V'),
+      radioElba: has(aircraft.emergencyRadio, 'E'),
+      survivalPolar: has(aircraft.survivalEquipment, 'P'),
+      survivalDesert: has(aircraft.survivalEquipment, 'D'),
+      survivalMaritime: has(aircraft.survivalEquipment, 'M'),
+      survivalJungle: has(aircraft.survivalEquipment, 'J'),
+      jacketsLight: has(aircraft.lifeJacket, 'L'),
+      jacketsFluores: has(aircraft.lifeJacket, 'F'),
+      jacketsUhf: has(aircraft.lifeJacket, 'U'),
+      jacketsVhf: has(aircraft.lifeJacket, 'V'),
+      dinghiesEnabled: parseInt(aircraft.dinghiesNumber || '') > 0,
+      dinghiesNumber: aircraft.dinghiesNumber || '',
+      dinghiesCapacity: aircraft.dinghiesCapacity || '',
+      dinghiesCover: /^(true|1|c)$/i.test(aircraft.dinghiesCovered || ''),
+      dinghiesColour: (aircraft.dinghiesColour || '').toUpperCase(),
+      aircraftColour: (aircraft.colourMark || '').toUpperCase(),
+    },
+  };
+}
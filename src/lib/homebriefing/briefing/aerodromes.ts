@@ -0,0 +1,80 @@
+import { Aerodrome } from '../types';
+import AERODROME_DATA from './aerodromes.json';
+
+// Aerodrome database bundled with the app: Dutch aerodromes, some glider and
+// microlight fields without an ICAO indicator, and the aerodromes across the
+// border pilots commonly fly to. Only server code imports this module.
+
+export interface Position {
+  lat: number;    // Decimal degrees
+  lng: number;
+}
+
+const AERODROMES = AERODROME_DATA as Aerodrome[];
+
+const AERODROMES_BY_ICAO = new Map(
+  AERODROMES.filter((aerodrome) => aerodrome.icao).map((aerodrome) => [aerodrome.icao, aerodrome])
+);
+
+export function findAerodrome(code: string): Aerodrome | undefined {
+  return AERODROMES_BY_ICAO.get(code.trim().toUpperCase());
+}
+
+// "Münster" -> "MUENSTER", names in the database are plain uppercase
+function normalizeName(text: string): string {
+  return text
+    .toUpperCase()
+    .replace(/Ä/g, 'AE').replace(/Ö/g, 'OE').replace(/Ü/g, 'UE')
+    .normalize('NFD').replace(/[\u0300-\u036f]/g, '')
+    .trim();
+}
+
+// How well an aerodrome matches, lower is better, undefined when it doesn't
+function matchRank(aerodrome: Aerodrome, query: string): number | undefined {
+  if (aerodrome.icao === query) return 0;
+  if (aerodrome.icao?.startsWith(query)) return 1;
+  if (aerodrome.name.split(/[ /-]/).some((word) => word.startsWith(query))) return 2;
+  if (aerodrome.name.includes(query)) return 3;
+  return undefined;
+}
+
+// Indicator matches in indicator order, name matches by name
+function sortKey({ aerodrome, rank }: { aerodrome: Aerodrome; rank: number }): string {
+  return rank <= 1 && aerodrome.icao ? aerodrome.icao : aerodrome.name;
+}
+
+// Aerodromes for an ICAO indicator or (part of) a name, best matches first.
+// ZZZZ lists the aerodromes without an indicator.
+export function searchAerodromes(query: string, limit = 10): Aerodrome[] {
+  const normalized = normalizeName(query);
+  if (!normalized) return [];
+  if (normalized === 'ZZZZ') return AERODROMES.filter((aerodrome) => !aerodrome.icao).slice(0, limit);
+
+  return AERODROMES
+    .map((aerodrome) => ({ aerodrome, rank: matchRank(aerodrome, normalized) }))
+    .filter((match): match is { aerodrome: Aerodrome; rank: number } => match.rank !== undefined)
+    .sort((a, b) => a.rank - b.rank || sortKey(a).localeCompare(sortKey(b)))
+    .slice(0, limit)
+    .map((match) => match.aerodrome);
+}
+
+// "5230N00445E" or "523015N0044520E" in a Field 18 entry -> position
+function parseCoordinates(text: string): Position | undefined {
+  const match = text.match(/\b(\d{2})(\d{2})(\d{2})?([NS])(\d{3})(\d{2})(\d{2})?([EW])\b/);
+  if (!match) return undefined;
+  const lat = parseInt(match[1]) + parseInt(match[2]) / 60 + parseInt(match[3] || '0') / 3600;
+  const lng = parseInt(match[5]) + parseInt(match[6]) / 60 + parseInt(match[7] || '0') / 3600;
+  return { lat: match[4] === 'S' ? -lat : lat, lng: match[8] === 'W' ? -lng : lng };
+}
+
+// Position of an aerodrome, ZZZZ from the Field 18 entry (DEP, DEST, ALTN) that describes it
+export function getAerodromePosition(code: string, flOther = '', field18Key?: string): Position | undefined {
+  const location = code.trim().toUpperCase();
+  if (location === 'ZZZZ') {
+    if (!field18Key) return undefined;
+    const entry = flOther.match(new RegExp(`\\b${field18Key}/(.*?)(?=\\s+[A-Z0-9]+/|$)`));
+    return entry ? parseCoordinates(entry[1]) : undefined;
+  }
+  const aerodrome = AERODROMES_BY_ICAO.get(location);
+  return aerodrome && { lat: aerodrome.lat, lng: aerodrome.lng };
+}
@@ -0,0 +1,61 @@
+import { FieldWarning, FlightPlanFormData } from '../types';
+import { getAerodromePosition } from './aerodromes';
+import { isVfrAt } from './met';
+import { parseEobdt } from './route';
+import { getSunTimes } from './sun';
+
+// SERA: night is from the end of evening civil twilight to the beginning of
+// morning civil twilight. VFR at night needs an approval, which goes in Field 18.
+
+export const NIGHT_VFR_REMARK = 'RMK/NIGHT VFR APPROVED';
+
+// Field 18 already says the flight may be VFR at night: a night VFR remark,
+// or a status that comes with its own rules
+function hasNightVfrNote(flOther = ''): boolean {
+  return /\bRMK\/.*\b(NVFR|NIGHT VFR)\b/.test(flOther) || /\bSTS\/.*\b(HOSP|MEDEVAC|SAR)\b/.test(flOther);
+}
+
+// "0905Z"
+function formatTime(iso: string): string {
+  return `${iso.slice(11, 13)}${iso.slice(14, 16)}Z`;
+}
+
+// Message when `time` is at night at the position, undefined in daylight or
+// where civil twilight doesn't begin or end that day
+function describeNight(time: Date, lat: number, lng: number): string | undefined {
+  const { civilDawn, civilDusk } = getSunTimes(time, lat, lng);
+  if (!civilDawn || !civilDusk) return undefined;
+  if (time < new Date(civilDawn)) return `before civil twilight begins (${formatTime(civilDawn)})`;
+  if (time > new Date(civilDusk)) return `after civil twilight ends (${formatTime(civilDusk)})`;
+  return undefined;
+}
+
+// Warnings for the VFR part of a flight that departs or arrives at night.
+// Aerodromes without a known position are not checked.
+export function getDaylightWarnings(formData: Pick<FlightPlanFormData, 'flRules' | 'adep' | 'ades' | 'eobdt' | 'totalEet' | 'flOther'>): FieldWarning[] {
+  if (!formData.eobdt || hasNightVfrNote(formData.flOther)) return [];
+  const eobt = parseEobdt(formData.eobdt);
+  if (isNaN(eobt.getTime())) return [];
+  const eta = new Date(eobt.getTime() + (formData.totalEet || 0) * 60 * 1000);
+
+  const checks = [
+    { field: 'F13b', role: 'departure' as const, label: 'Departure from', code: formData.adep, key: 'DEP', time: eobt },
+    { field: 'F16b', role: 'destination' as const, label: 'Arrival at', code: formData.ades, key: 'DEST', time: eta },
+  ];
+
+  const warnings: FieldWarning[] = [];
+  for (const { field, role, label, code, key, time } of checks) {
+    if (!code || !isVfrAt(formData.flRules, [role])) continue;
+    const position = getAerodromePosition(code, formData.flOther, key);
+    const night = position && describeNight(time, position.lat, position.lng);
+    if (!night) continue;
+
+    warnings.push({
+      field,
+      message: `${label} ${code.toUpperCase()} at ${formatTime(time.toISOString())} is ${night}. VFR at night needs an approval, `
+        + `note it in Field 18 (${NIGHT_VFR_REMARK}), or use STS/ for a HOSP, MEDEVAC or SAR flight.`,
+      suggestions: [NIGHT_VFR_REMARK],
+    });
+  }
+  return warnings;
+}
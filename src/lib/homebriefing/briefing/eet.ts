@@ -0,0 +1,146 @@
+import { EetLeg, EetResponse, FirBoundaryEet, RouteMapPoint } from '../types';
+import { RouteElement } from '../route-parser';
+import { findFir } from './fir';
+
+// EETs from the route map: great-circle legs at the cruising speed (changed where
+// the route says POINT/N0105A025), minus the headwind. Climb, descent and the
+// wind changing along the route aren't modelled, it's a starting point for the
+// pilot's own figures.
+
+const EARTH_RADIUS_NM = 3440.065;
+const MACH_KNOTS = 573;           // Speed of sound at the tropopause (ISA), for M082 speeds
+const BOUNDARY_STEP_NM = 2;       // Sampling along a leg to find FIR boundary crossings
+
+type Position = Pick<RouteMapPoint, 'lat' | 'lng'>;
+
+const toRad = (degrees: number) => (degrees * Math.PI) / 180;
+
+export function getDistanceNm(from: Position, to: Position): number {
+  const dLat = toRad(to.lat - from.lat);
+  const dLng = toRad(to.lng - from.lng);
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(from.lat)) * Math.cos(toRad(to.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_NM * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+// Initial great-circle track, degrees true
+function getTrack(from: Position, to: Position): number {
+  const dLng = toRad(to.lng - from.lng);
+  const y = Math.sin(dLng) * Math.cos(toRad(to.lat));
+  const x = Math.cos(toRad(from.lat)) * Math.sin(toRad(to.lat)) - Math.sin(toRad(from.lat)) * Math.cos(toRad(to.lat)) * Math.cos(dLng);
+  return ((Math.atan2(y, x) * 180) / Math.PI + 360) % 360;
+}
+
+// Field 15 cruising speed in knots: N0105, K0200 (km/h) or M082
+export function parseCruisingSpeed(flSpeed?: string): number | undefined {
+  const match = (flSpeed || '').trim().toUpperCase().match(/^(N|K)(\d{4})$|^M(\d{3})$/);
+  if (!match) return undefined;
+  if (match[3]) return Math.round((parseInt(match[3]) / 100) * MACH_KNOTS);
+  const speed = parseInt(match[2]);
+  return match[1] === 'K' ? Math.round(speed / 1.852) : speed;
+}
+
+// "EHAA" and 40 minutes -> "EHAA0040"
+function formatFirEet({ fir, eet }: FirBoundaryEet): string {
+  return `${fir}${String(Math.floor(eet / 60)).padStart(2, '0')}${String(eet % 60).padStart(2, '0')}`;
+}
+
+// Along a short leg a straight line in latitude/longitude is close enough to the great circle
+function interpolate(from: Position, to: Position, fraction: number): Position {
+  return { lat: from.lat + (to.lat - from.lat) * fraction, lng: from.lng + (to.lng - from.lng) * fraction };
+}
+
+function firAt(position: Position): string | undefined {
+  return findFir(position.lat, position.lng)?.id;
+}
+
+// Fractions of the leg where the FIR changes, with the FIR after the change
+function findCrossings(from: Position, to: Position, distance: number): { fraction: number; fir: string | undefined }[] {
+  const crossings: { fraction: number; fir: string | undefined }[] = [];
+  const steps = Math.max(1, Math.ceil(distance / BOUNDARY_STEP_NM));
+  let previous = firAt(from);
+
+  for (let step = 1; step <= steps; step++) {
+    const fir = firAt(interpolate(from, to, step / steps));
+    if (fir === previous) continue;
+
+    // Narrow the crossing down to well under a minute of flying
+    let low = (step - 1) / steps;
+    let high = step / steps;
+    for (let i = 0; i < 16; i++) {
+      const middle = (low + high) / 2;
+      if (firAt(interpolate(from, to, middle)) === previous) low = middle;
+      else high = middle;
+    }
+    crossings.push({ fraction: high, fir });
+    previous = fir;
+  }
+  return crossings;
+}
+
+export function computeEet(
+  points: RouteMapPoint[],
+  elements: RouteElement[],
+  flSpeed: string | undefined,
+  headwind = 0,
+  unresolved: string[] = []
+): Omit<EetResponse, 'isError'> {
+  const empty = { legs: [], firEets: [] };
+  let trueAirspeed = parseCruisingSpeed(flSpeed);
+  if (!trueAirspeed) {
+    return { ...empty, errorMessage: 'Enter the cruising speed (e.g. N0105) to calculate the EET', warnings: [] };
+  }
+  const departure = points[0];
+  const destination = points[points.length - 1];
+  if (!departure?.roles?.includes('departure') || !destination?.roles?.includes('destination')) {
+    return { ...empty, errorMessage: 'The position of the departure and destination must be known to calculate the EET', warnings: [] };
+  }
+
+  const warnings = unresolved.length > 0
+    ? [`${unresolved.join(', ')} could not be placed, the legs go straight past ${unresolved.length > 1 ? 'them' : 'it'}`]
+    : [];
+
+  const legs: EetLeg[] = [];
+  const firEets: FirBoundaryEet[] = [];
+  let elapsed = 0;
+  let leftKnownFirs = false;
+
+  for (let i = 1; i < points.length; i++) {
+    const from = points[i - 1];
+    const to = points[i];
+
+    // A speed change applies from its point on
+    const change = from.index !== undefined ? parseCruisingSpeed(elements[from.index]?.speed) : undefined;
+    if (change) trueAirspeed = change;
+
+    const groundSpeed = trueAirspeed - headwind;
+    if (groundSpeed <= 0) {
+      return { ...empty, errorMessage: `A headwind of ${headwind} kt leaves no ground speed at ${trueAirspeed} kt`, warnings };
+    }
+
+    const distance = getDistanceNm(from, to);
+    const minutes = (distance / groundSpeed) * 60;
+
+    for (const crossing of findCrossings(from, to, distance)) {
+      if (crossing.fir) {
+        firEets.push({ fir: crossing.fir, eet: Math.round(elapsed + minutes * crossing.fraction) });
+      } else {
+        leftKnownFirs = true;
+      }
+    }
+
+    legs.push({ from: from.name, to: to.name, distance, track: getTrack(from, to), groundSpeed, minutes });
+    elapsed += minutes;
+  }
+
+  if (leftKnownFirs) {
+    warnings.push('The route leaves the FIRs with a known boundary (EHAA, EBBU), add the EET for other FIRs yourself');
+  }
+
+  return {
+    legs,
+    totalEet: Math.max(1, Math.ceil(elapsed)),
+    firEets,
+    field18Eet: firEets.length > 0 ? firEets.map(formatFirEet).join(' ') : undefined,
+    warnings,
+  };
+}
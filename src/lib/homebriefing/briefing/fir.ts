@@ -0,0 +1,93 @@
+// Outlines of the Amsterdam and Brussels FIRs for the route map and the FIR
+// boundary EETs, simplified to a few NM: the land borders and the sea boundaries
+// with London. Good for a minute of EET, not a substitute for the AIP.
+
+export interface FirOutline {
+  id: string;
+  name: string;
+  points: [number, number][];   // [lat, lng], decimal degrees, closed implicitly
+}
+
+// Dutch-Belgian border from the coast to Vaals, shared by both outlines
+const NL_BE_BORDER: [number, number][] = [
+  [51.37, 3.37],
+  [51.25, 3.50],
+  [51.30, 3.80],
+  [51.37, 4.25],
+  [51.48, 4.50],
+  [51.44, 4.93],
+  [51.30, 5.10],
+  [51.25, 5.55],
+  [51.15, 5.84],
+  [51.00, 5.77],
+  [50.75, 5.70],
+  [50.75, 6.02],
+];
+
+export const FIR_OUTLINES: FirOutline[] = [
+  {
+    id: 'EHAA',
+    name: 'AMSTERDAM',
+    points: [
+      ...NL_BE_BORDER,
+      // German border, south to north
+      [51.05, 6.10],
+      [51.23, 6.20],
+      [51.37, 6.22],
+      [51.70, 6.02],
+      [51.78, 6.00],
+      [51.85, 6.10],
+      [51.85, 6.50],
+      [51.97, 6.83],
+      [52.22, 7.05],
+      [52.38, 7.05],
+      [52.66, 6.75],
+      [52.90, 7.20],
+      [53.30, 7.20],
+      // North Sea
+      [53.67, 6.50],
+      [55.00, 6.50],
+      [55.00, 5.00],
+      [52.50, 3.00],
+      [51.50, 2.00],
+    ],
+  },
+  {
+    id: 'EBBU',
+    name: 'BRUSSELS',
+    points: [
+      ...[...NL_BE_BORDER].reverse(),
+      [51.50, 2.00],
+      [51.25, 2.00],
+      [51.09, 2.55],
+      // French border, west to east
+      [50.80, 2.60],
+      [50.70, 3.20],
+      [50.30, 4.15],
+      [50.15, 4.20],
+      [49.80, 4.85],
+      [49.55, 5.40],
+      [49.50, 5.80],
+      // Luxembourg and the German border, south to north
+      [49.45, 6.37],
+      [50.13, 6.13],
+      [50.40, 6.40],
+    ],
+  },
+];
+
+// FIR of a position, undefined outside the outlines above
+export function findFir(lat: number, lng: number): FirOutline | undefined {
+  return FIR_OUTLINES.find(({ points }) => {
+    // Ray casting towards the east
+    let inside = false;
+    for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+      const [latI, lngI] = points[i];
+      const [latJ, lngJ] = points[j];
+      if ((latI > lat) !== (latJ > lat) && lng < lngI + ((lat - latI) / (latJ - latI)) * (lngJ - lngI)) {
+        inside = !inside;
+      }
+    }
+    return inside;
+  });
+}
@@ -0,0 +1,11 @@
+export * from './notam';
+export * from './route';
+export * from './methods';
+export * from './met';
+export * from './sun';
+export * from './pack';
+export * from './aerodromes';
+export * from './daylight';
+export * from './route-map';
+export * from './eet';
+export * from './fir';
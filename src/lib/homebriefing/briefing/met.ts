@@ -0,0 +1,297 @@
+import { BriefingRole, DecodedMetar, DecodedTaf, MetCloud, MetConditions, TafPeriod } from '../types';
+
+// METAR and TAF decoding (ICAO Annex 3 format as sent by Homebriefing) and the
+// VFR minima check. Groups the decoder doesn't know (RVR, runway state, TX/TN,
+// remarks) are skipped, the raw message is always shown next to the decoded one.
+
+// SERA.5005(b): VFR take-off and landing in a control zone needs 5 km ground
+// visibility and a ceiling of at least 1500 ft. Used for every aerodrome.
+export const VFR_MIN_VISIBILITY = 5000;
+export const VFR_MIN_CEILING = 1500;
+
+const WEATHER_REGEX = /^(\+|-|VC)?(MI|PR|BC|DR|BL|SH|TS|FZ)?((DZ|RA|SN|SG|IC|PL|GR|GS|UP|BR|FG|FU|VA|DU|SA|HZ|PY|PO|SQ|FC|SS|DS)+)?$/;
+
+// Day/hour/minute of a report -> ISO string, in the month closest to `reference`
+function resolveTime(day: number, hour: number, minute: number, reference: Date): string | undefined {
+  if (day < 1 || day > 31 || hour > 24 || minute > 59) return undefined;
+  const candidates = [-1, 0, 1].map((offset) =>
+    new Date(Date.UTC(reference.getUTCFullYear(), reference.getUTCMonth() + offset, day, hour, minute))
+  );
+  const closest = candidates.reduce((best, date) =>
+    Math.abs(date.getTime() - reference.getTime()) < Math.abs(best.getTime() - reference.getTime()) ? date : best
+  );
+  return closest.toISOString();
+}
+
+// "DDHH/DDHH" -> from/to
+function parsePeriod(token: string, reference: Date): { from?: string; to?: string } | undefined {
+  const match = token.match(/^(\d{2})(\d{2})\/(\d{2})(\d{2})$/);
+  if (!match) return undefined;
+  const from = resolveTime(parseInt(match[1]), parseInt(match[2]), 0, reference);
+  // The end may fall in the next month (3024/0106)
+  const to = resolveTime(parseInt(match[3]), parseInt(match[4]), 0, from ? new Date(from) : reference);
+  return { from, to };
+}
+
+// Statute miles -> metres, "P6SM" is more than 6 SM, "1+1/2SM" see tokenize()
+function parseStatuteMiles(token: string): number | undefined {
+  const match = token.match(/^(P)?(\d+)?\+?(?:(\d)\/(\d))?SM$/);
+  if (!match || (!match[2] && !match[3])) return undefined;
+  if (match[1]) return 9999;
+  const miles = parseInt(match[2] || '0') + (match[3] ? parseInt(match[3]) / parseInt(match[4]) : 0);
+  return Math.min(9999, Math.round(miles * 1609.344));
+}
+
+function parseTemperature(value: string): number {
+  return value.startsWith('M') ? -parseInt(value.slice(1)) : parseInt(value);
+}
+
+function emptyConditions(): MetConditions {
+  return { cavok: false, weather: [], clouds: [] };
+}
+
+// Read one wind/visibility/weather/cloud group into `conditions`, false when it isn't one
+function readConditionGroup(token: string, conditions: MetConditions): boolean {
+  const wind = token.match(/^(\d{3}|VRB)(\d{2,3})(?:G(\d{2,3}))?(KT|MPS)$/);
+  if (wind) {
+    conditions.wind = {
+      direction: wind[1] === 'VRB' ? undefined : parseInt(wind[1]),
+      variable: wind[1] === 'VRB',
+      speed: parseInt(wind[2]),
+      gust: wind[3] ? parseInt(wind[3]) : undefined,
+      unit: wind[4] as 'KT' | 'MPS',
+    };
+    return true;
+  }
+  if (/^\d{3}V\d{3}$/.test(token)) return true;   // Variable wind direction range
+
+  if (token === 'CAVOK') {
+    conditions.cavok = true;
+    conditions.visibility = 9999;
+    return true;
+  }
+  // Prevailing visibility, the first one wins over directional minima (4000NE)
+  if (/^\d{4}$/.test(token)) {
+    if (conditions.visibility === undefined) conditions.visibility = parseInt(token);
+    return true;
+  }
+  if (/^\d{4}(N|NE|E|SE|S|SW|W|NW)$/.test(token) || /^\d{4}NDV$/.test(token)) {
+    if (conditions.visibility === undefined) conditions.visibility = parseInt(token.slice(0, 4));
+    return true;
+  }
+  const miles = parseStatuteMiles(token);
+  if (miles !== undefined) {
+    conditions.visibility = miles;
+    return true;
+  }
+
+  const cloud = token.match(/^(FEW|SCT|BKN|OVC|VV)(\d{3}|\/\/\/)(CB|TCU|\/\/\/)?$/);
+  if (cloud) {
+    const layer: MetCloud = { cover: cloud[1] };
+    if (cloud[2] !== '///') layer.height = parseInt(cloud[2]) * 100;
+    if (cloud[3] && cloud[3] !== '///') layer.type = cloud[3];
+    conditions.clouds.push(layer);
+    return true;
+  }
+  if (/^(NSC|SKC|CLR|NCD)$/.test(token)) return true;
+  if (token === 'NSW') return true;
+
+  if (token.length >= 2 && WEATHER_REGEX.test(token) && token !== 'VC') {
+    conditions.weather.push(token);
+    return true;
+  }
+  return false;
+}
+
+function setCeiling(conditions: MetConditions): void {
+  const heights = conditions.clouds
+    .filter((cloud) => (cloud.cover === 'BKN' || cloud.cover === 'OVC' || cloud.cover === 'VV') && cloud.height !== undefined)
+    .map((cloud) => cloud.height as number);
+  conditions.ceiling = heights.length > 0 ? Math.min(...heights) : undefined;
+}
+
+// Split into groups, keeping mixed statute miles ("1 1/2SM") together as "1+1/2SM"
+function tokenize(raw: string): string[] {
+  return raw.replace(/=\s*$/, '').replace(/\b(\d) (\d\/\dSM)\b/g, '$1+$2').trim().split(/\s+/).filter(Boolean);
+}
+
+// Decode a METAR or SPECI, undefined when it has no station
+export function decodeMetar(raw: string, reference = new Date()): DecodedMetar | undefined {
+  const tokens = tokenize(raw);
+  let i = 0;
+  while (/^(METAR|SPECI|COR|AMD)$/.test(tokens[i] || '')) i++;
+
+  const station = tokens[i++];
+  if (!station || !/^[A-Z]{4}$/.test(station)) return undefined;
+
+  const metar: DecodedMetar = { station, ...emptyConditions() };
+  const time = (tokens[i] || '').match(/^(\d{2})(\d{2})(\d{2})Z$/);
+  if (time) {
+    metar.observed = resolveTime(parseInt(time[1]), parseInt(time[2]), parseInt(time[3]), reference);
+    i++;
+  }
+
+  for (; i < tokens.length; i++) {
+    const token = tokens[i];
+    // Trend forecast and remarks are not part of the observation
+    if (/^(RMK|BECMG|TEMPO|NOSIG)$/.test(token)) break;
+    if (token === 'AUTO' || token === 'NIL') continue;
+    if (readConditionGroup(token, metar)) continue;
+
+    const temperature = token.match(/^(M?\d{2})\/(M?\d{2})?$/);
+    if (temperature) {
+      metar.temperature = parseTemperature(temperature[1]);
+      metar.dewpoint = temperature[2] ? parseTemperature(temperature[2]) : undefined;
+      continue;
+    }
+    const qnh = token.match(/^([QA])(\d{4})$/);
+    if (qnh) {
+      // A: inches of mercury in hundredths
+      metar.qnh = qnh[1] === 'Q' ? parseInt(qnh[2]) : Math.round(parseInt(qnh[2]) * 0.338639);
+    }
+  }
+
+  setCeiling(metar);
+  return metar;
+}
+
+// Decode a TAF into its base forecast and change groups, undefined when it has no station
+export function decodeTaf(raw: string, reference = new Date()): DecodedTaf | undefined {
+  const tokens = tokenize(raw);
+  let i = 0;
+  while (/^(TAF|AMD|COR)$/.test(tokens[i] || '')) i++;
+
+  const station = tokens[i++];
+  if (!station || !/^[A-Z]{4}$/.test(station)) return undefined;
+
+  const taf: DecodedTaf = { station, periods: [] };
+  const issued = (tokens[i] || '').match(/^(\d{2})(\d{2})(\d{2})Z$/);
+  if (issued) {
+    taf.issued = resolveTime(parseInt(issued[1]), parseInt(issued[2]), parseInt(issued[3]), reference);
+    i++;
+  }
+  const validity = parsePeriod(tokens[i] || '', taf.issued ? new Date(taf.issued) : reference);
+  if (validity) {
+    taf.validFrom = validity.from;
+    taf.validTo = validity.to;
+    i++;
+  }
+  const periodReference = taf.validFrom ? new Date(taf.validFrom) : reference;
+
+  let period: TafPeriod = { change: 'BASE', tempo: false, from: taf.validFrom, to: taf.validTo, ...emptyConditions() };
+  const finish = () => {
+    setCeiling(period);
+    taf.periods.push(period);
+  };
+
+  for (; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (token === 'RMK') break;
+
+    const fm = token.match(/^FM(\d{2})(\d{2})(\d{2})$/);
+    const prob = token.match(/^PROB(\d{2})$/);
+    if (fm || prob || token === 'BECMG' || token === 'TEMPO') {
+      finish();
+      if (fm) {
+        period = { change: 'FM', tempo: false, from: resolveTime(parseInt(fm[1]), parseInt(fm[2]), parseInt(fm[3]), periodReference), to: taf.validTo, ...emptyConditions() };
+        continue;
+      }
+      period = { change: prob ? 'PROB' : token as 'BECMG' | 'TEMPO', tempo: token === 'TEMPO', ...emptyConditions() };
+      if (prob) {
+        period.probability = parseInt(prob[1]);
+        if (tokens[i + 1] === 'TEMPO') {
+          period.tempo = true;
+          i++;
+        }
+      }
+      const range = parsePeriod(tokens[i + 1] || '', periodReference);
+      if (range) {
+        period.from = range.from;
+        period.to = range.to;
+        i++;
+      }
+      continue;
+    }
+
+    readConditionGroup(token, period);
+  }
+
+  finish();
+
+  // The base forecast and FM groups last until the next FM group
+  const fmStarts = taf.periods.filter((p) => p.change === 'FM').map((p) => p.from);
+  taf.periods.forEach((p) => {
+    if (p.change !== 'BASE' && p.change !== 'FM') return;
+    const next = fmStarts.find((start) => start && p.from && start > p.from) ?? (p.change === 'BASE' ? fmStarts[0] : undefined);
+    if (next) p.to = next;
+  });
+  return taf;
+}
+
+// Which aerodromes the VFR minima apply to: all of them for VFR, the departure
+// for Z (VFR first), destination and alternates for Y (VFR last)
+export function isVfrAt(flRules: string | undefined, roles: BriefingRole[]): boolean {
+  switch (flRules) {
+    case 'V':
+      return true;
+    case 'Z':
+      return roles.includes('departure');
+    case 'Y':
+      return roles.includes('destination') || roles.includes('alternate');
+    default:
+      return false;
+  }
+}
+
+// What is below VFR minima in these conditions, e.g. ["visibility 3000 m"]
+export function getVfrMinimaIssues(conditions: MetConditions): string[] {
+  const issues: string[] = [];
+  if (conditions.visibility !== undefined && conditions.visibility < VFR_MIN_VISIBILITY) {
+    issues.push(`visibility ${conditions.visibility} m`);
+  }
+  if (conditions.ceiling !== undefined && conditions.ceiling < VFR_MIN_CEILING) {
+    issues.push(`ceiling ${conditions.ceiling} ft`);
+  }
+  return issues;
+}
+
+// ISO -> "DDHH"
+function formatDayHour(iso?: string): string {
+  return iso ? `${iso.slice(8, 10)}${iso.slice(11, 13)}` : '';
+}
+
+function describePeriod(period: TafPeriod): string {
+  const change = period.change === 'PROB'
+    ? `PROB${period.probability}${period.tempo ? ' TEMPO' : ''}`
+    : period.change === 'BASE' ? '' : period.change;
+  const range = period.change === 'FM' ? formatDayHour(period.from) : `${formatDayHour(period.from)}/${formatDayHour(period.to)}`;
+  return ['TAF', change, range].filter(Boolean).join(' ');
+}
+
+// Conditions below VFR minima: the METAR when the aerodrome is used within the
+// next hours, and TAF periods overlapping the time window the aerodrome is used in
+export function checkVfrMinima(
+  metar: DecodedMetar | undefined,
+  taf: DecodedTaf | undefined,
+  from: Date,
+  to: Date
+): string[] {
+  const warnings: string[] = [];
+  const minima = `minimum ${VFR_MIN_VISIBILITY} m visibility, ${VFR_MIN_CEILING} ft ceiling`;
+
+  // A METAR says little about conditions more than a few hours ahead
+  if (metar && from.getTime() - Date.now() < 3 * 60 * 60 * 1000) {
+    const issues = getVfrMinimaIssues(metar);
+    if (issues.length > 0) warnings.push(`METAR: ${issues.join(', ')} (${minima})`);
+  }
+
+  for (const period of taf?.periods ?? []) {
+    const start = period.from ? new Date(period.from).getTime() : -Infinity;
+    const end = period.to ? new Date(period.to).getTime() : Infinity;
+    if (start > to.getTime() || end < from.getTime()) continue;
+
+    const issues = getVfrMinimaIssues(period);
+    if (issues.length > 0) warnings.push(`${describePeriod(period)}: ${issues.join(', ')} (${minima})`);
+  }
+  return warnings;
+}
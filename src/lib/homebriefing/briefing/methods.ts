@@ -0,0 +1,100 @@
+import { SoapResult, XmlElement, list, text, optionalText, textList } from '../soap';
+import { ParsedNotam, parseNotam } from './notam';
+import { Area, RoutePoint } from './route';
+
+// Briefing data comes from dataHandler.php, not from the SOAP service. A method
+// is POSTed as ?method=<name>&<params> (like AWDataHandler.callMethodWithCallback
+// in the reference client) and answered with an XML document that holds a
+// <${name}Result> element.
+export interface DataHandlerMethod<TParams, TResult extends SoapResult> {
+  name: string;
+  params: (params: TParams) => Record<string, string>;
+  response: (result: XmlElement) => TResult;
+  empty: Omit<TResult, keyof SoapResult>;         // Result data when the call failed
+}
+
+export function defineDataHandlerMethod<TParams, TResult extends SoapResult>(
+  method: DataHandlerMethod<TParams, TResult>
+): DataHandlerMethod<TParams, TResult> {
+  return method;
+}
+
+export interface NotamListResult extends SoapResult {
+  notams: ParsedNotam[];
+}
+
+export interface RoutePointsResult extends SoapResult {
+  points: RoutePoint[];
+  messages: string[];         // Remarks on the route, e.g. unknown points
+}
+
+// <AdNotam> entries, code and description are HTML snippets
+const adNotamSchema = {
+  code: text('code'),
+  status: optionalText('status'),
+  description: text('description'),
+};
+
+function readNotams(result: XmlElement): NotamListResult {
+  return {
+    isError: false,
+    notams: list('AdNotam', adNotamSchema)(result).map((n) => parseNotam(n.description, n.code, n.status)),
+  };
+}
+
+// Coordinates are passed in arc seconds
+function toArcSeconds(degrees: number): string {
+  return String(Math.floor(degrees * 60 * 60));
+}
+
+export const getNotamsForArpMethod = defineDataHandlerMethod<{ code: string; date: Date }, NotamListResult>({
+  name: 'getNotamsForArp',
+  params: ({ code, date }) => ({ aDate: date.toISOString(), aArpCode: code }),
+  response: readNotams,
+  empty: { notams: [] },
+});
+
+export const getNotamsFromRectangleMethod = defineDataHandlerMethod<
+  { area: Area; date: Date; flDown: number; flUp: number },
+  NotamListResult
+>({
+  name: 'getNotamsFromRectangle',
+  params: ({ area, date, flDown, flUp }) => ({
+    aDateTime: date.toISOString(),
+    flDwn: String(flDown),
+    flUp: String(flUp),
+    lat1: toArcSeconds(area.south),
+    lng1: toArcSeconds(area.west),
+    lat2: toArcSeconds(area.north),
+    lng2: toArcSeconds(area.east),
+  }),
+  response: readNotams,
+  empty: { notams: [] },
+});
+
+// <FplPoint> entries with decimal degrees, points Homebriefing can't place have type UNKNOWN
+const fplPointSchema = {
+  name: text('name'),
+  type: text('type'),
+  lat: text('lat'),
+  lng: text('lng'),
+};
+
+export const getPointsForFplMethod = defineDataHandlerMethod<{ adexp: string }, RoutePointsResult>({
+  name: 'getPointsForFpl',
+  params: ({ adexp }) => ({ Fpl: adexp }),
+  response: (result) => {
+    const points = list('FplPoint', fplPointSchema)(result)
+      .filter((p) => p.type !== 'UNKNOWN' && p.lat && p.lng)
+      .map((p) => ({ name: p.name, type: p.type, lat: parseFloat(p.lat), lng: parseFloat(p.lng) }))
+      .filter((p) => !isNaN(p.lat) && !isNaN(p.lng));
+    const error = result.attributes.Error;
+    return {
+      isError: !!error,
+      errorMessage: error || undefined,
+      points,
+      messages: textList('Message')(result),
+    };
+  },
+  empty: { points: [], messages: [] },
+});
@@ -0,0 +1,79 @@
+import { Notam, NotamValidity } from '../types';
+
+// NOTAM text handling. Homebriefing delivers each NOTAM as an HTML snippet with
+// the ICAO items (Q) A) B) C) D) E) F) G)), validity is read from B) and C).
+
+export type ParsedNotam = Omit<Notam, 'validity'>;
+
+const HTML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+};
+
+// HTML snippet -> plain text, line breaks kept
+export function htmlToText(html: string): string {
+  return html
+    .replace(/<br\s*\/?>|<\/(p|div|li|tr)>/gi, '\n')
+    .replace(/<[^>]*>/g, '')
+    .replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, ref: string) => {
+      if (ref[0] === '#') {
+        const code = ref[1] === 'x' || ref[1] === 'X' ? parseInt(ref.slice(2), 16) : parseInt(ref.slice(1), 10);
+        return isNaN(code) ? entity : String.fromCodePoint(code);
+      }
+      return HTML_ENTITIES[ref.toLowerCase()] ?? entity;
+    })
+    .replace(/[ \t]+/g, ' ')
+    .replace(/ *\n */g, '\n')
+    .trim();
+}
+
+// NOTAM date/time group YYMMDDHHMM (UTC) -> ISO string
+export function parseNotamDate(value: string): string | undefined {
+  const match = value.match(/^(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})$/);
+  if (!match) return undefined;
+  const [, yy, mm, dd, hh, mi] = match;
+  const date = new Date(Date.UTC(2000 + parseInt(yy), parseInt(mm) - 1, parseInt(dd), parseInt(hh), parseInt(mi)));
+  return isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+// Text of one item, up to the next item letter
+function getItem(text: string, item: string): string | undefined {
+  const match = text.match(new RegExp(`(?:^|\\s)${item}\\)\\s*([\\s\\S]*?)(?=\\s[A-GQ]\\)\\s|$)`));
+  return match ? match[1].trim() : undefined;
+}
+
+export function parseNotam(description: string, code = '', status?: string): ParsedNotam {
+  const raw = htmlToText(description);
+  const id = htmlToText(code) || raw.match(/\b[A-Z]\d{4}\/\d{2}\b/)?.[0] || '';
+
+  const validFrom = getItem(raw, 'B');
+  const validTo = getItem(raw, 'C') || '';
+  const permanent = /^PERM\b/.test(validTo);
+
+  return {
+    id,
+    status: status || undefined,
+    location: getItem(raw, 'A') || '',
+    validFrom: validFrom ? parseNotamDate(validFrom.slice(0, 10)) : undefined,
+    validTo: permanent ? undefined : parseNotamDate(validTo.slice(0, 10)),
+    permanent,
+    estimated: /\bEST$/.test(validTo),
+    schedule: getItem(raw, 'D'),
+    text: getItem(raw, 'E') || raw,
+    raw,
+  };
+}
+
+// Where a NOTAM falls relative to the flight (EOBT to ETA)
+export function getNotamValidity(notam: ParsedNotam, from: Date, to: Date): NotamValidity {
+  const start = notam.validFrom ? new Date(notam.validFrom).getTime() : -Infinity;
+  if (start > to.getTime()) return 'other';
+  if (notam.permanent) return 'permanent';
+
+  const end = notam.validTo ? new Date(notam.validTo).getTime() : Infinity;
+  return end < from.getTime() ? 'other' : 'flight';
+}
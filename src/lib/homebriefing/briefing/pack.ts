@@ -0,0 +1,144 @@
+import { escapeXml } from '../soap';
+import { AerodromeSunTimes, FlightMessage, FlightPlan, MetBriefingResponse, Notam, NotamBriefingResponse } from '../types';
+import { parseEobdt } from './route';
+
+// Briefing pack: everything the pilot was briefed with for one flight, as an
+// HTML document for Homebriefing's generatePdf. Kept to plain tables and <pre>
+// blocks, the PDF renderer only knows a subset of CSS.
+
+export interface BriefingPack {
+  flightPlan: FlightPlan;
+  messages: FlightMessage[];
+  notams: NotamBriefingResponse;
+  met: MetBriefingResponse;
+  sunTimes: AerodromeSunTimes[];
+  generatedAt: Date;
+}
+
+const STYLE = `
+body { font-family: Helvetica, Arial, sans-serif; font-size: 10pt; color: #1e293b; }
+h1 { font-size: 16pt; margin: 0 0 4pt 0; }
+h2 { font-size: 12pt; margin: 16pt 0 6pt 0; border-bottom: 1px solid #94a3b8; }
+h3 { font-size: 10pt; margin: 10pt 0 4pt 0; }
+table { border-collapse: collapse; width: 100%; }
+th, td { text-align: left; vertical-align: top; padding: 2pt 6pt 2pt 0; }
+th { width: 30%; font-weight: normal; color: #64748b; }
+pre { font-family: Courier, monospace; font-size: 9pt; white-space: pre-wrap; margin: 2pt 0 6pt 0; }
+.muted { color: #64748b; }
+.warning { color: #b91c1c; }
+`;
+
+function escapeHtml(value: string | number | undefined): string {
+  return escapeXml(String(value ?? ''));
+}
+
+// ISO -> "2026-10-20 0905Z"
+function formatTime(iso?: string): string {
+  if (!iso) return '-';
+  const date = new Date(iso);
+  if (isNaN(date.getTime())) return iso;
+  return `${date.toISOString().slice(0, 10)} ${date.toISOString().slice(11, 16).replace(':', '')}Z`;
+}
+
+function formatEobdt(fp: FlightPlan): string {
+  const eobt = parseEobdt(fp.eobdt);
+  return isNaN(eobt.getTime()) ? fp.eobdt : formatTime(eobt.toISOString());
+}
+
+function formatEet(minutes: number): string {
+  return `${String(Math.floor(minutes / 60)).padStart(2, '0')}${String(minutes % 60).padStart(2, '0')}`;
+}
+
+function renderRows(rows: [string, string | undefined][]): string {
+  return `<table>${rows
+    .filter(([, value]) => value)
+    .map(([label, value]) => `<tr><th>${escapeHtml(label)}</th><td>${escapeHtml(value)}</td></tr>`)
+    .join('')}</table>`;
+}
+
+function renderFlightPlan(fp: FlightPlan): string {
+  const alternates = [fp.adAltn1, fp.adAltn2].filter(Boolean).join(' ');
+  return `<h2>Flight plan</h2>${renderRows([
+    ['7 Aircraft identification', fp.arcid],
+    ['8 Flight rules / type of flight', `${fp.flRules} / ${fp.flType}`],
+    ['9 Number / type / wake turbulence', `${fp.arcNum || '1'} / ${fp.arcType} / ${fp.wakeTurbulenceCat}`],
+    ['10 Equipment', fp.equipment],
+    ['13 Departure / EOBT', `${fp.adep} / ${formatEobdt(fp)}`],
+    ['15 Speed / level', `${fp.flSpeed} / ${fp.flLevel}`],
+    ['15 Route', fp.flRoute],
+    ['16 Destination / total EET', `${fp.ades} / ${formatEet(fp.totalEet)}`],
+    ['16 Alternates', alternates],
+    ['18 Other information', fp.flOther],
+    ['19 Supplementary information', fp.flSuplementary],
+    ['Status', fp.flStatusStr],
+  ])}`;
+}
+
+function renderMessages(messages: FlightMessage[]): string {
+  if (messages.length === 0) return '<h2>AFTN messages</h2><p class="muted">No messages</p>';
+  return `<h2>AFTN messages</h2>${messages
+    .map((msg) => `<h3>${escapeHtml(msg.msgType)} ${msg.isIncome ? 'received' : 'sent'} ${escapeHtml(formatTime(msg.msgTime))}`
+      + ` <span class="muted">${escapeHtml(msg.statusDesc)}</span></h3><pre>${escapeHtml(msg.msgTxt)}</pre>`)
+    .join('')}`;
+}
+
+function renderSunTimes(sunTimes: AerodromeSunTimes[]): string {
+  if (sunTimes.length === 0) return '';
+  const rows = sunTimes.map((sun) =>
+    `<tr><td>${escapeHtml(sun.location)}</td><td>${escapeHtml(sun.date)}</td>`
+    + [sun.civilDawn, sun.sunrise, sun.sunset, sun.civilDusk].map((time) => `<td>${escapeHtml(time ? formatTime(time).slice(11) : '-')}</td>`).join('')
+    + '</tr>'
+  );
+  return '<h2>Sunrise and sunset</h2><table><tr><td>Aerodrome</td><td>Date</td><td>Civil dawn</td><td>Sunrise</td><td>Sunset</td><td>Civil dusk</td></tr>'
+    + `${rows.join('')}</table>`;
+}
+
+function renderMet(met: MetBriefingResponse): string {
+  if (met.isError) return `<h2>Weather</h2><p class="warning">${escapeHtml(met.errorMessage || 'Weather could not be loaded')}</p>`;
+  return `<h2>Weather</h2>${met.reports
+    .map((report) => `<h3>${escapeHtml(report.location)} <span class="muted">${escapeHtml(report.roles.join(', '))}</span></h3>`
+      + report.vfrWarnings.map((warning) => `<p class="warning">Below VFR minima: ${escapeHtml(warning)}</p>`).join('')
+      + (report.errorMessage ? `<p class="warning">${escapeHtml(report.errorMessage)}</p>` : '')
+      + `<pre>${escapeHtml(report.metar || 'No METAR')}</pre><pre>${escapeHtml(report.taf || 'No TAF')}</pre>`)
+    .join('')}`;
+}
+
+function renderNotam(notam: Notam): string {
+  const validity = notam.validity === 'flight' ? 'During the flight' : notam.validity === 'permanent' ? 'Permanent' : 'Outside the flight window';
+  return `<p><b>${escapeHtml(notam.id || 'NOTAM')}</b> <span class="muted">${validity}</span></p><pre>${escapeHtml(notam.raw)}</pre>`;
+}
+
+function renderNotams(notams: NotamBriefingResponse): string {
+  if (notams.isError) return `<h2>NOTAMs</h2><p class="warning">${escapeHtml(notams.errorMessage || 'NOTAMs could not be loaded')}</p>`;
+  return `<h2>NOTAMs</h2><p class="muted">Flight window ${escapeHtml(formatTime(notams.flightFrom))} - ${escapeHtml(formatTime(notams.flightTo))}</p>${notams.groups
+    .map((group) => (group.location
+      ? `<h3>${escapeHtml(group.location)} <span class="muted">${escapeHtml(group.roles.join(', '))}</span></h3>`
+      : '<h3>En route</h3>')
+      + (group.errorMessage ? `<p class="warning">${escapeHtml(group.errorMessage)}</p>` : '')
+      + (group.notams.length === 0 && !group.errorMessage ? '<p class="muted">No NOTAMs</p>' : '')
+      + group.notams.map(renderNotam).join(''))
+    .join('')}`;
+}
+
+export function getBriefingPackTitle(fp: FlightPlan): string {
+  return `Briefing ${fp.arcid} ${fp.adep}-${fp.ades} ${formatEobdt(fp)}`;
+}
+
+// "briefing-PHABC-EHLE-EHTE-20261020.pdf"
+export function getBriefingPackFileName(fp: FlightPlan): string {
+  const date = formatEobdt(fp).slice(0, 10).replace(/-/g, '');
+  return `briefing-${[fp.arcid, fp.adep, fp.ades, date].map((part) => part.replace(/[^A-Za-z0-9]/g, '')).join('-')}.pdf`;
+}
+
+export function renderBriefingPack(pack: BriefingPack): string {
+  const title = getBriefingPackTitle(pack.flightPlan);
+  return '<!DOCTYPE html><html><head><meta charset="utf-8">'
+    + `<title>${escapeHtml(title)}</title><style>${STYLE}</style></head><body>`
+    + `<h1>${escapeHtml(title)}</h1><p class="muted">Generated ${escapeHtml(formatTime(pack.generatedAt.toISOString()))}</p>`
+    + renderFlightPlan(pack.flightPlan)
+    + renderMessages(pack.messages)
+    + renderSunTimes(pack.sunTimes)
+    + renderMet(pack.met)
+    + renderNotams(pack.notams)
+    + '</body></html>';
+}
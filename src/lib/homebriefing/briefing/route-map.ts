@@ -0,0 +1,82 @@
+import { BriefingRequest, BriefingRole, RouteMapPoint, RouteMapResponse } from '../types';
+import { RouteElement, isRoutePoint } from '../route-parser';
+import { RoutePoint } from './route';
+import { Position, findAerodrome, getAerodromePosition } from './aerodromes';
+
+// Route map of a flight: aerodromes from the aerodrome database (ZZZZ from
+// Field 18), coordinates as written, named points from Homebriefing's route
+// analysis. What can't be placed is listed instead of guessed.
+
+const EARTH_RADIUS_NM = 3440.065;
+
+// Position `distance` NM from `from` on a great circle with `bearing`. Route
+// bearings are magnetic, the variation (a few degrees here) is ignored.
+function offset(from: Position, bearing: number, distance: number): Position {
+  const toRad = Math.PI / 180;
+  const angle = distance / EARTH_RADIUS_NM;
+  const lat1 = from.lat * toRad;
+  const lng1 = from.lng * toRad;
+  const course = bearing * toRad;
+  const lat2 = Math.asin(Math.sin(lat1) * Math.cos(angle) + Math.cos(lat1) * Math.sin(angle) * Math.cos(course));
+  const lng2 = lng1 + Math.atan2(
+    Math.sin(course) * Math.sin(angle) * Math.cos(lat1),
+    Math.cos(angle) - Math.sin(lat1) * Math.sin(lat2)
+  );
+  return { lat: lat2 / toRad, lng: lng2 / toRad };
+}
+
+export function getRouteMap(
+  request: BriefingRequest,
+  elements: RouteElement[],
+  analysed: RoutePoint[]
+): Omit<RouteMapResponse, 'isError'> {
+  const unresolved: string[] = [];
+
+  // Homebriefing knows navaids and fixes, the database knows aerodromes
+  const findNamed = (name: string): Position | undefined =>
+    analysed.find((p) => p.name === name) ?? findAerodrome(name);
+
+  const aerodrome = (code: string | undefined, roles: BriefingRole[], field18Key: string): RouteMapPoint | undefined => {
+    const location = (code || '').trim().toUpperCase();
+    if (!/^[A-Z]{4}$/.test(location)) return undefined;
+    const position = getAerodromePosition(location, request.flOther, field18Key)
+      ?? (location !== 'ZZZZ' ? analysed.find((p) => p.type === 'AD' && p.name === location) : undefined);
+    if (!position) {
+      unresolved.push(location === 'ZZZZ' ? `ZZZZ (${field18Key}/)` : location);
+      return undefined;
+    }
+    return { name: location, kind: 'aerodrome', lat: position.lat, lng: position.lng, roles };
+  };
+
+  const routePoint = (element: RouteElement): RouteMapPoint | undefined => {
+    // Show the point itself, not its speed/level change
+    const name = element.text.replace(/^C\//, '').split('/')[0];
+    let position: Position | undefined;
+    if (element.type === 'coordinates') {
+      position = { lat: element.lat!, lng: element.lng! };
+    } else if (element.type === 'bearing') {
+      // Placed by the route analysis, or from the navaid when that's known
+      const navaid = findNamed(element.name!);
+      position = analysed.find((p) => p.name === name) ?? (navaid && offset(navaid, element.bearing!, element.distance!));
+    } else {
+      position = findNamed(element.name!);
+    }
+    if (!position) {
+      unresolved.push(name);
+      return undefined;
+    }
+    return { name, kind: 'point', lat: position.lat, lng: position.lng, index: element.index };
+  };
+
+  const departure = aerodrome(request.adep, ['departure'], 'DEP');
+  const route = elements.filter(isRoutePoint).map(routePoint);
+  const destination = aerodrome(request.ades, ['destination'], 'DEST');
+  const alternates = [aerodrome(request.adAltn1, ['alternate'], 'ALTN'), aerodrome(request.adAltn2, ['alternate'], 'ALTN')];
+
+  const placed = (point: RouteMapPoint | undefined): point is RouteMapPoint => !!point;
+  return {
+    points: [departure, ...route, destination].filter(placed),
+    alternates: alternates.filter(placed),
+    unresolved: [...new Set(unresolved)],
+  };
+}
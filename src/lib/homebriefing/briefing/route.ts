@@ -0,0 +1,117 @@
+import { BriefingRequest, BriefingRole, FlightPlan } from '../types';
+
+// Flight geometry for the briefing: ADEXP for Homebriefing's route analysis and
+// the corridor (bounding box around the route points) used for area queries.
+
+export interface RoutePoint {
+  name: string;
+  type: string;
+  lat: number;    // Decimal degrees
+  lng: number;
+}
+
+export interface Area {
+  south: number;  // Decimal degrees
+  west: number;
+  north: number;
+  east: number;
+}
+
+export interface BriefingAerodrome {
+  location: string;
+  roles: BriefingRole[];
+}
+
+// Briefing for a filed flight plan
+export function getBriefingRequest(fp: FlightPlan): BriefingRequest {
+  return {
+    adep: fp.adep,
+    ades: fp.ades,
+    adAltn1: fp.adAltn1,
+    adAltn2: fp.adAltn2,
+    eobdt: fp.eobdt,
+    totalEet: fp.totalEet,
+    arcid: fp.arcid,
+    flRules: fp.flRules,
+    flSpeed: fp.flSpeed,
+    flLevel: fp.flLevel,
+    flRoute: fp.flRoute,
+    flOther: fp.flOther,
+  };
+}
+
+// Aerodromes of the flight, each listed once (an alternate may also be the departure)
+export function getBriefingAerodromes(request: BriefingRequest): BriefingAerodrome[] {
+  const aerodromes: BriefingAerodrome[] = [];
+  const addAerodrome = (code: string | undefined, role: BriefingRole) => {
+    const location = (code || '').trim().toUpperCase();
+    if (!/^[A-Z]{4}$/.test(location) || location === 'ZZZZ') return;
+    const existing = aerodromes.find((a) => a.location === location);
+    if (existing) {
+      if (!existing.roles.includes(role)) existing.roles.push(role);
+    } else {
+      aerodromes.push({ location, roles: [role] });
+    }
+  };
+  addAerodrome(request.adep, 'departure');
+  addAerodrome(request.ades, 'destination');
+  addAerodrome(request.adAltn1, 'alternate');
+  addAerodrome(request.adAltn2, 'alternate');
+  return aerodromes;
+}
+
+// "YYYY-MM-DD HH:mm" (form) or ISO with zone (filed plan), both UTC
+export function parseEobdt(eobdt: string): Date {
+  const hasZone = /(Z|[+-]\d{2}:?\d{2})$/.test(eobdt);
+  return new Date(hasZone ? eobdt : `${eobdt.replace(' ', 'T')}Z`);
+}
+
+function cleanStr(str?: string): string {
+  return (str || '').replace(/\s+/g, ' ').trim().toUpperCase();
+}
+
+// Minimal ADEXP flight plan, enough for getPointsForFpl to expand the route
+export function renderAdexp(request: BriefingRequest, eobt: Date): string {
+  const iso = eobt.toISOString();
+  const eet = `${String(Math.floor(request.totalEet / 60)).padStart(2, '0')}${String(request.totalEet % 60).padStart(2, '0')}`;
+  const fields: [string, string][] = [
+    ['TITLE', 'IFPL'],
+    ['ARCID', cleanStr(request.arcid) || 'ZZZZZ'],
+    ['FLTRUL', cleanStr(request.flRules) || 'V'],
+    ['ADEP', cleanStr(request.adep)],
+    ['EOBD', iso.slice(2, 10).replace(/-/g, '')],
+    ['EOBT', iso.slice(11, 16).replace(':', '')],
+    ['ADES', cleanStr(request.ades)],
+    ['TTLEET', eet],
+    ['ROUTE', `${cleanStr(request.flSpeed)}${cleanStr(request.flLevel)} ${cleanStr(request.flRoute)}`.trim()],
+  ];
+  return fields.map(([name, value]) => `-${name} ${value}`).join(' ');
+}
+
+// Upper limit in feet for area queries: cruising level plus a margin, the
+// reference client's default (22000 ft) when the level isn't a number (VFR)
+export function getUpperLimitFeet(flLevel?: string): number {
+  const match = cleanStr(flLevel).match(/^([FA])(\d{3})$|^([SM])(\d{4})$/);
+  if (!match) return 22000;
+  if (match[1]) return parseInt(match[2]) * 100 + 2000;
+  // Metric levels are in tens of metres
+  return Math.round(parseInt(match[4]) * 10 * 3.28084) + 2000;
+}
+
+// Bounding box around the route, widened by bufferNm on every side
+export function getCorridor(points: RoutePoint[], bufferNm: number): Area | undefined {
+  if (points.length === 0) return undefined;
+
+  const lats = points.map((p) => p.lat);
+  const lngs = points.map((p) => p.lng);
+  const latBuffer = bufferNm / 60;
+  const maxLat = Math.min(89, Math.max(...lats.map(Math.abs)) + latBuffer);
+  const lngBuffer = latBuffer / Math.cos((maxLat * Math.PI) / 180);
+
+  return {
+    south: Math.max(-90, Math.min(...lats) - latBuffer),
+    west: Math.max(-180, Math.min(...lngs) - lngBuffer),
+    north: Math.min(90, Math.max(...lats) + latBuffer),
+    east: Math.min(180, Math.max(...lngs) + lngBuffer),
+  };
+}
@@ -0,0 +1,51 @@
+import { SunTimes } from '../types';
+
+// Sunrise, sunset and civil twilight from the position alone, with the sunrise
+// algorithm of the Almanac for Computers (USNO). Good to a minute or two, which
+// is plenty for a pre-flight briefing.
+
+const SUNRISE_ZENITH = 90.833;    // Upper limb on the horizon, with refraction
+const CIVIL_ZENITH = 96;
+
+const toRadians = (degrees: number) => degrees * Math.PI / 180;
+const toDegrees = (radians: number) => radians * 180 / Math.PI;
+const normalize = (value: number, range: number) => ((value % range) + range) % range;
+
+// Time the sun passes `zenith` on the UTC day of `date`, undefined when it doesn't
+function getSunEvent(date: Date, lat: number, lng: number, zenith: number, rising: boolean): string | undefined {
+  const dayStart = Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+  const dayOfYear = Math.floor((dayStart - Date.UTC(date.getUTCFullYear(), 0, 1)) / 86400000) + 1;
+  const lngHour = lng / 15;
+  const t = dayOfYear + ((rising ? 6 : 18) - lngHour) / 24;
+
+  // Mean anomaly, true longitude and right ascension of the sun
+  const meanAnomaly = 0.9856 * t - 3.289;
+  const longitude = normalize(
+    meanAnomaly + 1.916 * Math.sin(toRadians(meanAnomaly)) + 0.020 * Math.sin(toRadians(2 * meanAnomaly)) + 282.634,
+    360
+  );
+  let rightAscension = normalize(toDegrees(Math.atan(0.91764 * Math.tan(toRadians(longitude)))), 360);
+  rightAscension += Math.floor(longitude / 90) * 90 - Math.floor(rightAscension / 90) * 90;
+  rightAscension /= 15;
+
+  const sinDeclination = 0.39782 * Math.sin(toRadians(longitude));
+  const cosDeclination = Math.cos(Math.asin(sinDeclination));
+  const cosHourAngle = (Math.cos(toRadians(zenith)) - sinDeclination * Math.sin(toRadians(lat)))
+    / (cosDeclination * Math.cos(toRadians(lat)));
+  if (cosHourAngle > 1 || cosHourAngle < -1) return undefined;
+
+  const hourAngle = (rising ? 360 - toDegrees(Math.acos(cosHourAngle)) : toDegrees(Math.acos(cosHourAngle))) / 15;
+  const localTime = hourAngle + rightAscension - 0.06571 * t - 6.622;
+  const utcHours = normalize(localTime - lngHour, 24);
+  return new Date(dayStart + Math.round(utcHours * 60) * 60000).toISOString();
+}
+
+// Sun times at a position on the UTC day of `date`
+export function getSunTimes(date: Date, lat: number, lng: number): SunTimes {
+  return {
+    civilDawn: getSunEvent(date, lat, lng, CIVIL_ZENITH, true),
+    sunrise: getSunEvent(date, lat, lng, SUNRISE_ZENITH, true),
+    sunset: getSunEvent(date, lat, lng, SUNRISE_ZENITH, false),
+    civilDusk: getSunEvent(date, lat, lng, CIVIL_ZENITH, false),
+  };
+}
@@ -1,40 +1,77 @@
-import { FlightPlan, FlightPlanFilters, FlightPlanListResponse, FlightMessage, FlightMessagesResponse, FlightPlanFormData, FlightPlanValidationResponse, FlightPlanSubmitResponse, FieldError, FlightPlanTemplateListResponse, FlightPlanTemplateListItem, FlightPlanTemplateResponse, FlightPlanTemplateData, SaveTemplateRequest, SaveTemplateResponse, DeleteTemplateResponse, FlightPlanActionResponse } from './types';
-
-const BASE_URL = 'https://hbs.ixosystem.eu/ixo';
-
-// Session expiry detection patterns
-const SESSION_EXPIRY_PATTERNS = [
-  /session.*expired/i,
-  /invalid.*session/i,
-  /not.*logged.*in/i,
-  /login.*required/i,
-  /authentication.*failed/i,
-  /unauthorized/i,
-];
-
-// Check if response indicates session expiry
-export function isSessionExpiredResponse(xml: string): boolean {
-  // Check for common session expiry error patterns
-  for (const pattern of SESSION_EXPIRY_PATTERNS) {
-    if (pattern.test(xml)) {
-      return true;
-    }
-  }
-
-  // Check for empty or redirect responses (often indicate session issues)
-  if (xml.includes('<!DOCTYPE html') || xml.includes('<html')) {
-    // Got HTML instead of XML - likely a login redirect
-    return true;
-  }
-
-  return false;
-}
+import { FlightPlanFilters, FlightPlanListResponse, FlightMessagesResponse, FlightPlanFormData, FlightPlanValidationResponse, FlightPlanSubmitResponse, FlightPlanTemplateListResponse, FlightPlanTemplateResponse, SaveTemplateRequest, SaveTemplateResponse, DeleteTemplateResponse, FlightPlanActionResponse, FlightPlanChanges, BriefingRequest, NotamBriefingResponse, NotamGroup, BriefingRole, MetBriefingResponse, MetMessagesResponse, MetReport, SynopStation, SynopStationListResponse, FlightPlan, PdfResponse, AerodromeSunTimes, RegulationListResponse, RouteMapResponse, EetRequest, EetResponse } from './types';
+import { parseRoute } from './route-parser';
+import { AircraftListResult, getAircraftListMethod } from './aircraft';
+import { mkdir, writeFile } from 'fs/promises';
+import path from 'path';
+import { SessionExpiredError, SoapFaultError, SoapOperation, SoapResult, XmlParseError, buildSoapEnvelope, parseSoapEnvelope, parseXml, findElement, trackLookups, findUnknownElements } from './soap';
+import {
+  getFplListOperation,
+  getFplArchiveOperation,
+  getFlMsgListOperation,
+  getERegulationByFlIdOperation,
+  checkFplValidityOperation,
+  getFlTplListOperation,
+  getFlTplOperation,
+  saveFlTplOperation,
+  sendFplToCaroOperation,
+  deleteFlTplOperation,
+  sendDlaOperation,
+  sendCnlOperation,
+  sendDepOperation,
+  sendArrOperation,
+  sendChgOperation,
+  getMetMsgOperation,
+  getSynopMsgOperation,
+  getSynopStationsOperation,
+} from './operations';
+import {
+  DataHandlerMethod,
+  NotamListResult,
+  RoutePointsResult,
+  RoutePoint,
+  Area,
+  getNotamsForArpMethod,
+  getNotamsFromRectangleMethod,
+  getPointsForFplMethod,
+  getBriefingAerodromes,
+  getCorridor,
+  getNotamValidity,
+  getUpperLimitFeet,
+  parseEobdt,
+  renderAdexp,
+  getRouteMap,
+  computeEet,
+  checkVfrMinima,
+  decodeMetar,
+  decodeTaf,
+  isVfrAt,
+  getBriefingRequest,
+  getSunTimes,
+  renderBriefingPack,
+  getBriefingPackTitle,
+  getAerodromePosition,
+  getDaylightWarnings,
+} from './briefing';
+
+export { isSessionExpiredResponse } from './soap';
+
+// HOMEBRIEFING_BASE_URL points the client at another instance, e.g. the mock server (mock/homebriefing)
+const BASE_URL = process.env.HOMEBRIEFING_BASE_URL || 'https://hbs.ixosystem.eu/ixo';
+const ORIGIN = new URL(BASE_URL).origin;
+
+// HOMEBRIEFING_RECORD_DIR saves every raw SOAP response, to capture new test fixtures
+const RECORD_DIR = process.env.HOMEBRIEFING_RECORD_DIR;
 
 interface InitLoginResult {
   cookies: string;  // Full cookie string with all cookies
   token: string;
 }
 
+interface RefreshUserInfoResult {
+  alive: boolean;
+  userInfo?: Record<string, unknown>;
+}
+
 interface LoginResult {
   success: boolean;
   cookies?: string;
@@ -87,7 +124,30 @@ function mergeCookies(existing: string, newCookies: Map<string, string>): string
     .join('; ');
 }
 
+// Half width of the route corridor searched for en-route NOTAMs
+const ROUTE_BUFFER_NM = 10;
+
+// How long the SYNOP station list is reused
+const SYNOP_STATIONS_TTL = 24 * 60 * 60 * 1000;
+
+// Save a raw response as <RECORD_DIR>/<operation>/<timestamp>.xml
+async function recordResponse(operation: string, xml: string): Promise<void> {
+  if (!RECORD_DIR) return;
+  try {
+    const dir = path.join(RECORD_DIR, operation);
+    await mkdir(dir, { recursive: true });
+    await writeFile(path.join(dir, `${new Date().toISOString().replace(/[:.]/g, '-')}.xml`), xml);
+  } catch (error) {
+    console.error(`Failed to record ${operation} response:`, error);
+  }
+}
+
 export class HomebriefingClient {
+  // Unknown response elements already reported, as "operation:element"
+  private reportedDrift: Set<string> = new Set();
+  // SYNOP stations rarely change, loaded once a day
+  private synopStations: { stations: SynopStation[]; loadedAt: number } | null = null;
+
   // Step 1: Initialize login - get session cookie and token
   async initLogin(): Promise<InitLoginResult> {
     const response = await fetch(`${BASE_URL}/login.php`, {
@@ -148,7 +208,7 @@ export class HomebriefingClient {
         'User-Agent': 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36',
         'Cookie': cookies,
         'X-AisWeb-Token': token,
-        'Origin': 'https://hbs.ixosystem.eu',
+        'Origin': ORIGIN,
       },
       body: new URLSearchParams({
         userName: username,
@@ -237,100 +297,44 @@ export class HomebriefingClient {
     };
   }
 
-  // Get current/active flight plans
-  async getCurrentFlightPlans(
-    cookies: string,
-    token: string,
-    userSession: string,
-    filters: FlightPlanFilters = {}
-  ): Promise<FlightPlanListResponse> {
-    const {
-      arcid = '',
-      adep = '',
-      ades = '',
-      flRules = 'X',
-      ownFlsOnly = false,
-      pageNumber = 0,
-      pageItems = 25,
-      orderColumn = 'COL_EOBDT',
-      orderType = 'DESC',
-      numHoursAfterETA = 3,
-    } = filters;
-
-    const soapRequest = `<?xml version="1.0" encoding="utf-8" ?>
-<soapenv:Envelope xmlns:soapenv="http://schemas.xmlsoap.org/soap/envelope/" xmlns:mob="http://mobiltech.sk/">
-  <soapenv:Body>
-    <mob:GetFPLListRequest>
-      <mob:NumHoursAfterETA>${numHoursAfterETA}</mob:NumHoursAfterETA>
-      <mob:UserSession>${userSession}</mob:UserSession>
-      <mob:PageNumber>${pageNumber}</mob:PageNumber>
-      <mob:PageItems>${pageItems}</mob:PageItems>
-      <mob:ARCID>${arcid}</mob:ARCID>
-      <mob:ADEP>${adep}</mob:ADEP>
-      <mob:ADES>${ades}</mob:ADES>
-      <mob:FlRules>${flRules}</mob:FlRules>
-      <mob:OwnFls>${ownFlsOnly}</mob:OwnFls>
-      <mob:OrderColumn>${orderColumn}</mob:OrderColumn>
-      <mob:OrderType>${orderType}</mob:OrderType>
-    </mob:GetFPLListRequest>
-  </soapenv:Body>
-</soapenv:Envelope>`;
-
-    const response = await fetch(`${BASE_URL}/ibafProvider.php`, {
+  // Ping the Homebriefing login session, like the reference client's
+  // AWDataHandler.refreshUserInfo. Homebriefing answers with the user info as
+  // JSON, a dead session is flagged with a "LoginCheck: false" header.
+  async refreshUserInfo(cookies: string, token: string): Promise<RefreshUserInfoResult> {
+    const response = await fetch(`${BASE_URL}/dataHandler.php?method=refreshUserInfo`, {
       method: 'POST',
       headers: {
-        'Content-Type': 'text/xml; charset="UTF-8"',
-        'Accept': 'application/xml, text/xml, */*; q=0.01',
+        'Accept': 'application/json, */*; q=0.01',
         'User-Agent': 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36',
         'Cookie': cookies,
         'X-AisWeb-Token': token,
         'X-Requested-With': 'XMLHttpRequest',
-        'Origin': 'https://hbs.ixosystem.eu',
+        'Origin': ORIGIN,
       },
-      body: soapRequest,
+      redirect: 'manual',
     });
 
-    const xmlText = await response.text();
-    return this.parseFlightPlansResponse(xmlText);
+    if (response.status !== 200 || response.headers.get('LoginCheck') === 'false') {
+      return { alive: false };
+    }
+
+    // An expired session may also come back as the HTML login page
+    try {
+      const userInfo = await response.json();
+      return userInfo ? { alive: true, userInfo } : { alive: false };
+    } catch {
+      return { alive: false };
+    }
   }
 
-  // Get archived flight plans
-  async getArchivedFlightPlans(
+  // Call a SOAP operation on ibafProvider.php. Session expiry and SOAP Faults are
+  // returned as error results, anything else unexpected is thrown to the caller.
+  private async call<TParams, TResult extends SoapResult>(
+    operation: SoapOperation<TParams, TResult>,
     cookies: string,
     token: string,
-    userSession: string,
-    filters: FlightPlanFilters = {}
-  ): Promise<FlightPlanListResponse> {
-    const {
-      arcid = '',
-      adep = '',
-      ades = '',
-      flRules = 'X',
-      ownFlsOnly = false,
-      pageNumber = 0,
-      pageItems = 25,
-      orderColumn = 'COL_EOBDT',
-      orderType = 'DESC',
-    } = filters;
-
-    const soapRequest = `<?xml version="1.0" encoding="utf-8" ?>
-<soapenv:Envelope xmlns:soapenv="http://schemas.xmlsoap.org/soap/envelope/" xmlns:mob="http://mobiltech.sk/">
-  <soapenv:Body>
-    <mob:GetFPLArchiveRequest>
-      <mob:UserSession>${userSession}</mob:UserSession>
-      <mob:PageNumber>${pageNumber}</mob:PageNumber>
-      <mob:PageItems>${pageItems}</mob:PageItems>
-      <mob:ARCID>${arcid}</mob:ARCID>
-      <mob:ADEP>${adep}</mob:ADEP>
-      <mob:ADES>${ades}</mob:ADES>
-      <mob:FlRules>${flRules}</mob:FlRules>
-      <mob:OwnFls>${ownFlsOnly}</mob:OwnFls>
-      <mob:OrderColumn>${orderColumn}</mob:OrderColumn>
-      <mob:OrderType>${orderType}</mob:OrderType>
-    </mob:GetFPLArchiveRequest>
-  </soapenv:Body>
-</soapenv:Envelope>`;
-
+    params: TParams
+  ): Promise<TResult> {
     const response = await fetch(`${BASE_URL}/ibafProvider.php`, {
       method: 'POST',
       headers: {
@@ -340,179 +344,149 @@ export class HomebriefingClient {
         'Cookie': cookies,
         'X-AisWeb-Token': token,
         'X-Requested-With': 'XMLHttpRequest',
-        'Origin': 'https://hbs.ixosystem.eu',
+        'Origin': ORIGIN,
       },
-      body: soapRequest,
+      body: buildSoapEnvelope(operation.name, operation.request(params)),
     });
 
     const xmlText = await response.text();
-    return this.parseFlightPlansResponse(xmlText);
+    await recordResponse(operation.name, xmlText);
+
+    try {
+      const body = parseSoapEnvelope(xmlText);
+      const { result, lookups } = trackLookups(() => operation.response(body, xmlText));
+      this.reportSchemaDrift(operation.name, findUnknownElements(body, lookups));
+      return result;
+    } catch (error) {
+      if (error instanceof SessionExpiredError) {
+        return { ...operation.empty, isError: true, sessionExpired: true } as TResult;
+      }
+      if (error instanceof SoapFaultError) {
+        console.error(`${operation.name} SOAP Fault (${error.faultCode}):`, error.message, error.detail || '');
+        return { ...operation.empty, isError: true, errorMessage: error.message } as TResult;
+      }
+      throw error;
+    }
   }
 
-  // Get flight plan messages/details
-  async getFlightPlanMessages(
+  // POST a dataHandler.php method, undefined when the Homebriefing session is gone
+  private async postDataHandler(
+    name: string,
+    params: Record<string, string>,
     cookies: string,
     token: string,
-    userSession: string,
-    flId: number
-  ): Promise<FlightMessagesResponse> {
-    const soapRequest = `<?xml version="1.0" encoding="utf-8" ?>
-<soapenv:Envelope xmlns:soapenv="http://schemas.xmlsoap.org/soap/envelope/" xmlns:mob="http://mobiltech.sk/">
-  <soapenv:Body>
-    <mob:GetFlMsgListRequest>
-      <mob:FlId>${flId}</mob:FlId>
-      <mob:UserSession>${userSession}</mob:UserSession>
-    </mob:GetFlMsgListRequest>
-  </soapenv:Body>
-</soapenv:Envelope>`;
-
-    const response = await fetch(`${BASE_URL}/ibafProvider.php`, {
+    body?: string
+  ): Promise<{ ok: boolean; status: number; text: string } | undefined> {
+    const query = new URLSearchParams({ method: name, ...params });
+    const response = await fetch(`${BASE_URL}/dataHandler.php?${query}`, {
       method: 'POST',
       headers: {
-        'Content-Type': 'text/xml; charset="UTF-8"',
+        'Content-Type': 'application/x-www-form-urlencoded; charset=UTF-8',
         'Accept': 'application/xml, text/xml, */*; q=0.01',
         'User-Agent': 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36',
         'Cookie': cookies,
         'X-AisWeb-Token': token,
         'X-Requested-With': 'XMLHttpRequest',
-        'Origin': 'https://hbs.ixosystem.eu',
+        'Origin': ORIGIN,
       },
-      body: soapRequest,
+      body,
+      redirect: 'manual',
     });
 
-    const xmlText = await response.text();
-    return this.parseFlightMessagesResponse(xmlText);
-  }
+    const text = await response.text();
+    await recordResponse(name, text);
 
-  private parseFlightMessagesResponse(xml: string): FlightMessagesResponse {
-    // Check for session expiry first
-    if (isSessionExpiredResponse(xml)) {
-      return {
-        isError: true,
-        sessionExpired: true,
-        msgCount: 0,
-        messages: [],
-      };
+    if (response.headers.get('LoginCheck') === 'false' || response.status === 302 || /^\s*<(!DOCTYPE html|html)/i.test(text)) {
+      return undefined;
     }
+    if (!response.ok) {
+      console.error(`${name} failed with HTTP ${response.status}`);
+    }
+    return { ok: response.ok, status: response.status, text };
+  }
 
-    const getTagValue = (tag: string, content: string): string => {
-      const regex = new RegExp(`<(?:ns1:)?${tag}>([^<]*)</(?:ns1:)?${tag}>`, 'i');
-      const match = content.match(regex);
-      return match ? match[1] : '';
-    };
-
-    // For MsgTxt which can contain newlines
-    const getMultilineTagValue = (tag: string, content: string): string => {
-      const regex = new RegExp(`<(?:ns1:)?${tag}>([\\s\\S]*?)</(?:ns1:)?${tag}>`, 'i');
-      const match = content.match(regex);
-      return match ? match[1] : '';
-    };
-
-    const isError = getTagValue('IsError', xml) === '1';
-    const msgCount = parseInt(getTagValue('MsgCount', xml)) || 0;
-
-    // Parse messages array - element is MsgArray
-    const messages: FlightMessage[] = [];
-    const msgArrayRegex = /<(?:ns1:)?MsgArray>([\s\S]*?)<\/(?:ns1:)?MsgArray>/gi;
-    let match;
-
-    while ((match = msgArrayRegex.exec(xml)) !== null) {
-      const msgXml = match[1];
+  // Call a method on dataHandler.php, as the reference client's
+  // AWDataHandler.callMethodWithCallback does. A dead session is flagged with a
+  // "LoginCheck: false" header or answered with the login page. The SOAP expiry
+  // patterns are not used here, NOTAM texts may well say "unauthorized".
+  private async callDataHandler<TParams, TResult extends SoapResult>(
+    method: DataHandlerMethod<TParams, TResult>,
+    cookies: string,
+    token: string,
+    params: TParams
+  ): Promise<TResult> {
+    const response = await this.postDataHandler(method.name, method.params(params), cookies, token);
+    if (!response) {
+      return { ...method.empty, isError: true, sessionExpired: true } as TResult;
+    }
+    if (!response.ok) {
+      return { ...method.empty, isError: true, errorMessage: `Homebriefing returned HTTP ${response.status}` } as TResult;
+    }
 
-      // Parse AFTN addresses array (note: lowercase 'to' in toAFTNAddr)
-      const toAftnAddr: string[] = [];
-      const aftnAddrRegex = /<(?:ns1:)?toAFTNAddr>([^<]*)<\/(?:ns1:)?toAFTNAddr>/gi;
-      let addrMatch;
-      while ((addrMatch = aftnAddrRegex.exec(msgXml)) !== null) {
-        if (addrMatch[1]) toAftnAddr.push(addrMatch[1]);
+    try {
+      const root = parseXml(response.text);
+      const resultName = `${method.name}Result`;
+      const result = root.name === resultName ? root : findElement(root, resultName);
+      if (!result) {
+        return { ...method.empty, isError: true, errorMessage: `No ${resultName} in the response` } as TResult;
       }
-
-      messages.push({
-        flMsgId: parseInt(getTagValue('FlMsgId', msgXml)) || 0,
-        isIncome: getTagValue('IsIncome', msgXml) === '1',
-        msgTime: getTagValue('MsgTime', msgXml),
-        msgType: getTagValue('MsgType', msgXml),
-        statusCode: parseInt(getTagValue('StatusCode', msgXml)) || 0,
-        statusDesc: getTagValue('StatusDesc', msgXml),
-        senderId: parseInt(getTagValue('SenderId', msgXml)) || 0,
-        senderName: getTagValue('SenderName', msgXml),
-        msgTxt: getMultilineTagValue('MsgTxt', msgXml),
-        toAftnAddr: toAftnAddr.length > 0 ? toAftnAddr : undefined,
-        aftnSender: getTagValue('AftnSender', msgXml) || undefined,
-        aftnSendTime: getTagValue('AftnSendTime', msgXml) || undefined,
-      });
+      return method.response(result);
+    } catch (error) {
+      if (error instanceof XmlParseError) {
+        console.error(`${method.name} response is not XML:`, error.message);
+        return { ...method.empty, isError: true, errorMessage: 'Invalid response from Homebriefing' } as TResult;
+      }
+      throw error;
     }
+  }
 
-    return {
-      isError,
-      msgCount,
-      messages,
-    };
+  // Warn once per element when a response carries fields the operation doesn't read
+  private reportSchemaDrift(operation: string, unknownElements: string[]): void {
+    const unreported = unknownElements.filter((name) => !this.reportedDrift.has(`${operation}:${name}`));
+    if (unreported.length === 0) return;
+
+    unreported.forEach((name) => this.reportedDrift.add(`${operation}:${name}`));
+    console.warn(`${operation} response has unknown elements (Homebriefing schema changed?):`, unreported.join(', '));
   }
 
-  private parseFlightPlansResponse(xml: string): FlightPlanListResponse {
-    // Check for session expiry first
-    if (isSessionExpiredResponse(xml)) {
-      return {
-        isError: true,
-        sessionExpired: true,
-        fplsCount: 0,
-        totalPages: 0,
-        currentPage: 0,
-        flightPlans: [],
-      };
-    }
+  // Get current/active flight plans
+  async getCurrentFlightPlans(
+    cookies: string,
+    token: string,
+    userSession: string,
+    filters: FlightPlanFilters = {}
+  ): Promise<FlightPlanListResponse> {
+    return this.call(getFplListOperation, cookies, token, { userSession, filters });
+  }
 
-    // Simple XML parsing (in production, use a proper XML parser)
-    const getTagValue = (tag: string, content: string): string => {
-      const regex = new RegExp(`<(?:ns1:)?${tag}>([^<]*)</(?:ns1:)?${tag}>`, 'i');
-      const match = content.match(regex);
-      return match ? match[1] : '';
-    };
+  // Get archived flight plans
+  async getArchivedFlightPlans(
+    cookies: string,
+    token: string,
+    userSession: string,
+    filters: FlightPlanFilters = {}
+  ): Promise<FlightPlanListResponse> {
+    return this.call(getFplArchiveOperation, cookies, token, { userSession, filters });
+  }
 
-    const isError = getTagValue('IsError', xml) === '1';
-    const fplsCount = parseInt(getTagValue('FPLsCount', xml)) || 0;
-    const totalPages = parseInt(getTagValue('TotalPages', xml)) || 0;
-    const currentPage = parseInt(getTagValue('CurrentPage', xml)) || 0;
-
-    // Parse flight plans array
-    const flightPlans: FlightPlan[] = [];
-    const fplArrayRegex = /<(?:ns1:)?FPLsArray>([\s\S]*?)<\/(?:ns1:)?FPLsArray>/gi;
-    let match;
-
-    while ((match = fplArrayRegex.exec(xml)) !== null) {
-      const fplXml = match[1];
-      flightPlans.push({
-        flId: parseInt(getTagValue('FlId', fplXml)) || 0,
-        arcid: getTagValue('ARCID', fplXml),
-        flRules: getTagValue('FlRules', fplXml),
-        flType: getTagValue('FlType', fplXml),
-        arcType: getTagValue('ArcType', fplXml),
-        wakeTurbulenceCat: getTagValue('WakeTurbulenceCat', fplXml),
-        equipment: getTagValue('Equipment', fplXml),
-        adep: getTagValue('ADEP', fplXml),
-        ades: getTagValue('ADES', fplXml),
-        adAltn1: getTagValue('ADAltn1', fplXml) || undefined,
-        eobdt: getTagValue('EOBDT', fplXml),
-        flSpeed: getTagValue('FlSpeed', fplXml),
-        flLevel: getTagValue('FlLevel', fplXml),
-        flRoute: getTagValue('FlRoute', fplXml),
-        totalEet: parseInt(getTagValue('TotalEET', fplXml)) || 0,
-        flOther: getTagValue('FlOther', fplXml) || undefined,
-        flSuplementary: getTagValue('FlSuplementary', fplXml) || undefined,
-        flStatusCode: parseInt(getTagValue('FlStatusCode', fplXml)) || 0,
-        flStatusStr: getTagValue('FlStatusStr', fplXml),
-        flCanDo: parseInt(getTagValue('FlCanDo', fplXml)) || 0,
-      });
-    }
+  // Get flight plan messages/details
+  async getFlightPlanMessages(
+    cookies: string,
+    token: string,
+    userSession: string,
+    flId: number
+  ): Promise<FlightMessagesResponse> {
+    return this.call(getFlMsgListOperation, cookies, token, { userSession, flId });
+  }
 
-    return {
-      isError,
-      fplsCount,
-      totalPages,
-      currentPage,
-      flightPlans,
-    };
+  // Get the ATFM regulations that affect a flight plan
+  async getRegulations(
+    cookies: string,
+    token: string,
+    userSession: string,
+    flId: number
+  ): Promise<RegulationListResponse> {
+    return this.call(getERegulationByFlIdOperation, cookies, token, { userSession, flId });
   }
 
   // Validate flight plan before submission
@@ -522,125 +496,9 @@ export class HomebriefingClient {
     userSession: string,
     formData: FlightPlanFormData
   ): Promise<FlightPlanValidationResponse> {
-    const soapRequest = `<?xml version="1.0" encoding="utf-8" ?>
-<soapenv:Envelope xmlns:soapenv="http://schemas.xmlsoap.org/soap/envelope/" xmlns:mob="http://mobiltech.sk/">
-  <soapenv:Body>
-    <mob:CheckFplValidityRequest>
-      <mob:FlAttributes>
-        <ARCID>${this.escapeXml(formData.arcid)}</ARCID>
-        <FlRules>${formData.flRules}</FlRules>
-        <FlType>${formData.flType}</FlType>
-        <ArcNum>${formData.arcNum || ''}</ArcNum>
-        <ArcType>${this.escapeXml(formData.arcType)}</ArcType>
-        <WakeTurbulenceCat>${formData.wakeTurbulenceCat}</WakeTurbulenceCat>
-        <Equipment>${this.escapeXml(formData.equipment)}</Equipment>
-        <ADEP>${this.escapeXml(formData.adep)}</ADEP>
-        <EOBDT>${formData.eobdt}</EOBDT>
-        <FlSpeed>${this.escapeXml(formData.flSpeed)}</FlSpeed>
-        <FlLevel>${this.escapeXml(formData.flLevel)}</FlLevel>
-        <FlRoute>${this.escapeXml(formData.flRoute)}</FlRoute>
-        <ADES>${this.escapeXml(formData.ades)}</ADES>
-        <ADAltn1>${this.escapeXml(formData.adAltn1 || '')}</ADAltn1>
-        <ADAltn2>${this.escapeXml(formData.adAltn2 || '')}</ADAltn2>
-        <TotalEET>${formData.totalEet}</TotalEET>
-        <FlOther>${this.escapeXml(formData.flOther || '')}</FlOther>
-        <FlSuplementary>${this.escapeXml(formData.flSuplementary || '')}</FlSuplementary>
-        <AddInfoPilottel>${this.escapeXml(formData.pilotTel || '')}</AddInfoPilottel>
-      </mob:FlAttributes>
-      <mob:UseNMB2B>0</mob:UseNMB2B>
-      <mob:UserSession>${userSession}</mob:UserSession>
-    </mob:CheckFplValidityRequest>
-  </soapenv:Body>
-</soapenv:Envelope>`;
-
-    const response = await fetch(`${BASE_URL}/ibafProvider.php`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'text/xml; charset="UTF-8"',
-        'Accept': 'application/xml, text/xml, */*; q=0.01',
-        'User-Agent': 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36',
-        'Cookie': cookies,
-        'X-AisWeb-Token': token,
-        'X-Requested-With': 'XMLHttpRequest',
-        'Origin': 'https://hbs.ixosystem.eu',
-      },
-      body: soapRequest,
-    });
-
-    const xmlText = await response.text();
-    return this.parseValidationResponse(xmlText);
-  }
-
-  private escapeXml(str: string): string {
-    return str
-      .replace(/&/g, '&amp;')
-      .replace(/</g, '&lt;')
-      .replace(/>/g, '&gt;')
-      .replace(/"/g, '&quot;')
-      .replace(/'/g, '&apos;');
-  }
-
-  private parseValidationResponse(xml: string): FlightPlanValidationResponse {
-    // Check for session expiry first
-    if (isSessionExpiredResponse(xml)) {
-      return {
-        isError: true,
-        sessionExpired: true,
-        fplIsOk: false,
-      };
-    }
-
-    const getTagValue = (tag: string, content: string): string => {
-      const regex = new RegExp(`<(?:ns1:)?${tag}>([^<]*)</(?:ns1:)?${tag}>`, 'i');
-      const match = content.match(regex);
-      return match ? match[1] : '';
-    };
-
-    const isError = getTagValue('IsError', xml) === '1';
-    const fplIsOk = getTagValue('FplIsOk', xml) === '1';
-
-    // Extract FplErrors - the main error format from Homebriefing
-    // Format: <ns1:FplErrors>F7 Invalid Aircraft Identification</ns1:FplErrors>
-    const fieldErrors: FieldError[] = [];
-    const fplErrorsRegex = /<(?:ns1:)?FplErrors>([^<]*)<\/(?:ns1:)?FplErrors>/gi;
-    let fplMatch;
-    while ((fplMatch = fplErrorsRegex.exec(xml)) !== null) {
-      const errorText = fplMatch[1];
-      if (errorText) {
-        // Parse field code from error message (e.g., "F7 Invalid..." -> field "F7")
-        const fieldMatch = errorText.match(/^(F\d+[a-z]?|FAddinfo\w+)\s+(.+)$/i);
-        if (fieldMatch) {
-          fieldErrors.push({
-            field: fieldMatch[1],
-            message: fieldMatch[2]
-          });
-        } else {
-          // No field prefix found, treat as general error
-          fieldErrors.push({ field: 'General', message: errorText });
-        }
-      }
-    }
-
-    // Also extract any ErrMsg tags as fallback
-    const errorMessages: string[] = [];
-    const errorRegex = /<(?:ns1:)?ErrMsg>([^<]*)<\/(?:ns1:)?ErrMsg>/gi;
-    let match;
-    while ((match = errorRegex.exec(xml)) !== null) {
-      if (match[1]) errorMessages.push(match[1]);
-    }
-
-    // Log for debugging if validation failed but no errors found
-    if (!fplIsOk && fieldErrors.length === 0 && errorMessages.length === 0) {
-      console.log('Validation failed but no error details found. Raw response:', xml);
-    }
-
-    return {
-      isError,
-      fplIsOk,
-      errorMessages: errorMessages.length > 0 ? errorMessages : undefined,
-      fieldErrors: fieldErrors.length > 0 ? fieldErrors : undefined,
-      rawResponse: !fplIsOk ? xml : undefined,  // Include raw response on failure for debugging
-    };
+    const result = await this.call(checkFplValidityOperation, cookies, token, { userSession, formData });
+    if (result.sessionExpired) return result;
+    return { ...result, warnings: getDaylightWarnings(formData) };
   }
 
   // Get list of flight plan templates
@@ -649,59 +507,7 @@ export class HomebriefingClient {
     token: string,
     userSession: string
   ): Promise<FlightPlanTemplateListResponse> {
-    const soapRequest = `<?xml version="1.0" encoding="utf-8" ?><soapenv:Envelope xmlns:soapenv="http://schemas.xmlsoap.org/soap/envelope/" xmlns:mob="http://mobiltech.sk/"><soapenv:Body><mob:GetFlTplListRequest><mob:UserSession>${userSession}</mob:UserSession></mob:GetFlTplListRequest></soapenv:Body></soapenv:Envelope>`;
-
-    const response = await fetch(`${BASE_URL}/ibafProvider.php`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'text/xml; charset="UTF-8"',
-        'Accept': 'application/xml, text/xml, */*; q=0.01',
-        'User-Agent': 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36',
-        'Cookie': cookies,
-        'X-AisWeb-Token': token,
-        'X-Requested-With': 'XMLHttpRequest',
-        'Origin': 'https://hbs.ixosystem.eu',
-      },
-      body: soapRequest,
-    });
-
-    const xmlText = await response.text();
-    return this.parseTemplateListResponse(xmlText);
-  }
-
-  private parseTemplateListResponse(xml: string): FlightPlanTemplateListResponse {
-    // Check for session expiry first
-    if (isSessionExpiredResponse(xml)) {
-      return {
-        isError: true,
-        sessionExpired: true,
-        count: 0,
-        templates: [],
-      };
-    }
-
-    const getTagValue = (tag: string, content: string): string => {
-      const regex = new RegExp(`<(?:ns1:)?${tag}>([^<]*)</(?:ns1:)?${tag}>`, 'i');
-      const match = content.match(regex);
-      return match ? match[1] : '';
-    };
-
-    const isError = getTagValue('IsError', xml) === '1';
-    const count = parseInt(getTagValue('FlTplCount', xml)) || 0;
-
-    const templates: FlightPlanTemplateListItem[] = [];
-    const tplArrayRegex = /<(?:ns1:)?FlTplArray>([\s\S]*?)<\/(?:ns1:)?FlTplArray>/gi;
-    let match;
-
-    while ((match = tplArrayRegex.exec(xml)) !== null) {
-      const tplXml = match[1];
-      templates.push({
-        tplId: parseInt(getTagValue('TplId', tplXml)) || 0,
-        tplName: getTagValue('TplName', tplXml),
-      });
-    }
-
-    return { isError, count, templates };
+    return this.call(getFlTplListOperation, cookies, token, { userSession });
   }
 
   // Get a specific flight plan template
@@ -711,96 +517,7 @@ export class HomebriefingClient {
     userSession: string,
     tplId: number
   ): Promise<FlightPlanTemplateResponse> {
-    const soapRequest = `<?xml version="1.0" encoding="utf-8" ?><soapenv:Envelope xmlns:soapenv="http://schemas.xmlsoap.org/soap/envelope/" xmlns:mob="http://mobiltech.sk/"><soapenv:Body><mob:GetFlTplRequest><mob:UserSession>${userSession}</mob:UserSession><mob:TplId>${tplId}</mob:TplId></mob:GetFlTplRequest></soapenv:Body></soapenv:Envelope>`;
-
-    const response = await fetch(`${BASE_URL}/ibafProvider.php`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'text/xml; charset="UTF-8"',
-        'Accept': 'application/xml, text/xml, */*; q=0.01',
-        'User-Agent': 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36',
-        'Cookie': cookies,
-        'X-AisWeb-Token': token,
-        'X-Requested-With': 'XMLHttpRequest',
-        'Origin': 'https://hbs.ixosystem.eu',
-      },
-      body: soapRequest,
-    });
-
-    const xmlText = await response.text();
-    return this.parseTemplateResponse(xmlText);
-  }
-
-  private parseTemplateResponse(xml: string): FlightPlanTemplateResponse {
-    // Check for session expiry first
-    if (isSessionExpiredResponse(xml)) {
-      return {
-        isError: true,
-        sessionExpired: true,
-        found: false,
-      };
-    }
-
-    const getTagValue = (tag: string, content: string): string => {
-      const regex = new RegExp(`<(?:ns1:)?${tag}>([^<]*)</(?:ns1:)?${tag}>`, 'i');
-      const match = content.match(regex);
-      return match ? match[1] : '';
-    };
-
-    const isError = getTagValue('IsError', xml) === '1';
-    const found = getTagValue('FlTplFound', xml) === '1';
-
-    if (!found) {
-      return { isError, found };
-    }
-
-    // Extract FlTplValues section
-    const valuesMatch = xml.match(/<(?:ns1:)?FlTplValues>([\s\S]*?)<\/(?:ns1:)?FlTplValues>/i);
-    if (!valuesMatch) {
-      return { isError, found: false };
-    }
-
-    const valuesXml = valuesMatch[1];
-
-    const template: FlightPlanTemplateData = {
-      tplId: parseInt(getTagValue('TplId', valuesXml)) || 0,
-      tplName: getTagValue('TplName', valuesXml),
-      arcid: getTagValue('ARCID', valuesXml),
-      flRules: getTagValue('FlRules', valuesXml),
-      flType: getTagValue('FlType', valuesXml),
-      arcType: getTagValue('ArcType', valuesXml),
-      wakeTurbulenceCat: getTagValue('WakeTurbulenceCat', valuesXml),
-      equipment10a: getTagValue('Equipment_10a', valuesXml),
-      equipment10b: getTagValue('Equipment_10b', valuesXml),
-      equipment10c: getTagValue('Equipment_10c', valuesXml),
-      adep: getTagValue('ADEP', valuesXml),
-      eobt: getTagValue('EOBT', valuesXml),
-      flSpeedMeasure: getTagValue('FlSpeedMeasure', valuesXml),
-      flSpeedValue: getTagValue('FlSpeedValue', valuesXml).trim(),
-      flLevelMeasure: getTagValue('FlLevelMeasure', valuesXml),
-      flLevelValue: getTagValue('FlLevelValue', valuesXml) || undefined,
-      ades: getTagValue('ADES', valuesXml) || undefined,
-      flRoute: getTagValue('FlRoute', valuesXml) || undefined,
-      totalEet: parseInt(getTagValue('TotalEET', valuesXml)) || undefined,
-      adAltn1: getTagValue('ADAltn1', valuesXml) || undefined,
-      adAltn2: getTagValue('ADAltn2', valuesXml) || undefined,
-      flOther: getTagValue('FlOther', valuesXml) || undefined,
-      // Field 19 survival equipment
-      radio: getTagValue('Radio', valuesXml) || undefined,
-      survival: getTagValue('Survival', valuesXml) || undefined,
-      jackets: getTagValue('Jackets', valuesXml) || undefined,
-      dinghies: getTagValue('Dinghies', valuesXml) || undefined,
-      dinghiesNumber: getTagValue('DinghiesNumber', valuesXml) || undefined,
-      dinghiesCapacity: getTagValue('DinghiesCapacity', valuesXml) || undefined,
-      dinghiesCover: getTagValue('DinghiesCover', valuesXml) === 'true',
-      dinghiesColour: getTagValue('DinghiesColour', valuesXml) || undefined,
-      aircraftColour: getTagValue('AircraftColour_A', valuesXml) || undefined,
-      remarks: getTagValue('Remarks_J', valuesXml) || undefined,
-      pilotInCommand: getTagValue('PilotInCmd_C', valuesXml) || undefined,
-      pilotTel: getTagValue('PilotTel', valuesXml) || undefined,
-    };
-
-    return { isError, found, template };
+    return this.call(getFlTplOperation, cookies, token, { userSession, tplId });
   }
 
   // Save a flight plan as template
@@ -810,298 +527,401 @@ export class HomebriefingClient {
     userSession: string,
     request: SaveTemplateRequest
   ): Promise<SaveTemplateResponse> {
-    const { tplName, tplId, formData, field19 } = request;
-
-    // Parse equipment string (e.g., "SGOVY/S" -> 10a="SGOVY", 10b="S")
-    const equipmentParts = (formData.equipment || '').split('/');
-    const equipment10a = equipmentParts[0] || '';
-    const equipment10b = equipmentParts[1] || '';
-
-    // Parse speed (e.g., "N0105" -> measure="N", value="0105")
-    const speedMatch = formData.flSpeed?.match(/^([NKM])(\d+)/);
-    const flSpeedMeasure = speedMatch ? speedMatch[1] : 'N';
-    const flSpeedValue = speedMatch ? speedMatch[2] : '';
-
-    // Parse level (e.g., "VFR" or "F065" or "A025")
-    let flLevelMeasure = 'VFR';
-    let flLevelValue = '';
-    if (formData.flLevel) {
-      if (formData.flLevel === 'VFR') {
-        flLevelMeasure = 'VFR';
-      } else {
-        const levelMatch = formData.flLevel.match(/^([FAM])(\d+)/);
-        if (levelMatch) {
-          flLevelMeasure = levelMatch[1];
-          flLevelValue = levelMatch[2];
-        }
-      }
-    }
-
-    // Build radio string from field19
-    let radio = '';
-    if (field19?.radio) {
-      radio = field19.radio;
-    }
+    return this.call(saveFlTplOperation, cookies, token, { userSession, request });
+  }
 
-    // Build survival string
-    const survival = field19?.survival || '';
-    const jackets = field19?.jackets || '';
+  // Send flight plan to CARO (ATC)
+  async sendFlightPlan(
+    cookies: string,
+    token: string,
+    userSession: string,
+    formData: FlightPlanFormData
+  ): Promise<FlightPlanSubmitResponse> {
+    return this.call(sendFplToCaroOperation, cookies, token, { userSession, formData });
+  }
 
-    const soapRequest = `<?xml version="1.0" encoding="utf-8" ?><soapenv:Envelope xmlns:soapenv="http://schemas.xmlsoap.org/soap/envelope/" xmlns:mob="http://mobiltech.sk/"><soapenv:Body><mob:SaveFlTplRequest><mob:FlTplValues><FlTplId><TplName>${this.escapeXml(tplName)}</TplName><TplId>${tplId || ''}</TplId></FlTplId><ARCID>${this.escapeXml(formData.arcid)}</ARCID><FlRules>${formData.flRules}</FlRules><FlType>${formData.flType}</FlType><ArcNum>${formData.arcNum || ''}</ArcNum><ArcType>${this.escapeXml(formData.arcType)}</ArcType><WakeTurbulenceCat>${formData.wakeTurbulenceCat}</WakeTurbulenceCat><Equipment_10a>${this.escapeXml(equipment10a)}</Equipment_10a><Equipment_10b>${this.escapeXml(equipment10b)}</Equipment_10b><Equipment_10c>N</Equipment_10c><ADEP>${this.escapeXml(formData.adep)}</ADEP><EOBT></EOBT><FlSpeedMeasure>${flSpeedMeasure}</FlSpeedMeasure><FlSpeedValue>${flSpeedValue}</FlSpeedValue><FlLevelMeasure>${flLevelMeasure}</FlLevelMeasure><FlLevelValue>${flLevelValue}</FlLevelValue><FlRoute>${this.escapeXml(formData.flRoute || '')}</FlRoute><ADES>${this.escapeXml(formData.ades || '')}</ADES><TotalEET>${formData.totalEet || 0}</TotalEET><ADAltn1>${this.escapeXml(formData.adAltn1 || '')}</ADAltn1><ADAltn2>${this.escapeXml(formData.adAltn2 || '')}</ADAltn2><FlOther>${this.escapeXml(formData.flOther || '')}</FlOther><Endurance>${field19?.endurance || ''}</Endurance><PersonsOnBoard>${field19?.persons || ''}</PersonsOnBoard><Radio>${radio}</Radio><Survival>${survival}</Survival><Jackets>${jackets}</Jackets><DinghiesNumber>${field19?.dinghiesNumber || ''}</DinghiesNumber><DinghiesCapacity>${field19?.dinghiesCapacity || ''}</DinghiesCapacity><DinghiesCover>${field19?.dinghiesCover ? 'true' : 'false'}</DinghiesCover><DinghiesColour>${this.escapeXml(field19?.dinghiesColour || '')}</DinghiesColour><AircraftColour_A>${this.escapeXml(field19?.aircraftColour || '')}</AircraftColour_A><Remarks_N>${this.escapeXml(field19?.remarks || '')}</Remarks_N><PilotInCmd_C>${this.escapeXml(field19?.pilotInCommand || '')}</PilotInCmd_C><AddInfoInstruction></AddInfoInstruction><AddInfoPilottel>${this.escapeXml(formData.pilotTel || '')}</AddInfoPilottel><AddInfoPilotfax></AddInfoPilotfax><AddInfoPilotmail></AddInfoPilotmail><AddInfoSendertel></AddInfoSendertel><AddInfoSenderfax></AddInfoSenderfax><AddInfoSendermail></AddInfoSendermail></mob:FlTplValues><mob:UserSession>${userSession}</mob:UserSession></mob:SaveFlTplRequest></soapenv:Body></soapenv:Envelope>`;
+  // Delete a flight plan template
+  async deleteTemplate(
+    cookies: string,
+    token: string,
+    userSession: string,
+    tplId: number
+  ): Promise<DeleteTemplateResponse> {
+    return this.call(deleteFlTplOperation, cookies, token, { userSession, tplId });
+  }
 
-    const response = await fetch(`${BASE_URL}/ibafProvider.php`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'text/xml; charset="UTF-8"',
-        'Accept': 'application/xml, text/xml, */*; q=0.01',
-        'User-Agent': 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36',
-        'Cookie': cookies,
-        'X-AisWeb-Token': token,
-        'X-Requested-With': 'XMLHttpRequest',
-        'Origin': 'https://hbs.ixosystem.eu',
-      },
-      body: soapRequest,
-    });
+  // Send delay (DLA) message for a flight plan
+  async sendDelay(
+    cookies: string,
+    token: string,
+    userSession: string,
+    flId: number,
+    newEobt: string  // New EOBT time in HHMM format (e.g., "1200")
+  ): Promise<FlightPlanActionResponse> {
+    return this.call(sendDlaOperation, cookies, token, { userSession, flId, newEobt });
+  }
 
-    const xmlText = await response.text();
-    return this.parseSaveTemplateResponse(xmlText);
+  // Send cancel (CNL) message for a flight plan
+  async sendCancel(
+    cookies: string,
+    token: string,
+    userSession: string,
+    flId: number
+  ): Promise<FlightPlanActionResponse> {
+    return this.call(sendCnlOperation, cookies, token, { userSession, flId });
   }
 
-  private parseSaveTemplateResponse(xml: string): SaveTemplateResponse {
-    // Check for session expiry first
-    if (isSessionExpiredResponse(xml)) {
-      return {
-        isError: true,
-        sessionExpired: true,
-        success: false,
-      };
-    }
+  // Send departure (DEP) message for a flight plan
+  async sendDeparture(
+    cookies: string,
+    token: string,
+    userSession: string,
+    flId: number,
+    departureTime: string  // Actual time of departure in HHMM format (e.g., "1210")
+  ): Promise<FlightPlanActionResponse> {
+    return this.call(sendDepOperation, cookies, token, { userSession, flId, departureTime });
+  }
 
-    const getTagValue = (tag: string, content: string): string => {
-      const regex = new RegExp(`<(?:ns1:)?${tag}>([^<]*)</(?:ns1:)?${tag}>`, 'i');
-      const match = content.match(regex);
-      return match ? match[1] : '';
-    };
+  // Send arrival (ARR) message for a flight plan
+  async sendArrival(
+    cookies: string,
+    token: string,
+    userSession: string,
+    flId: number,
+    arrivalAerodrome: string,  // Diversion aerodrome ICAO, empty when landed at the filed ADES
+    arrivalTime: string,       // Actual time of arrival in HHMM format (e.g., "1345")
+    arrivalAerodromeName = ''  // Name of the aerodrome when arrivalAerodrome is ZZZZ
+  ): Promise<FlightPlanActionResponse> {
+    return this.call(sendArrOperation, cookies, token, { userSession, flId, arrivalAerodrome, arrivalTime, arrivalAerodromeName });
+  }
 
-    const isError = getTagValue('IsError', xml) === '1';
-    let errorMsg = getTagValue('ErrMsg', xml);
+  // Send change (CHG) message for a flight plan
+  async sendChange(
+    cookies: string,
+    token: string,
+    userSession: string,
+    flId: number,
+    changes: FlightPlanChanges  // Only the fields that differ from the filed plan
+  ): Promise<FlightPlanActionResponse> {
+    return this.call(sendChgOperation, cookies, token, { userSession, flId, changes });
+  }
 
-    // Check for SOAP fault
-    if (!errorMsg) {
-      const faultMatch = xml.match(/<(?:SOAP-ENV:)?Fault[^>]*>([\s\S]*?)<\/(?:SOAP-ENV:)?Fault>/i);
-      if (faultMatch) {
-        errorMsg = getTagValue('faultstring', faultMatch[1]) || 'SOAP Fault';
-      }
-    }
+  // Get METAR or TAF messages of an aerodrome
+  async getMetMessages(
+    cookies: string,
+    token: string,
+    userSession: string,
+    msgType: 'METAR' | 'TAF',
+    icaoCode: string,
+    date: Date = new Date(),
+    history = 0  // Older messages to include besides the latest
+  ): Promise<MetMessagesResponse> {
+    return this.call(getMetMsgOperation, cookies, token, { userSession, msgType, icaoCode, date, history });
+  }
 
-    // Success response contains InsertedTplId
-    const insertedTplId = getTagValue('InsertedTplId', xml);
-    const success = !isError && !!insertedTplId;
+  // Get SYNOP messages of a station
+  async getSynopMessages(
+    cookies: string,
+    token: string,
+    userSession: string,
+    icaoCode: string,
+    wmoCode: string,
+    date: Date = new Date(),
+    history = 0
+  ): Promise<MetMessagesResponse> {
+    return this.call(getSynopMsgOperation, cookies, token, { userSession, icaoCode, wmoCode, date, history });
+  }
 
-    // If failed but no error message, include raw response for debugging
-    if (!success && !errorMsg) {
-      console.log('Save template failed. Raw response:', xml);
-      errorMsg = 'Unknown error - check server logs for details';
+  // Get the SYNOP stations, cached for a day
+  async getSynopStations(
+    cookies: string,
+    token: string,
+    userSession: string
+  ): Promise<SynopStationListResponse> {
+    if (this.synopStations && Date.now() - this.synopStations.loadedAt < SYNOP_STATIONS_TTL) {
+      return { isError: false, stations: this.synopStations.stations };
     }
-
-    return {
-      isError,
-      success,
-      errorMessage: errorMsg || undefined,
-      rawResponse: !success ? xml : undefined,
-    };
+    const result = await this.call(getSynopStationsOperation, cookies, token, { userSession });
+    if (!result.isError) {
+      this.synopStations = { stations: result.stations, loadedAt: Date.now() };
+    }
+    return result;
   }
 
-  // Send flight plan to CARO (ATC)
-  async sendFlightPlan(
+  // MET briefing for a flight: latest METAR, TAF and SYNOP per aerodrome, with
+  // warnings where the conditions are below VFR minima for the VFR part of the flight
+  async getMetBriefing(
     cookies: string,
     token: string,
     userSession: string,
-    formData: FlightPlanFormData
-  ): Promise<FlightPlanSubmitResponse> {
-    const soapRequest = `<?xml version="1.0" encoding="utf-8" ?><soapenv:Envelope xmlns:soapenv="http://schemas.xmlsoap.org/soap/envelope/" xmlns:mob="http://mobiltech.sk/"><soapenv:Body><mob:SendFplToCaroRequest><mob:FlAttributes><ARCID>${this.escapeXml(formData.arcid)}</ARCID><FlRules>${formData.flRules}</FlRules><FlType>${formData.flType}</FlType><ArcNum>${formData.arcNum || ''}</ArcNum><ArcType>${this.escapeXml(formData.arcType)}</ArcType><WakeTurbulenceCat>${formData.wakeTurbulenceCat}</WakeTurbulenceCat><Equipment>${this.escapeXml(formData.equipment)}</Equipment><ADEP>${this.escapeXml(formData.adep)}</ADEP><EOBDT>${formData.eobdt}</EOBDT><FlSpeed>${this.escapeXml(formData.flSpeed)}</FlSpeed><FlLevel>${this.escapeXml(formData.flLevel)}</FlLevel><FlRoute>${this.escapeXml(formData.flRoute)}</FlRoute><ADES>${this.escapeXml(formData.ades)}</ADES><ADAltn1>${this.escapeXml(formData.adAltn1 || '')}</ADAltn1><ADAltn2>${this.escapeXml(formData.adAltn2 || '')}</ADAltn2><TotalEET>${formData.totalEet}</TotalEET><FlOther>${this.escapeXml(formData.flOther || '')}</FlOther><FlSuplementary>${this.escapeXml(formData.flSuplementary || '')}</FlSuplementary><AddInfoPilottel>${this.escapeXml(formData.pilotTel || '')}</AddInfoPilottel></mob:FlAttributes><mob:UseNMB2B>0</mob:UseNMB2B><mob:UserSession>${userSession}</mob:UserSession></mob:SendFplToCaroRequest></soapenv:Body></soapenv:Envelope>`;
-
-    const response = await fetch(`${BASE_URL}/ibafProvider.php`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'text/xml; charset="UTF-8"',
-        'Accept': 'application/xml, text/xml, */*; q=0.01',
-        'User-Agent': 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36',
-        'Cookie': cookies,
-        'X-AisWeb-Token': token,
-        'X-Requested-With': 'XMLHttpRequest',
-        'Origin': 'https://hbs.ixosystem.eu',
-      },
-      body: soapRequest,
-    });
+    request: BriefingRequest
+  ): Promise<MetBriefingResponse> {
+    const eobt = parseEobdt(request.eobdt);
+    const eta = new Date(eobt.getTime() + (request.totalEet || 0) * 60 * 1000);
+    const aerodromes = getBriefingAerodromes(request);
+
+    const stations = await this.getSynopStations(cookies, token, userSession);
+    if (stations.sessionExpired) {
+      return { isError: true, sessionExpired: true, reports: [] };
+    }
 
-    const xmlText = await response.text();
-    return this.parseSendFlightPlanResponse(xmlText);
-  }
+    const results = await Promise.all(aerodromes.map(async ({ location }) => {
+      const station = stations.stations.find((s) => s.icaoCode === location);
+      const [metar, taf, synop] = await Promise.all([
+        this.getMetMessages(cookies, token, userSession, 'METAR', location),
+        this.getMetMessages(cookies, token, userSession, 'TAF', location),
+        station ? this.getSynopMessages(cookies, token, userSession, location, station.wmoCode) : undefined,
+      ]);
+      return { metar, taf, synop };
+    }));
+
+    if (results.some(({ metar, taf, synop }) => metar.sessionExpired || taf.sessionExpired || synop?.sessionExpired)) {
+      return { isError: true, sessionExpired: true, reports: [] };
+    }
 
-  private parseSendFlightPlanResponse(xml: string): FlightPlanSubmitResponse {
-    // Check for session expiry first
-    if (isSessionExpiredResponse(xml)) {
+    const reports = aerodromes.map(({ location, roles }, i): MetReport => {
+      const { metar, taf, synop } = results[i];
+      // With history 0 the latest message comes last
+      const metarText = metar.messages[metar.messages.length - 1];
+      const tafText = taf.messages[taf.messages.length - 1];
+      const decodedMetar = metarText ? decodeMetar(metarText) : undefined;
+      const decodedTaf = tafText ? decodeTaf(tafText) : undefined;
+
+      // Departure around EOBT, destination and alternates around ETA, an hour either side
+      const usedAt = roles.includes('departure') ? [eobt] : [];
+      if (roles.some((role) => role !== 'departure')) usedAt.push(eta);
+      const from = new Date(Math.min(...usedAt.map((d) => d.getTime())) - 60 * 60 * 1000);
+      const to = new Date(Math.max(...usedAt.map((d) => d.getTime())) + 60 * 60 * 1000);
+
+      const errors = [metar, taf].filter((r) => r.isError).map((r) => r.errorMessage || 'MET messages could not be loaded');
       return {
-        isError: true,
-        sessionExpired: true,
-        fplIsSent: false,
+        location,
+        roles,
+        metar: metarText,
+        decodedMetar,
+        taf: tafText,
+        decodedTaf,
+        synop: synop?.messages.slice(-1) ?? [],
+        vfrWarnings: isVfrAt(request.flRules, roles) ? checkVfrMinima(decodedMetar, decodedTaf, from, to) : [],
+        errorMessage: errors[0],
       };
-    }
-
-    const getTagValue = (tag: string, content: string): string => {
-      const regex = new RegExp(`<(?:ns1:)?${tag}>([^<]*)</(?:ns1:)?${tag}>`, 'i');
-      const match = content.match(regex);
-      return match ? match[1] : '';
-    };
+    });
 
-    const isError = getTagValue('IsError', xml) === '1';
-    const fplIsSent = getTagValue('FplIsSent', xml) === '1';
-    const errMsg = getTagValue('ErrMsg', xml);
+    return { isError: false, reports };
+  }
 
-    return {
-      isError,
-      fplIsSent,
-      errorMessage: errMsg || undefined,
-    };
+  // NOTAMs for an aerodrome, in force at `date` or later
+  async getNotamsForAerodrome(
+    cookies: string,
+    token: string,
+    code: string,
+    date: Date
+  ): Promise<NotamListResult> {
+    return this.callDataHandler(getNotamsForArpMethod, cookies, token, { code, date });
   }
 
-  // Delete a flight plan template
-  async deleteTemplate(
+  // NOTAMs in an area between two levels (feet)
+  async getNotamsInArea(
     cookies: string,
     token: string,
-    userSession: string,
-    tplId: number
-  ): Promise<DeleteTemplateResponse> {
-    const soapRequest = `<?xml version="1.0" encoding="utf-8" ?><soapenv:Envelope xmlns:soapenv="http://schemas.xmlsoap.org/soap/envelope/" xmlns:mob="http://mobiltech.sk/"><soapenv:Body><mob:DeleteFlTplRequest><mob:UserSession>${userSession}</mob:UserSession><mob:TplId>${tplId}</mob:TplId></mob:DeleteFlTplRequest></soapenv:Body></soapenv:Envelope>`;
+    area: Area,
+    date: Date,
+    flDown: number,
+    flUp: number
+  ): Promise<NotamListResult> {
+    return this.callDataHandler(getNotamsFromRectangleMethod, cookies, token, { area, date, flDown, flUp });
+  }
 
-    const response = await fetch(`${BASE_URL}/ibafProvider.php`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'text/xml; charset="UTF-8"',
-        'Accept': 'application/xml, text/xml, */*; q=0.01',
-        'User-Agent': 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36',
-        'Cookie': cookies,
-        'X-AisWeb-Token': token,
-        'X-Requested-With': 'XMLHttpRequest',
-        'Origin': 'https://hbs.ixosystem.eu',
-      },
-      body: soapRequest,
-    });
+  // Expand a route into points with coordinates
+  async getRoutePoints(
+    cookies: string,
+    token: string,
+    adexp: string
+  ): Promise<RoutePointsResult> {
+    return this.callDataHandler(getPointsForFplMethod, cookies, token, { adexp });
+  }
 
-    const xmlText = await response.text();
-    return this.parseDeleteTemplateResponse(xmlText);
+  // Aircraft in the user's Homebriefing account
+  async getAircraftList(
+    cookies: string,
+    token: string
+  ): Promise<AircraftListResult> {
+    return this.callDataHandler(getAircraftListMethod, cookies, token, undefined);
   }
 
-  private parseDeleteTemplateResponse(xml: string): DeleteTemplateResponse {
-    // Check for session expiry first
-    if (isSessionExpiredResponse(xml)) {
-      return {
-        isError: true,
-        sessionExpired: true,
-        success: false,
-      };
+  // Route map of a flight. Homebriefing's route analysis is only asked for the
+  // named points (navaids, fixes), aerodromes and coordinates are known here.
+  async getRouteMap(
+    cookies: string,
+    token: string,
+    request: BriefingRequest
+  ): Promise<RouteMapResponse> {
+    const { elements } = parseRoute(request.flRoute || '');
+    let analysed: RoutePoint[] = [];
+
+    if (elements.some((e) => e.type === 'point' || e.type === 'bearing')) {
+      // The map is also shown before an EOBT is entered
+      const eobt = parseEobdt(request.eobdt || '');
+      const result = await this.getRoutePoints(cookies, token, renderAdexp(request, isNaN(eobt.getTime()) ? new Date() : eobt));
+      if (result.sessionExpired) {
+        return { isError: true, sessionExpired: true, points: [], alternates: [], unresolved: [] };
+      }
+      analysed = result.points;
     }
 
-    const getTagValue = (tag: string, content: string): string => {
-      const regex = new RegExp(`<(?:ns1:)?${tag}>([^<]*)</(?:ns1:)?${tag}>`, 'i');
-      const match = content.match(regex);
-      return match ? match[1] : '';
-    };
-
-    const isError = getTagValue('IsError', xml) === '1';
-    const deletedTplId = parseInt(getTagValue('DeletedTplId', xml)) || undefined;
-    const errorMsg = getTagValue('ErrMsg', xml);
-
-    return {
-      isError,
-      success: !isError && !!deletedTplId,
-      deletedTplId,
-      errorMessage: errorMsg || undefined,
-    };
+    return { isError: false, ...getRouteMap(request, elements, analysed) };
   }
 
-  // Send delay (DLA) message for a flight plan
-  async sendDelay(
+  // Total EET and FIR boundary EETs along the route map
+  async getEet(
     cookies: string,
     token: string,
-    userSession: string,
-    flId: number,
-    newEobt: string  // New EOBT time in HHMM format (e.g., "1200")
-  ): Promise<FlightPlanActionResponse> {
-    const soapRequest = `<?xml version="1.0" encoding="utf-8" ?><soapenv:Envelope xmlns:soapenv="http://schemas.xmlsoap.org/soap/envelope/" xmlns:mob="http://mobiltech.sk/"><soapenv:Body><mob:SendDLARequest><mob:FlId>${flId}</mob:FlId><mob:EobtVal>${newEobt}</mob:EobtVal><mob:UserSession>${userSession}</mob:UserSession></mob:SendDLARequest></soapenv:Body></soapenv:Envelope>`;
+    request: EetRequest
+  ): Promise<EetResponse> {
+    const map = await this.getRouteMap(cookies, token, request);
+    if (map.sessionExpired) {
+      return { isError: true, sessionExpired: true, legs: [], firEets: [], warnings: [] };
+    }
 
-    const response = await fetch(`${BASE_URL}/ibafProvider.php`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'text/xml; charset="UTF-8"',
-        'Accept': 'application/xml, text/xml, */*; q=0.01',
-        'User-Agent': 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36',
-        'Cookie': cookies,
-        'X-AisWeb-Token': token,
-        'X-Requested-With': 'XMLHttpRequest',
-        'Origin': 'https://hbs.ixosystem.eu',
-      },
-      body: soapRequest,
-    });
+    const { elements } = parseRoute(request.flRoute || '');
+    const result = computeEet(map.points, elements, request.flSpeed, request.headwind, map.unresolved);
+    return { isError: !!result.errorMessage, ...result };
+  }
 
-    const xmlText = await response.text();
-    return this.parseActionResponse(xmlText);
+  // NOTAM briefing for a flight: one group per aerodrome (departure, destination,
+  // alternates) and one for the route corridor. A failing group carries its own
+  // errorMessage, the briefing as a whole only fails on session expiry.
+  async getNotamBriefing(
+    cookies: string,
+    token: string,
+    request: BriefingRequest
+  ): Promise<NotamBriefingResponse> {
+    return (await this.getNotamBriefingWithRoute(cookies, token, request)).briefing;
   }
 
-  // Send cancel (CNL) message for a flight plan
-  async sendCancel(
+  // The NOTAM briefing with the route points it placed the corridor on, so the
+  // briefing pack doesn't need to ask getPointsForFpl again
+  private async getNotamBriefingWithRoute(
     cookies: string,
     token: string,
-    userSession: string,
-    flId: number
-  ): Promise<FlightPlanActionResponse> {
-    const soapRequest = `<?xml version="1.0" encoding="utf-8" ?><soapenv:Envelope xmlns:soapenv="http://schemas.xmlsoap.org/soap/envelope/" xmlns:mob="http://mobiltech.sk/"><soapenv:Body><mob:SendCNLRequest><mob:FlId>${flId}</mob:FlId><mob:UserSession>${userSession}</mob:UserSession></mob:SendCNLRequest></soapenv:Body></soapenv:Envelope>`;
+    request: BriefingRequest
+  ): Promise<{ briefing: NotamBriefingResponse; points?: RoutePointsResult }> {
+    const from = parseEobdt(request.eobdt);
+    if (isNaN(from.getTime())) {
+      return { briefing: { isError: true, errorMessage: 'The flight plan has no valid EOBT', flightFrom: '', flightTo: '', groups: [] } };
+    }
+    const to = new Date(from.getTime() + (request.totalEet || 0) * 60 * 1000);
 
-    const response = await fetch(`${BASE_URL}/ibafProvider.php`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'text/xml; charset="UTF-8"',
-        'Accept': 'application/xml, text/xml, */*; q=0.01',
-        'User-Agent': 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36',
-        'Cookie': cookies,
-        'X-AisWeb-Token': token,
-        'X-Requested-With': 'XMLHttpRequest',
-        'Origin': 'https://hbs.ixosystem.eu',
-      },
-      body: soapRequest,
+    const aerodromes = getBriefingAerodromes(request);
+
+    const toGroup = (location: string, roles: BriefingRole[], result: NotamListResult, exclude = new Set<string>()): NotamGroup => ({
+      location,
+      roles,
+      notams: result.notams
+        .filter((notam) => !notam.id || !exclude.has(notam.id))
+        .map((notam) => ({ ...notam, validity: getNotamValidity(notam, from, to) })),
+      errorMessage: result.isError ? result.errorMessage || 'NOTAMs could not be loaded' : undefined,
     });
 
-    const xmlText = await response.text();
-    return this.parseActionResponse(xmlText);
+    const aerodromeResults = await Promise.all(
+      aerodromes.map(({ location }) => this.getNotamsForAerodrome(cookies, token, location, from))
+    );
+    const groups = aerodromes.map(({ location, roles }, i) => toGroup(location, roles, aerodromeResults[i]));
+    let sessionExpired = aerodromeResults.some((result) => result.sessionExpired);
+    let points: RoutePointsResult | undefined;
+
+    if (request.flRoute?.trim() && !sessionExpired) {
+      points = await this.getRoutePoints(cookies, token, renderAdexp(request, from));
+      const corridor = getCorridor(points.points, ROUTE_BUFFER_NM);
+      sessionExpired = !!points.sessionExpired;
+
+      if (corridor) {
+        const listed = new Set(groups.flatMap((group) => group.notams.map((notam) => notam.id)));
+        const routeResult = await this.getNotamsInArea(cookies, token, corridor, from, 0, getUpperLimitFeet(request.flLevel));
+        sessionExpired = !!routeResult.sessionExpired;
+        groups.push(toGroup('', ['route'], routeResult, listed));
+      } else if (!sessionExpired) {
+        groups.push({
+          location: '',
+          roles: ['route'],
+          notams: [],
+          errorMessage: points.errorMessage || points.messages[0] || 'The route could not be placed on the map',
+        });
+      }
+    }
+
+    if (sessionExpired) {
+      return { briefing: { isError: true, sessionExpired: true, flightFrom: from.toISOString(), flightTo: to.toISOString(), groups: [] } };
+    }
+    return { briefing: { isError: false, flightFrom: from.toISOString(), flightTo: to.toISOString(), groups }, points };
   }
 
-  private parseActionResponse(xml: string): FlightPlanActionResponse {
-    // Check for session expiry first
-    if (isSessionExpiredResponse(xml)) {
-      return {
-        isError: true,
-        sessionExpired: true,
-        success: false,
-      };
+  // Render an HTML document to PDF on Homebriefing's side, as the reference client does for reports
+  async generatePdf(
+    cookies: string,
+    token: string,
+    html: string,
+    title: string
+  ): Promise<PdfResponse> {
+    const body = JSON.stringify({ html: Buffer.from(html, 'utf-8').toString('base64'), title });
+    const response = await this.postDataHandler('generatePdf', {}, cookies, token, body);
+    if (!response) {
+      return { isError: true, sessionExpired: true, pdf: '' };
     }
 
-    const getTagValue = (tag: string, content: string): string => {
-      const regex = new RegExp(`<(?:ns1:)?${tag}>([^<]*)</(?:ns1:)?${tag}>`, 'i');
-      const match = content.match(regex);
-      return match ? match[1] : '';
-    };
+    // The PDF comes back as base64, which starts with "JVBER" for "%PDF"
+    const pdf = response.text.trim();
+    if (!response.ok || !pdf.startsWith('JVBER')) {
+      return { isError: true, errorMessage: 'Homebriefing could not generate the PDF', pdf: '' };
+    }
+    return { isError: false, pdf };
+  }
+
+  // Briefing pack of a filed flight as PDF: the flight plan, its AFTN messages,
+  // sunrise/sunset, weather and NOTAMs. Weather and NOTAM failures are noted in
+  // the pack, without the message history there is no pack.
+  async getBriefingPack(
+    cookies: string,
+    token: string,
+    userSession: string,
+    flightPlan: FlightPlan
+  ): Promise<PdfResponse> {
+    const request = getBriefingRequest(flightPlan);
+    const eobt = parseEobdt(request.eobdt);
+    const eta = new Date(eobt.getTime() + (request.totalEet || 0) * 60 * 1000);
+
+    const [messages, { briefing: notams, points }, met] = await Promise.all([
+      this.getFlightPlanMessages(cookies, token, userSession, flightPlan.flId),
+      this.getNotamBriefingWithRoute(cookies, token, request),
+      this.getMetBriefing(cookies, token, userSession, request),
+    ]);
+
+    if (messages.sessionExpired || notams.sessionExpired || met.sessionExpired) {
+      return { isError: true, sessionExpired: true, pdf: '' };
+    }
+    if (messages.isError) {
+      return { isError: true, errorMessage: messages.errorMessage || 'Flight plan messages could not be loaded', pdf: '' };
+    }
 
-    const isError = getTagValue('IsError', xml) === '1';
-    const msgSent = getTagValue('MsgSent', xml) === '1';
-    const errMsg = getTagValue('ErrMsg', xml);
+    // Departure on the day of EOBT, the others on the day of ETA. Alternates
+    // aren't part of the route, they need a known position. Without a route
+    // there are no route points, the aerodrome database has the others.
+    const sunTimes = isNaN(eobt.getTime()) ? [] : getBriefingAerodromes(request).flatMap(({ location, roles }): AerodromeSunTimes[] => {
+      const point = points?.points.find((p) => p.type === 'AD' && p.name === location) ?? getAerodromePosition(location);
+      if (!point) return [];
+      const date = roles.includes('departure') ? eobt : eta;
+      return [{ location, roles, date: date.toISOString().slice(0, 10), ...getSunTimes(date, point.lat, point.lng) }];
+    });
 
-    return {
-      isError,
-      success: !isError && msgSent,
-      msgSent,
-      errorMessage: errMsg || undefined,
-    };
+    const html = renderBriefingPack({
+      flightPlan,
+      messages: messages.messages,
+      notams,
+      met,
+      sunTimes,
+      generatedAt: new Date(),
+    });
+    return this.generatePdf(cookies, token, html, getBriefingPackTitle(flightPlan));
   }
 }
 
@@ -0,0 +1,21 @@
+import { FlightMessage } from './types';
+
+// Messages that move a flight plan along, as opposed to ACK replies
+const STATUS_MESSAGE_TYPES = ['FPL', 'CHG', 'DLA', 'CNL', 'DEP', 'ARR', 'REJ'];
+
+function byTime(a: FlightMessage, b: FlightMessage): number {
+  return new Date(a.msgTime).getTime() - new Date(b.msgTime).getTime() || a.flMsgId - b.flMsgId;
+}
+
+// A flight is airborne while its latest status message is a DEP. A DEP received
+// from ATC counts as acknowledged, our own DEP needs a later ACK. A REJ, ARR,
+// CNL, DLA or new FPL/CHG after the DEP ends it.
+export function isAirborne(messages: FlightMessage[]): boolean {
+  const sorted = [...messages].sort(byTime);
+  const status = sorted.filter((msg) => STATUS_MESSAGE_TYPES.includes(msg.msgType));
+  const latest = status[status.length - 1];
+  if (!latest || latest.msgType !== 'DEP') return false;
+  if (latest.isIncome) return true;
+
+  return sorted.slice(sorted.indexOf(latest) + 1).some((msg) => msg.isIncome && msg.msgType === 'ACK');
+}
@@ -0,0 +1,71 @@
+import { FlightPlan, FlightPlanChanges, FlightPlanFormData } from './types';
+
+// Normalize free text (route, Field 18/19) so whitespace-only edits don't count as changes
+function cleanStr(str?: string): string {
+  return (str || '').replace(/\s+/g, ' ').trim().toUpperCase();
+}
+
+// ISO string of a filed plan's EOBDT, empty when there is none or it can't be read
+function getFiledIso(eobdt: string): string {
+  const date = eobdt ? new Date(eobdt) : undefined;
+  return date && !isNaN(date.getTime()) ? date.toISOString() : '';
+}
+
+// Get EOBT (HHMM) of a filed flight plan
+export function getFiledEobt(eobdt: string): string {
+  return getFiledIso(eobdt).slice(11, 16).replace(':', '');
+}
+
+// Get EOBT (HHMM) from form data in HB format "YYYY-MM-DD HH:mm"
+function getFormEobt(eobdt: string): string {
+  return eobdt.slice(11, 16).replace(':', '');
+}
+
+// Fields that identify the flight (7, 13a, 16a and date of flight) can't be changed with CHG,
+// nor can an alternate be taken out: a -16/ without it doesn't say an alternate was removed.
+// Returns the field codes (F7, F13a, F16a, F16c, F16d, DOF) that differ, the plan has to be
+// cancelled and re-filed for those.
+export function getLockedFieldChanges(original: FlightPlan, formData: FlightPlanFormData): string[] {
+  const locked: string[] = [];
+
+  if (cleanStr(formData.arcid) !== cleanStr(original.arcid)) locked.push('F7');
+  if (cleanStr(formData.adep) !== cleanStr(original.adep)) locked.push('F13a');
+  if (cleanStr(formData.ades) !== cleanStr(original.ades)) locked.push('F16a');
+  if (cleanStr(original.adAltn1) && !cleanStr(formData.adAltn1)) locked.push('F16c');
+  if (cleanStr(original.adAltn2) && !cleanStr(formData.adAltn2)) locked.push('F16d');
+  const filed = getFiledIso(original.eobdt);
+  if (filed && formData.eobdt.slice(0, 10) !== filed.slice(0, 10)) {
+    locked.push('DOF');
+  }
+
+  return locked;
+}
+
+// Compute the fields that differ between the filed plan and the edited form
+export function getFlightPlanChanges(original: FlightPlan, formData: FlightPlanFormData): FlightPlanChanges {
+  const changes: FlightPlanChanges = {};
+
+  if (formData.flRules !== original.flRules) changes.flRules = formData.flRules;
+  if (formData.flType !== original.flType) changes.flType = formData.flType;
+  if (cleanStr(formData.arcNum) !== cleanStr(original.arcNum)) changes.arcNum = formData.arcNum || '';
+  if (cleanStr(formData.arcType) !== cleanStr(original.arcType)) changes.arcType = formData.arcType;
+  if (formData.wakeTurbulenceCat !== original.wakeTurbulenceCat) changes.wakeTurbulenceCat = formData.wakeTurbulenceCat;
+  if (cleanStr(formData.equipment) !== cleanStr(original.equipment)) changes.equipment = formData.equipment;
+  if (getFormEobt(formData.eobdt) !== getFiledEobt(original.eobdt)) changes.eobt = getFormEobt(formData.eobdt);
+  if (cleanStr(formData.flSpeed) !== cleanStr(original.flSpeed)) changes.flSpeed = formData.flSpeed;
+  if (cleanStr(formData.flLevel) !== cleanStr(original.flLevel)) changes.flLevel = formData.flLevel;
+  if (cleanStr(formData.flRoute) !== cleanStr(original.flRoute)) changes.flRoute = formData.flRoute;
+  if (cleanStr(formData.adAltn1) !== cleanStr(original.adAltn1)) changes.adAltn1 = formData.adAltn1 || '';
+  if (cleanStr(formData.adAltn2) !== cleanStr(original.adAltn2)) changes.adAltn2 = formData.adAltn2 || '';
+  if (formData.totalEet !== original.totalEet) changes.totalEet = formData.totalEet;
+  if (cleanStr(formData.flOther) !== cleanStr(original.flOther)) changes.flOther = formData.flOther || '';
+  if (cleanStr(formData.flSuplementary) !== cleanStr(original.flSuplementary)) {
+    changes.flSuplementary = formData.flSuplementary || '';
+  }
+
+  return changes;
+}
+
+export function hasFlightPlanChanges(changes: FlightPlanChanges): boolean {
+  return Object.keys(changes).length > 0;
+}
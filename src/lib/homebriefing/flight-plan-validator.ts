@@ -0,0 +1,235 @@
+import { FieldError, FlightPlanFormData, FlightPlanValidationResponse } from './types';
+import { parseRoute } from './route-parser';
+
+// Local checks of Fields 7-19 against ICAO Doc 4444 (PANS-ATM) Appendix 2, run
+// in the browser while the form is typed. Errors use the field codes of
+// CheckFplValidity (F7, F10a, F15c, ...) so they show like Homebriefing's own.
+// Empty fields aren't reported, Homebriefing says which ones it needs. They
+// are warnings: Homebriefing's validation decides whether a plan can be filed.
+
+// PBN/ Performance Based Navigation with required Field 10a descriptors:
+// "O or S, D" means O or S, and D
+export const pbnRnavOptions = [
+  { code: 'A1', desc: 'RNAV 10 (RNP 10)', req: '' },
+  { code: 'B1', desc: 'RNAV 5 all sensors', req: 'O or S, D, G, I' },
+  { code: 'B2', desc: 'RNAV 5 GNSS', req: 'G' },
+  { code: 'B3', desc: 'RNAV 5 DME/DME', req: 'D' },
+  { code: 'B4', desc: 'RNAV 5 VOR/DME', req: 'O or S, D' },
+  { code: 'B5', desc: 'RNAV 5 INS/IRS', req: 'I' },
+  { code: 'B6', desc: 'RNAV 5 LORANC', req: '' },
+  { code: 'C1', desc: 'RNAV 2 all sensors', req: 'D, G, I' },
+  { code: 'C2', desc: 'RNAV 2 GNSS', req: 'G' },
+  { code: 'C3', desc: 'RNAV 2 DME/DME', req: 'D' },
+  { code: 'C4', desc: 'RNAV 2 DME/DME/IRU', req: 'D, I' },
+  { code: 'D1', desc: 'RNAV 1 all sensors', req: 'D, G, I' },
+  { code: 'D2', desc: 'RNAV 1 GNSS', req: 'G' },
+  { code: 'D3', desc: 'RNAV 1 DME/DME', req: 'D' },
+  { code: 'D4', desc: 'RNAV 1 DME/DME/IRU', req: 'D, I' },
+];
+
+export const pbnRnpOptions = [
+  { code: 'L1', desc: 'RNP 4', req: '' },
+  { code: 'O1', desc: 'Basic RNP 1 all sensors', req: 'D, G, I' },
+  { code: 'O2', desc: 'Basic RNP 1 GNSS', req: 'G' },
+  { code: 'O3', desc: 'Basic RNP 1 DME/DME', req: 'D' },
+  { code: 'O4', desc: 'Basic RNP 1 DME/DME/IRU', req: 'D, I' },
+  { code: 'S1', desc: 'RNP APCH', req: '' },
+  { code: 'S2', desc: 'RNP APCH BARO-VNAV', req: '' },
+  { code: 'T1', desc: 'RNP AR APCH with RF', req: '(special auth)' },
+  { code: 'T2', desc: 'RNP AR APCH w/o RF', req: '(special auth)' },
+];
+
+// Field 10a descriptors, N (no equipment) stands alone
+const COM_NAV_DESCRIPTORS = new Set([
+  'A', 'B', 'C', 'D', 'E1', 'E2', 'E3', 'F', 'G', 'H', 'I', 'J1', 'J2', 'J3', 'J4', 'J5', 'J6', 'J7',
+  'K', 'L', 'M1', 'M2', 'M3', 'O', 'P1', 'P2', 'P3', 'P4', 'P5', 'P6', 'P7', 'P8', 'P9',
+  'R', 'S', 'T', 'U', 'V', 'W', 'X', 'Y', 'Z',
+]);
+
+// Field 10b descriptors, N (no surveillance) stands alone
+const SURVEILLANCE_DESCRIPTORS = new Set([
+  'A', 'C', 'E', 'H', 'I', 'L', 'P', 'S', 'X', 'B1', 'B2', 'U1', 'U2', 'V1', 'V2', 'D1', 'G1',
+]);
+
+const CALLSIGN = /^[A-Z][A-Z0-9]{0,6}$/;
+const AIRCRAFT_TYPE = /^[A-Z][A-Z0-9]{1,3}$/;
+const AERODROME = /^[A-Z]{4}$/;
+const SPEED = /^(N\d{4}|K\d{4}|M\d{3})$/;
+const LEVEL = /^(F\d{3}|A\d{3}|S\d{4}|M\d{4}|VFR)$/;
+
+// Field 18 entries by indicator, e.g. "PBN/B2D2 RMK/NIGHT VFR" -> { PBN: "B2D2", RMK: "NIGHT VFR" }
+function getField18Entries(flOther?: string): Record<string, string> {
+  const entries: Record<string, string> = {};
+  const matches = (flOther || '').toUpperCase().match(/([A-Z0-9]+)\/([^ ]+(?:\s+[^ /]+)*?)(?=\s+[A-Z0-9]+\/|$)/g) || [];
+  for (const match of matches) {
+    const slashIndex = match.indexOf('/');
+    entries[match.substring(0, slashIndex)] = match.substring(slashIndex + 1);
+  }
+  return entries;
+}
+
+// Field 19 entry, written E\0430 the way Homebriefing stores it, or E/0430
+function getField19Entry(flSuplementary: string | undefined, indicator: string): string | undefined {
+  return (flSuplementary || '').toUpperCase().match(new RegExp(`(?:^|\\s)${indicator}[\\\\/](\\S*)`))?.[1];
+}
+
+// "SDE2FGRY" -> ["S", "D", "E2", "F", "G", "R", "Y"], undefined for an unknown descriptor
+function splitDescriptors(text: string, known: Set<string>): string[] | undefined {
+  if (text === 'N') return ['N'];
+  const descriptors = text.match(/[A-Z]\d?/g) || [];
+  return descriptors.join('') === text && descriptors.every((d) => known.has(d)) ? descriptors : undefined;
+}
+
+// Descriptors missing for a PBN/ code, e.g. "O or S, D" with "SG" -> ["D"]
+function getMissingDescriptors(req: string, comNav: string[]): string[] {
+  return req.split(',')
+    .map((group) => group.trim().split(' or ').map((d) => d.trim()).filter((d) => /^[A-Z]\d?$/.test(d)))
+    .filter((group) => group.length > 0 && !group.some((d) => comNav.includes(d)))
+    .map((group) => group.join(' or '));
+}
+
+function checkEquipment(formData: FlightPlanFormData, field18: Record<string, string>, errors: FieldError[]): void {
+  const equipment = (formData.equipment || '').trim().toUpperCase();
+  const pbn = field18.PBN ? field18.PBN.match(/[A-Z]\d/g) || [] : [];
+  if (!equipment) return;
+
+  const [comNavText, surveillanceText, ...rest] = equipment.split('/');
+  const comNav = splitDescriptors(comNavText, COM_NAV_DESCRIPTORS);
+  if (!comNav || rest.length > 0) {
+    errors.push({ field: 'F10a', message: `${comNavText} is not a valid equipment code (e.g. SDFGY, or N for none)` });
+    return;
+  }
+  if (surveillanceText === undefined) {
+    errors.push({ field: 'F10b', message: `Add the surveillance equipment after a slash, e.g. ${comNavText}/S (N for none)` });
+  } else if (!splitDescriptors(surveillanceText, SURVEILLANCE_DESCRIPTORS)) {
+    errors.push({ field: 'F10b', message: `${surveillanceText} is not a valid surveillance code (e.g. S, EB1, or N for none)` });
+  }
+
+  if (comNav.includes('Z') && !field18.NAV && !field18.COM && !field18.DAT) {
+    errors.push({ field: 'F10a', message: 'Z in Field 10a needs NAV/, COM/ or DAT/ in Field 18' });
+  }
+  if (comNav.includes('R') && pbn.length === 0) {
+    errors.push({ field: 'F18', message: 'R in Field 10a needs the PBN/ capabilities in Field 18' });
+  }
+  if (pbn.length > 0 && !comNav.includes('R')) {
+    errors.push({ field: 'F10a', message: 'PBN/ in Field 18 needs R in Field 10a' });
+  }
+  if (pbn.length > 8) {
+    errors.push({ field: 'F18', message: 'PBN/ allows at most 8 entries' });
+  }
+
+  for (const code of pbn) {
+    const option = [...pbnRnavOptions, ...pbnRnpOptions].find((o) => o.code === code);
+    if (!option) {
+      errors.push({ field: 'F18', message: `${code} is not a PBN/ code` });
+      continue;
+    }
+    const missing = getMissingDescriptors(option.req, comNav);
+    if (missing.length > 0) {
+      errors.push({ field: 'F10a', message: `PBN/${code} (${option.desc}) needs ${missing.join(', ')} in Field 10a` });
+    }
+  }
+}
+
+// The flight rules say where the route changes rules: Y (IFR first) and Z (VFR
+// first) need the change in the route, I and V mustn't have one
+function checkFlightRules(formData: FlightPlanFormData, routeRules: string[], errors: FieldError[]): void {
+  const level = (formData.flLevel || '').trim().toUpperCase();
+  switch (formData.flRules) {
+    case 'I':
+      if (routeRules.includes('VFR')) errors.push({ field: 'F15c', message: 'An IFR flight (I) cannot change to VFR, file Y instead' });
+      if (level === 'VFR') errors.push({ field: 'F15b', message: 'An IFR flight needs a cruising level, not VFR' });
+      break;
+    case 'V':
+      if (routeRules.includes('IFR')) errors.push({ field: 'F15c', message: 'A VFR flight (V) cannot change to IFR, file Z instead' });
+      break;
+    case 'Y':
+      if (!routeRules.includes('VFR')) errors.push({ field: 'F15c', message: 'Flight rules Y need the point where the flight changes to VFR in the route (POINT VFR)' });
+      if (level === 'VFR') errors.push({ field: 'F15b', message: 'Flight rules Y start IFR, enter a cruising level instead of VFR' });
+      break;
+    case 'Z':
+      if (!routeRules.includes('IFR')) errors.push({ field: 'F15c', message: 'Flight rules Z need the point where the flight changes to IFR in the route (POINT/N0105F080 IFR)' });
+      break;
+  }
+}
+
+// ZZZZ aerodromes and aircraft types are named in Field 18
+function checkZzzz(formData: FlightPlanFormData, field18: Record<string, string>, errors: FieldError[]): void {
+  const zzzz: { field: string; value?: string; indicator: string; what: string }[] = [
+    { field: 'F9b', value: formData.arcType, indicator: 'TYP', what: 'the aircraft type' },
+    { field: 'F13a', value: formData.adep, indicator: 'DEP', what: 'the departure aerodrome' },
+    { field: 'F16a', value: formData.ades, indicator: 'DEST', what: 'the destination aerodrome' },
+    { field: 'F16c', value: formData.adAltn1, indicator: 'ALTN', what: 'the alternate' },
+    { field: 'F16d', value: formData.adAltn2, indicator: 'ALTN', what: 'the alternate' },
+  ];
+  for (const { field, value, indicator, what } of zzzz) {
+    if ((value || '').trim().toUpperCase() === 'ZZZZ' && !field18[indicator]) {
+      errors.push({ field, message: `ZZZZ needs ${indicator}/ with ${what} in Field 18` });
+    }
+  }
+}
+
+export function validateFlightPlanFields(formData: FlightPlanFormData): FieldError[] {
+  const errors: FieldError[] = [];
+  const field18 = getField18Entries(formData.flOther);
+  const filled = (value?: string) => (value || '').trim().toUpperCase();
+
+  const arcid = filled(formData.arcid);
+  if (arcid && !CALLSIGN.test(arcid)) {
+    errors.push({ field: 'F7', message: 'Enter the registration or callsign without hyphens, at most 7 letters and digits starting with a letter (e.g. PHHLR)' });
+  }
+
+  const arcType = filled(formData.arcType);
+  if (arcType && !AIRCRAFT_TYPE.test(arcType)) {
+    errors.push({ field: 'F9b', message: `${arcType} is not an ICAO aircraft type designator (e.g. C172), use ZZZZ and TYP/ otherwise` });
+  }
+
+  checkEquipment(formData, field18, errors);
+
+  const aerodromes: [string, string | undefined][] = [
+    ['F13a', formData.adep], ['F16a', formData.ades], ['F16c', formData.adAltn1], ['F16d', formData.adAltn2],
+  ];
+  for (const [field, value] of aerodromes) {
+    if (filled(value) && !AERODROME.test(filled(value))) {
+      errors.push({ field, message: `${filled(value)} is not a four letter ICAO location indicator, use ZZZZ if there is none` });
+    }
+  }
+  checkZzzz(formData, field18, errors);
+
+  const speed = filled(formData.flSpeed);
+  if (speed && !SPEED.test(speed)) {
+    errors.push({ field: 'F15a', message: `${speed} is not a valid cruising speed (N0105, K0200, M082)` });
+  }
+  const level = filled(formData.flLevel);
+  if (level && !LEVEL.test(level)) {
+    errors.push({ field: 'F15b', message: `${level} is not a valid cruising level (F065, A025, VFR)` });
+  }
+
+  const route = parseRoute(formData.flRoute || '');
+  errors.push(...route.errors.map(({ field, message }) => ({ field, message })));
+  const routeRules = route.elements.filter((e) => e.type === 'rules').map((e) => e.name!);
+  checkFlightRules(formData, routeRules, errors);
+
+  const endurance = getField19Entry(formData.flSuplementary, 'E');
+  if (endurance !== undefined && !/^\d{2}[0-5]\d$/.test(endurance)) {
+    errors.push({ field: 'F19a', message: `${endurance} is not a valid endurance (hours and minutes, e.g. 0430)` });
+  }
+  const persons = getField19Entry(formData.flSuplementary, 'P');
+  if (persons !== undefined && !/^(\d{1,3}|TBN)$/.test(persons)) {
+    errors.push({ field: 'F19b', message: `${persons} is not a valid number of persons on board (e.g. 2 or TBN)` });
+  }
+
+  return errors;
+}
+
+// Local findings added to Homebriefing's validation as warnings, leaving out what
+// Homebriefing reports itself. fplIsOk stays Homebriefing's, a check here that is
+// stricter than Homebriefing mustn't stop a plan it accepts.
+export function addLocalFieldWarnings(
+  result: FlightPlanValidationResponse,
+  localErrors: FieldError[]
+): FlightPlanValidationResponse {
+  const reported = new Set([...(result.fieldErrors || []), ...(result.warnings || [])].map((e) => `${e.field} ${e.message}`));
+  const warnings = localErrors.filter((e) => !reported.has(`${e.field} ${e.message}`));
+  return warnings.length > 0 ? { ...result, warnings: [...(result.warnings || []), ...warnings] } : result;
+}
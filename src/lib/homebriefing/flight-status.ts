@@ -0,0 +1,232 @@
+import { FlightMessagesResponse, FlightPlan, FlightStatusChange, FlightStatusEvent, HomebriefingSession } from './types';
+import { homebriefingClient } from './client';
+import { sessionStore } from './session-store';
+import { isAirborne } from './flight-messages';
+
+// Server-side flight status poller: one per session however many browser tabs
+// listen, so a dashboard left open all day doesn't multiply the load on
+// Homebriefing. Each round lists the current flight plans and the messages of
+// those still open or whose status changed, and passes on what changed (status, possible actions, new messages). The
+// notifier takes the latest round of a user from here instead of asking
+// Homebriefing for the same flight plans and messages again.
+// HOMEBRIEFING_STATUS_INTERVAL sets the seconds between rounds (default 30).
+export const STATUS_INTERVAL = parseFloat(process.env.HOMEBRIEFING_STATUS_INTERVAL ?? '30') * 1000;
+
+export interface FlightSnapshot {
+  arcid: string;
+  flStatusCode: number;
+  flCanDo: number;
+  msgCount: number;
+  airborne: boolean;
+}
+
+export type FlightStatusListener = (event: FlightStatusEvent) => void;
+
+// The current flight plans of a user and their messages, as read in one round.
+// Flights whose messages couldn't be read have no entry in `messages`.
+export interface FlightRound {
+  at: number;               // When the round started
+  sessionId: string;
+  flightPlans: FlightPlan[];
+  messages: Map<number, FlightMessagesResponse>;
+}
+
+interface StatusPoller {
+  listeners: Set<FlightStatusListener>;
+  timer: NodeJS.Timeout;
+  snapshot?: Map<number, FlightSnapshot>;   // Undefined until the first round
+  round?: FlightRound;
+  running: boolean;
+}
+
+const globalForFlightStatus = globalThis as unknown as {
+  flightStatusPollers: Map<string, StatusPoller> | undefined;
+  flightRounds: Map<string, FlightRound> | undefined;
+};
+
+const pollers = globalForFlightStatus.flightStatusPollers ?? new Map<string, StatusPoller>();
+globalForFlightStatus.flightStatusPollers = pollers;
+
+// Latest poller round per user (upper case)
+const rounds = globalForFlightStatus.flightRounds ?? new Map<string, FlightRound>();
+globalForFlightStatus.flightRounds = rounds;
+
+// Rejected and cancelled flight plans get no more messages
+const CLOSED_STATUS_CODES = [4, 7, 49, 490, 491];
+
+// Read the current flight plans of a session and their messages. Closed flight
+// plans whose status is the same as in the previous round keep the messages
+// read then, the others are read again. 'expired' when Homebriefing no longer
+// accepts the session, undefined when the list can't be read this time.
+export async function readFlightRound(
+  sessionId: string,
+  session: HomebriefingSession,
+  previous?: FlightRound
+): Promise<FlightRound | 'expired' | undefined> {
+  const at = Date.now();
+  const list = await homebriefingClient.getCurrentFlightPlans(session.cookies, session.token, session.userSession, { pageItems: 100 });
+  if (list.sessionExpired) return 'expired';
+  if (list.isError) return undefined;
+
+  const messages = new Map<number, FlightMessagesResponse>();
+  for (const fp of list.flightPlans) {
+    const before = previous?.flightPlans.find((plan) => plan.flId === fp.flId);
+    const known = previous?.messages.get(fp.flId);
+    if (known && before?.flStatusCode === fp.flStatusCode && CLOSED_STATUS_CODES.includes(fp.flStatusCode)) {
+      messages.set(fp.flId, known);
+      continue;
+    }
+    const result = await homebriefingClient.getFlightPlanMessages(session.cookies, session.token, session.userSession, fp.flId);
+    if (!result.isError) messages.set(fp.flId, result);
+  }
+  return { at, sessionId, flightPlans: list.flightPlans, messages };
+}
+
+// The latest round of a user's status poller, when it started less than maxAge ago
+export function getRecentFlightRound(username: string, maxAge: number, now = Date.now()): FlightRound | undefined {
+  const round = rounds.get(username.toUpperCase());
+  return round && now - round.at < maxAge ? round : undefined;
+}
+
+// Flights that appeared, disappeared or changed between two rounds
+export function diffFlightStatus(
+  previous: Map<number, FlightSnapshot>,
+  current: Map<number, FlightSnapshot>
+): FlightStatusChange[] {
+  const changes: FlightStatusChange[] = [];
+
+  for (const [flId, flight] of current) {
+    const before = previous.get(flId);
+    const newMessages = flight.msgCount > (before?.msgCount ?? 0);
+    if (!before) {
+      changes.push({ flId, ...flight, kind: 'added', newMessages });
+    } else if (before.flStatusCode !== flight.flStatusCode || before.flCanDo !== flight.flCanDo || before.airborne !== flight.airborne || newMessages) {
+      changes.push({ flId, ...flight, kind: 'changed', newMessages });
+    }
+  }
+  for (const [flId, flight] of previous) {
+    if (!current.has(flId)) {
+      changes.push({ flId, ...flight, kind: 'removed', newMessages: false });
+    }
+  }
+  return changes;
+}
+
+function emit(poller: StatusPoller, event: FlightStatusEvent): void {
+  for (const listener of poller.listeners) {
+    try {
+      listener(event);
+    } catch (error) {
+      console.error('Flight status listener error:', error);
+    }
+  }
+}
+
+function snapshotEvent(snapshot: Map<number, FlightSnapshot>): FlightStatusEvent {
+  return { type: 'snapshot', flights: [...snapshot].map(([flId, flight]) => ({ flId, ...flight })) };
+}
+
+function stopPoller(sessionId: string): void {
+  const poller = pollers.get(sessionId);
+  if (!poller) return;
+  clearInterval(poller.timer);
+  pollers.delete(sessionId);
+  for (const [user, round] of rounds) {
+    if (round.sessionId === sessionId) rounds.delete(user);
+  }
+}
+
+function endSession(sessionId: string, poller: StatusPoller): void {
+  emit(poller, { type: 'expired' });
+  stopPoller(sessionId);
+}
+
+function takeFlightSnapshot(
+  fp: FlightPlan,
+  messages: FlightMessagesResponse | undefined,
+  previous: FlightSnapshot | undefined
+): FlightSnapshot {
+  return {
+    arcid: fp.arcid,
+    flStatusCode: fp.flStatusCode,
+    flCanDo: fp.flCanDo,
+    // Keep the last count when the messages can't be read this round
+    msgCount: messages ? messages.msgCount : previous?.msgCount ?? 0,
+    airborne: messages ? isAirborne(messages.messages) : previous?.airborne ?? false,
+  };
+}
+
+async function pollFlightStatus(sessionId: string, poller: StatusPoller): Promise<void> {
+  // Peek, an open dashboard alone doesn't keep the session alive
+  const session = await sessionStore.peekSession(sessionId);
+  if (!session) {
+    endSession(sessionId, poller);
+    return;
+  }
+
+  const round = await readFlightRound(sessionId, session, poller.round);
+  if (round === 'expired') {
+    await sessionStore.deleteSession(sessionId);
+    endSession(sessionId, poller);
+    return;
+  }
+  // Homebriefing trouble isn't a change, try again next round
+  if (!round) return;
+  // Stopped while reading, nobody listens for this round any more
+  if (pollers.get(sessionId) !== poller) return;
+  poller.round = round;
+  rounds.set(session.username.toUpperCase(), round);
+
+  const snapshot = new Map<number, FlightSnapshot>();
+  for (const fp of round.flightPlans) {
+    snapshot.set(fp.flId, takeFlightSnapshot(fp, round.messages.get(fp.flId), poller.snapshot?.get(fp.flId)));
+  }
+
+  const previous = poller.snapshot;
+  poller.snapshot = snapshot;
+  if (!previous) {
+    emit(poller, snapshotEvent(snapshot));
+    return;
+  }
+  const changes = diffFlightStatus(previous, snapshot);
+  if (changes.length > 0) {
+    emit(poller, { type: 'changes', changes });
+  }
+}
+
+function runRound(sessionId: string, poller: StatusPoller): void {
+  if (poller.running) return;
+  poller.running = true;
+  pollFlightStatus(sessionId, poller)
+    .catch((error) => console.error('Flight status poll error:', error))
+    .finally(() => { poller.running = false; });
+}
+
+// Listen to status changes of the current flight plans of a session, the
+// poller runs while anyone listens. Returns the function to stop listening.
+export function subscribeFlightStatus(sessionId: string, listener: FlightStatusListener): () => void {
+  let poller = pollers.get(sessionId);
+  if (!poller) {
+    const created: StatusPoller = {
+      listeners: new Set(),
+      timer: setInterval(() => runRound(sessionId, created), STATUS_INTERVAL),
+      running: false,
+    };
+    created.timer.unref();
+    pollers.set(sessionId, created);
+    poller = created;
+    // The first round tells where the flights stand
+    runRound(sessionId, created);
+  } else if (poller.snapshot) {
+    listener(snapshotEvent(poller.snapshot));
+  }
+  poller.listeners.add(listener);
+
+  const subscribed = poller;
+  return () => {
+    subscribed.listeners.delete(listener);
+    if (subscribed.listeners.size === 0 && pollers.get(sessionId) === subscribed) {
+      stopPoller(sessionId);
+    }
+  };
+}
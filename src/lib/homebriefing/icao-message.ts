@@ -0,0 +1,151 @@
+import { FlightPlan, FlightPlanChanges, FlightPlanFormData } from './types';
+import { getFiledEobt } from './flight-plan-change';
+
+// Renders the ICAO (AFTN) message text that Homebriefing sends for an action,
+// one field per line like the messages returned in FlightMessage.msgTxt
+
+function cleanStr(str?: string): string {
+  return (str || '').replace(/\s+/g, ' ').trim().toUpperCase();
+}
+
+function formatEetHHMM(minutes: number): string {
+  const h = String(Math.floor(minutes / 60)).padStart(2, '0');
+  const m = String(minutes % 60).padStart(2, '0');
+  return `${h}${m}`;
+}
+
+// "YYYY-MM-DD..." -> YYMMDD
+function formatDof(date: string): string {
+  return date.slice(2, 10).replace(/-/g, '');
+}
+
+// Date of flight of a filed plan, DOF/ in Field 18 wins over the EOBDT date
+function getFiledDof(fp: FlightPlan): string {
+  const dofMatch = (fp.flOther || '').match(/DOF\/(\d{6})/);
+  return dofMatch ? dofMatch[1] : formatDof(new Date(fp.eobdt).toISOString());
+}
+
+// Field 9: number of aircraft (only when more than one), type and wake turbulence category
+function formatField9(arcNum: string | undefined, arcType: string, wakeTurbulenceCat: string): string {
+  const num = arcNum && parseInt(arcNum) > 1 ? arcNum : '';
+  return `${num}${arcType}/${wakeTurbulenceCat}`;
+}
+
+// Field 16: destination, total EET and alternates
+function formatField16(ades: string, totalEet: number, adAltn1?: string, adAltn2?: string): string {
+  const altns = [adAltn1, adAltn2].filter(Boolean).join(' ');
+  return `${ades}${formatEetHHMM(totalEet)}${altns ? ' ' + altns : ''}`;
+}
+
+// Field 19 is stored with backslash separators (E\0300 P\2), the message uses E/0300 P/2
+function formatField19(flSuplementary?: string): string {
+  return cleanStr((flSuplementary || '').replace(/([A-Z])\\/g, '$1/'));
+}
+
+// Filed flight plan (FPL), formData.eobdt in HB format "YYYY-MM-DD HH:mm"
+export function renderFplMessage(formData: FlightPlanFormData): string {
+  const eobt = formData.eobdt.slice(11, 16).replace(':', '');
+  let field18 = cleanStr(formData.flOther);
+  if (!/DOF\/\d{6}/.test(field18)) {
+    field18 = `${field18} DOF/${formatDof(formData.eobdt)}`.trim();
+  }
+
+  const lines = [
+    `(FPL-${cleanStr(formData.arcid)}-${formData.flRules}${formData.flType}`,
+    `-${formatField9(formData.arcNum, cleanStr(formData.arcType), formData.wakeTurbulenceCat)}-${cleanStr(formData.equipment)}`,
+    `-${cleanStr(formData.adep)}${eobt}`,
+    `-${cleanStr(formData.flSpeed)}${cleanStr(formData.flLevel)} ${cleanStr(formData.flRoute)}`,
+    `-${formatField16(cleanStr(formData.ades), formData.totalEet, cleanStr(formData.adAltn1), cleanStr(formData.adAltn2))}`,
+    `-${field18}`,
+  ];
+
+  const field19 = formatField19(formData.flSuplementary);
+  if (field19) {
+    lines.push(`-${field19}`);
+  }
+
+  return lines.join('\n') + ')';
+}
+
+// Delay (DLA), field 13 carries the new EOBT
+export function renderDlaMessage(fp: FlightPlan, newEobt: string): string {
+  return [
+    `(DLA-${fp.arcid}`,
+    `-${fp.adep}${newEobt}`,
+    `-${fp.ades}`,
+    `-DOF/${getFiledDof(fp)})`,
+  ].join('\n');
+}
+
+// Cancel (CNL)
+export function renderCnlMessage(fp: FlightPlan): string {
+  return [
+    `(CNL-${fp.arcid}`,
+    `-${fp.adep}${getFiledEobt(fp.eobdt)}`,
+    `-${fp.ades}`,
+    `-DOF/${getFiledDof(fp)})`,
+  ].join('\n');
+}
+
+// Departure (DEP), field 13 carries the actual time of departure
+export function renderDepMessage(fp: FlightPlan, departureTime: string): string {
+  return [
+    `(DEP-${fp.arcid}`,
+    `-${fp.adep}${departureTime}`,
+    `-${fp.ades}`,
+    `-DOF/${getFiledDof(fp)})`,
+  ].join('\n');
+}
+
+// Arrival (ARR), field 17 is the arrival aerodrome (ADES unless diverted) with ATA
+export function renderArrMessage(
+  fp: FlightPlan,
+  arrivalTime: string,
+  arrivalAerodrome = '',     // Diversion aerodrome ICAO, empty when landed at the filed ADES
+  arrivalAerodromeName = ''  // Name of the aerodrome when arrivalAerodrome is ZZZZ
+): string {
+  const field17 = `${arrivalAerodrome || fp.ades}${arrivalTime}${arrivalAerodromeName ? ' ' + cleanStr(arrivalAerodromeName) : ''}`;
+  return [
+    `(ARR-${fp.arcid}`,
+    `-${fp.adep}${getFiledEobt(fp.eobdt)}`,
+    `-${field17}`,
+    `-DOF/${getFiledDof(fp)})`,
+  ].join('\n');
+}
+
+// Modification (CHG). Like the Homebriefing preview, a changed field repeats its whole ICAO field group.
+export function renderChgMessage(fp: FlightPlan, formData: FlightPlanFormData, changes: FlightPlanChanges): string {
+  const lines = [
+    `(CHG-${fp.arcid}`,
+    `-${fp.adep}${getFiledEobt(fp.eobdt)}`,
+    `-${fp.ades}`,
+    `-DOF/${getFiledDof(fp)}`,
+  ];
+
+  if (changes.flRules !== undefined || changes.flType !== undefined) {
+    lines.push(`-8/${formData.flRules}${formData.flType}`);
+  }
+  if (changes.arcNum !== undefined || changes.arcType !== undefined || changes.wakeTurbulenceCat !== undefined) {
+    lines.push(`-9/${formatField9(formData.arcNum, cleanStr(formData.arcType), formData.wakeTurbulenceCat)}`);
+  }
+  if (changes.equipment !== undefined) {
+    lines.push(`-10/${cleanStr(formData.equipment)}`);
+  }
+  if (changes.eobt !== undefined) {
+    lines.push(`-13/${fp.adep}${changes.eobt}`);
+  }
+  if (changes.flSpeed !== undefined || changes.flLevel !== undefined || changes.flRoute !== undefined) {
+    lines.push(`-15/${cleanStr(formData.flSpeed)}${cleanStr(formData.flLevel)} ${cleanStr(formData.flRoute)}`);
+  }
+  if (changes.totalEet !== undefined || changes.adAltn1 !== undefined || changes.adAltn2 !== undefined) {
+    lines.push(`-16/${formatField16(fp.ades, formData.totalEet, cleanStr(formData.adAltn1), cleanStr(formData.adAltn2))}`);
+  }
+  if (changes.flOther !== undefined) {
+    lines.push(`-18/${cleanStr(formData.flOther) || '0'}`);
+  }
+  if (changes.flSuplementary !== undefined) {
+    lines.push(`-19/${formatField19(formData.flSuplementary)}`);
+  }
+
+  return lines.join('\n') + ')';
+}
@@ -1,3 +1,14 @@
 export * from './types';
 export * from './client';
 export * from './session-store';
+export * from './flight-plan-change';
+export * from './flight-messages';
+export * from './flight-plan-validator';
+export * from './aircraft';
+export * from './icao-message';
+export * from './route-parser';
+export * from './soap/errors';
+export * from './keep-alive';
+export * from './flight-status';
+export * from './notifications';
+export * from './briefing';
@@ -0,0 +1,54 @@
+import { HomebriefingSession } from './types';
+import { homebriefingClient } from './client';
+import { sessionStore } from './session-store';
+
+// Background keep-alive: pings Homebriefing for every stored session so the
+// login there doesn't idle out while a user is filling in a form, and drops
+// sessions Homebriefing no longer accepts before the user runs into them.
+// HOMEBRIEFING_KEEPALIVE_INTERVAL sets the minutes between rounds (default 5, 0 disables).
+export const KEEPALIVE_INTERVAL = parseFloat(process.env.HOMEBRIEFING_KEEPALIVE_INTERVAL ?? '5') * 60 * 1000;
+
+// Ping Homebriefing for one session, returns false (and deletes it) when it's gone
+export async function validateSession(sessionId: string, session: HomebriefingSession): Promise<boolean> {
+  const { alive } = await homebriefingClient.refreshUserInfo(session.cookies, session.token);
+  if (alive) {
+    await sessionStore.markSessionValidated(sessionId);
+  } else {
+    await sessionStore.deleteSession(sessionId);
+  }
+  return alive;
+}
+
+export async function runKeepAlive(): Promise<void> {
+  const sessionIds = await sessionStore.listSessionIds();
+  for (const sessionId of sessionIds) {
+    try {
+      // Peek so the keep-alive itself doesn't extend idle sessions
+      const session = await sessionStore.peekSession(sessionId);
+      if (session) {
+        await validateSession(sessionId, session);
+      }
+    } catch (error) {
+      // Network trouble isn't proof of expiry, keep the session and retry next round
+      console.error('Session keep-alive error:', error);
+    }
+  }
+}
+
+const globalForKeepAlive = globalThis as unknown as {
+  keepAliveTimer: NodeJS.Timeout | undefined;
+};
+
+export function startKeepAlive(): void {
+  if (globalForKeepAlive.keepAliveTimer || !(KEEPALIVE_INTERVAL > 0)) return;
+
+  let running = false;
+  globalForKeepAlive.keepAliveTimer = setInterval(() => {
+    if (running) return;
+    running = true;
+    runKeepAlive()
+      .catch((error) => console.error('Session keep-alive error:', error))
+      .finally(() => { running = false; });
+  }, KEEPALIVE_INTERVAL);
+  globalForKeepAlive.keepAliveTimer.unref();
+}
@@ -0,0 +1,6 @@
+export * from './web-push';
+export * from './webhooks';
+export * from './targets';
+export * from './notifier';
+export * from './smtp';
+export * from './safety-timer';
@@ -0,0 +1,377 @@
+import { FlightMessage, FlightNotification, FlightPlan, HomebriefingSession, NotificationSettings } from '../types';
+import { sessionStore } from '../session-store';
+import { FlightRound, getRecentFlightRound, readFlightRound } from '../flight-status';
+import { sendWebPush } from './web-push';
+import { sendWebhook } from './webhooks';
+import { sendMail } from './smtp';
+import {
+  getArrivalDue,
+  getClosingMessage,
+  getDueSafetyReminder,
+  getLandedPath,
+  getLandedUrl,
+  getNotifiedFlight,
+  isSafetyTimerRunning,
+  newSafetyTimer,
+  reminderMail,
+  SAFETY_REMINDER_ATTEMPTS,
+} from './safety-timer';
+
+// Background notifier: for every user with push subscriptions, webhooks or a
+// safety timer and a stored session, reads the messages of the current flight plans and sends
+// new ACK, REJ, DLA, CNL and DEP messages on, and an alert when a flight's
+// arrival is overdue, and runs the safety timers (safety-timer.ts).
+// It only sees flights while the user has a session here. While a dashboard is
+// open the flight status poller already reads them, its round is used then.
+// HOMEBRIEFING_NOTIFY_INTERVAL sets the seconds between rounds (default 60, 0 disables).
+export const NOTIFY_INTERVAL = parseFloat(process.env.HOMEBRIEFING_NOTIFY_INTERVAL ?? '60') * 1000;
+
+export const NOTIFY_MESSAGE_TYPES = ['ACK', 'REJ', 'DLA', 'CNL', 'DEP'];
+
+const MESSAGE_LABELS: Record<string, string> = {
+  ACK: 'Acknowledged',
+  REJ: 'Rejected',
+  DLA: 'Delayed',
+  CNL: 'Cancelled',
+  DEP: 'Departed',
+};
+
+// What the notifier knows about a flight after a round
+export interface WatchedFlight {
+  messageIds: number[];
+  overdueSent: boolean;
+}
+
+// Per user (upper case), flights by flId. A user without an entry gets a
+// first round that only records the messages that are already there.
+const globalForNotifier = globalThis as unknown as {
+  notifierWatches: Map<string, Map<number, WatchedFlight>> | undefined;
+  notifierRounds: Map<string, FlightRound> | undefined;
+  notifierTimer: NodeJS.Timeout | undefined;
+};
+
+const watches = globalForNotifier.notifierWatches ?? new Map<string, Map<number, WatchedFlight>>();
+globalForNotifier.notifierWatches = watches;
+
+// Last round per user, so closed flight plans aren't read again every round
+const lastRounds = globalForNotifier.notifierRounds ?? new Map<string, FlightRound>();
+globalForNotifier.notifierRounds = lastRounds;
+
+// Accepted, not cancelled, and EOBT + EET passed without an ARR
+export function isArrivalOverdue(fp: FlightPlan, messages: FlightMessage[], now = Date.now()): boolean {
+  if (fp.flStatusCode !== 48 && fp.flStatusCode !== 53) return false;
+  if (getClosingMessage(messages)) return false;
+  return now > getArrivalDue(fp);
+}
+
+// Notifications for a flight since the last round. Without a previous round
+// every ACK, REJ, DLA, CNL and DEP message of the flight is new.
+export function detectFlightNotifications(
+  fp: FlightPlan,
+  messages: FlightMessage[],
+  previous: WatchedFlight | undefined,
+  now = Date.now()
+): { notifications: FlightNotification[]; watched: WatchedFlight } {
+  const flight = getNotifiedFlight(fp);
+  const seen = new Set(previous?.messageIds);
+  const notifications: FlightNotification[] = messages
+    .filter((msg) => !seen.has(msg.flMsgId) && NOTIFY_MESSAGE_TYPES.includes(msg.msgType))
+    .sort((a, b) => a.flMsgId - b.flMsgId)
+    .map((message) => ({ type: 'message', flight, message }));
+
+  const overdue = isArrivalOverdue(fp, messages, now);
+  if (overdue && !previous?.overdueSent) {
+    notifications.push({ type: 'arrival-overdue', flight, arrivalDue: new Date(getArrivalDue(fp)).toISOString() });
+  }
+
+  return {
+    notifications,
+    // A DLA moves EOBT, so an overdue flight can become due again
+    watched: { messageIds: messages.map((msg) => msg.flMsgId), overdueSent: overdue },
+  };
+}
+
+// Title and text shown by the service worker
+export function pushPayload(notification: FlightNotification): string {
+  const { flight } = notification;
+  if (notification.type === 'arrival-reminder') {
+    // landedToken lets the service worker send the ARR from the notification's button
+    const token = new URL(notification.landedUrl).searchParams.get('token') ?? '';
+    return JSON.stringify({
+      title: `${flight.arcid} close your flight plan`,
+      body: `ETA ${flight.ades} ${notification.arrivalDue.slice(11, 16)}Z was ${notification.minutesOverdue} minutes ago, no ARR has been sent`,
+      tag: `safety-${flight.flId}`,
+      url: getLandedPath(token),
+      landedToken: token,
+    });
+  }
+  if (notification.type === 'arrival-overdue') {
+    return JSON.stringify({
+      title: `${flight.arcid} arrival overdue`,
+      body: `Due at ${flight.ades} ${notification.arrivalDue.slice(11, 16)}Z, no ARR has been sent`,
+      tag: `overdue-${flight.flId}`,
+      url: '/dashboard',
+    });
+  }
+
+  const { message } = notification;
+  // Keep well under the 4 KB a push message can carry
+  const text = message.msgTxt.length > 300 ? `${message.msgTxt.slice(0, 300)}...` : message.msgTxt;
+  return JSON.stringify({
+    title: `${flight.arcid} ${flight.adep}-${flight.ades}: ${MESSAGE_LABELS[message.msgType] ?? message.msgType}`,
+    body: text,
+    tag: `message-${message.flMsgId}`,
+    url: '/dashboard',
+  });
+}
+
+// Send to every browser and webhook of the user, returns the push endpoints that are gone
+async function deliver(settings: NotificationSettings, notification: FlightNotification): Promise<string[]> {
+  const gone: string[] = [];
+  const payload = pushPayload(notification);
+
+  for (const subscription of settings.pushSubscriptions) {
+    try {
+      if (!(await sendWebPush(subscription, payload))) {
+        gone.push(subscription.endpoint);
+      }
+    } catch (error) {
+      console.error('Web push error:', error);
+    }
+  }
+  for (const webhook of settings.webhooks) {
+    try {
+      await sendWebhook(webhook, notification);
+    } catch (error) {
+      console.error('Webhook error:', error);
+    }
+  }
+  return gone;
+}
+
+// A safety timer reminder goes only to the channels picked for it. Returns
+// where it was delivered, what failed and the push endpoints that are gone.
+async function deliverReminder(
+  settings: NotificationSettings,
+  notification: Extract<FlightNotification, { type: 'arrival-reminder' }>
+): Promise<{ delivered: string[]; failed: string[]; gone: string[] }> {
+  const channels = settings.safetyTimer?.channels ?? [];
+  const delivered: string[] = [];
+  const failed: string[] = [];
+  const gone: string[] = [];
+
+  if (channels.includes('push')) {
+    const payload = pushPayload(notification);
+    let sent = 0;
+    for (const subscription of settings.pushSubscriptions) {
+      try {
+        if (await sendWebPush(subscription, payload)) {
+          sent++;
+        } else {
+          gone.push(subscription.endpoint);
+        }
+      } catch (error) {
+        console.error('Web push error:', error);
+      }
+    }
+    if (sent > 0) {
+      delivered.push(`push (${sent})`);
+    } else {
+      failed.push('push');
+    }
+  }
+  if (channels.includes('email') && settings.safetyTimer?.email) {
+    try {
+      await sendMail(reminderMail(notification, settings.safetyTimer.email));
+      delivered.push('email');
+    } catch (error) {
+      console.error('Safety timer email error:', error);
+      failed.push('email');
+    }
+  }
+  if (channels.includes('webhook')) {
+    for (const webhook of settings.webhooks) {
+      try {
+        await sendWebhook(webhook, notification);
+        delivered.push(`webhook ${webhook.url}`);
+      } catch (error) {
+        console.error('Webhook error:', error);
+        failed.push(`webhook ${webhook.url}`);
+      }
+    }
+  }
+  return { delivered, failed, gone };
+}
+
+// Send the reminder that is due for a flight, or close its timer once the ARR
+// (or CNL) is in. Returns the push endpoints that are gone.
+async function runSafetyTimer(
+  username: string,
+  fp: FlightPlan,
+  messages: FlightMessage[],
+  settings: NotificationSettings,
+  now = Date.now()
+): Promise<string[]> {
+  const timer = await sessionStore.getSafetyTimer(username, fp.flId);
+  if (timer?.closedAt) return [];
+
+  const closing = getClosingMessage(messages);
+  if (closing) {
+    if (timer) {
+      await sessionStore.saveSafetyTimer(username, {
+        ...timer,
+        closedAt: now,
+        log: [...timer.log, { at: now, event: 'closed', detail: `${closing.msgType} in the flight plan messages` }],
+      });
+    }
+    return [];
+  }
+
+  const minutesOverdue = getDueSafetyReminder(fp, messages, timer?.remindersSent ?? [], now);
+  if (minutesOverdue === undefined) return [];
+
+  const current = timer ?? newSafetyTimer(getNotifiedFlight(fp));
+  const { delivered, failed, gone } = await deliverReminder(settings, {
+    type: 'arrival-reminder',
+    flight: getNotifiedFlight(fp),
+    arrivalDue: new Date(getArrivalDue(fp)).toISOString(),
+    minutesOverdue,
+    landedUrl: getLandedUrl(current.token),
+  });
+
+  // Not delivered anywhere: try again next round, until the attempts run out
+  const attempts = current.log.filter((entry) =>
+    entry.event === 'reminder' && entry.minutesOverdue === minutesOverdue && entry.channels?.length === 0
+  ).length + 1;
+  const done = delivered.length > 0 || attempts >= SAFETY_REMINDER_ATTEMPTS;
+
+  await sessionStore.saveSafetyTimer(username, {
+    ...current,
+    flight: getNotifiedFlight(fp),
+    remindersSent: done ? [...current.remindersSent, minutesOverdue] : current.remindersSent,
+    log: [...current.log, {
+      at: now,
+      event: 'reminder',
+      minutesOverdue,
+      channels: delivered,
+      detail: failed.length > 0 ? `Not delivered: ${failed.join(', ')}` : undefined,
+    }],
+  });
+  console.log(`Safety timer reminder ETA+${minutesOverdue} for ${fp.arcid}: ${delivered.join(', ') || 'not delivered'}`);
+  return gone;
+}
+
+async function dropPushSubscriptions(username: string, endpoints: string[]): Promise<void> {
+  // Read again, the user may have changed the settings meanwhile
+  const settings = await sessionStore.getNotificationSettings(username);
+  if (!settings) return;
+  await sessionStore.saveNotificationSettings(username, {
+    ...settings,
+    pushSubscriptions: settings.pushSubscriptions.filter((sub) => !endpoints.includes(sub.endpoint)),
+  });
+}
+
+// One round for one user, false when Homebriefing no longer accepts the session
+async function notifyUser(sessionId: string, session: HomebriefingSession, settings: NotificationSettings): Promise<boolean> {
+  const user = session.username.toUpperCase();
+  const round = getRecentFlightRound(user, NOTIFY_INTERVAL) ?? await readFlightRound(sessionId, session, lastRounds.get(user));
+  if (round === 'expired') {
+    await sessionStore.deleteSession(sessionId);
+    return false;
+  }
+  // Homebriefing trouble, try again next round
+  if (!round) return true;
+  lastRounds.set(user, round);
+
+  const previous = watches.get(user);
+  const current = new Map<number, WatchedFlight>();
+  const notifications: FlightNotification[] = [];
+  const gone = new Set<string>();
+  let timerRunning = false;
+
+  for (const fp of round.flightPlans) {
+    const watched = previous?.get(fp.flId);
+    const messages = round.messages.get(fp.flId);
+    if (!messages) {
+      if (watched) current.set(fp.flId, watched);
+      continue;
+    }
+
+    const found = detectFlightNotifications(fp, messages.messages, watched);
+    current.set(fp.flId, found.watched);
+    // The first round only records the messages, overdue flights are reported right away
+    notifications.push(...(previous ? found.notifications : found.notifications.filter((n) => n.type !== 'message')));
+
+    if (settings.safetyTimer?.enabled) {
+      for (const endpoint of await runSafetyTimer(session.username, fp, messages.messages, settings)) {
+        gone.add(endpoint);
+      }
+      timerRunning ||= isSafetyTimerRunning(fp, messages.messages);
+    }
+  }
+  watches.set(user, current);
+
+  // A running safety timer counts as activity, so the session is still there
+  // for its reminders and the "I have landed" link
+  if (timerRunning) {
+    await sessionStore.getSession(sessionId);
+  }
+
+  for (const notification of notifications) {
+    for (const endpoint of await deliver(settings, notification)) {
+      gone.add(endpoint);
+    }
+  }
+  if (gone.size > 0) {
+    await dropPushSubscriptions(session.username, [...gone]);
+  }
+  return true;
+}
+
+export async function runNotifications(): Promise<void> {
+  const sessionIds = await sessionStore.listSessionIds();
+  // Users are handled once per round, whichever of their sessions works
+  const handled = new Set<string>();
+
+  for (const sessionId of sessionIds) {
+    try {
+      // Peek so notifications don't keep idle sessions alive
+      const session = await sessionStore.peekSession(sessionId);
+      const user = session?.username.toUpperCase();
+      if (!session || !user || handled.has(user)) continue;
+
+      const settings = await sessionStore.getNotificationSettings(session.username);
+      if (!settings || (settings.pushSubscriptions.length === 0 && settings.webhooks.length === 0 && !settings.safetyTimer?.enabled)) continue;
+
+      handled.add(user);
+      if (!(await notifyUser(sessionId, session, settings))) {
+        handled.delete(user);
+      }
+    } catch (error) {
+      // Keep what's known about the user's flights and retry next round
+      console.error('Notification error:', error);
+    }
+  }
+
+  // Users without a session or notifications start over when they're back
+  for (const user of watches.keys()) {
+    if (!handled.has(user)) watches.delete(user);
+  }
+  for (const user of lastRounds.keys()) {
+    if (!handled.has(user)) lastRounds.delete(user);
+  }
+}
+
+export function startNotifier(): void {
+  if (globalForNotifier.notifierTimer || !(NOTIFY_INTERVAL > 0)) return;
+
+  let running = false;
+  globalForNotifier.notifierTimer = setInterval(() => {
+    if (running) return;
+    running = true;
+    runNotifications()
+      .catch((error) => console.error('Notification error:', error))
+      .finally(() => { running = false; });
+  }, NOTIFY_INTERVAL);
+  globalForNotifier.notifierTimer.unref();
+}
@@ -0,0 +1,151 @@
+import { randomBytes } from 'crypto';
+import { FlightMessage, FlightNotification, FlightPlan, HomebriefingSession, NotifiedFlight, SafetyTimer } from '../types';
+import { homebriefingClient } from '../client';
+import { sessionStore } from '../session-store';
+import { MailMessage } from './smtp';
+
+// SAR safety timer: a VFR flight plan that isn't closed with an ARR ends in a
+// search and rescue alert. The notifier sends reminders at ETA+10 and ETA+20
+// while there is no ARR, through the channels the user picked, each with an
+// "I have landed" link that sends the ARR. Reminders and acknowledgements are
+// logged with the timer.
+export const SAFETY_REMINDERS = [10, 20];
+// Rounds a reminder is tried in when no channel delivers it
+export const SAFETY_REMINDER_ATTEMPTS = 3;
+
+// Base of the "I have landed" links in emails and webhooks
+const APP_URL = (process.env.APP_URL || 'http://localhost:3000').replace(/\/+$/, '');
+
+// When the flight should have landed: EOBT plus total EET
+export function getArrivalDue(fp: Pick<FlightPlan, 'eobdt' | 'totalEet'>): number {
+  return new Date(fp.eobdt).getTime() + fp.totalEet * 60 * 1000;
+}
+
+export function getNotifiedFlight(fp: FlightPlan): NotifiedFlight {
+  return { flId: fp.flId, arcid: fp.arcid, adep: fp.adep, ades: fp.ades, eobdt: fp.eobdt, totalEet: fp.totalEet };
+}
+
+// The ARR or CNL that ends the flight plan, if any
+export function getClosingMessage(messages: FlightMessage[]): FlightMessage | undefined {
+  return messages.find((msg) => msg.msgType === 'ARR' || msg.msgType === 'CNL');
+}
+
+// Accepted flight plans that end under VFR (rules V, or Y: IFR first), the
+// pilot has to close those
+export function needsSafetyTimer(fp: FlightPlan): boolean {
+  return (fp.flRules === 'V' || fp.flRules === 'Y') && (fp.flStatusCode === 48 || fp.flStatusCode === 53);
+}
+
+// Until the last reminder is due, the notifier keeps the user's session alive for it
+export function isSafetyTimerRunning(fp: FlightPlan, messages: FlightMessage[], now = Date.now()): boolean {
+  const last = SAFETY_REMINDERS[SAFETY_REMINDERS.length - 1];
+  return needsSafetyTimer(fp) && !getClosingMessage(messages) && now <= getArrivalDue(fp) + last * 60 * 1000;
+}
+
+// Minutes after ETA of the reminder that is due, undefined when none is.
+// After a gap (a restart) only the latest due reminder is sent.
+export function getDueSafetyReminder(
+  fp: FlightPlan,
+  messages: FlightMessage[],
+  remindersSent: number[],
+  now = Date.now()
+): number | undefined {
+  if (!needsSafetyTimer(fp) || getClosingMessage(messages)) return undefined;
+
+  const minutesOverdue = (now - getArrivalDue(fp)) / (60 * 1000);
+  const due = SAFETY_REMINDERS.filter((minutes) => minutesOverdue >= minutes).pop();
+  if (due === undefined || remindersSent.some((sent) => sent >= due)) return undefined;
+  return due;
+}
+
+export function newSafetyTimer(flight: NotifiedFlight): Omit<SafetyTimer, 'updatedAt'> {
+  return { flight, token: randomBytes(24).toString('base64url'), remindersSent: [], log: [] };
+}
+
+export function getLandedPath(token: string): string {
+  return `/landed?token=${token}`;
+}
+
+export function getLandedUrl(token: string): string {
+  return `${APP_URL}${getLandedPath(token)}`;
+}
+
+function formatUtcTime(iso: string): string {
+  return `${iso.slice(11, 16)}Z`;
+}
+
+export function reminderMail(notification: Extract<FlightNotification, { type: 'arrival-reminder' }>, to: string): MailMessage {
+  const { flight } = notification;
+  return {
+    to,
+    subject: `${flight.arcid} ${flight.adep}-${flight.ades}: close your flight plan`,
+    text: [
+      `Your flight plan ${flight.arcid} from ${flight.adep} to ${flight.ades} has not been closed.`,
+      '',
+      `ETA at ${flight.ades} was ${formatUtcTime(notification.arrivalDue)}, ${notification.minutesOverdue} minutes ago, and no ARR has been sent.`,
+      'If you have landed, send the arrival now to prevent a search and rescue alert:',
+      '',
+      notification.landedUrl,
+      '',
+      'If you are still flying, contact ATC or FIS to extend your flight plan.',
+    ].join('\n'),
+  };
+}
+
+// A stored session of the user, the cookie's own session first. The landed
+// link also works from a device without one, as long as the user is signed in somewhere.
+async function findUserSession(
+  username: string,
+  preferredSessionId?: string
+): Promise<{ sessionId: string; session: HomebriefingSession } | undefined> {
+  const sessionIds = await sessionStore.listSessionIds();
+  if (preferredSessionId) {
+    sessionIds.unshift(preferredSessionId);
+  }
+  for (const sessionId of sessionIds) {
+    const session = await sessionStore.peekSession(sessionId);
+    if (session && session.username.toUpperCase() === username.toUpperCase()) {
+      return { sessionId, session };
+    }
+  }
+  return undefined;
+}
+
+export type LandedResult =
+  | { status: 'sent' }
+  | { status: 'already-closed' }
+  | { status: 'sign-in' }       // No session to send the ARR with
+  | { status: 'error'; errorMessage: string };
+
+// "I have landed": send the ARR at the filed destination and close the timer
+export async function sendLandedArrival(
+  username: string,
+  timer: SafetyTimer,
+  arrivalTime: string,          // HHMM UTC
+  preferredSessionId?: string
+): Promise<LandedResult> {
+  if (timer.closedAt) return { status: 'already-closed' };
+
+  const found = await findUserSession(username, preferredSessionId);
+  if (!found) return { status: 'sign-in' };
+
+  const { session } = found;
+  const result = await homebriefingClient.sendArrival(session.cookies, session.token, session.userSession, timer.flight.flId, '', arrivalTime);
+  if (result.sessionExpired) {
+    await sessionStore.deleteSession(found.sessionId);
+    return { status: 'sign-in' };
+  }
+  if (result.isError || !result.success) {
+    console.error(`Safety timer ARR for ${timer.flight.arcid} failed:`, result.errorMessage);
+    return { status: 'error', errorMessage: result.errorMessage || 'Failed to send arrival message' };
+  }
+
+  const now = Date.now();
+  await sessionStore.saveSafetyTimer(username, {
+    ...timer,
+    closedAt: now,
+    log: [...timer.log, { at: now, event: 'acknowledged', detail: `ARR ${arrivalTime}Z sent from the landed link` }],
+  });
+  console.log(`Safety timer for ${timer.flight.arcid} acknowledged, ARR ${arrivalTime}Z sent`);
+  return { status: 'sent' };
+}
@@ -0,0 +1,97 @@
+import { lookup } from 'dns/promises';
+import { request as httpRequest } from 'http';
+import { request as httpsRequest } from 'https';
+import { isIP, LookupFunction } from 'net';
+
+// Push endpoints and webhook URLs come from users, the server mustn't call into
+// its own network for them: loopback, private, link-local and other non-public
+// addresses are refused when a target is saved and again before each call. The
+// call then goes to the address that was checked, so a name that resolves
+// differently a moment later (DNS rebinding) can't redirect it.
+
+function isPublicIPv4(address: string): boolean {
+  const [a, b] = address.split('.').map(Number);
+  return !(
+    a === 0 || a === 10 || a === 127 || a >= 224 ||
+    (a === 100 && b >= 64 && b <= 127) ||     // Carrier-grade NAT
+    (a === 169 && b === 254) ||
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 168)
+  );
+}
+
+function isPublicIPv6(address: string): boolean {
+  const lower = address.toLowerCase();
+  // IPv4-mapped, "::ffff:127.0.0.1" or as URLs write it "::ffff:7f00:1"
+  const dotted = lower.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  if (dotted) return isPublicIPv4(dotted[1]);
+  const hex = lower.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/);
+  if (hex) {
+    const [high, low] = [parseInt(hex[1], 16), parseInt(hex[2], 16)];
+    return isPublicIPv4(`${high >> 8}.${high & 0xff}.${low >> 8}.${low & 0xff}`);
+  }
+
+  // ::/16 (unspecified, loopback, IPv4-compatible), fc00::/7 unique local,
+  // fe80::/10 link-local, ff00::/8 multicast
+  const first = lower.startsWith('::') ? 0 : parseInt(lower.split(':')[0], 16);
+  return !(first === 0 || (first & 0xfe00) === 0xfc00 || (first & 0xffc0) === 0xfe80 || (first & 0xff00) === 0xff00);
+}
+
+export function isPublicAddress(address: string): boolean {
+  const version = isIP(address);
+  if (version === 4) return isPublicIPv4(address);
+  if (version === 6) return isPublicIPv6(address);
+  return false;
+}
+
+// The address to send notifications for a URL to, undefined unless every
+// address of its host is public
+export async function resolveTarget(url: string): Promise<string | undefined> {
+  try {
+    const hostname = new URL(url).hostname.replace(/^\[(.*)\]$/, '$1');
+    const addresses = isIP(hostname) ? [{ address: hostname }] : await lookup(hostname, { all: true });
+    return addresses.length > 0 && addresses.every(({ address }) => isPublicAddress(address)) ? addresses[0].address : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+// Whether notifications may be sent to a URL
+export async function isAllowedTarget(url: string): Promise<boolean> {
+  return (await resolveTarget(url)) !== undefined;
+}
+
+export interface TargetRequest {
+  headers: Record<string, string>;
+  body: string | Uint8Array;
+  timeout: number;
+}
+
+// POST to a URL on the address resolveTarget returned for it, the Host header
+// and TLS server name stay those of the URL. Resolves with the status code,
+// redirects are not followed.
+export function postToAddress(url: string, address: string, { headers, body, timeout }: TargetRequest): Promise<number> {
+  const target = new URL(url);
+  const family = isIP(address);
+  const pinned: LookupFunction = (_hostname, options, callback) => {
+    if (options.all) {
+      callback(null, [{ address, family }]);
+    } else {
+      callback(null, address, family);
+    }
+  };
+
+  return new Promise((resolve, reject) => {
+    const request = (target.protocol === 'https:' ? httpsRequest : httpRequest)(target, {
+      method: 'POST',
+      headers: { ...headers, 'Content-Length': String(Buffer.byteLength(body)) },
+      lookup: pinned,
+      signal: AbortSignal.timeout(timeout),
+    }, (response) => {
+      response.resume();
+      resolve(response.statusCode ?? 0);
+    });
+    request.on('error', reject);
+    request.end(body);
+  });
+}
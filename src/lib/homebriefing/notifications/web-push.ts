@@ -0,0 +1,148 @@
+import { KeyObject, createCipheriv, createECDH, createPrivateKey, hkdfSync, randomBytes, sign } from 'crypto';
+import { PushSubscriptionData } from '../types';
+import { postToAddress, resolveTarget } from './targets';
+
+// Web Push without a push library: VAPID (RFC 8292) identifies this server to
+// the browser's push service, the payload is encrypted for the subscription
+// with aes128gcm (RFC 8291) so the push service can't read it.
+// VAPID_PRIVATE_KEY is a base64url P-256 private key, without one a random key
+// is used and browsers have to subscribe again after a restart.
+// VAPID_SUBJECT is a mailto: or https: contact for the push service operators.
+const VAPID_SUBJECT = process.env.VAPID_SUBJECT || 'mailto:admin@localhost';
+
+// JWTs are valid for 12 hours, push services accept at most 24
+const VAPID_EXPIRY = 12 * 60 * 60;
+const RECORD_SIZE = 4096;
+const PUSH_TTL = 24 * 60 * 60;
+const PUSH_TIMEOUT = 10 * 1000;
+
+interface VapidKeys {
+  publicKey: string;          // Uncompressed point, base64url
+  privateKey: KeyObject;
+}
+
+// Shared through globalThis: the notifier (instrumentation bundle) signs with
+// the key whose public half the routes hand to browsers
+const globalForWebPush = globalThis as unknown as {
+  vapidKeys: VapidKeys | undefined;
+};
+
+function loadVapidKeys(): VapidKeys {
+  const ecdh = createECDH('prime256v1');
+  const configured = process.env.VAPID_PRIVATE_KEY;
+  if (configured) {
+    const key = Buffer.from(configured, 'base64url');
+    try {
+      // Leading zero bytes may be left out
+      if (key.length === 0 || key.length > 32) throw new Error();
+      ecdh.setPrivateKey(key);
+    } catch {
+      throw new Error('VAPID_PRIVATE_KEY is not a base64url P-256 private key');
+    }
+  } else {
+    console.warn('VAPID_PRIVATE_KEY is not set, push subscriptions will not survive a restart');
+    ecdh.generateKeys();
+  }
+
+  const publicKey = ecdh.getPublicKey();
+  // JWK wants all 32 bytes, getPrivateKey() leaves out leading zeros
+  const d = ecdh.getPrivateKey('hex').padStart(64, '0');
+  const privateKey = createPrivateKey({
+    key: {
+      kty: 'EC',
+      crv: 'P-256',
+      d: Buffer.from(d, 'hex').toString('base64url'),
+      x: publicKey.subarray(1, 33).toString('base64url'),
+      y: publicKey.subarray(33, 65).toString('base64url'),
+    },
+    format: 'jwk',
+  });
+  return { publicKey: publicKey.toString('base64url'), privateKey };
+}
+
+function getVapidKeys(): VapidKeys {
+  globalForWebPush.vapidKeys ??= loadVapidKeys();
+  return globalForWebPush.vapidKeys;
+}
+
+// applicationServerKey for PushManager.subscribe() in the browser
+export function getVapidPublicKey(): string {
+  return getVapidKeys().publicKey;
+}
+
+// Authorization header for a push service, a JWT signed with the VAPID key
+export function vapidAuthorization(endpoint: string, now = Date.now()): string {
+  const { publicKey, privateKey } = getVapidKeys();
+  const header = Buffer.from(JSON.stringify({ typ: 'JWT', alg: 'ES256' })).toString('base64url');
+  const claims = Buffer.from(JSON.stringify({
+    aud: new URL(endpoint).origin,
+    exp: Math.floor(now / 1000) + VAPID_EXPIRY,
+    sub: VAPID_SUBJECT,
+  })).toString('base64url');
+  const signature = sign('sha256', Buffer.from(`${header}.${claims}`), { key: privateKey, dsaEncoding: 'ieee-p1363' });
+  return `vapid t=${header}.${claims}.${signature.toString('base64url')}, k=${publicKey}`;
+}
+
+function hkdf(ikm: Buffer, salt: Buffer, info: Buffer, length: number): Buffer {
+  return Buffer.from(hkdfSync('sha256', ikm, salt, info, length));
+}
+
+// aes128gcm body for one subscription: salt | record size | sender key | one encrypted record
+export function encryptPushPayload(subscription: PushSubscriptionData, payload: string): Buffer {
+  const receiverKey = Buffer.from(subscription.keys.p256dh, 'base64url');
+  const authSecret = Buffer.from(subscription.keys.auth, 'base64url');
+  const plaintext = Buffer.from(payload, 'utf-8');
+  // Padding delimiter and GCM tag have to fit in the record
+  if (plaintext.length + 17 > RECORD_SIZE) {
+    throw new Error(`Push payload of ${plaintext.length} bytes is too large`);
+  }
+
+  const ecdh = createECDH('prime256v1');
+  const senderKey = ecdh.generateKeys();
+  const sharedSecret = ecdh.computeSecret(receiverKey);
+
+  const keyInfo = Buffer.concat([Buffer.from('WebPush: info\0'), receiverKey, senderKey]);
+  const ikm = hkdf(sharedSecret, authSecret, keyInfo, 32);
+  const salt = randomBytes(16);
+  const contentKey = hkdf(ikm, salt, Buffer.from('Content-Encoding: aes128gcm\0'), 16);
+  const nonce = hkdf(ikm, salt, Buffer.from('Content-Encoding: nonce\0'), 12);
+
+  const cipher = createCipheriv('aes-128-gcm', contentKey, nonce);
+  // 0x02 marks the last (and only) record
+  const record = Buffer.concat([cipher.update(Buffer.concat([plaintext, Buffer.from([2])])), cipher.final(), cipher.getAuthTag()]);
+
+  const header = Buffer.alloc(21);
+  salt.copy(header, 0);
+  header.writeUInt32BE(RECORD_SIZE, 16);
+  header.writeUInt8(senderKey.length, 20);
+  return Buffer.concat([header, senderKey, record]);
+}
+
+// Deliver a payload to a browser through its push service.
+// Returns false when the subscription is gone (unsubscribed or expired), or
+// its endpoint is not a public address and it should be dropped as well.
+export async function sendWebPush(subscription: PushSubscriptionData, payload: string): Promise<boolean> {
+  const address = await resolveTarget(subscription.endpoint);
+  if (!address) {
+    return false;
+  }
+  const status = await postToAddress(subscription.endpoint, address, {
+    headers: {
+      'Authorization': vapidAuthorization(subscription.endpoint),
+      'Content-Type': 'application/octet-stream',
+      'Content-Encoding': 'aes128gcm',
+      'TTL': String(PUSH_TTL),
+      'Urgency': 'high',
+    },
+    body: encryptPushPayload(subscription, payload),
+    timeout: PUSH_TIMEOUT,
+  });
+
+  if (status === 404 || status === 410) {
+    return false;
+  }
+  if (status < 200 || status >= 300) {
+    throw new Error(`Push service answered ${status}`);
+  }
+  return true;
+}
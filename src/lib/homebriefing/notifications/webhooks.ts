@@ -0,0 +1,37 @@
+import { createHmac } from 'crypto';
+import { FlightNotification, Webhook } from '../types';
+import { postToAddress, resolveTarget } from './targets';
+
+const WEBHOOK_TIMEOUT = 10 * 1000;
+
+// Body of a webhook call: the notification plus when it was sent
+export function webhookBody(notification: FlightNotification, now = Date.now()): string {
+  return JSON.stringify({ ...notification, sentAt: new Date(now).toISOString() });
+}
+
+// HMAC-SHA256 of the body with the webhook's secret, so receivers can check the sender
+export function webhookSignature(secret: string, body: string): string {
+  return `sha256=${createHmac('sha256', secret).update(body).digest('hex')}`;
+}
+
+// POST a notification as JSON, throws when the receiver doesn't answer 2xx or
+// its host is not a public address (any more). Redirects are not followed.
+export async function sendWebhook(webhook: Webhook, notification: FlightNotification): Promise<void> {
+  const address = await resolveTarget(webhook.url);
+  if (!address) {
+    throw new Error(`Webhook ${webhook.url} is not a public address`);
+  }
+  const body = webhookBody(notification);
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+    'User-Agent': 'homebriefing-next',
+  };
+  if (webhook.secret) {
+    headers['X-Homebriefing-Signature'] = webhookSignature(webhook.secret, body);
+  }
+
+  const status = await postToAddress(webhook.url, address, { headers, body, timeout: WEBHOOK_TIMEOUT });
+  if (status < 200 || status >= 300) {
+    throw new Error(`Webhook ${webhook.url} answered ${status}`);
+  }
+}
@@ -0,0 +1,664 @@
+import {
+  FlightPlanFilters,
+  FlightPlanListResponse,
+  FlightMessagesResponse,
+  FlightPlanFormData,
+  FlightPlanValidationResponse,
+  FlightPlanSubmitResponse,
+  FieldError,
+  FlightPlanTemplateListResponse,
+  FlightPlanTemplateResponse,
+  SaveTemplateRequest,
+  SaveTemplateResponse,
+  DeleteTemplateResponse,
+  FlightPlanActionResponse,
+  FlightPlanChanges,
+  MetMessagesResponse,
+  SynopStationListResponse,
+  RegulationListResponse,
+} from './types';
+import {
+  SoapFields,
+  XmlElement,
+  defineOperation,
+  readSchema,
+  text,
+  optionalText,
+  integer,
+  optionalInteger,
+  flag,
+  bool,
+  textList,
+  list,
+  record,
+} from './soap';
+
+// Homebriefing SOAP operations (ibafProvider.php). Each one declares its request
+// fields and response schema, HomebriefingClient does the transport.
+
+// Flight plan list entry (FPLsArray)
+const flightPlanSchema = {
+  flId: integer('FlId'),
+  arcid: text('ARCID'),
+  flRules: text('FlRules'),
+  flType: text('FlType'),
+  arcNum: optionalText('ArcNum'),
+  arcType: text('ArcType'),
+  wakeTurbulenceCat: text('WakeTurbulenceCat'),
+  equipment: text('Equipment'),
+  adep: text('ADEP'),
+  ades: text('ADES'),
+  adAltn1: optionalText('ADAltn1'),
+  adAltn2: optionalText('ADAltn2'),
+  eobdt: text('EOBDT'),
+  flSpeed: text('FlSpeed'),
+  flLevel: text('FlLevel'),
+  flRoute: text('FlRoute'),
+  totalEet: integer('TotalEET'),
+  flOther: optionalText('FlOther'),
+  flSuplementary: optionalText('FlSuplementary'),
+  flStatusCode: integer('FlStatusCode'),
+  flStatusStr: text('FlStatusStr'),
+  flCanDo: integer('FlCanDo'),
+  ctot: optionalText('CTOT'),
+};
+
+const flightPlanListSchema = {
+  isError: flag('IsError'),
+  fplsCount: integer('FPLsCount'),
+  totalPages: integer('TotalPages'),
+  currentPage: integer('CurrentPage'),
+  flightPlans: list('FPLsArray', flightPlanSchema),
+};
+
+const emptyFlightPlanList = { fplsCount: 0, totalPages: 0, currentPage: 0, flightPlans: [] };
+
+// Flight plan message (MsgArray)
+const flightMessageSchema = {
+  flMsgId: integer('FlMsgId'),
+  isIncome: flag('IsIncome'),
+  msgTime: text('MsgTime'),
+  msgType: text('MsgType'),
+  statusCode: integer('StatusCode'),
+  statusDesc: text('StatusDesc'),
+  senderId: integer('SenderId'),
+  senderName: text('SenderName'),
+  msgTxt: text('MsgTxt'),
+  toAftnAddr: (el: XmlElement) => {
+    // Note: lowercase 'to' in toAFTNAddr
+    const addresses = textList('toAFTNAddr')(el);
+    return addresses.length > 0 ? addresses : undefined;
+  },
+  aftnSender: optionalText('AftnSender'),
+  aftnSendTime: optionalText('AftnSendTime'),
+};
+
+// Flight plan template values (FlTplValues)
+const templateSchema = {
+  tplId: integer('TplId'),
+  tplName: text('TplName'),
+  arcid: text('ARCID'),
+  flRules: text('FlRules'),
+  flType: text('FlType'),
+  arcType: text('ArcType'),
+  wakeTurbulenceCat: text('WakeTurbulenceCat'),
+  equipment10a: text('Equipment_10a'),
+  equipment10b: text('Equipment_10b'),
+  equipment10c: text('Equipment_10c'),
+  adep: text('ADEP'),
+  eobt: text('EOBT'),
+  flSpeedMeasure: text('FlSpeedMeasure'),
+  flSpeedValue: (el: XmlElement) => text('FlSpeedValue')(el).trim(),
+  flLevelMeasure: text('FlLevelMeasure'),
+  flLevelValue: optionalText('FlLevelValue'),
+  ades: optionalText('ADES'),
+  flRoute: optionalText('FlRoute'),
+  totalEet: optionalInteger('TotalEET'),
+  adAltn1: optionalText('ADAltn1'),
+  adAltn2: optionalText('ADAltn2'),
+  flOther: optionalText('FlOther'),
+  // Field 19 survival equipment
+  radio: optionalText('Radio'),
+  survival: optionalText('Survival'),
+  jackets: optionalText('Jackets'),
+  dinghies: optionalText('Dinghies'),
+  dinghiesNumber: optionalText('DinghiesNumber'),
+  dinghiesCapacity: optionalText('DinghiesCapacity'),
+  dinghiesCover: bool('DinghiesCover'),
+  dinghiesColour: optionalText('DinghiesColour'),
+  aircraftColour: optionalText('AircraftColour_A'),
+  remarks: optionalText('Remarks_J'),
+  pilotInCommand: optionalText('PilotInCmd_C'),
+  pilotTel: optionalText('PilotTel'),
+};
+
+// Action responses (DLA, CNL, DEP, ARR, CHG)
+const actionSchema = {
+  isError: flag('IsError'),
+  msgSent: flag('MsgSent'),
+  errorMessage: optionalText('ErrMsg'),
+};
+
+function parseActionResponse(body: XmlElement): FlightPlanActionResponse {
+  const { isError, msgSent, errorMessage } = readSchema(body, actionSchema);
+  return {
+    isError,
+    success: !isError && msgSent,
+    msgSent,
+    errorMessage,
+  };
+}
+
+// FlAttributes of a complete flight plan (validation and filing)
+function flightPlanAttributes(formData: FlightPlanFormData): SoapFields {
+  return {
+    ARCID: formData.arcid,
+    FlRules: formData.flRules,
+    FlType: formData.flType,
+    ArcNum: formData.arcNum || '',
+    ArcType: formData.arcType,
+    WakeTurbulenceCat: formData.wakeTurbulenceCat,
+    Equipment: formData.equipment,
+    ADEP: formData.adep,
+    EOBDT: formData.eobdt,
+    FlSpeed: formData.flSpeed,
+    FlLevel: formData.flLevel,
+    FlRoute: formData.flRoute,
+    ADES: formData.ades,
+    ADAltn1: formData.adAltn1 || '',
+    ADAltn2: formData.adAltn2 || '',
+    TotalEET: formData.totalEet,
+    FlOther: formData.flOther || '',
+    FlSuplementary: formData.flSuplementary || '',
+    AddInfoPilottel: formData.pilotTel || '',
+  };
+}
+
+// Get current/active flight plans
+export const getFplListOperation = defineOperation<
+  { userSession: string; filters: FlightPlanFilters },
+  FlightPlanListResponse
+>({
+  name: 'GetFPLList',
+  request: ({ userSession, filters }) => ({
+    NumHoursAfterETA: filters.numHoursAfterETA ?? 3,
+    UserSession: userSession,
+    PageNumber: filters.pageNumber ?? 0,
+    PageItems: filters.pageItems ?? 25,
+    ARCID: filters.arcid ?? '',
+    ADEP: filters.adep ?? '',
+    ADES: filters.ades ?? '',
+    FlRules: filters.flRules ?? 'X',
+    OwnFls: filters.ownFlsOnly ?? false,
+    OrderColumn: filters.orderColumn ?? 'COL_EOBDT',
+    OrderType: filters.orderType ?? 'DESC',
+  }),
+  response: (body) => readSchema(body, flightPlanListSchema),
+  empty: emptyFlightPlanList,
+});
+
+// Get archived flight plans
+export const getFplArchiveOperation = defineOperation<
+  { userSession: string; filters: FlightPlanFilters },
+  FlightPlanListResponse
+>({
+  name: 'GetFPLArchive',
+  request: ({ userSession, filters }) => ({
+    UserSession: userSession,
+    PageNumber: filters.pageNumber ?? 0,
+    PageItems: filters.pageItems ?? 25,
+    ARCID: filters.arcid ?? '',
+    ADEP: filters.adep ?? '',
+    ADES: filters.ades ?? '',
+    FlRules: filters.flRules ?? 'X',
+    OwnFls: filters.ownFlsOnly ?? false,
+    OrderColumn: filters.orderColumn ?? 'COL_EOBDT',
+    OrderType: filters.orderType ?? 'DESC',
+    // EOBT range as the reference client sends it (formateDateToGetFPLArchiveDate), whole days
+    EOBTFrom: filters.dateFrom ? `${filters.dateFrom} 00:00` : undefined,
+    EOBTTill: filters.dateTo ? `${filters.dateTo} 23:59` : undefined,
+  }),
+  response: (body) => readSchema(body, flightPlanListSchema),
+  empty: emptyFlightPlanList,
+});
+
+// Get flight plan messages/details
+export const getFlMsgListOperation = defineOperation<
+  { userSession: string; flId: number },
+  FlightMessagesResponse
+>({
+  name: 'GetFlMsgList',
+  request: ({ userSession, flId }) => ({
+    FlId: flId,
+    UserSession: userSession,
+  }),
+  response: (body) => readSchema(body, {
+    isError: flag('IsError'),
+    msgCount: integer('MsgCount'),
+    messages: list('MsgArray', flightMessageSchema),
+  }),
+  empty: { msgCount: 0, messages: [] },
+});
+
+// Get the ATFM regulations that hold a flight (the reference client shows them
+// when the flight has a CTOT). The element names inside ERegulation come from the
+// atfm bundle, which we don't have; schema drift shows up in the contract test.
+export const getERegulationByFlIdOperation = defineOperation<
+  { userSession: string; flId: number },
+  RegulationListResponse
+>({
+  name: 'GetERegulationByFlId',
+  request: ({ userSession, flId }) => ({
+    FlId: flId,
+    UserSession: userSession,
+  }),
+  response: (body) => readSchema(body, {
+    isError: flag('IsError'),
+    regulations: list('ERegulation', {
+      regId: text('RegId'),
+      location: text('Location'),
+      reason: optionalText('Reason'),
+      validFrom: optionalText('ValidFrom'),
+      validTo: optionalText('ValidTo'),
+      description: optionalText('Description'),
+    }),
+  }),
+  empty: { regulations: [] },
+});
+
+// Validate flight plan before submission
+export const checkFplValidityOperation = defineOperation<
+  { userSession: string; formData: FlightPlanFormData },
+  FlightPlanValidationResponse
+>({
+  name: 'CheckFplValidity',
+  request: ({ userSession, formData }) => ({
+    FlAttributes: flightPlanAttributes(formData),
+    UseNMB2B: 0,
+    UserSession: userSession,
+  }),
+  response: (body, xml) => {
+    const isError = flag('IsError')(body);
+    const fplIsOk = flag('FplIsOk')(body);
+
+    // FplErrors is the main error format from Homebriefing
+    // Format: <ns1:FplErrors>F7 Invalid Aircraft Identification</ns1:FplErrors>
+    const fieldErrors: FieldError[] = textList('FplErrors')(body).map((errorText) => {
+      // Parse field code from error message (e.g., "F7 Invalid..." -> field "F7")
+      const fieldMatch = errorText.match(/^(F\d+[a-z]?|FAddinfo\w+)\s+(.+)$/i);
+      // No field prefix found, treat as general error
+      return fieldMatch
+        ? { field: fieldMatch[1], message: fieldMatch[2] }
+        : { field: 'General', message: errorText };
+    });
+
+    // Also extract any ErrMsg tags as fallback
+    const errorMessages = textList('ErrMsg')(body);
+
+    // Log for debugging if validation failed but no errors found
+    if (!fplIsOk && fieldErrors.length === 0 && errorMessages.length === 0) {
+      console.log('Validation failed but no error details found. Raw response:', xml);
+    }
+
+    return {
+      isError,
+      fplIsOk,
+      errorMessages: errorMessages.length > 0 ? errorMessages : undefined,
+      fieldErrors: fieldErrors.length > 0 ? fieldErrors : undefined,
+      rawResponse: !fplIsOk ? xml : undefined,  // Include raw response on failure for debugging
+    };
+  },
+  empty: { fplIsOk: false },
+});
+
+// Get list of flight plan templates
+export const getFlTplListOperation = defineOperation<
+  { userSession: string },
+  FlightPlanTemplateListResponse
+>({
+  name: 'GetFlTplList',
+  request: ({ userSession }) => ({
+    UserSession: userSession,
+  }),
+  response: (body) => readSchema(body, {
+    isError: flag('IsError'),
+    count: integer('FlTplCount'),
+    templates: list('FlTplArray', {
+      tplId: integer('TplId'),
+      tplName: text('TplName'),
+    }),
+  }),
+  empty: { count: 0, templates: [] },
+});
+
+// Get a specific flight plan template
+export const getFlTplOperation = defineOperation<
+  { userSession: string; tplId: number },
+  FlightPlanTemplateResponse
+>({
+  name: 'GetFlTpl',
+  request: ({ userSession, tplId }) => ({
+    UserSession: userSession,
+    TplId: tplId,
+  }),
+  response: (body) => {
+    const isError = flag('IsError')(body);
+    const found = flag('FlTplFound')(body);
+
+    if (!found) {
+      return { isError, found };
+    }
+
+    const template = record('FlTplValues', templateSchema)(body);
+    if (!template) {
+      return { isError, found: false };
+    }
+
+    return { isError, found, template };
+  },
+  empty: { found: false },
+});
+
+// Save a flight plan as template
+export const saveFlTplOperation = defineOperation<
+  { userSession: string; request: SaveTemplateRequest },
+  SaveTemplateResponse
+>({
+  name: 'SaveFlTpl',
+  request: ({ userSession, request }) => {
+    const { tplName, tplId, formData, field19 } = request;
+
+    // Parse equipment string (e.g., "SGOVY/S" -> 10a="SGOVY", 10b="S")
+    const equipmentParts = (formData.equipment || '').split('/');
+
+    // Parse speed (e.g., "N0105" -> measure="N", value="0105")
+    const speedMatch = formData.flSpeed?.match(/^([NKM])(\d+)/);
+
+    // Parse level (e.g., "VFR" or "F065" or "A025")
+    let flLevelMeasure = 'VFR';
+    let flLevelValue = '';
+    if (formData.flLevel && formData.flLevel !== 'VFR') {
+      const levelMatch = formData.flLevel.match(/^([FAM])(\d+)/);
+      if (levelMatch) {
+        flLevelMeasure = levelMatch[1];
+        flLevelValue = levelMatch[2];
+      }
+    }
+
+    return {
+      FlTplValues: {
+        FlTplId: {
+          TplName: tplName,
+          TplId: tplId || '',
+        },
+        ARCID: formData.arcid,
+        FlRules: formData.flRules,
+        FlType: formData.flType,
+        ArcNum: formData.arcNum || '',
+        ArcType: formData.arcType,
+        WakeTurbulenceCat: formData.wakeTurbulenceCat,
+        Equipment_10a: equipmentParts[0] || '',
+        Equipment_10b: equipmentParts[1] || '',
+        Equipment_10c: 'N',
+        ADEP: formData.adep,
+        EOBT: '',
+        FlSpeedMeasure: speedMatch ? speedMatch[1] : 'N',
+        FlSpeedValue: speedMatch ? speedMatch[2] : '',
+        FlLevelMeasure: flLevelMeasure,
+        FlLevelValue: flLevelValue,
+        FlRoute: formData.flRoute || '',
+        ADES: formData.ades || '',
+        TotalEET: formData.totalEet || 0,
+        ADAltn1: formData.adAltn1 || '',
+        ADAltn2: formData.adAltn2 || '',
+        FlOther: formData.flOther || '',
+        Endurance: field19?.endurance || '',
+        PersonsOnBoard: field19?.persons || '',
+        Radio: field19?.radio || '',
+        Survival: field19?.survival || '',
+        Jackets: field19?.jackets || '',
+        DinghiesNumber: field19?.dinghiesNumber || '',
+        DinghiesCapacity: field19?.dinghiesCapacity || '',
+        DinghiesCover: !!field19?.dinghiesCover,
+        DinghiesColour: field19?.dinghiesColour || '',
+        AircraftColour_A: field19?.aircraftColour || '',
+        Remarks_N: field19?.remarks || '',
+        PilotInCmd_C: field19?.pilotInCommand || '',
+        AddInfoInstruction: '',
+        AddInfoPilottel: formData.pilotTel || '',
+        AddInfoPilotfax: '',
+        AddInfoPilotmail: '',
+        AddInfoSendertel: '',
+        AddInfoSenderfax: '',
+        AddInfoSendermail: '',
+      },
+      UserSession: userSession,
+    };
+  },
+  response: (body, xml) => {
+    const isError = flag('IsError')(body);
+    let errorMsg = text('ErrMsg')(body);
+
+    // Success response contains InsertedTplId
+    const success = !isError && !!text('InsertedTplId')(body);
+
+    // If failed but no error message, include raw response for debugging
+    if (!success && !errorMsg) {
+      console.log('Save template failed. Raw response:', xml);
+      errorMsg = 'Unknown error - check server logs for details';
+    }
+
+    return {
+      isError,
+      success,
+      errorMessage: errorMsg || undefined,
+      rawResponse: !success ? xml : undefined,
+    };
+  },
+  empty: { success: false },
+});
+
+// Send flight plan to CARO (ATC)
+export const sendFplToCaroOperation = defineOperation<
+  { userSession: string; formData: FlightPlanFormData },
+  FlightPlanSubmitResponse
+>({
+  name: 'SendFplToCaro',
+  request: ({ userSession, formData }) => ({
+    FlAttributes: flightPlanAttributes(formData),
+    UseNMB2B: 0,
+    UserSession: userSession,
+  }),
+  response: (body) => readSchema(body, {
+    isError: flag('IsError'),
+    fplIsSent: flag('FplIsSent'),
+    errorMessage: optionalText('ErrMsg'),
+  }),
+  empty: { fplIsSent: false },
+});
+
+// Delete a flight plan template
+export const deleteFlTplOperation = defineOperation<
+  { userSession: string; tplId: number },
+  DeleteTemplateResponse
+>({
+  name: 'DeleteFlTpl',
+  request: ({ userSession, tplId }) => ({
+    UserSession: userSession,
+    TplId: tplId,
+  }),
+  response: (body) => {
+    const { isError, deletedTplId, errorMessage } = readSchema(body, {
+      isError: flag('IsError'),
+      deletedTplId: optionalInteger('DeletedTplId'),
+      errorMessage: optionalText('ErrMsg'),
+    });
+    return {
+      isError,
+      success: !isError && !!deletedTplId,
+      deletedTplId,
+      errorMessage,
+    };
+  },
+  empty: { success: false },
+});
+
+// Send delay (DLA) message for a flight plan
+export const sendDlaOperation = defineOperation<
+  { userSession: string; flId: number; newEobt: string },
+  FlightPlanActionResponse
+>({
+  name: 'SendDLA',
+  request: ({ userSession, flId, newEobt }) => ({
+    FlId: flId,
+    EobtVal: newEobt,
+    UserSession: userSession,
+  }),
+  response: parseActionResponse,
+  empty: { success: false },
+});
+
+// Send cancel (CNL) message for a flight plan
+export const sendCnlOperation = defineOperation<
+  { userSession: string; flId: number },
+  FlightPlanActionResponse
+>({
+  name: 'SendCNL',
+  request: ({ userSession, flId }) => ({
+    FlId: flId,
+    UserSession: userSession,
+  }),
+  response: parseActionResponse,
+  empty: { success: false },
+});
+
+// Send departure (DEP) message for a flight plan
+export const sendDepOperation = defineOperation<
+  { userSession: string; flId: number; departureTime: string },
+  FlightPlanActionResponse
+>({
+  name: 'SendDEP',
+  request: ({ userSession, flId, departureTime }) => ({
+    FlId: flId,
+    AtdVal: departureTime,
+    UserSession: userSession,
+  }),
+  response: parseActionResponse,
+  empty: { success: false },
+});
+
+// Send arrival (ARR) message for a flight plan
+export const sendArrOperation = defineOperation<
+  { userSession: string; flId: number; arrivalAerodrome: string; arrivalTime: string; arrivalAerodromeName: string },
+  FlightPlanActionResponse
+>({
+  name: 'SendARR',
+  request: ({ userSession, flId, arrivalAerodrome, arrivalTime, arrivalAerodromeName }) => ({
+    FlId: flId,
+    AtaVal: arrivalTime,
+    DivAD: arrivalAerodrome,
+    NonIcaoDivAD: arrivalAerodromeName,
+    UserSession: userSession,
+  }),
+  response: parseActionResponse,
+  empty: { success: false },
+});
+
+// Send change (CHG) message for a flight plan, only changed fields are sent
+export const sendChgOperation = defineOperation<
+  { userSession: string; flId: number; changes: FlightPlanChanges },
+  FlightPlanActionResponse
+>({
+  name: 'SendCHG',
+  request: ({ userSession, flId, changes }) => ({
+    FlId: flId,
+    FlAttributes: {
+      FlRules: changes.flRules,
+      FlType: changes.flType,
+      ArcNum: changes.arcNum,
+      ArcType: changes.arcType,
+      WakeTurbulenceCat: changes.wakeTurbulenceCat,
+      Equipment: changes.equipment,
+      EobtVal: changes.eobt,
+      FlSpeed: changes.flSpeed,
+      FlLevel: changes.flLevel,
+      FlRoute: changes.flRoute,
+      ADAltn1: changes.adAltn1,
+      ADAltn2: changes.adAltn2,
+      TotalEET: changes.totalEet,
+      FlOther: changes.flOther,
+      FlSuplementary: changes.flSuplementary,
+    },
+    UserSession: userSession,
+  }),
+  response: parseActionResponse,
+  empty: { success: false },
+});
+
+// Date as Homebriefing's MET operations expect it, "YYYYMMDD"
+function formatValidityDate(date: Date): string {
+  return date.toISOString().slice(0, 10).replace(/-/g, '');
+}
+
+// MET message texts (MetMsg), one <MetMsg> per report
+const metMessagesSchema = {
+  isError: flag('IsError'),
+  messages: (el: XmlElement) => list('MetMsg', { msgTxt: text('MsgTxt') })(el)
+    .map((msg) => msg.msgTxt.trim())
+    .filter(Boolean),
+};
+
+// Get METAR or TAF messages of an aerodrome. The reference client passes these
+// fields through from its MET viewer, they match GetSynopMsg plus MsgType.
+export const getMetMsgOperation = defineOperation<
+  { userSession: string; msgType: 'METAR' | 'TAF'; icaoCode: string; date: Date; history: number },
+  MetMessagesResponse
+>({
+  name: 'GetMetMsg',
+  request: ({ userSession, msgType, icaoCode, date, history }) => ({
+    MsgType: msgType,
+    ValidityDate: formatValidityDate(date),
+    MsgHistory: history,
+    ICAOCode: icaoCode,
+    UserSession: userSession,
+  }),
+  response: (body) => readSchema(body, metMessagesSchema),
+  empty: { messages: [] },
+});
+
+// Get SYNOP messages of a station, by ICAO or WMO code
+export const getSynopMsgOperation = defineOperation<
+  { userSession: string; icaoCode: string; wmoCode: string; date: Date; history: number },
+  MetMessagesResponse
+>({
+  name: 'GetSynopMsg',
+  request: ({ userSession, icaoCode, wmoCode, date, history }) => ({
+    ValidityDate: formatValidityDate(date),
+    MsgHistory: history,
+    ICAOCode: icaoCode,
+    WMOCode: wmoCode,
+    UserSession: userSession,
+  }),
+  response: (body) => readSchema(body, metMessagesSchema),
+  empty: { messages: [] },
+});
+
+// Get the SYNOP stations Homebriefing has messages for
+export const getSynopStationsOperation = defineOperation<
+  { userSession: string },
+  SynopStationListResponse
+>({
+  name: 'GetSynopStations',
+  request: ({ userSession }) => ({
+    UserSession: userSession,
+  }),
+  response: (body) => readSchema(body, {
+    isError: flag('IsError'),
+    stations: list('SynopStation', {
+      icaoCode: optionalText('ICAOCode'),
+      wmoCode: text('WMOCode'),
+      name: text('StationName'),
+    }),
+  }),
+  empty: { stations: [] },
+});
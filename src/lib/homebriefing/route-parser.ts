@@ -0,0 +1,193 @@
+import { FieldError } from './types';
+
+// ICAO Field 15c (route) tokenizer. Recognises the route elements of PANS-ATM
+// Appendix 2 and reports problems as F15a (speed), F15b (level) and F15c (route)
+// errors, the field codes Homebriefing uses in CheckFplValidity. Runs in the
+// browser as well, so the form can flag a route while it is typed.
+
+export type RouteElementType =
+  | 'dct'           // Direct
+  | 'airway'        // ATS route, e.g. UL980
+  | 'procedure'     // SID or STAR, e.g. SPY1A
+  | 'point'         // Navaid, fix or aerodrome, e.g. SPY, WOODY
+  | 'coordinates'   // 52N005E or 5230N00445E
+  | 'bearing'       // Bearing and distance from a navaid, e.g. SPY090025
+  | 'rules'         // VFR or IFR from the previous point on
+  | 'stay'          // STAY1/0030
+  | 'truncate'      // T, the route continues beyond what's filed
+  | 'unknown';
+
+export interface RouteElement {
+  text: string;             // As written
+  type: RouteElementType;
+  index: number;            // Position in the route, from 0
+  name?: string;            // Point, navaid, airway or procedure, VFR/IFR for a change of rules
+  lat?: number;             // Decimal degrees, for coordinates
+  lng?: number;
+  bearing?: number;         // Degrees magnetic from the navaid in `name`
+  distance?: number;        // NM from the navaid
+  speed?: string;           // Speed change at this point, e.g. N0105
+  level?: string;           // Level change at this point, e.g. A025
+  cruiseClimb?: boolean;    // C/ point: cruise climb from here
+}
+
+export interface RouteError extends FieldError {
+  token?: string;           // Element the error is about
+  index?: number;           // Its position in the route
+}
+
+export interface ParsedRoute {
+  elements: RouteElement[];
+  errors: RouteError[];
+}
+
+const SPEED = /^(N\d{4}|K\d{4}|M\d{3})$/;
+const SPEED_LEVEL = /^(N\d{4}|K\d{4}|M\d{3})(F\d{3}|A\d{3}|S\d{4}|M\d{4}|VFR)$/;
+const AIRWAY = /^[A-Z]{1,2}\d{1,3}[A-Z]?$/;
+const PROCEDURE = /^[A-Z]{2,5}\d[A-Z]$/;
+const NAMED_POINT = /^[A-Z]{2,5}$/;
+const BEARING_POINT = /^([A-Z]{2,3})(\d{3})(\d{3})$/;
+const COORDINATES = /^(\d{2})(\d{2})?([NS])(\d{3})(\d{2})?([EW])$/;
+const STAY = /^STAY[1-9]\/([01]\d|2[0-3])[0-5]\d$/;
+
+const POINT_TYPES: RouteElementType[] = ['point', 'coordinates', 'bearing'];
+
+export function isRoutePoint(element: RouteElement): boolean {
+  return POINT_TYPES.includes(element.type);
+}
+
+// "5230N00445E" -> position, undefined when out of range or minutes on one side only
+function parseRouteCoordinates(text: string): { lat: number; lng: number } | undefined {
+  const match = text.match(COORDINATES);
+  if (!match || !match[2] !== !match[5]) return undefined;
+  const latMinutes = parseInt(match[2] || '0');
+  const lngMinutes = parseInt(match[5] || '0');
+  const lat = parseInt(match[1]) + latMinutes / 60;
+  const lng = parseInt(match[4]) + lngMinutes / 60;
+  if (latMinutes >= 60 || lngMinutes >= 60 || lat > 90 || lng > 180) return undefined;
+  return { lat: match[3] === 'S' ? -lat : lat, lng: match[6] === 'W' ? -lng : lng };
+}
+
+// A significant point without speed/level: named, coordinates or bearing and distance
+function parsePoint(text: string, index: number): RouteElement | undefined {
+  if (COORDINATES.test(text)) {
+    const position = parseRouteCoordinates(text);
+    return position ? { text, type: 'coordinates', index, ...position } : undefined;
+  }
+  const bearing = text.match(BEARING_POINT);
+  if (bearing) {
+    const degrees = parseInt(bearing[2]);
+    return degrees >= 1 && degrees <= 360
+      ? { text, type: 'bearing', index, name: bearing[1], bearing: degrees, distance: parseInt(bearing[3]) }
+      : undefined;
+  }
+  if (NAMED_POINT.test(text) && !['DCT', 'VFR', 'IFR'].includes(text)) {
+    return { text, type: 'point', index, name: text };
+  }
+  return undefined;
+}
+
+// One route element, errors about the element itself go into `errors`
+function parseElement(text: string, index: number, errors: RouteError[]): RouteElement {
+  const unknown = (message: string, field = 'F15c'): RouteElement => {
+    errors.push({ field, message, token: text, index });
+    return { text, type: 'unknown', index };
+  };
+
+  if (text === 'DCT') return { text, type: 'dct', index };
+  if (text === 'VFR' || text === 'IFR') return { text, type: 'rules', index, name: text };
+  if (text === 'T') return { text, type: 'truncate', index };
+  if (text.startsWith('STAY')) {
+    return STAY.test(text) ? { text, type: 'stay', index } : unknown(`${text} is not a valid STAY indicator (STAY1/0030)`);
+  }
+
+  if (text.includes('/')) {
+    // POINT/N0105A025 or C/POINT/N0105A025F065 (cruise climb)
+    const parts = text.split('/');
+    const cruiseClimb = parts[0] === 'C';
+    const [pointText, change] = cruiseClimb ? [parts[1], parts[2]] : parts;
+    if (parts.length !== (cruiseClimb ? 3 : 2) || !pointText || !change) {
+      return unknown(`${text} is not a valid point with speed and level (e.g. SPY/N0105A025)`);
+    }
+
+    const point = parsePoint(pointText, index);
+    if (!point) return unknown(`${pointText} is not a valid significant point`);
+
+    // A cruise climb ends at a second level or PLUS
+    const levels = cruiseClimb ? change.match(/^(.+?)(F\d{3}|A\d{3}|S\d{4}|M\d{4}|PLUS)$/) : null;
+    const speedLevel = (levels ? levels[1] : change).match(SPEED_LEVEL);
+    if (!speedLevel && cruiseClimb) {
+      return unknown(`${change} is not a valid cruise climb (e.g. N0500F350F390 or N0500F350PLUS)`);
+    }
+    if (!speedLevel) {
+      const speed = change.match(/^[NKM]\d+/)?.[0] ?? '';
+      return SPEED.test(speed)
+        ? unknown(`${change.slice(speed.length) || 'Missing level'} is not a valid cruising level (F065, A025, VFR)`, 'F15b')
+        : unknown(`${speed || change} is not a valid cruising speed (N0105, K0200, M082)`, 'F15a');
+    }
+    return { ...point, text, speed: speedLevel[1], level: speedLevel[2], cruiseClimb: cruiseClimb || undefined };
+  }
+
+  if (SPEED_LEVEL.test(text)) {
+    return unknown(`${text} changes speed and level without a point, write it as POINT/${text}`);
+  }
+  if (PROCEDURE.test(text)) return { text, type: 'procedure', index, name: text };
+  if (AIRWAY.test(text)) return { text, type: 'airway', index, name: text };
+
+  const point = parsePoint(text, index);
+  if (point) return point;
+  if (COORDINATES.test(text) || BEARING_POINT.test(text)) return unknown(`${text} is out of range`);
+  return unknown(`Unknown route element ${text}`);
+}
+
+// Rules about the order of elements, e.g. an airway needs a point on both sides
+function checkSequence(elements: RouteElement[], errors: RouteError[]): void {
+  const error = (element: RouteElement, message: string) =>
+    errors.push({ field: 'F15c', message, token: element.text, index: element.index });
+
+  elements.forEach((element, i) => {
+    const previous = elements[i - 1];
+    const next = elements[i + 1];
+    switch (element.type) {
+      case 'airway':
+        if (!previous || !next) {
+          error(element, `Airway ${element.text} needs a point where it is joined and one where it is left`);
+        } else if (!isRoutePoint(previous) && previous.type !== 'procedure') {
+          error(element, `Airway ${element.text} must follow a significant point`);
+        }
+        break;
+      case 'dct':
+        if (next && !isRoutePoint(next) && next.type !== 'unknown') {
+          error(element, `DCT must be followed by a significant point, not ${next.text}`);
+        }
+        break;
+      case 'procedure':
+        if (i !== 0 && i !== elements.length - 1) {
+          error(element, `${element.text} looks like a SID or STAR, which can only start or end the route`);
+        }
+        break;
+      case 'rules':
+        if (!previous || !isRoutePoint(previous)) {
+          error(element, `${element.text} must follow the point where the flight rules change`);
+        }
+        break;
+      case 'stay':
+        if (!previous || !isRoutePoint(previous)) {
+          error(element, `${element.text} must follow the point where the stay begins`);
+        }
+        break;
+      case 'truncate':
+        if (next) error(element, 'T can only be the last element of the route');
+        break;
+    }
+  });
+}
+
+export function parseRoute(route: string): ParsedRoute {
+  const errors: RouteError[] = [];
+  const elements = route.trim().toUpperCase().split(/\s+/).filter(Boolean)
+    .map((text, index) => parseElement(text, index, errors));
+  checkSequence(elements, errors);
+  errors.sort((a, b) => (a.index ?? 0) - (b.index ?? 0));
+  return { elements, errors };
+}
@@ -0,0 +1,36 @@
+import { createCipheriv, createDecipheriv, createHmac, randomBytes, scryptSync } from 'crypto';
+
+// AES-256-GCM for session records at rest. The key is derived from SESSION_SECRET,
+// without one a random key is used and stored sessions don't survive a restart.
+export class SessionCipher {
+  private readonly key: Buffer;
+
+  constructor(secret?: string) {
+    this.key = secret ? scryptSync(secret, 'hb-next-session-store', 32) : randomBytes(32);
+  }
+
+  // base64(iv | auth tag | ciphertext)
+  encrypt(plaintext: string): string {
+    const iv = randomBytes(12);
+    const cipher = createCipheriv('aes-256-gcm', this.key, iv);
+    const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf-8'), cipher.final()]);
+    return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString('base64');
+  }
+
+  // undefined when the record was written with another key or has been tampered with
+  decrypt(payload: string): string | undefined {
+    try {
+      const data = Buffer.from(payload, 'base64');
+      const decipher = createDecipheriv('aes-256-gcm', this.key, data.subarray(0, 12));
+      decipher.setAuthTag(data.subarray(12, 28));
+      return Buffer.concat([decipher.update(data.subarray(28)), decipher.final()]).toString('utf-8');
+    } catch {
+      return undefined;
+    }
+  }
+
+  // Keyed hash, for looking records up by a value that shouldn't be stored in the clear
+  hash(value: string): string {
+    return createHmac('sha256', this.key).update(value).digest('hex');
+  }
+}
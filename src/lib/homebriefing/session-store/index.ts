@@ -0,0 +1,44 @@
+import { SessionStore } from './store';
+import { SessionCipher } from './cipher';
+import { MemorySessionStore } from './memory';
+import { SqliteSessionStore } from './sqlite';
+import { RedisSessionStore } from './redis';
+
+export type { SessionStore, PendingLogin } from './store';
+export { SESSION_TIMEOUT, PENDING_TIMEOUT, DRAFT_TIMEOUT, AIRCRAFT_TIMEOUT, NOTIFICATIONS_TIMEOUT, SAFETY_TIMER_TIMEOUT } from './store';
+
+// Backend is selected with SESSION_STORE:
+//   memory (default)  lost on restart
+//   sqlite            file at SESSION_STORE_PATH (default data/sessions.db)
+//   redis             server at SESSION_STORE_URL (default redis://localhost:6379)
+// Records are encrypted with a key derived from SESSION_SECRET.
+function createSessionStore(): SessionStore {
+  const backend = process.env.SESSION_STORE || 'memory';
+  const secret = process.env.SESSION_SECRET;
+
+  if (!secret && backend !== 'memory') {
+    console.warn(`SESSION_SECRET is not set, sessions in the ${backend} store will not survive a restart`);
+  }
+  const cipher = new SessionCipher(secret);
+
+  switch (backend) {
+    case 'memory':
+      return new MemorySessionStore(cipher);
+    case 'sqlite':
+      return new SqliteSessionStore(cipher, process.env.SESSION_STORE_PATH || 'data/sessions.db');
+    case 'redis':
+      return new RedisSessionStore(cipher, process.env.SESSION_STORE_URL || 'redis://localhost:6379');
+    default:
+      throw new Error(`Unknown SESSION_STORE "${backend}", expected memory, sqlite or redis`);
+  }
+}
+
+// Use globalThis to share the session store across hot reloads in development,
+// and with the keep-alive started from instrumentation (a separate bundle)
+const globalForSessions = globalThis as unknown as {
+  sessionStore: SessionStore | undefined;
+};
+
+export const sessionStore = globalForSessions.sessionStore ?? createSessionStore();
+
+globalForSessions.sessionStore = sessionStore;
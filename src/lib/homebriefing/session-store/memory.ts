@@ -0,0 +1,44 @@
+import { KeyValueSessionStore } from './store';
+import { SessionCipher } from './cipher';
+
+// In-memory store, sessions are lost on restart
+export class MemorySessionStore extends KeyValueSessionStore {
+  private entries: Map<string, { value: string; expiresAt: number }> = new Map();
+
+  constructor(cipher: SessionCipher) {
+    super(cipher);
+    setInterval(() => this.cleanup(), 5 * 60 * 1000).unref();
+  }
+
+  protected async read(key: string): Promise<string | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+
+    if (Date.now() > entry.expiresAt) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    return entry.value;
+  }
+
+  protected async write(key: string, value: string, expiresAt: number): Promise<void> {
+    this.entries.set(key, { value, expiresAt });
+  }
+
+  protected async remove(keys: string[]): Promise<void> {
+    keys.forEach((key) => this.entries.delete(key));
+  }
+
+  protected async keys(prefix: string): Promise<string[]> {
+    return Array.from(this.entries.keys()).filter((key) => key.startsWith(prefix));
+  }
+
+  private cleanup(): void {
+    const now = Date.now();
+    for (const [key, entry] of this.entries) {
+      if (now > entry.expiresAt) {
+        this.entries.delete(key);
+      }
+    }
+  }
+}
@@ -0,0 +1,198 @@
+import { connect as connectTcp, Socket } from 'net';
+import { connect as connectTls } from 'tls';
+import { KeyValueSessionStore } from './store';
+import { SessionCipher } from './cipher';
+
+// Redis store, works with anything that speaks RESP (Redis, Valkey, KeyDB, Dragonfly).
+// Expiry is left to the server (PX), keys are prefixed with "hb-next:".
+
+type RespValue = string | number | null | RespValue[];
+
+class RespError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RespError';
+  }
+}
+
+// Parse one reply from the start of the buffer, undefined when it's incomplete
+function parseReply(buffer: Buffer, offset = 0): { value: RespValue | RespError; end: number } | undefined {
+  const lineEnd = buffer.indexOf('\r\n', offset);
+  if (lineEnd === -1) return undefined;
+
+  const type = String.fromCharCode(buffer[offset]);
+  const line = buffer.toString('utf-8', offset + 1, lineEnd);
+
+  switch (type) {
+    case '+':
+      return { value: line, end: lineEnd + 2 };
+    case '-':
+      return { value: new RespError(line), end: lineEnd + 2 };
+    case ':':
+      return { value: parseInt(line), end: lineEnd + 2 };
+    case '$': {
+      const length = parseInt(line);
+      if (length === -1) return { value: null, end: lineEnd + 2 };
+      if (buffer.length < lineEnd + 2 + length + 2) return undefined;
+      return { value: buffer.toString('utf-8', lineEnd + 2, lineEnd + 2 + length), end: lineEnd + 2 + length + 2 };
+    }
+    case '*': {
+      const count = parseInt(line);
+      if (count === -1) return { value: null, end: lineEnd + 2 };
+      const items: RespValue[] = [];
+      let end = lineEnd + 2;
+      for (let i = 0; i < count; i++) {
+        const item = parseReply(buffer, end);
+        if (!item) return undefined;
+        if (item.value instanceof RespError) return item;
+        items.push(item.value);
+        end = item.end;
+      }
+      return { value: items, end };
+    }
+    default:
+      throw new RespError(`Unexpected RESP reply type "${type}"`);
+  }
+}
+
+function encodeCommand(args: string[]): Buffer {
+  const parts = [`*${args.length}\r\n`];
+  for (const arg of args) {
+    parts.push(`$${Buffer.byteLength(arg)}\r\n${arg}\r\n`);
+  }
+  return Buffer.from(parts.join(''), 'utf-8');
+}
+
+// Minimal RESP client: one connection, pipelined commands answered in order.
+// Connects lazily and reconnects on the next command after an error.
+class RedisConnection {
+  private socket: Socket | null = null;
+  private ready: Promise<void> | null = null;
+  private buffer = Buffer.alloc(0);
+  private pending: { resolve: (value: RespValue) => void; reject: (error: Error) => void }[] = [];
+
+  constructor(private readonly url: URL) {}
+
+  private connect(): Promise<void> {
+    if (this.ready) return this.ready;
+
+    const ready: Promise<void> = new Promise<void>((resolve, reject) => {
+      const port = parseInt(this.url.port) || 6379;
+      const host = this.url.hostname || 'localhost';
+      const socket = this.url.protocol === 'rediss:'
+        ? connectTls({ host, port, servername: host })
+        : connectTcp({ host, port });
+
+      socket.once(this.url.protocol === 'rediss:' ? 'secureConnect' : 'connect', () => resolve());
+      socket.on('data', (data) => this.onData(data));
+      // A socket that was reset closes later, by then a new one may be connecting
+      socket.on('error', (error) => {
+        reject(error);
+        if (this.socket === socket) this.reset(error);
+      });
+      socket.on('close', () => {
+        reject(new Error('Redis connection closed'));
+        if (this.socket === socket) this.reset(new Error('Redis connection closed'));
+      });
+      this.socket = socket;
+    }).then(async () => {
+      const password = decodeURIComponent(this.url.password);
+      const username = decodeURIComponent(this.url.username);
+      if (password) {
+        await this.send(username ? ['AUTH', username, password] : ['AUTH', password]);
+      }
+      const db = this.url.pathname.slice(1);
+      if (db) {
+        await this.send(['SELECT', db]);
+      }
+    }).catch((error) => {
+      // A failed AUTH or SELECT leaves the socket open, start over on the next command
+      if (this.ready === ready) this.reset(error);
+      throw error;
+    });
+
+    this.ready = ready;
+    return ready;
+  }
+
+  private reset(error: Error): void {
+    this.socket?.destroy();
+    this.socket = null;
+    this.ready = null;
+    this.buffer = Buffer.alloc(0);
+    this.pending.splice(0).forEach(({ reject }) => reject(error));
+  }
+
+  private onData(data: Buffer): void {
+    this.buffer = Buffer.concat([this.buffer, data]);
+    try {
+      let reply = parseReply(this.buffer);
+      while (reply) {
+        this.buffer = this.buffer.subarray(reply.end);
+        const request = this.pending.shift();
+        if (reply.value instanceof RespError) {
+          request?.reject(reply.value);
+        } else {
+          request?.resolve(reply.value);
+        }
+        reply = parseReply(this.buffer);
+      }
+    } catch (error) {
+      this.reset(error as Error);
+    }
+  }
+
+  private send(args: string[]): Promise<RespValue> {
+    return new Promise((resolve, reject) => {
+      if (!this.socket) {
+        reject(new Error('Redis not connected'));
+        return;
+      }
+      this.pending.push({ resolve, reject });
+      this.socket.write(encodeCommand(args));
+    });
+  }
+
+  async command(args: string[]): Promise<RespValue> {
+    await this.connect();
+    return this.send(args);
+  }
+}
+
+const KEY_PREFIX = 'hb-next:';
+
+export class RedisSessionStore extends KeyValueSessionStore {
+  private readonly redis: RedisConnection;
+
+  constructor(cipher: SessionCipher, url: string) {
+    super(cipher);
+    this.redis = new RedisConnection(new URL(url));
+  }
+
+  protected async read(key: string): Promise<string | undefined> {
+    const value = await this.redis.command(['GET', KEY_PREFIX + key]);
+    return typeof value === 'string' ? value : undefined;
+  }
+
+  protected async write(key: string, value: string, expiresAt: number): Promise<void> {
+    const ttl = Math.max(1, expiresAt - Date.now());
+    await this.redis.command(['SET', KEY_PREFIX + key, value, 'PX', String(ttl)]);
+  }
+
+  protected async remove(keys: string[]): Promise<void> {
+    await this.redis.command(['DEL', ...keys.map((key) => KEY_PREFIX + key)]);
+  }
+
+  protected async keys(prefix: string): Promise<string[]> {
+    const keys: string[] = [];
+    let cursor = '0';
+    do {
+      const reply = await this.redis.command(['SCAN', cursor, 'MATCH', `${KEY_PREFIX}${prefix}*`, 'COUNT', '100']);
+      const [next, batch] = reply as [string, string[]];
+      cursor = next;
+      keys.push(...batch.map((key) => key.slice(KEY_PREFIX.length)));
+    } while (cursor !== '0');
+    // SCAN may return a key more than once
+    return Array.from(new Set(keys));
+  }
+}
@@ -0,0 +1,95 @@
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import path from 'path';
+import type { Database } from 'sql.js';
+import { KeyValueSessionStore } from './store';
+import { SessionCipher } from './cipher';
+
+// SQLite file store (sql.js, no native build). The database is kept in memory
+// and written back to the file after every change, so only one app instance
+// may use a file at a time. Use the Redis store to run several instances.
+export class SqliteSessionStore extends KeyValueSessionStore {
+  private db: Promise<Database> | null = null;
+  private flushing: Promise<void> | null = null;
+  private dirty = false;
+
+  constructor(cipher: SessionCipher, private readonly filePath: string) {
+    super(cipher);
+    setInterval(() => this.cleanup(), 5 * 60 * 1000).unref();
+  }
+
+  private open(): Promise<Database> {
+    if (!this.db) {
+      this.db = (async () => {
+        const { default: initSqlJs } = await import('sql.js');
+        const SQL = await initSqlJs();
+        const data = await readFile(this.filePath).catch(() => undefined);
+        const db = new SQL.Database(data);
+        db.run('CREATE TABLE IF NOT EXISTS sessions (key TEXT PRIMARY KEY, value TEXT NOT NULL, expires_at INTEGER NOT NULL)');
+        return db;
+      })();
+    }
+    return this.db;
+  }
+
+  // Write the database to a temporary file and rename it. Changes made while
+  // a write is running are picked up by one more write.
+  private flush(): Promise<void> {
+    this.dirty = true;
+    if (!this.flushing) {
+      this.flushing = this.writeDatabase().finally(() => {
+        this.flushing = null;
+        if (this.dirty) this.flush().catch((error) => console.error('Session store write error:', error));
+      });
+    }
+    return this.flushing;
+  }
+
+  private async writeDatabase(): Promise<void> {
+    const db = await this.open();
+    await mkdir(path.dirname(this.filePath), { recursive: true });
+    while (this.dirty) {
+      this.dirty = false;
+      const tmpPath = `${this.filePath}.tmp`;
+      await writeFile(tmpPath, db.export());
+      await rename(tmpPath, this.filePath);
+    }
+  }
+
+  protected async read(key: string): Promise<string | undefined> {
+    const db = await this.open();
+    const result = db.exec('SELECT value FROM sessions WHERE key = ? AND expires_at >= ?', [key, Date.now()]);
+    return result[0]?.values[0]?.[0] as string | undefined;
+  }
+
+  protected async write(key: string, value: string, expiresAt: number): Promise<void> {
+    const db = await this.open();
+    db.run('INSERT OR REPLACE INTO sessions (key, value, expires_at) VALUES (?, ?, ?)', [key, value, expiresAt]);
+    await this.flush();
+  }
+
+  protected async remove(keys: string[]): Promise<void> {
+    const db = await this.open();
+    for (const key of keys) {
+      db.run('DELETE FROM sessions WHERE key = ?', [key]);
+    }
+    await this.flush();
+  }
+
+  protected async keys(prefix: string): Promise<string[]> {
+    const db = await this.open();
+    const result = db.exec('SELECT key FROM sessions WHERE substr(key, 1, ?) = ? AND expires_at >= ?', [prefix.length, prefix, Date.now()]);
+    return (result[0]?.values ?? []).map((row) => row[0] as string);
+  }
+
+  private async cleanup(): Promise<void> {
+    try {
+      const db = await this.open();
+      db.run('DELETE FROM sessions WHERE expires_at < ?', [Date.now()]);
+      if (db.getRowsModified() > 0) {
+        await this.flush();
+      }
+    } catch (error) {
+      console.error('Session store cleanup error:', error);
+    }
+  }
+}
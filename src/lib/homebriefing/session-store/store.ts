@@ -0,0 +1,302 @@
+import { randomBytes } from 'crypto';
+import {
+  AircraftProfile,
+  AircraftProfileData,
+  FlightPlanDraft,
+  FlightPlanDraftData,
+  HomebriefingSession,
+  NotificationSettings,
+  NotificationSettingsData,
+  SafetyTimer,
+} from '../types';
+import { SessionCipher } from './cipher';
+
+export interface PendingLogin {
+  cookies: string;
+  token: string;
+  createdAt: number;
+}
+
+export interface SessionStore {
+  generateSessionId(): string;
+  // Store a pending login (before captcha is solved)
+  createPendingLogin(cookies: string, token: string): Promise<string>;
+  getPendingLogin(sessionId: string): Promise<PendingLogin | undefined>;
+  // Convert pending login to full session after successful login
+  activateSession(sessionId: string, cookies: string, token: string, userSession: string, username: string): Promise<boolean>;
+  // Returns the session and extends it, undefined when missing or expired
+  getSession(sessionId: string): Promise<HomebriefingSession | undefined>;
+  // Returns the session without extending it
+  peekSession(sessionId: string): Promise<HomebriefingSession | undefined>;
+  // Ids of all stored sessions, for the keep-alive
+  listSessionIds(): Promise<string[]>;
+  // Record that Homebriefing still accepts the session
+  markSessionValidated(sessionId: string): Promise<void>;
+  deleteSession(sessionId: string): Promise<void>;
+  // Flight plan drafts of a Homebriefing user, saved without draftId creates a new one
+  saveDraft(username: string, draft: FlightPlanDraftData, draftId?: string): Promise<FlightPlanDraft>;
+  getDraft(username: string, draftId: string): Promise<FlightPlanDraft | undefined>;
+  // Newest first
+  listDrafts(username: string): Promise<FlightPlanDraft[]>;
+  deleteDraft(username: string, draftId: string): Promise<void>;
+  // Aircraft profiles of a Homebriefing user, one per registration
+  saveAircraft(username: string, profile: AircraftProfileData): Promise<AircraftProfile>;
+  getAircraft(username: string, arcid: string): Promise<AircraftProfile | undefined>;
+  // By registration
+  listAircraft(username: string): Promise<AircraftProfile[]>;
+  deleteAircraft(username: string, arcid: string): Promise<void>;
+  // Push subscriptions and webhooks of a Homebriefing user
+  saveNotificationSettings(username: string, settings: NotificationSettingsData): Promise<NotificationSettings>;
+  getNotificationSettings(username: string): Promise<NotificationSettings | undefined>;
+  // Safety timers of a Homebriefing user, one per flight plan
+  saveSafetyTimer(username: string, timer: Omit<SafetyTimer, 'updatedAt'>): Promise<SafetyTimer>;
+  getSafetyTimer(username: string, flId: number): Promise<SafetyTimer | undefined>;
+  // Newest first
+  listSafetyTimers(username: string): Promise<SafetyTimer[]>;
+  // For the "I have landed" link, which works without a session cookie
+  getSafetyTimerByToken(token: string): Promise<{ username: string; timer: SafetyTimer } | undefined>;
+}
+
+// Session timeout: 30 minutes (Homebriefing sessions typically last longer, but we refresh)
+export const SESSION_TIMEOUT = 30 * 60 * 1000;
+// Access only writes the session when it moves the expiry by at least a minute,
+// a busy dashboard shouldn't rewrite the SQLite file on every request
+export const SESSION_EXTEND_STEP = 60 * 1000;
+// Pending login timeout: 5 minutes
+export const PENDING_TIMEOUT = 5 * 60 * 1000;
+// Drafts are dropped 30 days after they were last saved
+export const DRAFT_TIMEOUT = 30 * 24 * 60 * 60 * 1000;
+// Aircraft profiles are dropped a year after they were last saved
+export const AIRCRAFT_TIMEOUT = 365 * 24 * 60 * 60 * 1000;
+// Notification settings are dropped a year after they were last saved
+export const NOTIFICATIONS_TIMEOUT = 365 * 24 * 60 * 60 * 1000;
+// Safety timers and their log are kept for 30 days after the last entry
+export const SAFETY_TIMER_TIMEOUT = 30 * 24 * 60 * 60 * 1000;
+
+// Session, draft, aircraft, notification and safety timer semantics on top of a key/value backend with per-key expiry.
+// Records are JSON encrypted with SessionCipher, backends only see ciphertext.
+export abstract class KeyValueSessionStore implements SessionStore {
+  constructor(private readonly cipher: SessionCipher) {}
+
+  // Value of a key, undefined when missing or past expiresAt
+  protected abstract read(key: string): Promise<string | undefined>;
+  protected abstract write(key: string, value: string, expiresAt: number): Promise<void>;
+  protected abstract remove(keys: string[]): Promise<void>;
+  // Keys starting with prefix, may include expired ones
+  protected abstract keys(prefix: string): Promise<string[]>;
+
+  generateSessionId(): string {
+    return randomBytes(32).toString('hex');
+  }
+
+  private async readRecord<T>(key: string): Promise<T | undefined> {
+    const value = await this.read(key);
+    const json = value && this.cipher.decrypt(value);
+    return json ? JSON.parse(json) as T : undefined;
+  }
+
+  private async writeRecord<T>(key: string, record: T, expiresAt: number): Promise<void> {
+    await this.write(key, this.cipher.encrypt(JSON.stringify(record)), expiresAt);
+  }
+
+  async createPendingLogin(cookies: string, token: string): Promise<string> {
+    const sessionId = this.generateSessionId();
+    const createdAt = Date.now();
+    await this.writeRecord<PendingLogin>(`pending:${sessionId}`, { cookies, token, createdAt }, createdAt + PENDING_TIMEOUT);
+    return sessionId;
+  }
+
+  async getPendingLogin(sessionId: string): Promise<PendingLogin | undefined> {
+    const pending = await this.readRecord<PendingLogin>(`pending:${sessionId}`);
+    if (!pending) return undefined;
+
+    // Check if expired
+    if (Date.now() - pending.createdAt > PENDING_TIMEOUT) {
+      await this.remove([`pending:${sessionId}`]);
+      return undefined;
+    }
+
+    return pending;
+  }
+
+  async activateSession(sessionId: string, cookies: string, token: string, userSession: string, username: string): Promise<boolean> {
+    // Remove from pending
+    await this.remove([`pending:${sessionId}`]);
+
+    // Create full session
+    const expiresAt = Date.now() + SESSION_TIMEOUT;
+    await this.writeRecord<HomebriefingSession>(`session:${sessionId}`, { cookies, token, userSession, username, expiresAt }, expiresAt);
+
+    return true;
+  }
+
+  async peekSession(sessionId: string): Promise<HomebriefingSession | undefined> {
+    const session = await this.readRecord<HomebriefingSession>(`session:${sessionId}`);
+    if (!session) return undefined;
+
+    // Check if expired
+    if (Date.now() > session.expiresAt) {
+      await this.remove([`session:${sessionId}`]);
+      return undefined;
+    }
+
+    return session;
+  }
+
+  async getSession(sessionId: string): Promise<HomebriefingSession | undefined> {
+    const session = await this.peekSession(sessionId);
+    if (!session) return undefined;
+
+    // Extend session on access
+    const expiresAt = Date.now() + SESSION_TIMEOUT;
+    if (expiresAt - session.expiresAt >= SESSION_EXTEND_STEP) {
+      session.expiresAt = expiresAt;
+      await this.writeRecord(`session:${sessionId}`, session, session.expiresAt);
+    }
+
+    return session;
+  }
+
+  async listSessionIds(): Promise<string[]> {
+    const keys = await this.keys('session:');
+    return keys.map((key) => key.slice('session:'.length));
+  }
+
+  async markSessionValidated(sessionId: string): Promise<void> {
+    const session = await this.peekSession(sessionId);
+    if (!session) return;
+
+    session.validatedAt = Date.now();
+    await this.writeRecord(`session:${sessionId}`, session, session.expiresAt);
+  }
+
+  async deleteSession(sessionId: string): Promise<void> {
+    await this.remove([`session:${sessionId}`, `pending:${sessionId}`]);
+  }
+
+  // Drafts are keyed by a hash of the user name, so names don't show up in the backend
+  private draftKey(username: string, draftId = ''): string {
+    return `draft:${this.cipher.hash(username.toUpperCase())}:${draftId}`;
+  }
+
+  async saveDraft(username: string, draft: FlightPlanDraftData, draftId?: string): Promise<FlightPlanDraft> {
+    const saved: FlightPlanDraft = {
+      modifyFlId: draft.modifyFlId,
+      formData: draft.formData,
+      field18: draft.field18,
+      field19: draft.field19,
+      draftId: draftId || randomBytes(8).toString('hex'),
+      updatedAt: Date.now(),
+    };
+    await this.writeRecord(this.draftKey(username, saved.draftId), saved, saved.updatedAt + DRAFT_TIMEOUT);
+    return saved;
+  }
+
+  async getDraft(username: string, draftId: string): Promise<FlightPlanDraft | undefined> {
+    return this.readRecord<FlightPlanDraft>(this.draftKey(username, draftId));
+  }
+
+  async listDrafts(username: string): Promise<FlightPlanDraft[]> {
+    const keys = await this.keys(this.draftKey(username));
+    const drafts = await Promise.all(keys.map((key) => this.readRecord<FlightPlanDraft>(key)));
+    return drafts
+      .filter((draft): draft is FlightPlanDraft => !!draft)
+      .sort((a, b) => b.updatedAt - a.updatedAt);
+  }
+
+  async deleteDraft(username: string, draftId: string): Promise<void> {
+    await this.remove([this.draftKey(username, draftId)]);
+  }
+
+  private aircraftKey(username: string, arcid = ''): string {
+    return `aircraft:${this.cipher.hash(username.toUpperCase())}:${arcid.toUpperCase()}`;
+  }
+
+  async saveAircraft(username: string, profile: AircraftProfileData): Promise<AircraftProfile> {
+    const saved: AircraftProfile = {
+      arcid: profile.arcid.toUpperCase(),
+      arcType: profile.arcType,
+      wakeTurbulenceCat: profile.wakeTurbulenceCat,
+      equipment: profile.equipment,
+      flSpeed: profile.flSpeed,
+      pbn: profile.pbn,
+      code: profile.code,
+      field19: profile.field19,
+      updatedAt: Date.now(),
+    };
+    await this.writeRecord(this.aircraftKey(username, saved.arcid), saved, saved.updatedAt + AIRCRAFT_TIMEOUT);
+    return saved;
+  }
+
+  async getAircraft(username: string, arcid: string): Promise<AircraftProfile | undefined> {
+    return this.readRecord<AircraftProfile>(this.aircraftKey(username, arcid));
+  }
+
+  async listAircraft(username: string): Promise<AircraftProfile[]> {
+    const keys = await this.keys(this.aircraftKey(username));
+    const profiles = await Promise.all(keys.map((key) => this.readRecord<AircraftProfile>(key)));
+    return profiles
+      .filter((profile): profile is AircraftProfile => !!profile)
+      .sort((a, b) => a.arcid.localeCompare(b.arcid));
+  }
+
+  async deleteAircraft(username: string, arcid: string): Promise<void> {
+    await this.remove([this.aircraftKey(username, arcid)]);
+  }
+
+  private notificationsKey(username: string): string {
+    return `notifications:${this.cipher.hash(username.toUpperCase())}`;
+  }
+
+  async saveNotificationSettings(username: string, settings: NotificationSettingsData): Promise<NotificationSettings> {
+    const saved: NotificationSettings = {
+      pushSubscriptions: settings.pushSubscriptions,
+      webhooks: settings.webhooks,
+      safetyTimer: settings.safetyTimer,
+      updatedAt: Date.now(),
+    };
+    await this.writeRecord(this.notificationsKey(username), saved, saved.updatedAt + NOTIFICATIONS_TIMEOUT);
+    return saved;
+  }
+
+  async getNotificationSettings(username: string): Promise<NotificationSettings | undefined> {
+    return this.readRecord<NotificationSettings>(this.notificationsKey(username));
+  }
+
+  private safetyTimerKey(username: string, flId: number | '' = ''): string {
+    return `safety:${this.cipher.hash(username.toUpperCase())}:${flId}`;
+  }
+
+  async saveSafetyTimer(username: string, timer: Omit<SafetyTimer, 'updatedAt'>): Promise<SafetyTimer> {
+    const saved: SafetyTimer = {
+      flight: timer.flight,
+      token: timer.token,
+      remindersSent: timer.remindersSent,
+      closedAt: timer.closedAt,
+      log: timer.log,
+      updatedAt: Date.now(),
+    };
+    const expiresAt = saved.updatedAt + SAFETY_TIMER_TIMEOUT;
+    await this.writeRecord(this.safetyTimerKey(username, saved.flight.flId), saved, expiresAt);
+    await this.writeRecord(`safety-token:${this.cipher.hash(saved.token)}`, { username, flId: saved.flight.flId }, expiresAt);
+    return saved;
+  }
+
+  async getSafetyTimer(username: string, flId: number): Promise<SafetyTimer | undefined> {
+    return this.readRecord<SafetyTimer>(this.safetyTimerKey(username, flId));
+  }
+
+  async listSafetyTimers(username: string): Promise<SafetyTimer[]> {
+    const keys = await this.keys(this.safetyTimerKey(username));
+    const timers = await Promise.all(keys.map((key) => this.readRecord<SafetyTimer>(key)));
+    return timers
+      .filter((timer): timer is SafetyTimer => !!timer)
+      .sort((a, b) => b.updatedAt - a.updatedAt);
+  }
+
+  async getSafetyTimerByToken(token: string): Promise<{ username: string; timer: SafetyTimer } | undefined> {
+    const link = await this.readRecord<{ username: string; flId: number }>(`safety-token:${this.cipher.hash(token)}`);
+    const timer = link && await this.getSafetyTimer(link.username, link.flId);
+    return timer ? { username: link.username, timer } : undefined;
+  }
+}
@@ -0,0 +1,48 @@
+import type { XmlElement } from './xml';
+
+// Schema drift detection. While a response is parsed, every element name the
+// readers look up is recorded; elements in the response nobody asked for are
+// reported as unknown, so a renamed or new Homebriefing field doesn't go unnoticed.
+
+let activeLookups: Set<string> | null = null;
+
+// Called by findElement/findElements
+export function recordLookup(name: string): void {
+  activeLookups?.add(name.toLowerCase());
+}
+
+// Run a parser and return the element names it looked up
+export function trackLookups<T>(parse: () => T): { result: T; lookups: Set<string> } {
+  const previous = activeLookups;
+  const lookups = new Set<string>();
+  activeLookups = lookups;
+  try {
+    return { result: parse(), lookups };
+  } finally {
+    activeLookups = previous;
+  }
+}
+
+function containsLookup(el: XmlElement, lookups: Set<string>): boolean {
+  return el.children.some((child) => lookups.has(child.name.toLowerCase()) || containsLookup(child, lookups));
+}
+
+// Local names of elements below `el` that were never looked up. Wrappers around
+// known elements (e.g. FlTplId around TplId) are not reported, unknown subtrees
+// are reported by their top element only.
+export function findUnknownElements(el: XmlElement, lookups: Set<string>): string[] {
+  const unknown = new Set<string>();
+
+  const visit = (parent: XmlElement) => {
+    for (const child of parent.children) {
+      if (lookups.has(child.name.toLowerCase()) || containsLookup(child, lookups)) {
+        visit(child);
+      } else {
+        unknown.add(child.name);
+      }
+    }
+  };
+  visit(el);
+
+  return Array.from(unknown);
+}
@@ -0,0 +1,129 @@
+import { XmlElement, escapeXml, findElement, parseXml } from './xml';
+import { SessionExpiredError, SoapEnvelopeError, SoapFaultError } from './errors';
+
+export const SOAP_ENV_NS = 'http://schemas.xmlsoap.org/soap/envelope/';
+export const SOAP12_ENV_NS = 'http://www.w3.org/2003/05/soap-envelope';
+export const MOBILTECH_NS = 'http://mobiltech.sk/';
+
+// Request values. Objects become nested elements, arrays repeat the element,
+// undefined leaves the element out and '' sends an empty element.
+export type SoapValue = string | number | boolean | undefined | SoapFields | SoapValue[];
+export interface SoapFields {
+  [tag: string]: SoapValue;
+}
+
+// Session expiry detection patterns
+const SESSION_EXPIRY_PATTERNS = [
+  /session.*expired/i,
+  /invalid.*session/i,
+  /not.*logged.*in/i,
+  /login.*required/i,
+  /authentication.*failed/i,
+  /unauthorized/i,
+];
+
+// Check if response indicates session expiry
+export function isSessionExpiredResponse(xml: string): boolean {
+  // Check for common session expiry error patterns
+  for (const pattern of SESSION_EXPIRY_PATTERNS) {
+    if (pattern.test(xml)) {
+      return true;
+    }
+  }
+
+  // Check for empty or redirect responses (often indicate session issues)
+  if (xml.includes('<!DOCTYPE html') || xml.includes('<html')) {
+    // Got HTML instead of XML - likely a login redirect
+    return true;
+  }
+
+  return false;
+}
+
+function serializeValue(tag: string, value: SoapValue): string {
+  if (value === undefined) return '';
+  if (Array.isArray(value)) {
+    return value.map((item) => serializeValue(tag, item)).join('');
+  }
+  if (typeof value === 'object') {
+    return `<${tag}>${serializeFields(value)}</${tag}>`;
+  }
+  return `<${tag}>${escapeXml(String(value))}</${tag}>`;
+}
+
+function serializeFields(fields: SoapFields, prefix = ''): string {
+  return Object.entries(fields)
+    .map(([tag, value]) => serializeValue(prefix + tag, value))
+    .join('');
+}
+
+// Build a request envelope. Direct children of the request element are in the
+// mobiltech namespace, nested structures (FlAttributes, FlTplValues) are unqualified.
+export function buildSoapEnvelope(operation: string, fields: SoapFields): string {
+  return `<?xml version="1.0" encoding="utf-8" ?><soapenv:Envelope xmlns:soapenv="${SOAP_ENV_NS}" xmlns:mob="${MOBILTECH_NS}"><soapenv:Body><mob:${operation}Request>${serializeFields(fields, 'mob:')}</mob:${operation}Request></soapenv:Body></soapenv:Envelope>`;
+}
+
+// All text below an element, used for fault details
+function deepText(el: XmlElement): string {
+  return (el.text + el.children.map(deepText).join(' ')).replace(/\s+/g, ' ').trim();
+}
+
+function isEnvelopeElement(el: XmlElement, name: string): boolean {
+  return el.name === name && (el.namespace === SOAP_ENV_NS || el.namespace === SOAP12_ENV_NS);
+}
+
+function decodeFault(fault: XmlElement): SoapFaultError {
+  const stripPrefix = (code: string) => code.trim().replace(/^[^:]*:/, '');
+  const childText = (name: string) => fault.children.find((c) => c.name === name)?.text.trim() || '';
+
+  // SOAP 1.2: <Code><Value>, <Reason><Text>, <Role>, <Detail>
+  if (fault.namespace === SOAP12_ENV_NS && fault.children.some((c) => c.name === 'Code')) {
+    const code = fault.children.find((c) => c.name === 'Code');
+    const reason = fault.children.find((c) => c.name === 'Reason');
+    const detail = fault.children.find((c) => c.name === 'Detail');
+    return new SoapFaultError(
+      stripPrefix(code ? findElement(code, 'Value')?.text || '' : ''),
+      reason ? findElement(reason, 'Text')?.text.trim() || '' : '',
+      childText('Role') || undefined,
+      detail ? deepText(detail) || undefined : undefined
+    );
+  }
+
+  // SOAP 1.1: <faultcode>, <faultstring>, <faultactor>, <detail>
+  const detail = fault.children.find((c) => c.name === 'detail');
+  return new SoapFaultError(
+    stripPrefix(childText('faultcode')),
+    childText('faultstring'),
+    childText('faultactor') || undefined,
+    detail ? deepText(detail) || undefined : undefined
+  );
+}
+
+// Parse a response envelope and return the response element inside the Body.
+// Throws SessionExpiredError, SoapFaultError or a parse error.
+export function parseSoapEnvelope(xml: string): XmlElement {
+  if (isSessionExpiredResponse(xml)) {
+    throw new SessionExpiredError();
+  }
+
+  const envelope = parseXml(xml);
+  if (!isEnvelopeElement(envelope, 'Envelope')) {
+    throw new SoapEnvelopeError(`Expected SOAP Envelope, got <${envelope.name}>`);
+  }
+
+  const body = envelope.children.find((c) => isEnvelopeElement(c, 'Body'));
+  if (!body) {
+    throw new SoapEnvelopeError('SOAP Envelope has no Body');
+  }
+
+  const fault = body.children.find((c) => isEnvelopeElement(c, 'Fault'));
+  if (fault) {
+    throw decodeFault(fault);
+  }
+
+  const response = body.children[0];
+  if (!response) {
+    throw new SoapEnvelopeError('SOAP Body is empty');
+  }
+  return response;
+}
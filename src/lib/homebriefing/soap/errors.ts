@@ -0,0 +1,41 @@
+// Errors raised by the SOAP layer. HomebriefingClient turns these into
+// `isError` / `sessionExpired` results so API routes keep a single code path.
+
+// Response body is not well-formed XML
+export class XmlParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'XmlParseError';
+  }
+}
+
+// Response is XML, but not a SOAP envelope with a body
+export class SoapEnvelopeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SoapEnvelopeError';
+  }
+}
+
+// SOAP Fault returned by ibafProvider.php (SOAP 1.1 and 1.2)
+export class SoapFaultError extends Error {
+  readonly faultCode: string;     // Fault code without prefix, e.g. "Client", "Server"
+  readonly faultActor?: string;
+  readonly detail?: string;
+
+  constructor(faultCode: string, faultString: string, faultActor?: string, detail?: string) {
+    super(faultString || 'SOAP Fault');
+    this.name = 'SoapFaultError';
+    this.faultCode = faultCode;
+    this.faultActor = faultActor;
+    this.detail = detail;
+  }
+}
+
+// Homebriefing session is no longer valid (login redirect or session error)
+export class SessionExpiredError extends Error {
+  constructor(message = 'Homebriefing session expired') {
+    super(message);
+    this.name = 'SessionExpiredError';
+  }
+}
@@ -0,0 +1,5 @@
+export * from './errors';
+export * from './xml';
+export * from './envelope';
+export * from './schema';
+export * from './drift';
@@ -0,0 +1,69 @@
+import { XmlElement, findElement, findElements } from './xml';
+import { SoapFields } from './envelope';
+
+// Response schemas are objects of readers, one per result field:
+//   const schema = { flId: integer('FlId'), arcid: text('ARCID') };
+//   readSchema(el, schema) // -> { flId: number; arcid: string }
+
+export type Reader<T> = (el: XmlElement) => T;
+export type Schema = Record<string, Reader<unknown>>;
+export type SchemaResult<S extends Schema> = { [K in keyof S]: ReturnType<S[K]> };
+
+export function readSchema<S extends Schema>(el: XmlElement, schema: S): SchemaResult<S> {
+  const result = {} as SchemaResult<S>;
+  for (const key of Object.keys(schema) as (keyof S)[]) {
+    result[key] = schema[key](el) as ReturnType<S[keyof S]>;
+  }
+  return result;
+}
+
+// Text of the first descendant element, '' when missing
+export const text = (tag: string): Reader<string> => (el) => findElement(el, tag)?.text ?? '';
+
+// Text of the first descendant element, undefined when missing or empty
+export const optionalText = (tag: string): Reader<string | undefined> => (el) => text(tag)(el) || undefined;
+
+export const integer = (tag: string): Reader<number> => (el) => parseInt(text(tag)(el)) || 0;
+
+export const optionalInteger = (tag: string): Reader<number | undefined> => (el) => parseInt(text(tag)(el)) || undefined;
+
+// Homebriefing flags are "1"/"0"
+export const flag = (tag: string): Reader<boolean> => (el) => text(tag)(el) === '1';
+
+// Template booleans are "true"/"false"
+export const bool = (tag: string): Reader<boolean> => (el) => text(tag)(el) === 'true';
+
+// Non-empty texts of all matching elements (e.g. repeated <toAFTNAddr>)
+export const textList = (tag: string): Reader<string[]> => (el) =>
+  findElements(el, tag).map((e) => e.text).filter(Boolean);
+
+// Repeated complex elements (e.g. <FPLsArray>, <MsgArray>)
+export const list = <S extends Schema>(tag: string, schema: S): Reader<SchemaResult<S>[]> => (el) =>
+  findElements(el, tag).map((e) => readSchema(e, schema));
+
+// Nested complex element, undefined when missing
+export const record = <S extends Schema>(tag: string, schema: S): Reader<SchemaResult<S> | undefined> => (el) => {
+  const child = findElement(el, tag);
+  return child ? readSchema(child, schema) : undefined;
+};
+
+// Fields every result carries, set by the client on session expiry or SOAP fault
+export interface SoapResult {
+  isError: boolean;
+  sessionExpired?: boolean;
+  errorMessage?: string;
+}
+
+// A Homebriefing operation: `${name}Request` is sent to ibafProvider.php
+export interface SoapOperation<TParams, TResult extends SoapResult> {
+  name: string;
+  request: (params: TParams) => SoapFields;         // Request fields in the order Homebriefing expects
+  response: (body: XmlElement, xml: string) => TResult;
+  empty: Omit<TResult, keyof SoapResult>;           // Result data when the call failed
+}
+
+export function defineOperation<TParams, TResult extends SoapResult>(
+  operation: SoapOperation<TParams, TResult>
+): SoapOperation<TParams, TResult> {
+  return operation;
+}
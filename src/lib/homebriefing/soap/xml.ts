@@ -0,0 +1,207 @@
+import { XmlParseError } from './errors';
+import { recordLookup } from './drift';
+
+// Minimal namespace-aware XML parser for Homebriefing SOAP responses.
+// Supports elements, attributes, namespaces, CDATA, comments and character/entity references.
+// DTDs are not supported (an HTML page instead of a SOAP envelope is rejected).
+
+export interface XmlElement {
+  name: string;                         // Local name without prefix
+  prefix: string;                       // Namespace prefix as written ('' when none)
+  namespace: string;                    // Resolved namespace URI ('' when none)
+  attributes: Record<string, string>;   // Attributes by qualified name
+  children: XmlElement[];
+  text: string;                         // Text and CDATA content directly inside the element
+}
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+};
+
+function decodeEntities(str: string): string {
+  return str.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, ref: string) => {
+    if (ref[0] === '#') {
+      const code = ref[1] === 'x' || ref[1] === 'X' ? parseInt(ref.slice(2), 16) : parseInt(ref.slice(1), 10);
+      return isNaN(code) ? entity : String.fromCodePoint(code);
+    }
+    return NAMED_ENTITIES[ref] ?? entity;
+  });
+}
+
+export function escapeXml(str: string): string {
+  return str
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function splitQName(qname: string): { prefix: string; name: string } {
+  const idx = qname.indexOf(':');
+  return idx === -1
+    ? { prefix: '', name: qname }
+    : { prefix: qname.slice(0, idx), name: qname.slice(idx + 1) };
+}
+
+// Find the end of a start/end tag, skipping '>' inside quoted attribute values
+function findTagEnd(xml: string, from: number): number {
+  let quote: string | null = null;
+  for (let i = from; i < xml.length; i++) {
+    const ch = xml[i];
+    if (quote) {
+      if (ch === quote) quote = null;
+    } else if (ch === '"' || ch === "'") {
+      quote = ch;
+    } else if (ch === '>') {
+      return i;
+    }
+  }
+  return -1;
+}
+
+interface OpenElement {
+  qname: string;
+  element: XmlElement;
+  namespaces: Map<string, string>;
+}
+
+export function parseXml(xml: string): XmlElement {
+  const stack: OpenElement[] = [];
+  let root: XmlElement | null = null;
+  let pos = xml.charCodeAt(0) === 0xfeff ? 1 : 0;
+
+  const appendText = (text: string) => {
+    const current = stack[stack.length - 1];
+    if (current) {
+      current.element.text += text;
+    } else if (text.trim()) {
+      throw new XmlParseError('Text outside of root element');
+    }
+  };
+
+  while (pos < xml.length) {
+    const lt = xml.indexOf('<', pos);
+    if (lt === -1) {
+      appendText(decodeEntities(xml.slice(pos)));
+      break;
+    }
+    if (lt > pos) {
+      appendText(decodeEntities(xml.slice(pos, lt)));
+    }
+
+    if (xml.startsWith('<?', lt)) {
+      const end = xml.indexOf('?>', lt);
+      if (end === -1) throw new XmlParseError('Unterminated processing instruction');
+      pos = end + 2;
+    } else if (xml.startsWith('<!--', lt)) {
+      const end = xml.indexOf('-->', lt);
+      if (end === -1) throw new XmlParseError('Unterminated comment');
+      pos = end + 3;
+    } else if (xml.startsWith('<![CDATA[', lt)) {
+      const end = xml.indexOf(']]>', lt);
+      if (end === -1) throw new XmlParseError('Unterminated CDATA section');
+      appendText(xml.slice(lt + 9, end));
+      pos = end + 3;
+    } else if (xml.startsWith('<!', lt)) {
+      throw new XmlParseError('Document type declarations are not supported');
+    } else if (xml[lt + 1] === '/') {
+      const end = xml.indexOf('>', lt);
+      if (end === -1) throw new XmlParseError('Unterminated end tag');
+      const qname = xml.slice(lt + 2, end).trim();
+      const open = stack.pop();
+      if (!open || open.qname !== qname) {
+        throw new XmlParseError(`Unexpected end tag </${qname}>`);
+      }
+      pos = end + 1;
+    } else {
+      const end = findTagEnd(xml, lt + 1);
+      if (end === -1) throw new XmlParseError('Unterminated start tag');
+      const selfClosing = xml[end - 1] === '/';
+      const content = xml.slice(lt + 1, selfClosing ? end - 1 : end);
+      const qnameMatch = content.match(/^[^\s/>]+/);
+      if (!qnameMatch) throw new XmlParseError('Missing element name');
+      const qname = qnameMatch[0];
+
+      const attributes: Record<string, string> = {};
+      const attrRegex = /([^\s=]+)\s*=\s*("([^"]*)"|'([^']*)')/g;
+      let attrMatch;
+      while ((attrMatch = attrRegex.exec(content.slice(qname.length))) !== null) {
+        attributes[attrMatch[1]] = decodeEntities(attrMatch[3] ?? attrMatch[4] ?? '');
+      }
+
+      // Namespace declarations apply to the element itself and its descendants
+      const parent = stack[stack.length - 1];
+      const namespaces = new Map(parent ? parent.namespaces : []);
+      for (const [attr, value] of Object.entries(attributes)) {
+        if (attr === 'xmlns') namespaces.set('', value);
+        else if (attr.startsWith('xmlns:')) namespaces.set(attr.slice(6), value);
+      }
+
+      const { prefix, name } = splitQName(qname);
+      const element: XmlElement = {
+        name,
+        prefix,
+        namespace: namespaces.get(prefix) ?? '',
+        attributes,
+        children: [],
+        text: '',
+      };
+
+      if (parent) {
+        parent.element.children.push(element);
+      } else if (root) {
+        throw new XmlParseError('Multiple root elements');
+      } else {
+        root = element;
+      }
+
+      if (!selfClosing) {
+        stack.push({ qname, element, namespaces });
+      }
+      pos = end + 1;
+    }
+  }
+
+  if (stack.length > 0) {
+    throw new XmlParseError(`Unclosed element <${stack[stack.length - 1].qname}>`);
+  }
+  if (!root) {
+    throw new XmlParseError('Empty document');
+  }
+  return root;
+}
+
+// Element lookups match the local name only, Homebriefing isn't consistent with prefixes
+function matches(el: XmlElement, name: string): boolean {
+  return el.name.toLowerCase() === name.toLowerCase();
+}
+
+// First descendant with the given local name (depth-first, document order)
+export function findElement(el: XmlElement, name: string): XmlElement | undefined {
+  recordLookup(name);
+  for (const child of el.children) {
+    if (matches(child, name)) return child;
+    const found = findElement(child, name);
+    if (found) return found;
+  }
+  return undefined;
+}
+
+// All descendants with the given local name, not descending into matches
+export function findElements(el: XmlElement, name: string): XmlElement[] {
+  recordLookup(name);
+  const result: XmlElement[] = [];
+  for (const child of el.children) {
+    if (matches(child, name)) {
+      result.push(child);
+    } else {
+      result.push(...findElements(child, name));
+    }
+  }
+  return result;
+}
@@ -4,7 +4,9 @@ export interface HomebriefingSession {
   cookies: string;          // Full cookie string (all cookies)
   token: string;            // X-AisWeb-Token header
   userSession: string;      // UserSession for SOAP calls
+  username: string;         // Homebriefing user name, owner of drafts
   expiresAt: number;        // Timestamp when session expires
+  validatedAt?: number;     // Last time the keep-alive found the Homebriefing session alive
 }
 
 export interface FlightPlan {
@@ -12,12 +14,14 @@ export interface FlightPlan {
   arcid: string;            // Aircraft registration
   flRules: string;          // V=VFR, I=IFR, Y/Z=mixed
   flType: string;           // G=General, S=Scheduled, etc.
+  arcNum?: string;          // Number of aircraft (formation flights)
   arcType: string;          // Aircraft type ICAO code
   wakeTurbulenceCat: string;// L=Light, M=Medium, H=Heavy
   equipment: string;        // NAV/COM equipment
   adep: string;             // Departure airport ICAO
   ades: string;             // Destination airport ICAO
   adAltn1?: string;         // Alternate airport
+  adAltn2?: string;         // 2nd alternate airport
   eobdt: string;            // Off-block datetime
   flSpeed: string;          // Speed (e.g., N0105)
   flLevel: string;          // Cruise level
@@ -28,6 +32,7 @@ export interface FlightPlan {
   flStatusCode: number;     // Status code
   flStatusStr: string;      // Status text
   flCanDo: number;          // Actions bitmask
+  ctot?: string;            // Calculated take-off time, when the flight has an ATFM slot
 }
 
 export interface FlightPlanListResponse {
@@ -37,6 +42,7 @@ export interface FlightPlanListResponse {
   totalPages: number;
   currentPage: number;
   flightPlans: FlightPlan[];
+  errorMessage?: string;     // SOAP Fault message
 }
 
 export interface LoginInitResult {
@@ -44,6 +50,13 @@ export interface LoginInitResult {
   captchaUrl: string;       // URL to fetch captcha (proxied)
 }
 
+export interface AuthCheckResponse {
+  authenticated: boolean;
+  expiresAt?: number;        // When our session ends unless it's used again
+  remainingSeconds?: number;
+  validatedAt?: number;      // Last time the keep-alive reached Homebriefing with it
+}
+
 export interface FlightMessage {
   flMsgId: number;
   isIncome: boolean;          // true = incoming message, false = outgoing
@@ -64,6 +77,128 @@ export interface FlightMessagesResponse {
   sessionExpired?: boolean;
   msgCount: number;
   messages: FlightMessage[];
+  errorMessage?: string;     // SOAP Fault message
+}
+
+// Change to a current flight plan found by the server-side status poller
+export interface FlightStatusChange {
+  flId: number;
+  arcid: string;
+  kind: 'added' | 'removed' | 'changed';
+  flStatusCode: number;
+  flCanDo: number;
+  msgCount: number;
+  airborne: boolean;        // Latest status message is an acknowledged DEP
+  newMessages: boolean;     // Messages (ACK, REJ, DEP, ...) arrived since the last round
+}
+
+// Server-Sent Event of /api/flight-plans/stream, `type` is the event name
+export type FlightStatusEvent =
+  | { type: 'snapshot'; flights: Omit<FlightStatusChange, 'kind' | 'newMessages'>[] }  // Where the flights stand, to a new listener
+  | { type: 'changes'; changes: FlightStatusChange[] }
+  | { type: 'expired' };    // The session is gone, the stream ends
+
+// The flight a notification is about
+export interface NotifiedFlight {
+  flId: number;
+  arcid: string;
+  adep: string;
+  ades: string;
+  eobdt: string;
+  totalEet: number;
+}
+
+// Sent by Web Push and as the JSON body of webhooks
+export type FlightNotification =
+  | { type: 'message'; flight: NotifiedFlight; message: FlightMessage }     // ACK, REJ, DLA, CNL or DEP
+  | { type: 'arrival-overdue'; flight: NotifiedFlight; arrivalDue: string } // EOBT + EET passed without ARR
+  | { type: 'arrival-reminder'; flight: NotifiedFlight; arrivalDue: string; minutesOverdue: number; landedUrl: string }; // Safety timer
+
+// PushSubscription.toJSON() from the browser, keys are base64url
+export interface PushSubscriptionData {
+  endpoint: string;
+  keys: {
+    p256dh: string;
+    auth: string;
+  };
+}
+
+export interface Webhook {
+  webhookId: string;
+  url: string;
+  secret?: string;            // Signs the body, X-Homebriefing-Signature: sha256=<hex HMAC>
+}
+
+export type SafetyTimerChannel = 'push' | 'email' | 'webhook';
+
+// SAR safety timer: reminders to close a VFR flight plan after ETA
+export interface SafetyTimerSettings {
+  enabled: boolean;
+  channels: SafetyTimerChannel[];
+  email?: string;             // For the email channel
+}
+
+// Where the notifications of a Homebriefing user go
+export interface NotificationSettingsData {
+  pushSubscriptions: PushSubscriptionData[];
+  webhooks: Webhook[];
+  safetyTimer?: SafetyTimerSettings;   // Off when missing
+}
+
+export interface NotificationSettings extends NotificationSettingsData {
+  updatedAt: number;
+}
+
+export interface NotificationSettingsResponse {
+  settings: NotificationSettingsData;
+  vapidPublicKey: string;     // applicationServerKey for PushManager.subscribe()
+  emailAvailable: boolean;    // An SMTP relay is configured
+}
+
+export interface SafetyTimerLogEntry {
+  at: number;
+  event: 'reminder' | 'acknowledged' | 'closed';   // closed: an ARR showed up in the messages
+  minutesOverdue?: number;    // Reminders
+  channels?: string[];        // Reminders: where it was delivered
+  detail?: string;            // Failures, or the ARR time of an acknowledgement
+}
+
+// Safety timer of one flight, created with its first reminder
+export interface SafetyTimer {
+  flight: NotifiedFlight;
+  token: string;              // Of the "I have landed" link
+  remindersSent: number[];    // Minutes after ETA
+  closedAt?: number;
+  log: SafetyTimerLogEntry[];
+  updatedAt: number;
+}
+
+export interface SafetyTimerListResponse {
+  timers: SafetyTimer[];
+}
+
+// What the "I have landed" page shows, without the token holder being signed in
+export interface LandedLinkResponse {
+  flight: NotifiedFlight;
+  arrivalDue: string;
+  closedAt?: number;
+}
+
+// ATFM regulation that affects a flight (GetERegulationByFlId)
+export interface AtfmRegulation {
+  regId: string;            // Regulation ID, e.g. EHAMA20A
+  location: string;         // Regulated aerodrome or traffic volume
+  reason?: string;          // Cause code, e.g. W=weather, G=aerodrome capacity
+  validFrom?: string;       // Start of the regulation (UTC)
+  validTo?: string;         // End of the regulation (UTC)
+  description?: string;     // Free text from the flow management position
+}
+
+export interface RegulationListResponse {
+  isError: boolean;
+  sessionExpired?: boolean;
+  regulations: AtfmRegulation[];
+  errorMessage?: string;     // SOAP Fault message
 }
 
 export interface FlightPlanFilters {
@@ -77,6 +212,8 @@ export interface FlightPlanFilters {
   orderColumn?: string;
   orderType?: 'ASC' | 'DESC';
   numHoursAfterETA?: number; // For current flight plans (default 3)
+  dateFrom?: string;        // Archive only: EOBT from this UTC date (YYYY-MM-DD) on
+  dateTo?: string;          // Archive only: EOBT up to and including this UTC date
 }
 
 // Flight plan submission/validation types
@@ -102,18 +239,108 @@ export interface FlightPlanFormData {
   pilotTel?: string;          // Pilot telephone number
 }
 
+// Structured Field 18, as edited in the Field 18 modal
+export interface Field18Data {
+  sts: string[];
+  pbn: string[];
+  per: string;
+  eurProtected: boolean;
+  rfp: string;
+  stayInfo: string[];  // STAYINFO1-9
+  textFields: Record<string, string>;
+}
+
+// Field 19 Supplementary Information data structure
+export interface Field19Data {
+  endurance: string;      // E/ HHMM
+  persons: string;        // P/ 3 digits or TBN
+  radioUhf: boolean;      // R/ U
+  radioVhf: boolean;      // R/ V
+  radioElba: boolean;     // R/ E
+  survivalPolar: boolean; // S/ P
+  survivalDesert: boolean;// S/ D
+  survivalMaritime: boolean; // S/ M
+  survivalJungle: boolean;// S/ J
+  jacketsLight: boolean;  // J/ L
+  jacketsFluores: boolean;// J/ F
+  jacketsUhf: boolean;    // J/ U
+  jacketsVhf: boolean;    // J/ V
+  dinghiesEnabled: boolean;
+  dinghiesNumber: string; // D/ number
+  dinghiesCapacity: string; // capacity
+  dinghiesCover: boolean; // C
+  dinghiesColour: string; // colour
+  aircraftColour: string; // A/
+  remarks: string;        // N/ remarks
+  pilotInCommand: string; // C/
+}
+
+// Unsent flight plan form, autosaved per Homebriefing user
+export interface FlightPlanDraftData {
+  modifyFlId?: number;        // Set when the draft is a CHG of a filed plan
+  formData: FlightPlanFormData;  // eobdt in datetime-local format, as in the form
+  field18: Field18Data;
+  field19: Field19Data;
+}
+
+export interface FlightPlanDraft extends FlightPlanDraftData {
+  draftId: string;
+  updatedAt: number;
+}
+
+export interface FlightPlanDraftListResponse {
+  drafts: FlightPlanDraft[];
+}
+
+// Aircraft-specific flight plan fields, stored per Homebriefing user and registration
+export interface AircraftProfileData {
+  arcid: string;              // Registration, the key of the profile
+  arcType: string;
+  wakeTurbulenceCat: FlightPlanFormData['wakeTurbulenceCat'];
+  equipment: string;          // Field 10, e.g. "SDFGY/S"
+  flSpeed: string;            // Usual cruising speed, e.g. N0105
+  pbn: string[];              // Field 18 PBN/
+  code?: string;              // Field 18 CODE/, 24-bit aircraft address in hex
+  field19: Omit<Field19Data, 'persons' | 'remarks' | 'pilotInCommand'>;  // Those change per flight
+}
+
+export interface AircraftProfile extends AircraftProfileData {
+  updatedAt: number;
+}
+
+export interface AircraftProfileListResponse {
+  aircraft: AircraftProfile[];
+}
+
+export interface AircraftImportResponse {
+  isError: boolean;
+  sessionExpired?: boolean;
+  errorMessage?: string;
+  aircraft: AircraftProfile[];    // All profiles after the import
+  imported: string[];             // Registrations added from Homebriefing
+}
+
 export interface FieldError {
   field: string;      // Field name (e.g., 'ARCID', 'ADEP', 'FlRoute')
   message: string;    // Error message
 }
 
+// Checks of our own on top of Homebriefing's validation, they don't block filing
+export interface FieldWarning {
+  field: string;      // Field code, as in FieldError
+  message: string;
+  suggestions?: string[];  // Field 18 entries that resolve the warning, e.g. "RMK/NIGHT VFR APPROVED"
+}
+
 export interface FlightPlanValidationResponse {
   isError: boolean;
   sessionExpired?: boolean;
   fplIsOk: boolean;
   errorMessages?: string[];
   fieldErrors?: FieldError[];  // Field-specific validation errors
+  warnings?: FieldWarning[];
   rawResponse?: string;        // For debugging
+  errorMessage?: string;       // SOAP Fault message
 }
 
 export interface FlightPlanSubmitResponse {
@@ -134,6 +361,7 @@ export interface FlightPlanTemplateListResponse {
   sessionExpired?: boolean;
   count: number;
   templates: FlightPlanTemplateListItem[];
+  errorMessage?: string;     // SOAP Fault message
 }
 
 export interface FlightPlanTemplateData {
@@ -179,6 +407,7 @@ export interface FlightPlanTemplateResponse {
   sessionExpired?: boolean;
   found: boolean;
   template?: FlightPlanTemplateData;
+  errorMessage?: string;     // SOAP Fault message
 }
 
 export interface SaveTemplateRequest {
@@ -217,7 +446,39 @@ export interface DeleteTemplateResponse {
   errorMessage?: string;
 }
 
-// Flight plan action responses (DLA, CNL)
+// Flight plan modification (CHG) - only the fields that differ from the filed plan
+export interface FlightPlanChanges {
+  flRules?: string;
+  flType?: string;
+  arcNum?: string;
+  arcType?: string;
+  wakeTurbulenceCat?: string;
+  equipment?: string;
+  eobt?: string;              // New EOBT in HHMM format
+  flSpeed?: string;
+  flLevel?: string;
+  flRoute?: string;
+  adAltn1?: string;
+  adAltn2?: string;
+  totalEet?: number;          // Minutes
+  flOther?: string;
+  flSuplementary?: string;
+}
+
+// ICAO message preview, rendered server-side before anything is sent
+export type MessagePreviewRequest =
+  | { type: 'FPL'; formData: FlightPlanFormData }
+  | { type: 'CHG'; flId: number; formData: FlightPlanFormData }
+  | { type: 'DLA'; flId: number; newEobt: string }
+  | { type: 'CNL'; flId: number }
+  | { type: 'DEP'; flId: number; departureTime: string }
+  | { type: 'ARR'; flId: number; arrivalTime: string; arrivalAerodrome?: string; arrivalAerodromeName?: string };
+
+export interface MessagePreviewResponse {
+  message: string;            // Multi-line ICAO message text
+}
+
+// Flight plan action responses (DLA, CNL, DEP, ARR, CHG)
 export interface FlightPlanActionResponse {
   isError: boolean;
   sessionExpired?: boolean;
@@ -225,3 +486,234 @@ export interface FlightPlanActionResponse {
   msgSent?: boolean;
   errorMessage?: string;
 }
+
+// Pre-flight briefing
+
+// What a briefed location is to the flight
+export type BriefingRole = 'departure' | 'destination' | 'alternate' | 'route';
+
+// Flight the briefing is for, from the form or a filed plan
+export interface BriefingRequest {
+  adep: string;
+  ades: string;
+  adAltn1?: string;
+  adAltn2?: string;
+  eobdt: string;              // "YYYY-MM-DD HH:mm" or ISO, UTC
+  totalEet: number;           // Minutes
+  arcid?: string;
+  flRules?: string;
+  flSpeed?: string;
+  flLevel?: string;
+  flRoute?: string;           // Without a route only the aerodromes are briefed
+  flOther?: string;           // Field 18, places ZZZZ aerodromes (DEP/, DEST/, ALTN/)
+}
+
+export type NotamValidity =
+  | 'flight'      // In force at some point between EOBT and ETA
+  | 'permanent'   // C) PERM
+  | 'other';      // Outside the flight window
+
+export interface Notam {
+  id: string;                 // NOTAM number, e.g. "A1234/26"
+  status?: string;            // Homebriefing status, e.g. "NEW"
+  location: string;           // Item A) (aerodrome or FIR)
+  validFrom?: string;         // Item B) as ISO string
+  validTo?: string;           // Item C) as ISO string, missing when permanent
+  permanent: boolean;
+  estimated: boolean;         // Item C) ends with EST
+  schedule?: string;          // Item D)
+  text: string;               // Item E), or the whole NOTAM when it has no items
+  raw: string;                // Full NOTAM text
+  validity: NotamValidity;
+}
+
+export interface NotamGroup {
+  location: string;           // Aerodrome ICAO code, '' for the route corridor
+  roles: BriefingRole[];
+  notams: Notam[];
+  errorMessage?: string;      // This part of the briefing could not be loaded
+}
+
+export interface NotamBriefingResponse {
+  isError: boolean;
+  sessionExpired?: boolean;
+  errorMessage?: string;
+  flightFrom: string;         // EOBT as ISO string
+  flightTo: string;           // ETA as ISO string
+  groups: NotamGroup[];
+}
+
+export interface MetCloud {
+  cover: string;              // FEW, SCT, BKN, OVC or VV (vertical visibility)
+  height?: number;            // Feet above the aerodrome, missing when reported as ///
+  type?: string;              // CB or TCU
+}
+
+export interface MetWind {
+  direction?: number;         // Degrees true, missing when variable
+  variable: boolean;
+  speed: number;
+  gust?: number;
+  unit: 'KT' | 'MPS';
+}
+
+// Conditions reported in a METAR or forecast in a TAF period
+export interface MetConditions {
+  wind?: MetWind;
+  visibility?: number;        // Metres, 9999 is 10 km or more
+  cavok: boolean;
+  weather: string[];          // Present/forecast weather, e.g. "-RA", "BR", "TSRA"
+  clouds: MetCloud[];
+  ceiling?: number;           // Lowest BKN/OVC layer or vertical visibility, feet
+}
+
+export interface DecodedMetar extends MetConditions {
+  station: string;
+  observed?: string;          // ISO string
+  temperature?: number;       // Degrees Celsius
+  dewpoint?: number;
+  qnh?: number;               // hPa
+}
+
+export interface TafPeriod extends MetConditions {
+  change: 'BASE' | 'FM' | 'BECMG' | 'TEMPO' | 'PROB';
+  probability?: number;       // PROB30/PROB40, also set for PROB30 TEMPO
+  tempo: boolean;             // TEMPO, on its own or after PROB
+  from?: string;              // ISO string
+  to?: string;
+}
+
+export interface DecodedTaf {
+  station: string;
+  issued?: string;            // ISO string
+  validFrom?: string;
+  validTo?: string;
+  periods: TafPeriod[];
+}
+
+export interface MetReport {
+  location: string;
+  roles: BriefingRole[];
+  metar?: string;             // Latest METAR as received
+  decodedMetar?: DecodedMetar;
+  taf?: string;               // Latest TAF as received
+  decodedTaf?: DecodedTaf;
+  synop: string[];            // Latest SYNOP of the aerodrome's station, when it has one
+  vfrWarnings: string[];      // Conditions below VFR minima for this flight
+  errorMessage?: string;      // This part of the briefing could not be loaded
+}
+
+export interface MetBriefingResponse {
+  isError: boolean;
+  sessionExpired?: boolean;
+  errorMessage?: string;
+  reports: MetReport[];
+}
+
+// GetMetMsg / GetSynopMsg: message texts (MetMsg)
+export interface MetMessagesResponse {
+  isError: boolean;
+  sessionExpired?: boolean;
+  errorMessage?: string;
+  messages: string[];
+}
+
+export interface SynopStation {
+  icaoCode?: string;          // Aerodrome the station belongs to
+  wmoCode: string;            // WMO station number, e.g. "06260"
+  name: string;
+}
+
+export interface SynopStationListResponse {
+  isError: boolean;
+  sessionExpired?: boolean;
+  errorMessage?: string;
+  stations: SynopStation[];
+}
+
+// Point of the route map, in flying order
+export interface RouteMapPoint {
+  name: string;               // Aerodrome indicator, point name or the route element as written
+  kind: 'aerodrome' | 'point';
+  lat: number;                // Decimal degrees
+  lng: number;
+  roles?: BriefingRole[];     // Aerodromes only
+  index?: number;             // Position of the element in the route (route points only)
+}
+
+export interface RouteMapResponse {
+  isError: boolean;
+  sessionExpired?: boolean;
+  errorMessage?: string;
+  points: RouteMapPoint[];        // Departure, route points, destination
+  alternates: RouteMapPoint[];
+  unresolved: string[];           // Points (and ZZZZ aerodromes) that couldn't be placed
+}
+
+// EET calculation (/api/briefing/eet): a route map request plus the wind
+export interface EetRequest extends BriefingRequest {
+  headwind?: number;          // Knots, negative for a tailwind
+}
+
+export interface EetLeg {
+  from: string;
+  to: string;
+  distance: number;           // NM, great circle
+  track: number;              // Degrees true at the start of the leg
+  groundSpeed: number;        // Knots
+  minutes: number;            // Not rounded
+}
+
+// Accumulated EET from take-off to where the flight enters a FIR
+export interface FirBoundaryEet {
+  fir: string;
+  eet: number;                // Minutes
+}
+
+export interface EetResponse {
+  isError: boolean;
+  sessionExpired?: boolean;
+  errorMessage?: string;
+  legs: EetLeg[];
+  totalEet?: number;          // Minutes, rounded up
+  firEets: FirBoundaryEet[];
+  field18Eet?: string;        // EET/ entry, e.g. "EBBU0025 EHAA0040"
+  warnings: string[];
+}
+
+// Aerodrome from the bundled database (/api/aerodromes)
+export interface Aerodrome {
+  icao?: string;              // Missing for aerodromes without an ICAO indicator (ZZZZ)
+  name: string;
+  lat: number;                // Decimal degrees
+  lng: number;
+  elevation: number;          // Feet AMSL
+  country: string;            // ISO 3166 code
+  fir: string;                // FIR the aerodrome lies in, e.g. EHAA
+}
+
+export interface AerodromeSearchResponse {
+  aerodromes: Aerodrome[];
+}
+
+// Sun times on one UTC day (ISO strings), missing when the sun doesn't rise or set
+export interface SunTimes {
+  civilDawn?: string;         // Sun 6° below the horizon, start of civil twilight
+  sunrise?: string;
+  sunset?: string;
+  civilDusk?: string;         // End of civil twilight
+}
+
+export interface AerodromeSunTimes extends SunTimes {
+  location: string;
+  roles: BriefingRole[];
+  date: string;               // UTC day, "YYYY-MM-DD"
+}
+
+// generatePdf: the PDF as base64
+export interface PdfResponse {
+  isError: boolean;
+  sessionExpired?: boolean;
+  errorMessage?: string;
+  pdf: string;
+}